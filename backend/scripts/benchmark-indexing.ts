@@ -0,0 +1,107 @@
+import { Document, ProcessedDocument } from '../src/models/document';
+import { Indexer } from '../src/services/indexer';
+import { TextProcessor } from '../src/services/text-processor';
+
+/**
+ * Benchmark of indexing throughput as the index grows
+ * Run with: npm run benchmark:indexing -- [documents] [batch]
+ *
+ * Indexes synthetic documents in batches and re-indexes a share of earlier documents in
+ * each batch, as a collection cycle does when scores and comment counts change. Reports
+ * the indexing rate of every batch; it should stay about level as the index grows.
+ * Text analysis happens before the clock starts, so only the index is measured.
+ */
+
+const documentCount = Number(process.argv[2] ?? 50000);
+const batchSize = Number(process.argv[3] ?? 5000);
+const vocabularySize = 20000;
+const wordsPerDocument = 60;
+const updateShare = 0.2; // re-indexed earlier documents per new document
+
+// Deterministic pseudo-random numbers so runs are comparable
+let seed = 42;
+function random(): number {
+  seed = (seed * 1103515245 + 12345) % 2147483648;
+  return seed / 2147483648;
+}
+
+// Letters only, so the analyzer keeps each word as a single token
+function word(rank: number): string {
+  let text = '';
+  do {
+    text = String.fromCharCode(97 + (rank % 26)) + text;
+    rank = Math.floor(rank / 26);
+  } while (rank > 0);
+  return `zq${text}`;
+}
+
+function randomText(words: number): string {
+  return Array.from({ length: words }, () => word(Math.floor(random() * vocabularySize))).join(' ');
+}
+
+function createDocument(i: number): Document {
+  return {
+    id: `doc${String(i).padStart(7, '0')}`,
+    type: 'post',
+    title: randomText(8),
+    content: randomText(wordsPerDocument),
+    url: `https://reddit.com/r/benchmark/${i}`,
+    author: `user${i % 500}`,
+    subreddit: 'benchmark',
+    redditScore: Math.floor(random() * 1000),
+    commentCount: Math.floor(random() * 200),
+    createdUtc: new Date(Date.now() - random() * 365 * 24 * 60 * 60 * 1000),
+    collectedAt: new Date(),
+    processed: true,
+  };
+}
+
+async function benchmark(): Promise<void> {
+  const textProcessor = new TextProcessor();
+  const indexer = new Indexer({ autoPersist: false });
+
+  console.log(`Indexing ${documentCount} documents in batches of ${batchSize}\n`);
+  console.log('indexed    batch (ms)   docs/s   segments   deleted');
+
+  for (let start = 0; start < documentCount; start += batchSize) {
+    const end = Math.min(documentCount, start + batchSize);
+    const batch: ProcessedDocument[] = [];
+    for (let i = start; i < end; i++) {
+      batch.push(textProcessor.processDocument(createDocument(i)));
+      if (start > 0 && random() < updateShare) {
+        batch.push(textProcessor.processDocument(createDocument(Math.floor(random() * start))));
+      }
+    }
+
+    const begin = process.hrtime.bigint();
+    for (const document of batch) {
+      indexer.indexDocument(document);
+    }
+    // Give background merges a turn, as they get between collection cycles
+    await new Promise((resolve) => setImmediate(resolve));
+    const ms = Number(process.hrtime.bigint() - begin) / 1e6;
+
+    const stats = indexer.getStats();
+    console.log(
+      [
+        String(end).padStart(7),
+        ms.toFixed(0).padStart(13),
+        String(Math.round((batch.length / ms) * 1000)).padStart(8),
+        String(stats.segments).padStart(10),
+        String(stats.deletedDocuments).padStart(9),
+      ].join(' ')
+    );
+  }
+
+  if (indexer.getTotalDocuments() !== documentCount) {
+    throw new Error(
+      `Expected ${documentCount} documents, the index holds ${indexer.getTotalDocuments()}`
+    );
+  }
+  console.log(`\n${documentCount} documents indexed.`);
+}
+
+benchmark().catch((error) => {
+  console.error('Benchmark failed:', error);
+  process.exit(1);
+});
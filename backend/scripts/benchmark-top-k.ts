@@ -0,0 +1,154 @@
+import { Document } from '../src/models/document';
+import { DocumentStore } from '../src/services/document-store';
+import { Indexer } from '../src/services/indexer';
+import { Ranker } from '../src/services/ranker';
+import { TextProcessor } from '../src/services/text-processor';
+
+/**
+ * Benchmark of top-k retrieval against ranking every matching document
+ * Run with: npm run benchmark:top-k -- [documents] [k]
+ *
+ * Indexes synthetic documents whose words follow a Zipf distribution, so common
+ * words match a large share of the corpus, then ranks the same queries both ways,
+ * checks that the top k agree and reports the time per query.
+ */
+
+const documentCount = Number(process.argv[2] ?? 5000);
+const k = Number(process.argv[3] ?? 10);
+const vocabularySize = 5000;
+const wordsPerDocument = 60;
+const runs = 20;
+
+// Queries as word ranks: 0 is the most common word
+const queries = [[0], [0, 1], [2, 40], [1, 5, 200], [10, 1000], [3, 4, 6, 7]];
+
+// Deterministic pseudo-random numbers so runs are comparable
+let seed = 42;
+function random(): number {
+  seed = (seed * 1103515245 + 12345) % 2147483648;
+  return seed / 2147483648;
+}
+
+// Cumulative Zipf weights for drawing word ranks
+const cumulative: number[] = [];
+let total = 0;
+for (let rank = 1; rank <= vocabularySize; rank++) {
+  total += 1 / rank;
+  cumulative.push(total);
+}
+
+function randomWord(): string {
+  const target = random() * total;
+  let low = 0;
+  let high = cumulative.length - 1;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (cumulative[mid] < target) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return word(low);
+}
+
+// Letters only, so the analyzer keeps each word as a single token
+function word(rank: number): string {
+  let text = '';
+  do {
+    text = String.fromCharCode(97 + (rank % 26)) + text;
+    rank = Math.floor(rank / 26);
+  } while (rank > 0);
+  return `zq${text}`;
+}
+
+function randomText(words: number): string {
+  return Array.from({ length: words }, randomWord).join(' ');
+}
+
+function time(fn: () => void): number {
+  const start = process.hrtime.bigint();
+  for (let i = 0; i < runs; i++) {
+    fn();
+  }
+  return Number(process.hrtime.bigint() - start) / 1e6 / runs;
+}
+
+async function benchmark(): Promise<void> {
+  console.log(`Indexing ${documentCount} documents...`);
+
+  const textProcessor = new TextProcessor();
+  const indexer = new Indexer({ autoPersist: false });
+  const documentStore = new DocumentStore();
+
+  for (let i = 0; i < documentCount; i++) {
+    const doc: Document = {
+      id: `doc${String(i).padStart(7, '0')}`,
+      type: 'post',
+      title: randomText(8),
+      content: randomText(wordsPerDocument),
+      url: `https://reddit.com/r/benchmark/${i}`,
+      author: `user${i % 500}`,
+      subreddit: 'benchmark',
+      redditScore: Math.floor(random() * 1000),
+      commentCount: Math.floor(random() * 200),
+      createdUtc: new Date(Date.now() - random() * 365 * 24 * 60 * 60 * 1000),
+      collectedAt: new Date(),
+      processed: true,
+    };
+    await documentStore.store(doc);
+    indexer.indexDocument(textProcessor.processDocument(doc));
+  }
+
+  const ranker = new Ranker({}, indexer, documentStore);
+
+  console.log(`\nk = ${k}, mean of ${runs} runs\n`);
+  console.log('word ranks         matches   full (ms)   top-k (ms)   scored   speedup');
+
+  for (const ranks of queries) {
+    const terms = ranks.flatMap((rank) => textProcessor.analyze(word(rank)).map((t) => t.stem));
+    const matches = Array.from(
+      new Set(terms.flatMap((term) => indexer.getPostings(term).map((p) => p.docId)))
+    );
+
+    // First run computes term upper bounds; they are cached until the index changes
+    ranker.rankTopK(terms, k);
+
+    let full = ranker.rankDocuments(terms, matches).slice(0, k);
+    let topK = ranker.rankTopK(terms, k);
+    const fullMs = time(() => {
+      full = ranker.rankDocuments(terms, matches).slice(0, k);
+    });
+    const topKMs = time(() => {
+      topK = ranker.rankTopK(terms, k);
+    });
+
+    const same =
+      full.length === topK.documents.length &&
+      full.every((doc, i) => doc.docId === topK.documents[i].docId);
+    if (!same) {
+      throw new Error(`Top-k results differ from full ranking for "${terms.join(' ')}"`);
+    }
+
+    console.log(
+      [
+        ranks
+          .map((rank) => `#${rank}`)
+          .join(' ')
+          .padEnd(16),
+        String(matches.length).padStart(9),
+        fullMs.toFixed(2).padStart(11),
+        topKMs.toFixed(2).padStart(12),
+        String(topK.scoredCount).padStart(8),
+        `${(fullMs / topKMs).toFixed(1)}x`.padStart(9),
+      ].join(' ')
+    );
+  }
+
+  console.log('\nTop-k results match full ranking for every query.');
+}
+
+benchmark().catch((error) => {
+  console.error('Benchmark failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,51 @@
+import * as fs from 'fs/promises';
+import { assembleIndex } from '../src/models/index';
+import { loadIndexFile, readIndexFile, writeIndexFile } from '../src/services/index-file';
+
+/**
+ * Converts a JSON index file to the binary index format
+ * Run with: npm run convert:index -- <input.json> [output.bin]
+ *
+ * The output defaults to the input path with a .bin extension. The written file is read
+ * back and compared with the input before the sizes are reported; the input is kept.
+ */
+
+async function convert(): Promise<void> {
+  const input = process.argv[2];
+  if (!input) {
+    console.error('Usage: npm run convert:index -- <input.json> [output.bin]');
+    process.exit(1);
+  }
+  const output = process.argv[3] ?? input.replace(/(\.json)?$/, '.bin');
+
+  const start = Date.now();
+  const { index, format } = await loadIndexFile(input);
+  if (format === 'binary') {
+    console.error(`${input} is already in the binary format`);
+    process.exit(1);
+  }
+  await writeIndexFile(output, index);
+
+  const loaded = assembleIndex(await readIndexFile(output));
+  const terms = (segments: typeof index.segments) =>
+    segments.reduce((sum, segment) => sum + segment.termToPostings.size, 0);
+  if (
+    loaded.totalDocuments !== index.totalDocuments ||
+    loaded.segments.length !== index.segments.length ||
+    terms(loaded.segments) !== terms(index.segments)
+  ) {
+    throw new Error(`${output} does not match ${input}`);
+  }
+
+  const [inputStat, outputStat] = await Promise.all([fs.stat(input), fs.stat(output)]);
+  console.log(`Converted ${index.totalDocuments} documents in ${Date.now() - start} ms`);
+  console.log(`  ${input}: ${(inputStat.size / 1024).toFixed(1)} KiB`);
+  console.log(
+    `  ${output}: ${(outputStat.size / 1024).toFixed(1)} KiB (${((outputStat.size / inputStat.size) * 100).toFixed(1)}%)`
+  );
+}
+
+convert().catch((error) => {
+  console.error('Conversion failed:', error);
+  process.exit(1);
+});
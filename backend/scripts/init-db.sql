@@ -32,6 +32,7 @@ CREATE TABLE IF NOT EXISTS documents (
     created_utc TIMESTAMP NOT NULL,
     collected_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
     processed BOOLEAN NOT NULL DEFAULT FALSE,
+    language VARCHAR(8),
     created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
 );
@@ -43,6 +44,7 @@ CREATE INDEX IF NOT EXISTS idx_documents_created_utc ON documents(created_utc DE
 CREATE INDEX IF NOT EXISTS idx_documents_reddit_score ON documents(reddit_score DESC);
 CREATE INDEX IF NOT EXISTS idx_documents_type ON documents(type);
 CREATE INDEX IF NOT EXISTS idx_documents_processed ON documents(processed);
+CREATE INDEX IF NOT EXISTS idx_documents_language ON documents(language);
 CREATE INDEX IF NOT EXISTS idx_documents_collected_at ON documents(collected_at DESC);
 
 -- Full-text search index
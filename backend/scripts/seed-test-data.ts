@@ -126,7 +126,7 @@ async function seedTestData() {
   // Initialize services
   const textProcessor = new TextProcessor();
   const indexer = new Indexer({
-    indexPath: './data/index.json',
+    indexPath: './data/index.bin',
     autoPersist: false,
   });
   const documentStore = new DocumentStore({
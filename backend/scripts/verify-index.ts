@@ -0,0 +1,81 @@
+import * as path from 'path';
+import { loadConfig } from '../src/config';
+import { DocumentStore } from '../src/services/document-store';
+import { Indexer } from '../src/services/indexer';
+import { IndexVerifier } from '../src/services/index-verifier';
+import { SynonymService } from '../src/services/synonyms';
+import { TextProcessor } from '../src/services/text-processor';
+
+/**
+ * Verifies the saved index against its invariants and the saved documents
+ * Run with: npm run verify:index -- [data-dir] [--repair]
+ *
+ * The data directory defaults to DATA_DIR. With --repair, damaged and missing documents are
+ * indexed again, orphans removed and the index saved. Stop the server first: it keeps its
+ * own copy in memory and overwrites the files on shutdown; use
+ * POST /api/v1/admin/index/verify on a running server instead. Exits with 1 if problems
+ * remain.
+ */
+
+async function verify(): Promise<void> {
+  const args = process.argv.slice(2);
+  const repair = args.includes('--repair');
+  const config = loadConfig();
+  const dataDir = args.find((arg) => !arg.startsWith('--')) ?? config.storage.dataDir;
+
+  // Only a repair writes to the index, through its write-ahead log
+  const indexer = new Indexer({ indexPath: path.join(dataDir, 'index.bin'), autoPersist: repair });
+  const documentStore = new DocumentStore({ storePath: path.join(dataDir, 'documents.json') });
+  await Promise.all([indexer.load(), documentStore.load()]);
+
+  // Documents are reindexed the way the server indexes them
+  const analysis = indexer.getAnalysisSettings();
+  const textProcessor = new TextProcessor(analysis ? { analysis } : {});
+  if (config.search.indexSynonyms) {
+    const synonymService = new SynonymService(
+      { synonymsPath: config.search.synonymsPath },
+      textProcessor
+    );
+    await synonymService.load();
+    textProcessor.setIndexSynonyms(synonymService);
+  }
+
+  const report = new IndexVerifier({}, indexer, documentStore, textProcessor).verify(repair);
+  console.log(
+    `Verified ${report.indexedDocuments} indexed and ${report.storedDocuments} stored documents in ${dataDir}`
+  );
+  for (const error of report.errors) {
+    console.log(`  error: ${error}`);
+  }
+  for (const [name, problem] of Object.entries({
+    damaged: report.damaged,
+    orphans: report.orphans,
+    missing: report.missing,
+  })) {
+    if (problem.count > 0) {
+      console.log(`  ${name}: ${problem.count} (${problem.docIds.join(', ')})`);
+    }
+  }
+  if (report.staleStats.length > 0) {
+    console.log(`  stale statistics: ${report.staleStats.join(', ')}`);
+  }
+
+  let valid = report.valid;
+  if (report.repair) {
+    await indexer.close();
+    const { reindexed, removed, remainingErrors } = report.repair;
+    console.log(`Repaired: ${reindexed} documents reindexed, ${removed} removed`);
+    for (const error of remainingErrors) {
+      console.log(`  remaining error: ${error}`);
+    }
+    valid = report.repair.valid;
+  }
+
+  console.log(valid ? 'Index is valid' : 'Index has problems');
+  process.exit(valid ? 0 : 1);
+}
+
+verify().catch((error) => {
+  console.error('Verification failed:', error);
+  process.exit(1);
+});
@@ -1,6 +1,7 @@
 import express, { Express, Request, Response, NextFunction } from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
+import { timingSafeEqual } from 'crypto';
 import { QueryProcessor } from '../services/query-processor';
 import { AutocompleteService } from '../services/autocomplete';
 import { RateLimiter } from '../services/rate-limiter';
@@ -9,7 +10,20 @@ import { DocumentStore } from '../services/document-store';
 import { Indexer } from '../services/indexer';
 import { IAuthService } from '../services/auth-interface';
 import { SearchHistoryService } from '../services/search-history';
+import { SynonymParseError, SynonymService } from '../services/synonyms';
+import { ReindexError, ReindexService } from '../services/reindex';
+import { IndexVerifier } from '../services/index-verifier';
+import { AnalysisConfigError, parseAnalysisSettings } from '../services/analysis';
+import { FacetRequest, FacetRequestError, parseFacetRequest } from '../services/facets';
+import { SearchFilters, SearchFilterError, parseSearchFilters } from '../services/search-filters';
+import { SearchCursorError } from '../services/search-cursor';
+import {
+  HighlightOptions,
+  HighlightOptionsError,
+  parseHighlightOptions,
+} from '../services/highlighter';
 import { Document } from '../models/document';
+import { QueryExpansionError, QueryParseError } from '../models/query';
 import { register } from '../utils/metrics';
 import { logger } from '../utils/logger';
 import { correlationContext } from '../utils/correlation';
@@ -21,6 +35,7 @@ export interface ApiConfig {
   port?: number;
   corsOrigins?: string[];
   enableLogging?: boolean;
+  adminToken?: string; // token required in the X-Admin-Token header; admin endpoints are disabled without it
 }
 
 /**
@@ -48,6 +63,9 @@ export function createApp(
   indexer: Indexer,
   authService: IAuthService,
   searchHistoryService: SearchHistoryService,
+  synonymService: SynonymService,
+  reindexService: ReindexService,
+  indexVerifier: IndexVerifier,
   config: ApiConfig = {}
 ): Express {
   const app = express();
@@ -363,7 +381,19 @@ export function createApp(
   // POST /api/v1/search endpoint (Requirement 13.1, 13.6, 16.2)
   app.post('/api/v1/search', async (req: Request, res: Response) => {
     try {
-      const { query, page = 1, pageSize = 10, filters } = req.body;
+      const {
+        query,
+        page = 1,
+        pageSize = 10,
+        filters,
+        autoCorrect,
+        fuzzy,
+        facets,
+        explain,
+        exactTotalCount,
+        cursor,
+        highlight,
+      } = req.body;
 
       // Requirement 13.4: Validate input
       if (!query || typeof query !== 'string' || query.trim() === '') {
@@ -399,26 +429,125 @@ export function createApp(
         } as ErrorResponse);
       }
 
+      if (autoCorrect !== undefined && typeof autoCorrect !== 'boolean') {
+        return res.status(400).json({
+          error: {
+            code: 'INVALID_AUTO_CORRECT',
+            message: 'autoCorrect must be a boolean',
+            details: { field: 'autoCorrect', value: autoCorrect },
+            requestId: (req as any).requestId,
+          },
+        } as ErrorResponse);
+      }
+
+      if (fuzzy !== undefined && typeof fuzzy !== 'boolean') {
+        return res.status(400).json({
+          error: {
+            code: 'INVALID_FUZZY',
+            message: 'fuzzy must be a boolean',
+            details: { field: 'fuzzy', value: fuzzy },
+            requestId: (req as any).requestId,
+          },
+        } as ErrorResponse);
+      }
+
+      if (explain !== undefined && typeof explain !== 'boolean') {
+        return res.status(400).json({
+          error: {
+            code: 'INVALID_EXPLAIN',
+            message: 'explain must be a boolean',
+            details: { field: 'explain', value: explain },
+            requestId: (req as any).requestId,
+          },
+        } as ErrorResponse);
+      }
+
+      if (exactTotalCount !== undefined && typeof exactTotalCount !== 'boolean') {
+        return res.status(400).json({
+          error: {
+            code: 'INVALID_EXACT_TOTAL_COUNT',
+            message: 'exactTotalCount must be a boolean',
+            details: { field: 'exactTotalCount', value: exactTotalCount },
+            requestId: (req as any).requestId,
+          },
+        } as ErrorResponse);
+      }
+
+      if (cursor !== undefined && (typeof cursor !== 'string' || cursor === '')) {
+        return res.status(400).json({
+          error: {
+            code: 'INVALID_CURSOR',
+            message: 'cursor must be a non-empty string',
+            details: { field: 'cursor' },
+            requestId: (req as any).requestId,
+          },
+        } as ErrorResponse);
+      }
+
+      // A cursor already says where the results continue
+      if (cursor !== undefined && page !== 1) {
+        return res.status(400).json({
+          error: {
+            code: 'INVALID_PAGE',
+            message: 'page cannot be combined with cursor',
+            details: { field: 'page', value: page },
+            requestId: (req as any).requestId,
+          },
+        } as ErrorResponse);
+      }
+
+      let parsedFacets: FacetRequest | undefined;
+      if (facets !== undefined) {
+        try {
+          parsedFacets = parseFacetRequest(facets);
+        } catch (error) {
+          if (!(error instanceof FacetRequestError)) {
+            throw error;
+          }
+          return res.status(400).json({
+            error: {
+              code: 'INVALID_FACETS',
+              message: error.message,
+              details: { field: error.field },
+              requestId: (req as any).requestId,
+            },
+          } as ErrorResponse);
+        }
+      }
+
+      let parsedHighlight: HighlightOptions | undefined;
+      if (highlight !== undefined) {
+        try {
+          parsedHighlight = parseHighlightOptions(highlight);
+        } catch (error) {
+          if (!(error instanceof HighlightOptionsError)) {
+            throw error;
+          }
+          return res.status(400).json({
+            error: {
+              code: 'INVALID_HIGHLIGHT',
+              message: error.message,
+              details: { field: error.field },
+              requestId: (req as any).requestId,
+            },
+          } as ErrorResponse);
+        }
+      }
+
       // Requirement 18.2: Validate and parse filters
-      let parsedFilters;
+      let parsedFilters: SearchFilters | undefined;
       if (filters) {
-        parsedFilters = {
-          subreddit: filters.subreddit,
-          dateFrom: filters.dateFrom ? new Date(filters.dateFrom) : undefined,
-          dateTo: filters.dateTo ? new Date(filters.dateTo) : undefined,
-          sortBy: filters.sortBy || 'relevance',
-        };
-
-        // Validate sortBy
-        if (
-          parsedFilters.sortBy &&
-          !['relevance', 'date', 'score'].includes(parsedFilters.sortBy)
-        ) {
+        try {
+          parsedFilters = parseSearchFilters(filters);
+        } catch (error) {
+          if (!(error instanceof SearchFilterError)) {
+            throw error;
+          }
           return res.status(400).json({
             error: {
-              code: 'INVALID_SORT',
-              message: 'Sort must be one of: relevance, date, score',
-              details: { field: 'filters.sortBy', value: parsedFilters.sortBy },
+              code: error.code,
+              message: error.message,
+              details: { field: error.field },
               requestId: (req as any).requestId,
             },
           } as ErrorResponse);
@@ -427,7 +556,15 @@ export function createApp(
 
       // Process query
       const startTime = Date.now();
-      const results = await queryProcessor.processQuery(query, page, pageSize, parsedFilters);
+      const results = await queryProcessor.processQuery(query, page, pageSize, parsedFilters, {
+        autoCorrect,
+        fuzzy,
+        facets: parsedFacets,
+        explain,
+        exactTotalCount,
+        cursor,
+        highlight: parsedHighlight,
+      });
       const latency = Date.now() - startTime;
 
       // Log analytics (Requirement 18.4: Handle analytics service failures gracefully)
@@ -458,6 +595,41 @@ export function createApp(
       // Requirement 13.6: Return JSON response
       res.json(results);
     } catch (error) {
+      // Requirement 13.4: Report query syntax errors with their position
+      if (error instanceof QueryParseError) {
+        return res.status(400).json({
+          error: {
+            code: 'INVALID_QUERY_SYNTAX',
+            message: error.message,
+            details: { field: 'query', position: error.position },
+            requestId: (req as any).requestId,
+          },
+        } as ErrorResponse);
+      }
+
+      if (error instanceof QueryExpansionError) {
+        return res.status(400).json({
+          error: {
+            code: 'TOO_MANY_EXPANSIONS',
+            message: error.message,
+            details: { field: 'query', position: error.position, limit: error.limit },
+            requestId: (req as any).requestId,
+          },
+        } as ErrorResponse);
+      }
+
+      // An expired cursor was valid once; the client should start again from the first page
+      if (error instanceof SearchCursorError) {
+        return res.status(error.code === 'CURSOR_EXPIRED' ? 409 : 400).json({
+          error: {
+            code: error.code,
+            message: error.message,
+            details: { field: 'cursor' },
+            requestId: (req as any).requestId,
+          },
+        } as ErrorResponse);
+      }
+
       // Requirement 13.5: Handle internal errors
       logger.error('Search error', { error, requestId: (req as any).requestId });
       res.status(500).json({
@@ -470,6 +642,134 @@ export function createApp(
     }
   });
 
+  // GET /api/v1/explain endpoint - Score breakdown of one document for a query
+  app.get('/api/v1/explain', async (req: Request, res: Response) => {
+    try {
+      const { query, docId } = req.query;
+
+      if (!query || typeof query !== 'string' || query.trim() === '') {
+        return res.status(400).json({
+          error: {
+            code: 'INVALID_QUERY',
+            message: 'Query must be a non-empty string',
+            details: { field: 'query' },
+            requestId: (req as any).requestId,
+          },
+        } as ErrorResponse);
+      }
+
+      if (!docId || typeof docId !== 'string') {
+        return res.status(400).json({
+          error: {
+            code: 'INVALID_DOC_ID',
+            message: 'docId must be a non-empty string',
+            details: { field: 'docId' },
+            requestId: (req as any).requestId,
+          },
+        } as ErrorResponse);
+      }
+
+      const explanation = queryProcessor.explain(query, docId);
+      if (!explanation) {
+        return res.status(404).json({
+          error: {
+            code: 'DOCUMENT_NOT_FOUND',
+            message: `Document ${docId} not found`,
+            details: { field: 'docId', value: docId },
+            requestId: (req as any).requestId,
+          },
+        } as ErrorResponse);
+      }
+
+      res.json(explanation);
+    } catch (error) {
+      if (error instanceof QueryParseError) {
+        return res.status(400).json({
+          error: {
+            code: 'INVALID_QUERY_SYNTAX',
+            message: error.message,
+            details: { field: 'query', position: error.position },
+            requestId: (req as any).requestId,
+          },
+        } as ErrorResponse);
+      }
+
+      if (error instanceof QueryExpansionError) {
+        return res.status(400).json({
+          error: {
+            code: 'TOO_MANY_EXPANSIONS',
+            message: error.message,
+            details: { field: 'query', position: error.position, limit: error.limit },
+            requestId: (req as any).requestId,
+          },
+        } as ErrorResponse);
+      }
+
+      logger.error('Explain error', { error, requestId: (req as any).requestId });
+      res.status(500).json({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An internal error occurred while processing your request',
+          requestId: (req as any).requestId,
+        },
+      } as ErrorResponse);
+    }
+  });
+
+  // GET /api/v1/documents/:id/similar endpoint ("more like this")
+  app.get('/api/v1/documents/:id/similar', async (req: Request, res: Response) => {
+    try {
+      const id = req.params.id as string;
+      const { limit = 10, subreddit } = req.query;
+
+      const limitNum = typeof limit === 'string' ? parseInt(limit, 10) : Number(limit);
+      if (isNaN(limitNum) || limitNum < 1 || limitNum > 50) {
+        return res.status(400).json({
+          error: {
+            code: 'INVALID_LIMIT',
+            message: 'Limit must be between 1 and 50',
+            details: { field: 'limit', value: limit },
+            requestId: (req as any).requestId,
+          },
+        } as ErrorResponse);
+      }
+
+      if (subreddit !== undefined && (typeof subreddit !== 'string' || subreddit.trim() === '')) {
+        return res.status(400).json({
+          error: {
+            code: 'INVALID_SUBREDDIT',
+            message: 'subreddit must be a non-empty string',
+            details: { field: 'subreddit' },
+            requestId: (req as any).requestId,
+          },
+        } as ErrorResponse);
+      }
+
+      const similar = queryProcessor.findSimilar(id, { limit: limitNum, subreddit });
+      if (!similar) {
+        return res.status(404).json({
+          error: {
+            code: 'DOCUMENT_NOT_FOUND',
+            message: `Document ${id} not found`,
+            details: { field: 'id', value: id },
+            requestId: (req as any).requestId,
+          },
+        } as ErrorResponse);
+      }
+
+      res.json(similar);
+    } catch (error) {
+      logger.error('Similar documents error', { error, requestId: (req as any).requestId });
+      res.status(500).json({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An internal error occurred while processing your request',
+          requestId: (req as any).requestId,
+        },
+      } as ErrorResponse);
+    }
+  });
+
   // GET /api/v1/autocomplete endpoint (Requirement 13.2, 13.6, 16.5)
   app.get('/api/v1/autocomplete', async (req: Request, res: Response) => {
     try {
@@ -806,11 +1106,170 @@ export function createApp(
     }
   });
 
+  // Admin endpoints require the configured admin token
+  const requireAdmin = (req: Request, res: Response, next: NextFunction) => {
+    if (!config.adminToken) {
+      return res.status(403).json({
+        error: {
+          code: 'ADMIN_DISABLED',
+          message: 'Admin endpoints are disabled because no admin token is configured',
+          requestId: (req as any).requestId,
+        },
+      } as ErrorResponse);
+    }
+
+    const token = Buffer.from(String(req.headers['x-admin-token'] || ''));
+    const expected = Buffer.from(config.adminToken);
+    if (token.length !== expected.length || !timingSafeEqual(token, expected)) {
+      return res.status(403).json({
+        error: {
+          code: 'FORBIDDEN',
+          message: 'A valid X-Admin-Token header is required',
+          requestId: (req as any).requestId,
+        },
+      } as ErrorResponse);
+    }
+
+    next();
+  };
+
+  // POST /api/v1/admin/synonyms/reload endpoint - Reload the synonym file without a restart
+  app.post('/api/v1/admin/synonyms/reload', requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const rules = await synonymService.load();
+      logger.info('Synonyms reloaded', { rules, requestId: (req as any).requestId });
+      res.json({ success: true, rules });
+    } catch (error) {
+      // The previous synonyms stay active when the file is invalid
+      if (error instanceof SynonymParseError) {
+        return res.status(400).json({
+          error: {
+            code: 'INVALID_SYNONYMS',
+            message: error.message,
+            details: { line: error.line },
+            requestId: (req as any).requestId,
+          },
+        } as ErrorResponse);
+      }
+
+      logger.error('Synonym reload error', { error, requestId: (req as any).requestId });
+      res.status(500).json({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An internal error occurred',
+          requestId: (req as any).requestId,
+        },
+      } as ErrorResponse);
+    }
+  });
+
+  // POST /api/v1/admin/reindex endpoint - Rebuild the index in the background and swap it in
+  app.post('/api/v1/admin/reindex', requireAdmin, async (req: Request, res: Response) => {
+    try {
+      // Analysis settings for the new index; by default the settings file is read again
+      const analysis =
+        req.body?.analysis !== undefined ? parseAnalysisSettings(req.body.analysis) : undefined;
+      const status = await reindexService.start(analysis);
+      logger.info('Reindex requested', { requestId: (req as any).requestId });
+      res.status(202).json(status);
+    } catch (error) {
+      if (error instanceof ReindexError) {
+        return res.status(409).json({
+          error: {
+            code: error.code,
+            message: error.message,
+            requestId: (req as any).requestId,
+          },
+        } as ErrorResponse);
+      }
+
+      if (error instanceof AnalysisConfigError) {
+        return res.status(400).json({
+          error: {
+            code: 'INVALID_ANALYSIS',
+            message: error.message,
+            details: { path: error.path },
+            requestId: (req as any).requestId,
+          },
+        } as ErrorResponse);
+      }
+
+      logger.error('Reindex error', { error, requestId: (req as any).requestId });
+      res.status(500).json({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An internal error occurred',
+          requestId: (req as any).requestId,
+        },
+      } as ErrorResponse);
+    }
+  });
+
+  // GET /api/v1/admin/reindex endpoint - Progress of the running reindex or outcome of the last one
+  app.get('/api/v1/admin/reindex', requireAdmin, (req: Request, res: Response) => {
+    res.json(reindexService.getStatus());
+  });
+
+  // POST /api/v1/admin/reindex/rollback endpoint - Swap the previous index back in
+  app.post('/api/v1/admin/reindex/rollback', requireAdmin, (req: Request, res: Response) => {
+    try {
+      const status = reindexService.rollback();
+      res.json(status);
+    } catch (error) {
+      if (error instanceof ReindexError) {
+        return res.status(409).json({
+          error: {
+            code: error.code,
+            message: error.message,
+            requestId: (req as any).requestId,
+          },
+        } as ErrorResponse);
+      }
+
+      logger.error('Reindex rollback error', { error, requestId: (req as any).requestId });
+      res.status(500).json({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An internal error occurred',
+          requestId: (req as any).requestId,
+        },
+      } as ErrorResponse);
+    }
+  });
+
+  // POST /api/v1/admin/index/verify endpoint - Check the index and optionally repair it
+  app.post('/api/v1/admin/index/verify', requireAdmin, (req: Request, res: Response) => {
+    const repair = req.body?.repair ?? false;
+    if (typeof repair !== 'boolean') {
+      return res.status(400).json({
+        error: {
+          code: 'INVALID_INPUT',
+          message: 'repair must be a boolean',
+          requestId: (req as any).requestId,
+        },
+      } as ErrorResponse);
+    }
+
+    try {
+      const report = indexVerifier.verify(repair);
+      res.json(report);
+    } catch (error) {
+      logger.error('Index verification error', { error, requestId: (req as any).requestId });
+      res.status(500).json({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An internal error occurred',
+          requestId: (req as any).requestId,
+        },
+      } as ErrorResponse);
+    }
+  });
+
   // POST /api/v1/seed endpoint - Add test data (development only)
   app.post('/api/v1/seed', async (req: Request, res: Response) => {
     try {
       const { TextProcessor } = await import('../services/text-processor');
-      const textProcessor = new TextProcessor();
+      const textProcessor = new TextProcessor({ analysis: indexer.getAnalysisSettings() });
 
       const samplePosts = [
         {
@@ -61,15 +61,28 @@ export function loadConfig(): SystemConfig {
       maxPostsPerSubreddit: getEnvNumber('MAX_POSTS_PER_SUBREDDIT', 100),
     },
     ranking: {
-      algorithm: getEnvVar('RANKING_ALGORITHM', 'bm25'),
+      algorithm: getEnvVar('RANKING_ALGORITHM', 'bm25f'),
       bm25K1: getEnvNumber('BM25_K1', 1.5),
       bm25B: getEnvNumber('BM25_B', 0.75),
+      fieldBoosts: {
+        title: getEnvNumber('TITLE_BOOST', 2.5),
+        body: getEnvNumber('BODY_BOOST', 1.0),
+      },
+      fieldB: {
+        title: getEnvNumber('BM25F_TITLE_B', 0.5),
+        body: getEnvNumber('BM25F_BODY_B', 0.75),
+      },
       textWeight: getEnvNumber('TEXT_WEIGHT', 0.7),
       recencyWeight: getEnvNumber('RECENCY_WEIGHT', 0.15),
       popularityWeight: getEnvNumber('POPULARITY_WEIGHT', 0.1),
       engagementWeight: getEnvNumber('ENGAGEMENT_WEIGHT', 0.05),
       relevanceWeight: getEnvNumber('RELEVANCE_WEIGHT', 0.0),
       recencyDecayDays: getEnvNumber('RECENCY_DECAY_DAYS', 7),
+      proximityBoost: getEnvNumber('PROXIMITY_BOOST', 1.0),
+      fuzzyTermWeight: getEnvNumber('FUZZY_TERM_WEIGHT', 0.5),
+      wildcardTermWeight: getEnvNumber('WILDCARD_TERM_WEIGHT', 0.8),
+      synonymTermWeight: getEnvNumber('SYNONYM_TERM_WEIGHT', 0.8),
+      exactMatchBoost: getEnvNumber('EXACT_MATCH_BOOST', 0.5),
     },
     cache: {
       ttlSeconds: getEnvNumber('CACHE_TTL_SECONDS', 300),
@@ -94,10 +107,20 @@ export function loadConfig(): SystemConfig {
     security: {
       jwtSecret: getEnvVar('JWT_SECRET', 'change-this-secret-in-production'),
       sessionSecret: getEnvVar('SESSION_SECRET', 'change-this-secret-in-production'),
+      adminToken: getEnvVar('ADMIN_TOKEN', ''),
     },
     cors: {
       origins: getEnvVar('CORS_ORIGINS', '*'),
     },
+    search: {
+      synonymsPath: getEnvVar('SYNONYMS_PATH', 'config/synonyms.txt'),
+      indexSynonyms: getEnvVar('INDEX_SYNONYMS', 'false') === 'true',
+      exactTotalCount: getEnvVar('EXACT_TOTAL_COUNT', 'true') === 'true',
+      analysisPath: getEnvVar('ANALYSIS_PATH', ''),
+    },
+    storage: {
+      dataDir: getEnvVar('DATA_DIR', './data'),
+    },
     port: getEnvNumber('PORT', 3000),
     nodeEnv: getEnvVar('NODE_ENV', 'development'),
   };
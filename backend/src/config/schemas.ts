@@ -36,15 +36,28 @@ export const CollectorConfigSchema = z.object({
 // Ranking algorithm configuration schema
 export const RankingConfigSchema = z
   .object({
-    algorithm: z.enum(['tfidf', 'bm25']),
+    algorithm: z.enum(['tfidf', 'bm25', 'bm25f']),
     bm25K1: z.number().nonnegative('BM25 k1 parameter must be non-negative'),
     bm25B: z.number().min(0).max(1, 'BM25 b parameter must be between 0 and 1'),
+    fieldBoosts: z.object({
+      title: z.number().nonnegative('Title boost must be non-negative'),
+      body: z.number().nonnegative('Body boost must be non-negative'),
+    }),
+    fieldB: z.object({
+      title: z.number().min(0).max(1, 'BM25F title b parameter must be between 0 and 1'),
+      body: z.number().min(0).max(1, 'BM25F body b parameter must be between 0 and 1'),
+    }),
     textWeight: z.number().nonnegative('Text weight must be non-negative'),
     recencyWeight: z.number().nonnegative('Recency weight must be non-negative'),
     popularityWeight: z.number().nonnegative('Popularity weight must be non-negative'),
     engagementWeight: z.number().nonnegative('Engagement weight must be non-negative'),
     relevanceWeight: z.number().nonnegative('Relevance weight must be non-negative'),
     recencyDecayDays: z.number().positive('Recency decay days must be positive'),
+    proximityBoost: z.number().nonnegative('Proximity boost must be non-negative'),
+    fuzzyTermWeight: z.number().min(0).max(1, 'Fuzzy term weight must be between 0 and 1'),
+    wildcardTermWeight: z.number().min(0).max(1, 'Wildcard term weight must be between 0 and 1'),
+    synonymTermWeight: z.number().min(0).max(1, 'Synonym term weight must be between 0 and 1'),
+    exactMatchBoost: z.number().nonnegative('Exact match boost must be non-negative'),
   })
   .refine(
     (data) => {
@@ -81,6 +94,20 @@ export const PostgresConfigSchema = z.object({
 export const SecurityConfigSchema = z.object({
   jwtSecret: z.string().min(1, 'JWT secret is required'),
   sessionSecret: z.string().min(1, 'Session secret is required'),
+  adminToken: z.string(), // empty disables the admin endpoints
+});
+
+// Search configuration schema
+export const SearchConfigSchema = z.object({
+  synonymsPath: z.string().min(1, 'Synonyms path is required'),
+  indexSynonyms: z.boolean(),
+  exactTotalCount: z.boolean(),
+  analysisPath: z.string(), // empty uses the built-in analyzer
+});
+
+// Storage configuration schema
+export const StorageConfigSchema = z.object({
+  dataDir: z.string().min(1, 'Data directory is required'),
 });
 
 // CORS configuration schema
@@ -111,6 +138,8 @@ export const SystemConfigSchema = z.object({
   redis: RedisConfigSchema,
   security: SecurityConfigSchema,
   cors: CorsConfigSchema,
+  search: SearchConfigSchema,
+  storage: StorageConfigSchema,
   port: z.number().int().positive('Server port must be a positive integer').max(65535),
   nodeEnv: z.enum(['development', 'production', 'test']),
 });
@@ -125,4 +154,6 @@ export type PostgresConfig = z.infer<typeof PostgresConfigSchema>;
 export type RedisConfig = z.infer<typeof RedisConfigSchema>;
 export type SecurityConfig = z.infer<typeof SecurityConfigSchema>;
 export type CorsConfig = z.infer<typeof CorsConfigSchema>;
+export type SearchConfig = z.infer<typeof SearchConfigSchema>;
+export type StorageConfig = z.infer<typeof StorageConfigSchema>;
 export type SystemConfig = z.infer<typeof SystemConfigSchema>;
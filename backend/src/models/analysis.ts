@@ -0,0 +1,64 @@
+/**
+ * Analysis settings: how text is turned into the terms that are indexed and searched
+ *
+ * An analyzer runs three stages:
+ *   char filters  - rewrite the raw text (e.g. strip HTML); token offsets point into the result
+ *   tokenizer     - splits the filtered text into tokens with positions and offsets
+ *   token filters - transform the token stream (lowercase, stopwords, stemming, ...)
+ *
+ * Token filters work on `token.stem`, the term being built, and leave `token.text` as
+ * the surface form found in the text. Filters may depend on the language of the text
+ * (stopwords and stemmer "language"), which is the document's language at index time. Analyzers are declared as plain JSON definitions
+ * so the settings an index was built with can be stored with it.
+ */
+
+import { TextField } from './document';
+
+/**
+ * Char filter: rewrites the text before tokenization
+ */
+export type CharFilterDefinition =
+  | { type: 'html_strip' } // remove tags, decode entities, collapse whitespace
+  | { type: 'nfkc' }; // Unicode compatibility normalization: "ﬁ" → "fi", "Ｃ＋＋" → "C++"
+
+/**
+ * Tokenizer: splits text into tokens
+ */
+export type TokenizerDefinition =
+  | { type: 'standard' } // runs of letters and digits; CJK text as overlapping character bigrams
+  | { type: 'code'; subTokens?: boolean } // keeps "c++", "node.js", URLs whole; default: also emit their parts
+  | { type: 'markdown' }; // standard for prose, code for `inline` and fenced code
+
+/**
+ * Token filter: transforms the token stream
+ */
+export type TokenFilterDefinition =
+  | { type: 'lowercase' }
+  | { type: 'ascii_folding' } // "café" → "cafe"
+  | { type: 'stop'; stopwords?: StopwordList | string[] } // default: english
+  | { type: 'stemmer'; algorithm?: StemmerAlgorithm } // default: porter
+  | { type: 'length'; min?: number; max?: number } // keep terms of min..max characters
+  | { type: 'shingle'; size?: number; outputUnigrams?: boolean }; // add word n-grams of 2..size words
+
+export type StopwordList = 'english' | 'language' | 'none'; // language: of the analyzed text
+export type StemmerAlgorithm = 'porter' | 'lancaster' | 'language' | 'none';
+
+/**
+ * Named analyzer definition
+ */
+export interface AnalyzerDefinition {
+  charFilters?: CharFilterDefinition[];
+  tokenizer: TokenizerDefinition;
+  filters?: TokenFilterDefinition[];
+}
+
+/**
+ * Analyzers and where they are used
+ * Query text is analyzed with the search analyzer; it should produce the same terms as
+ * the field analyzers for words to match.
+ */
+export interface AnalysisSettings {
+  analyzers: Record<string, AnalyzerDefinition>;
+  fields: Record<TextField, string>; // analyzer name per text field, used at index time
+  search: string; // analyzer name used for query text
+}
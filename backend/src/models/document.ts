@@ -14,15 +14,80 @@ export interface Document {
   createdUtc: Date;
   collectedAt: Date;
   processed: boolean;
+  language?: Language; // detected when collected; detected again at indexing when missing
 }
 
+/**
+ * Languages with their own stopwords and stemmer, as ISO 639-1 codes
+ * Chinese, Japanese and Korean are indexed as character bigrams instead.
+ */
+export type Language =
+  | 'en'
+  | 'de'
+  | 'es'
+  | 'fr'
+  | 'it'
+  | 'nl'
+  | 'pt'
+  | 'sv'
+  | 'no'
+  | 'ru'
+  | 'zh'
+  | 'ja'
+  | 'ko';
+
+export const LANGUAGES: Language[] = [
+  'en',
+  'de',
+  'es',
+  'fr',
+  'it',
+  'nl',
+  'pt',
+  'sv',
+  'no',
+  'ru',
+  'zh',
+  'ja',
+  'ko',
+];
+
+/**
+ * Free-text fields that are analyzed into the full-text index
+ */
+export type TextField = 'title' | 'body';
+
+/**
+ * Metadata fields that are indexed as exact, lowercased keywords
+ */
+export type KeywordField = 'author' | 'subreddit' | 'type' | 'language';
+
+/**
+ * Numeric metadata fields kept per document for range filters (createdUtc as epoch milliseconds)
+ */
+export type NumericField = 'createdUtc' | 'redditScore' | 'commentCount';
+
+/**
+ * Any field that can be targeted by a field-scoped query ("title:rust")
+ */
+export type SearchField = TextField | KeywordField;
+
+export const TEXT_FIELDS: TextField[] = ['title', 'body'];
+export const KEYWORD_FIELDS: KeywordField[] = ['author', 'subreddit', 'type', 'language'];
+export const NUMERIC_FIELDS: NumericField[] = ['createdUtc', 'redditScore', 'commentCount'];
+
 /**
  * Token representing a processed word with position information
  */
 export interface Token {
   text: string; // original text
-  position: number; // position in document
+  position: number; // ordinal word position in document (stopwords leave gaps)
   stem: string; // stemmed form
+  offset?: number; // character offset in the normalized field text
+  field?: TextField; // field the token was read from
+  keyword?: boolean; // kept as written by the stemmer ("node.js", "c++")
+  part?: boolean; // piece of a compound token, at the compound's position ("node" of "node.js")
+  synonym?: boolean; // added by synonym expansion, not written in the text
 }
 
 /**
@@ -33,6 +98,9 @@ export interface ProcessedDocument {
   tokens: Token[];
   tokenCount: number;
   uniqueTerms: Set<string>;
+  fieldLengths?: Partial<Record<TextField, number>>; // token count per text field
+  keywords?: Partial<Record<KeywordField, string>>; // normalized keyword field values
+  numericValues?: Partial<Record<NumericField, number>>; // numeric field values for range filters
 }
 
 /**
@@ -84,6 +152,12 @@ export function validateDocument(doc: Partial<Document>): asserts doc is Documen
     }
   }
 
+  if (doc.language !== undefined && !LANGUAGES.includes(doc.language)) {
+    throw new DocumentValidationError(
+      `Invalid language: ${doc.language}. Must be one of ${LANGUAGES.join(', ')}`
+    );
+  }
+
   // Validate numeric fields
   if (typeof doc.redditScore !== 'number') {
     throw new DocumentValidationError('redditScore must be a number');
@@ -166,15 +240,50 @@ export function createDocument(data: Omit<Document, 'collectedAt' | 'processed'>
   };
 }
 
+/**
+ * Normalizes a keyword field value for exact matching
+ *
+ * Keywords are case-insensitive and accept Reddit's "r/" and "u/" prefixes,
+ * so "r/Rust" and "rust" are the same subreddit.
+ */
+export function normalizeKeyword(field: KeywordField, value: string): string {
+  const normalized = value.trim().toLowerCase();
+
+  if (field === 'subreddit') {
+    return normalized.replace(/^\/?r\//, '');
+  }
+  if (field === 'author') {
+    return normalized.replace(/^\/?u\//, '');
+  }
+
+  return normalized;
+}
+
 /**
  * Creates a processed document from tokens
  */
-export function createProcessedDocument(docId: string, tokens: Token[]): ProcessedDocument {
+export function createProcessedDocument(
+  docId: string,
+  tokens: Token[],
+  keywords?: Partial<Record<KeywordField, string>>,
+  numericValues?: Partial<Record<NumericField, number>>
+): ProcessedDocument {
   const uniqueTerms = new Set(tokens.map((t) => t.stem));
+
+  const fieldLengths: Partial<Record<TextField, number>> = {};
+  for (const token of tokens) {
+    if (token.field) {
+      fieldLengths[token.field] = (fieldLengths[token.field] ?? 0) + 1;
+    }
+  }
+
   return {
     docId,
     tokens,
     tokenCount: tokens.length,
     uniqueTerms,
+    fieldLengths,
+    keywords,
+    numericValues,
   };
 }
@@ -5,6 +5,17 @@
  * This allows fast lookup: given a search term, quickly find all matching documents.
  */
 
+import { KeywordField, NumericField, TextField } from './document';
+import { AnalysisSettings } from './analysis';
+import {
+  Segment,
+  SerializableSegment,
+  createSegment,
+  deserializeSegment,
+  isDeleted,
+  serializeSegment,
+} from './segment';
+
 /**
  * PostingsList represents all occurrences of a term in a single document
  *
@@ -19,6 +30,7 @@ export interface PostingsList {
   docId: string; // Which document contains this term
   termFrequency: number; // How many times the term appears in this document
   positions: number[]; // Where in the document (for phrase queries and snippets)
+  fieldFrequencies?: Partial<Record<TextField, number>>; // Occurrences per field (title, body)
 }
 
 /**
@@ -45,15 +57,20 @@ export interface IndexEntry {
  * InvertedIndex is the main data structure for the search engine
  *
  * It maps each term to its postings list and tracks document statistics
- * needed for ranking algorithms (BM25, TF-IDF)
+ * needed for ranking algorithms (BM25, TF-IDF). Postings are kept in segments
+ * (see ./segment): a term's postings list is the live postings of every segment.
  *
  * Structure:
  * {
- *   termToPostings: {
- *     "machine": [{ docId: "doc-1", termFrequency: 2, positions: [5, 12] }, ...],
- *     "learning": [{ docId: "doc-1", termFrequency: 1, positions: [6] }, ...],
+ *   segments: [
+ *     { id: 1, docIds: ["doc-1", "doc-2", ...], termToPostings: {
+ *       "machine": [{ docId: "doc-1", termFrequency: 2, positions: [5, 12] }, ...],
+ *       "learning": [{ docId: "doc-1", termFrequency: 1, positions: [6] }, ...],
+ *       ...
+ *     }, deletions: [0, ...] },
  *     ...
- *   },
+ *   ],
+ *   buffer: { id: 7, docIds: ["doc-1001"], ... },
  *   documentLengths: {
  *     "doc-1": 150,  // doc-1 has 150 tokens
  *     "doc-2": 200,  // doc-2 has 200 tokens
@@ -64,8 +81,17 @@ export interface IndexEntry {
  * }
  */
 export interface InvertedIndex {
-  // Maps term → list of documents containing it
-  termToPostings: Map<string, PostingsList[]>;
+  // Sealed segments, oldest first; only their deletion bitmaps change
+  segments: Segment[];
+
+  // Segment new documents are added to until it is sealed
+  buffer: Segment;
+
+  // Id of the next segment created
+  nextSegmentId: number;
+
+  // Maps docId → segment holding the live version of the document (derived from the segments)
+  documentSegments: Map<string, Segment>;
 
   // Maps docId → number of tokens in that document (for BM25 length normalization)
   documentLengths: Map<string, number>;
@@ -73,20 +99,52 @@ export interface InvertedIndex {
   // Total number of documents in the index
   totalDocuments: number;
 
+  // Sum of all document lengths, kept up to date as documents are added and removed
+  totalDocumentLength: number;
+
   // Average document length (for BM25 calculation)
   averageDocumentLength: number;
+
+  // Maps docId → number of tokens per text field
+  fieldLengths: Map<string, Partial<Record<TextField, number>>>;
+
+  // Sum of the lengths of each text field over all documents
+  totalFieldLengths: Partial<Record<TextField, number>>;
+
+  // Average number of tokens per text field (for BM25F length normalization)
+  averageFieldLengths: Partial<Record<TextField, number>>;
+
+  // Maps docId → normalized keyword field values (author, subreddit, type)
+  documentKeywords: Map<string, Partial<Record<KeywordField, string>>>;
+
+  // Maps keyword field → value → documents with that value (derived from documentKeywords)
+  keywordIndex: Map<KeywordField, Map<string, Set<string>>>;
+
+  // Maps docId → numeric field values (createdUtc, redditScore, commentCount) for range filters
+  documentValues: Map<string, Partial<Record<NumericField, number>>>;
+
+  // Analyzers the documents were processed with; queries must be analyzed the same way
+  analysis?: AnalysisSettings;
 }
 
 /**
  * Serializable version of InvertedIndex for JSON storage
  *
- * Maps can't be directly serialized to JSON, so we convert them to objects
+ * Maps can't be directly serialized to JSON, so we convert them to objects.
+ * The buffer is stored as the newest segment. The keyword index, document segments
+ * and length totals are rebuilt when loading.
  */
 export interface SerializableInvertedIndex {
-  termToPostings: Record<string, PostingsList[]>;
+  segments?: SerializableSegment[];
+  termToPostings?: Record<string, PostingsList[]>; // indexes written before segments
+  exactTermToPostings?: Record<string, PostingsList[]>; // indexes written before segments
   documentLengths: Record<string, number>;
   totalDocuments: number;
   averageDocumentLength: number;
+  fieldLengths?: Record<string, Partial<Record<TextField, number>>>;
+  documentKeywords?: Record<string, Partial<Record<KeywordField, string>>>;
+  documentValues?: Record<string, Partial<Record<NumericField, number>>>;
+  analysis?: AnalysisSettings;
 }
 
 /**
@@ -94,10 +152,20 @@ export interface SerializableInvertedIndex {
  */
 export function createEmptyIndex(): InvertedIndex {
   return {
-    termToPostings: new Map(),
+    segments: [],
+    buffer: createSegment(1),
+    nextSegmentId: 2,
+    documentSegments: new Map(),
     documentLengths: new Map(),
     totalDocuments: 0,
+    totalDocumentLength: 0,
     averageDocumentLength: 0,
+    fieldLengths: new Map(),
+    totalFieldLengths: {},
+    averageFieldLengths: {},
+    documentKeywords: new Map(),
+    keywordIndex: new Map(),
+    documentValues: new Map(),
   };
 }
 
@@ -107,26 +175,259 @@ export function createEmptyIndex(): InvertedIndex {
  * Converts Maps to plain objects so they can be saved to disk
  */
 export function serializeIndex(index: InvertedIndex): SerializableInvertedIndex {
+  const segments =
+    index.buffer.docIds.length > 0 ? [...index.segments, index.buffer] : index.segments;
+
   return {
-    termToPostings: Object.fromEntries(index.termToPostings),
+    segments: segments.map(serializeSegment),
     documentLengths: Object.fromEntries(index.documentLengths),
     totalDocuments: index.totalDocuments,
     averageDocumentLength: index.averageDocumentLength,
+    fieldLengths: Object.fromEntries(index.fieldLengths),
+    documentKeywords: Object.fromEntries(index.documentKeywords),
+    documentValues: Object.fromEntries(index.documentValues),
+    analysis: index.analysis,
   };
 }
 
+/**
+ * Stored contents of an inverted index, from which everything else is derived
+ *
+ * Both on-disk formats (JSON and binary, see ../services/index-file) decode to this.
+ */
+export interface IndexContents {
+  segments: Segment[]; // oldest first; all are sealed when loaded
+  documentLengths: Map<string, number>;
+  fieldLengths: Map<string, Partial<Record<TextField, number>>>;
+  documentKeywords: Map<string, Partial<Record<KeywordField, string>>>;
+  documentValues: Map<string, Partial<Record<NumericField, number>>>;
+  analysis?: AnalysisSettings;
+  walSequence?: number; // last write-ahead log record included (binary format only)
+}
+
 /**
  * Deserializes an inverted index from JSON format
  *
- * Converts plain objects back to Maps for efficient lookup
+ * Converts plain objects back to Maps for efficient lookup.
  */
 export function deserializeIndex(serialized: SerializableInvertedIndex): InvertedIndex {
-  return {
-    termToPostings: new Map(Object.entries(serialized.termToPostings)),
-    documentLengths: new Map(Object.entries(serialized.documentLengths)),
-    totalDocuments: serialized.totalDocuments,
-    averageDocumentLength: serialized.averageDocumentLength,
+  const documentLengths = new Map(Object.entries(serialized.documentLengths));
+
+  // Indexes written before segments hold all postings in one term map
+  const segments = serialized.segments
+    ? serialized.segments.map(deserializeSegment)
+    : [
+        deserializeSegment({
+          id: 1,
+          docIds: Array.from(documentLengths.keys()),
+          termToPostings: serialized.termToPostings ?? {},
+          exactTermToPostings: serialized.exactTermToPostings ?? {},
+          deletions: [],
+        }),
+      ];
+
+  return assembleIndex({
+    segments,
+    documentLengths,
+    // Indexes written before field support have no field data
+    fieldLengths: new Map(Object.entries(serialized.fieldLengths ?? {})),
+    documentKeywords: new Map(Object.entries(serialized.documentKeywords ?? {})),
+    documentValues: new Map(Object.entries(serialized.documentValues ?? {})),
+    // Indexes written before analysis settings were recorded have none
+    analysis: serialized.analysis,
+  });
+}
+
+/**
+ * Builds an inverted index from its stored contents
+ *
+ * Rebuilds the document segments, length totals and keyword index. Every stored
+ * segment is sealed; new documents go to a fresh buffer.
+ */
+export function assembleIndex(contents: IndexContents): InvertedIndex {
+  const { segments } = contents;
+  const nextSegmentId = Math.max(0, ...segments.map((segment) => segment.id)) + 1;
+
+  const index: InvertedIndex = {
+    segments,
+    buffer: createSegment(nextSegmentId),
+    nextSegmentId: nextSegmentId + 1,
+    documentSegments: new Map(),
+    documentLengths: contents.documentLengths,
+    totalDocuments: contents.documentLengths.size,
+    totalDocumentLength: 0,
+    averageDocumentLength: 0,
+    fieldLengths: contents.fieldLengths,
+    totalFieldLengths: {},
+    averageFieldLengths: {},
+    documentKeywords: contents.documentKeywords,
+    keywordIndex: new Map(),
+    documentValues: contents.documentValues,
+    analysis: contents.analysis,
   };
+
+  for (const segment of segments) {
+    segment.docIds.forEach((docId, ordinal) => {
+      if (!isDeleted(segment, ordinal)) {
+        index.documentSegments.set(docId, segment);
+      }
+    });
+  }
+
+  for (const [docId, length] of index.documentLengths) {
+    addDocumentLengths(index, length, index.fieldLengths.get(docId) ?? {});
+  }
+
+  for (const [docId, keywords] of index.documentKeywords.entries()) {
+    addDocumentKeywords(index, docId, keywords);
+  }
+
+  return index;
+}
+
+/**
+ * Adds a document's lengths to the length totals and updates the averages
+ *
+ * The document must already be counted in documentLengths. Documents that lack a
+ * field count as having length 0 for it, matching how BM25F treats a missing field.
+ */
+export function addDocumentLengths(
+  index: InvertedIndex,
+  length: number,
+  fieldLengths: Partial<Record<TextField, number>>,
+  sign: 1 | -1 = 1
+): void {
+  index.totalDocumentLength += sign * length;
+  for (const [field, fieldLength] of Object.entries(fieldLengths) as [TextField, number][]) {
+    index.totalFieldLengths[field] = (index.totalFieldLengths[field] ?? 0) + sign * fieldLength;
+  }
+
+  const count = index.documentLengths.size;
+  index.totalDocuments = count;
+  index.averageDocumentLength = count > 0 ? index.totalDocumentLength / count : 0;
+  index.averageFieldLengths = {};
+  if (count > 0) {
+    for (const [field, total] of Object.entries(index.totalFieldLengths) as [TextField, number][]) {
+      index.averageFieldLengths[field] = total / count;
+    }
+  }
+}
+
+/**
+ * Removes a document's lengths from the length totals and updates the averages
+ *
+ * The document must already be removed from documentLengths.
+ */
+export function removeDocumentLengths(
+  index: InvertedIndex,
+  length: number,
+  fieldLengths: Partial<Record<TextField, number>>
+): void {
+  addDocumentLengths(index, length, fieldLengths, -1);
+}
+
+/**
+ * Calculates the average length of each text field across documents
+ *
+ * Documents that lack a field count as having length 0 for it, matching how
+ * BM25F treats a missing field.
+ */
+export function calculateAverageFieldLengths(
+  fieldLengths: Map<string, Partial<Record<TextField, number>>>
+): Partial<Record<TextField, number>> {
+  if (fieldLengths.size === 0) {
+    return {};
+  }
+
+  const totals: Partial<Record<TextField, number>> = {};
+  for (const lengths of fieldLengths.values()) {
+    for (const [field, length] of Object.entries(lengths) as [TextField, number][]) {
+      totals[field] = (totals[field] ?? 0) + length;
+    }
+  }
+
+  const averages: Partial<Record<TextField, number>> = {};
+  for (const [field, total] of Object.entries(totals) as [TextField, number][]) {
+    averages[field] = total / fieldLengths.size;
+  }
+
+  return averages;
+}
+
+/**
+ * Adds a document's keyword values to the keyword index
+ */
+export function addDocumentKeywords(
+  index: InvertedIndex,
+  docId: string,
+  keywords: Partial<Record<KeywordField, string>>
+): void {
+  for (const [field, value] of Object.entries(keywords) as [KeywordField, string][]) {
+    if (!value) {
+      continue;
+    }
+
+    let values = index.keywordIndex.get(field);
+    if (!values) {
+      values = new Map();
+      index.keywordIndex.set(field, values);
+    }
+
+    let docIds = values.get(value);
+    if (!docIds) {
+      docIds = new Set();
+      values.set(value, docIds);
+    }
+    docIds.add(docId);
+  }
+}
+
+/**
+ * Removes a document's keyword values from the keyword index
+ */
+export function removeDocumentKeywords(
+  index: InvertedIndex,
+  docId: string,
+  keywords: Partial<Record<KeywordField, string>>
+): void {
+  for (const [field, value] of Object.entries(keywords) as [KeywordField, string][]) {
+    const values = index.keywordIndex.get(field);
+    const docIds = values?.get(value);
+    if (!values || !docIds) {
+      continue;
+    }
+
+    docIds.delete(docId);
+    if (docIds.size === 0) {
+      values.delete(value);
+    }
+  }
+}
+
+/**
+ * Gets the positions of a posting that fall within a text field
+ *
+ * Title tokens always precede body tokens, so the first `fieldFrequencies.title`
+ * positions belong to the title and the remaining ones to the body.
+ *
+ * @param posting Posting to read positions from
+ * @param field Field to restrict to, or undefined for all positions
+ * @returns Sorted positions within the field
+ */
+export function getFieldPositions(posting: PostingsList, field?: TextField): number[] {
+  if (!field) {
+    return posting.positions;
+  }
+
+  // Postings indexed before field support carry no per-field information
+  if (!posting.fieldFrequencies) {
+    return [];
+  }
+
+  const titleCount = posting.fieldFrequencies.title ?? 0;
+  return field === 'title'
+    ? posting.positions.slice(0, titleCount)
+    : posting.positions.slice(titleCount, titleCount + (posting.fieldFrequencies.body ?? 0));
 }
 
 /**
@@ -141,6 +442,59 @@ export function calculateAverageDocumentLength(documentLengths: Map<string, numb
   return totalLength / documentLengths.size;
 }
 
+/**
+ * Calculates how closely a document matches a phrase
+ *
+ * Each term's positions are shifted by the term's offset within the phrase, so an exact
+ * phrase occurrence lines up on a single value. The match length is the smallest spread
+ * that covers one shifted position from every term: 0 for an exact phrase, larger for
+ * scattered or reordered occurrences.
+ *
+ * Example: "memory leak" (offsets [0, 1]) against positions memory=[4], leak=[7]
+ * gives shifted values [4] and [6], so the match length is 2.
+ *
+ * @param positions Sorted positions of each phrase term in the document
+ * @param offsets Offset of each term within the phrase
+ * @returns Smallest match length, or Infinity if a term is missing
+ */
+export function calculatePhraseMatchLength(positions: number[][], offsets: number[]): number {
+  if (positions.length === 0 || positions.some((list) => list.length === 0)) {
+    return Infinity;
+  }
+
+  const shifted = positions.map((list, i) => list.map((pos) => pos - offsets[i]));
+  const cursors = new Array<number>(shifted.length).fill(0);
+  let best = Infinity;
+
+  // Sweep all lists in ascending order, always advancing the list holding the minimum
+  for (;;) {
+    let minList = 0;
+    let min = Infinity;
+    let max = -Infinity;
+
+    for (let i = 0; i < shifted.length; i++) {
+      const value = shifted[i][cursors[i]];
+      if (value < min) {
+        min = value;
+        minList = i;
+      }
+      if (value > max) {
+        max = value;
+      }
+    }
+
+    best = Math.min(best, max - min);
+    if (best === 0) {
+      return 0;
+    }
+
+    cursors[minList]++;
+    if (cursors[minList] >= shifted[minList].length) {
+      return best;
+    }
+  }
+}
+
 /**
  * Validates a PostingsList
  */
@@ -221,8 +575,8 @@ export function validateIndexEntry(entry: Partial<IndexEntry>): asserts entry is
 export function validateInvertedIndex(
   index: Partial<InvertedIndex>
 ): asserts index is InvertedIndex {
-  if (!(index.termToPostings instanceof Map)) {
-    throw new Error('InvertedIndex termToPostings must be a Map');
+  if (!Array.isArray(index.segments) || !index.buffer) {
+    throw new Error('InvertedIndex must have segments and a buffer segment');
   }
 
   if (!(index.documentLengths instanceof Map)) {
@@ -251,18 +605,27 @@ export function validateInvertedIndex(
     }
   }
 
-  // Validate each index entry
-  for (const [term, postings] of index.termToPostings.entries()) {
-    if (typeof term !== 'string' || term.trim() === '') {
-      throw new Error('Index term must be a non-empty string');
-    }
-
-    if (!Array.isArray(postings) || postings.length === 0) {
-      throw new Error(`Postings for term "${term}" must be a non-empty array`);
-    }
+  // Every document is live in exactly one segment
+  if (index.documentSegments?.size !== index.documentLengths.size) {
+    throw new Error(
+      `InvertedIndex documentSegments size (${index.documentSegments?.size}) must match documentLengths size (${index.documentLengths.size})`
+    );
+  }
 
-    for (const posting of postings) {
-      validatePostingsList(posting);
+  // Validate each index entry
+  for (const segment of [...index.segments, index.buffer]) {
+    for (const [term, postings] of segment.termToPostings.entries()) {
+      if (typeof term !== 'string' || term.trim() === '') {
+        throw new Error('Index term must be a non-empty string');
+      }
+
+      if (!Array.isArray(postings) || postings.length === 0) {
+        throw new Error(`Postings for term "${term}" must be a non-empty array`);
+      }
+
+      for (const posting of postings) {
+        validatePostingsList(posting);
+      }
     }
   }
 }
@@ -0,0 +1,175 @@
+/**
+ * Query data structures for the search query language
+ *
+ * A query string is parsed into an abstract syntax tree (AST) which is then
+ * evaluated against the inverted index.
+ *
+ * Example: "(react OR vue) AND testing -jest" parses to:
+ * {
+ *   type: 'and',
+ *   children: [
+ *     { type: 'or', children: [{ type: 'term', text: 'react' }, { type: 'term', text: 'vue' }] },
+ *     { type: 'term', text: 'testing' },
+ *     { type: 'not', child: { type: 'term', text: 'jest' } }
+ *   ]
+ * }
+ */
+
+import { Language, SearchField, TextField } from './document';
+
+/**
+ * Largest edit distance allowed for fuzzy terms ("kubernetes~2")
+ */
+export const MAX_FUZZINESS = 2;
+
+/**
+ * Boolean operator used to combine clauses
+ */
+export type BooleanOperator = 'AND' | 'OR';
+
+/**
+ * A single word from the query, analyzed with the same pipeline as documents
+ */
+export interface TermNode {
+  type: 'term';
+  text: string; // raw text as typed by the user
+  position: number; // character offset in the query string
+  field?: SearchField; // restricts the match to one field ("title:rust")
+  fuzziness?: number; // also match index terms within this edit distance ("kubernetes~1")
+  wildcard?: boolean; // text is a pattern where * matches any characters and ? one ("react*")
+  exact?: boolean; // matches the word as written, lowercased but not stemmed ("=testing")
+  synonym?: boolean; // added by synonym expansion rather than typed by the user
+  language?: Language; // stopwords and stemmer the text is analyzed with (default: English)
+}
+
+/**
+ * Quoted phrase whose words must occur in order, optionally within a slop distance
+ *
+ * Example: "memory leak"~3 matches documents where "memory" and "leak" occur
+ * with at most 3 position moves between them.
+ */
+export interface PhraseNode {
+  type: 'phrase';
+  text: string; // text between the quotes
+  slop: number; // maximum number of position moves allowed (0 = exact phrase)
+  position: number; // character offset of the opening quote in the query string
+  field?: SearchField; // restricts the match to one field ('title:"rust book"')
+  exact?: boolean; // matches the words as written, lowercased but not stemmed ('+"unit testing"')
+  synonym?: boolean; // added by synonym expansion rather than typed by the user
+  language?: Language; // stopwords and stemmer the text is analyzed with (default: English)
+}
+
+/**
+ * All children must match
+ */
+export interface AndNode {
+  type: 'and';
+  children: QueryNode[];
+}
+
+/**
+ * At least one child must match
+ */
+export interface OrNode {
+  type: 'or';
+  children: QueryNode[];
+}
+
+/**
+ * Child must not match
+ */
+export interface NotNode {
+  type: 'not';
+  child: QueryNode;
+}
+
+/**
+ * Any node of the query AST
+ */
+export type QueryNode = TermNode | PhraseNode | AndNode | OrNode | NotNode;
+
+/**
+ * Stems of a phrase with their positions
+ */
+export interface PhraseReading {
+  terms: string[]; // stems in query order
+  offsets: number[]; // position of each stem relative to the first one
+}
+
+/**
+ * Phrase after analysis, ready to be matched against postings positions
+ */
+export interface AnalyzedPhrase extends PhraseReading {
+  slop: number;
+  field?: TextField; // only positions within this field are considered
+  alternative?: PhraseReading; // compounds kept whole ("node.js" rather than "node js")
+  exact?: PhraseReading; // words as written, matched instead of the stems for exact phrases
+}
+
+/**
+ * Index term added to a query by expanding a query term or synonym, scored below exact matches
+ */
+export type TermExpansion =
+  | { kind: 'fuzzy'; distance: number } // distance = edit distance from the query term
+  | { kind: 'wildcard' }
+  | { kind: 'synonym' };
+
+/**
+ * Error thrown when a query string cannot be parsed
+ */
+export class QueryParseError extends Error {
+  position: number; // character offset where the error was detected
+
+  constructor(message: string, position: number) {
+    super(message);
+    this.name = 'QueryParseError';
+    this.position = position;
+  }
+}
+
+/**
+ * Error thrown when a wildcard term matches more index terms than allowed
+ */
+export class QueryExpansionError extends Error {
+  position: number; // character offset of the term in the query string
+  limit: number; // maximum number of index terms a term may expand to
+
+  constructor(message: string, position: number, limit: number) {
+    super(message);
+    this.name = 'QueryExpansionError';
+    this.position = position;
+    this.limit = limit;
+  }
+}
+
+/**
+ * Collects the terms and phrases that contribute to relevance scoring
+ *
+ * Clauses under an odd number of NOT nodes only exclude documents, so they are skipped.
+ */
+export function collectPositiveClauses(
+  node: QueryNode,
+  negated: boolean = false
+): Array<TermNode | PhraseNode> {
+  switch (node.type) {
+    case 'term':
+    case 'phrase':
+      return negated ? [] : [node];
+    case 'not':
+      return collectPositiveClauses(node.child, !negated);
+    case 'and':
+    case 'or':
+      return node.children.flatMap((child) => collectPositiveClauses(child, negated));
+  }
+}
+
+/**
+ * Gets the readings a phrase is matched by: the words as written for exact phrases,
+ * otherwise the stems and the compounds kept whole
+ */
+export function getPhraseReadings(phrase: AnalyzedPhrase): PhraseReading[] {
+  if (phrase.exact) {
+    return [phrase.exact];
+  }
+  return phrase.alternative ? [phrase, phrase.alternative] : [phrase];
+}
@@ -0,0 +1,260 @@
+/**
+ * Index segments: the parts the inverted index is made of
+ *
+ * New documents are added to an in-memory buffer segment. When the buffer is full it is
+ * sealed and its postings never change again; removing or replacing one of its documents
+ * only sets the document's bit in the segment's deletion bitmap. Segments are merged into
+ * larger ones in the background, which drops the postings of deleted documents.
+ *
+ * Example: a segment holding "doc-1" (ordinal 0) and "doc-2" (ordinal 1), where doc-1
+ * was replaced by a newer version in a later segment:
+ * {
+ *   id: 3,
+ *   docIds: ["doc-1", "doc-2"],
+ *   termToPostings: { "rust": [{ docId: "doc-1", ... }, { docId: "doc-2", ... }] },
+ *   deletions: [1],  // bit 0 set: ordinal 0 (doc-1) is deleted
+ *   deletedCount: 1
+ * }
+ */
+
+import { PostingsList } from './index';
+
+/**
+ * Number of document bits per word of a deletion bitmap
+ */
+const BITS_PER_WORD = 32;
+
+/**
+ * Segment of the inverted index
+ */
+export interface Segment {
+  // Unique id; segments are numbered in the order they were created
+  id: number;
+
+  // Maps ordinal → docId of every document added to the segment, deleted or not
+  docIds: string[];
+
+  // Maps docId → ordinal (derived from docIds)
+  docOrdinals: Map<string, number>;
+
+  // Maps term → postings of the segment's documents, in the order they were added
+  termToPostings: Map<string, PostingsList[]>;
+
+  // Maps lowercased, unstemmed word → postings (for exact matching)
+  exactTermToPostings: Map<string, PostingsList[]>;
+
+  // Bitmap of deleted ordinals, 32 per word
+  deletions: number[];
+
+  // Number of bits set in the deletion bitmap
+  deletedCount: number;
+}
+
+/**
+ * Serializable version of a Segment for JSON storage
+ */
+export interface SerializableSegment {
+  id: number;
+  docIds: string[];
+  termToPostings: Record<string, PostingsList[]>;
+  exactTermToPostings: Record<string, PostingsList[]>;
+  deletions: number[];
+}
+
+/**
+ * Creates an empty segment
+ */
+export function createSegment(id: number): Segment {
+  return {
+    id,
+    docIds: [],
+    docOrdinals: new Map(),
+    termToPostings: new Map(),
+    exactTermToPostings: new Map(),
+    deletions: [],
+    deletedCount: 0,
+  };
+}
+
+/**
+ * Checks whether the document at an ordinal is deleted
+ */
+export function isDeleted(segment: Segment, ordinal: number): boolean {
+  const word = segment.deletions[Math.floor(ordinal / BITS_PER_WORD)] ?? 0;
+  return (word & (1 << (ordinal % BITS_PER_WORD))) !== 0;
+}
+
+/**
+ * Marks the document at an ordinal as deleted
+ * @returns True if the document was live
+ */
+export function markDeleted(segment: Segment, ordinal: number): boolean {
+  if (isDeleted(segment, ordinal)) {
+    return false;
+  }
+
+  const index = Math.floor(ordinal / BITS_PER_WORD);
+  while (segment.deletions.length <= index) {
+    segment.deletions.push(0);
+  }
+  segment.deletions[index] |= 1 << (ordinal % BITS_PER_WORD);
+  segment.deletedCount++;
+  return true;
+}
+
+/**
+ * Clears the deleted mark of the document at an ordinal
+ * Only the buffer segment reuses ordinals, for documents re-added before it is sealed.
+ */
+export function unmarkDeleted(segment: Segment, ordinal: number): void {
+  if (!isDeleted(segment, ordinal)) {
+    return;
+  }
+
+  segment.deletions[Math.floor(ordinal / BITS_PER_WORD)] &= ~(1 << (ordinal % BITS_PER_WORD));
+  segment.deletedCount--;
+}
+
+/**
+ * Checks whether a document of the segment is live
+ * @returns True if the document was added to the segment and not deleted since
+ */
+export function isLiveDocument(segment: Segment, docId: string): boolean {
+  const ordinal = segment.docOrdinals.get(docId);
+  return ordinal !== undefined && !isDeleted(segment, ordinal);
+}
+
+/**
+ * Gets the number of live documents in a segment
+ */
+export function getLiveDocumentCount(segment: Segment): number {
+  return segment.docIds.length - segment.deletedCount;
+}
+
+/**
+ * Gets the postings of live documents from a segment's term map
+ * @param segment Segment to read
+ * @param termToPostings Term map of the segment (stemmed or exact)
+ * @param term Term to look up
+ * @returns Live postings; the stored array itself if nothing in the segment is deleted
+ */
+export function getLivePostings(
+  segment: Segment,
+  termToPostings: Map<string, PostingsList[]>,
+  term: string
+): PostingsList[] {
+  const postings = termToPostings.get(term);
+  if (!postings) {
+    return [];
+  }
+  if (segment.deletedCount === 0) {
+    return postings;
+  }
+  return postings.filter((posting) => isLiveDocument(segment, posting.docId));
+}
+
+/**
+ * Checks whether a term has postings of live documents in a segment
+ */
+export function hasLivePostings(
+  segment: Segment,
+  termToPostings: Map<string, PostingsList[]>,
+  term: string
+): boolean {
+  const postings = termToPostings.get(term);
+  if (!postings) {
+    return false;
+  }
+  return (
+    segment.deletedCount === 0 || postings.some((posting) => isLiveDocument(segment, posting.docId))
+  );
+}
+
+/**
+ * Merges segments into a new one holding their live documents
+ *
+ * Documents keep their order: segment by segment, then by ordinal. Postings keep
+ * the order they had within and across the segments.
+ * @param id Id of the new segment
+ * @param segments Segments to merge, oldest first
+ * @returns Merged segment without deletions
+ */
+export function mergeSegments(id: number, segments: Segment[]): Segment {
+  const merged = createSegment(id);
+
+  for (const segment of segments) {
+    segment.docIds.forEach((docId, ordinal) => {
+      if (!isDeleted(segment, ordinal)) {
+        merged.docOrdinals.set(docId, merged.docIds.length);
+        merged.docIds.push(docId);
+      }
+    });
+
+    for (const [source, target] of [
+      [segment.termToPostings, merged.termToPostings],
+      [segment.exactTermToPostings, merged.exactTermToPostings],
+    ]) {
+      for (const term of source.keys()) {
+        const postings = getLivePostings(segment, source, term);
+        if (postings.length === 0) {
+          continue;
+        }
+
+        let list = target.get(term);
+        if (!list) {
+          list = [];
+          target.set(term, list);
+        }
+        for (const posting of postings) {
+          list.push(posting);
+        }
+      }
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Serializes a segment to a JSON-compatible format
+ */
+export function serializeSegment(segment: Segment): SerializableSegment {
+  return {
+    id: segment.id,
+    docIds: segment.docIds,
+    termToPostings: Object.fromEntries(segment.termToPostings),
+    exactTermToPostings: Object.fromEntries(segment.exactTermToPostings),
+    deletions: segment.deletions,
+  };
+}
+
+/**
+ * Deserializes a segment from JSON format, rebuilding its derived lookups
+ */
+export function deserializeSegment(serialized: SerializableSegment): Segment {
+  const segment: Segment = {
+    id: serialized.id,
+    docIds: serialized.docIds,
+    docOrdinals: new Map(serialized.docIds.map((docId, ordinal) => [docId, ordinal])),
+    termToPostings: new Map(Object.entries(serialized.termToPostings)),
+    exactTermToPostings: new Map(Object.entries(serialized.exactTermToPostings ?? {})),
+    deletions: [],
+    deletedCount: 0,
+  };
+  setDeletions(segment, serialized.deletions ?? []);
+
+  return segment;
+}
+
+/**
+ * Replaces the deletion bitmap of a segment read from disk and recounts its deletions
+ */
+export function setDeletions(segment: Segment, deletions: number[]): void {
+  segment.deletions = deletions;
+  segment.deletedCount = 0;
+  for (let ordinal = 0; ordinal < segment.docIds.length; ordinal++) {
+    if (isDeleted(segment, ordinal)) {
+      segment.deletedCount++;
+    }
+  }
+}
@@ -7,11 +7,18 @@ import { AnalyticsService } from './services/analytics';
 import { DocumentStore } from './services/document-store';
 import { Indexer } from './services/indexer';
 import { TextProcessor } from './services/text-processor';
+import { loadAnalysisSettings } from './services/analysis';
 import { Ranker } from './services/ranker';
 import { QueryCache } from './services/query-cache';
+import { SpellingCorrector } from './services/spelling-corrector';
+import { SynonymService } from './services/synonyms';
 import { WebSocketStatsService } from './services/websocket-stats';
 import { SearchHistoryService } from './services/search-history';
+import { ReindexService } from './services/reindex';
+import { IndexVerifier } from './services/index-verifier';
+import { restoreState, persistState } from './services/persistence';
 import { logger } from './utils/logger';
+import * as path from 'path';
 
 async function startServer() {
   try {
@@ -19,31 +26,49 @@ async function startServer() {
     const config = loadConfig();
     logger.info('Configuration loaded', { env: config.nodeEnv, port: config.port });
 
-    // Note: Using in-memory storage for now
+    // Note: Using in-memory storage, saved to the data directory
     // PostgreSQL and Redis connections are optional for development
-    logger.info('Starting with in-memory storage (no database required)');
+    logger.info('Starting with in-memory storage (no database required)', {
+      dataDir: config.storage.dataDir,
+    });
+    const dataPath = (file: string) => path.join(config.storage.dataDir, file);
 
     // Initialize services with in-memory implementations
-    const textProcessor = new TextProcessor();
+    // Custom analyzers replace the built-in one; an invalid file stops the server
+    const analysis = config.search.analysisPath
+      ? await loadAnalysisSettings(config.search.analysisPath)
+      : undefined;
+    const textProcessor = new TextProcessor(analysis ? { analysis } : {});
+    // Changes go to a write-ahead log, so the index survives crashes between checkpoints
     const indexer = new Indexer({
-      indexPath: './data/index.json',
-      autoPersist: false,
+      indexPath: dataPath('index.bin'),
+      autoPersist: true,
     });
 
+    // Saved shortly after every change, so the index recovered from its log finds its documents
     const documentStore = new DocumentStore({
       maxDocuments: 100000,
+      storePath: dataPath('documents.json'),
+      autoPersist: true,
     });
 
     const ranker = new Ranker(
       {
-        algorithm: config.ranking.algorithm as 'tfidf' | 'bm25',
+        algorithm: config.ranking.algorithm as 'tfidf' | 'bm25' | 'bm25f',
         bm25K1: config.ranking.bm25K1,
         bm25B: config.ranking.bm25B,
+        fieldBoosts: config.ranking.fieldBoosts,
+        fieldB: config.ranking.fieldB,
         textWeight: config.ranking.textWeight,
         recencyWeight: config.ranking.recencyWeight,
         popularityWeight: config.ranking.popularityWeight,
         engagementWeight: config.ranking.engagementWeight,
         recencyDecayDays: config.ranking.recencyDecayDays,
+        proximityBoost: config.ranking.proximityBoost,
+        fuzzyTermWeight: config.ranking.fuzzyTermWeight,
+        wildcardTermWeight: config.ranking.wildcardTermWeight,
+        synonymTermWeight: config.ranking.synonymTermWeight,
+        exactMatchBoost: config.ranking.exactMatchBoost,
       },
       indexer,
       documentStore
@@ -51,15 +76,52 @@ async function startServer() {
 
     const queryCache = new QueryCache();
     const analyticsService = new AnalyticsService();
-    const autocompleteService = new AutocompleteService();
+    const autocompleteService = new AutocompleteService({
+      triePath: dataPath('autocomplete-trie.json'),
+    });
     const rateLimiter = new RateLimiter();
     const searchHistoryService = new SearchHistoryService({
       maxEntriesPerUser: 100,
+      historyPath: dataPath('search-history.json'),
     });
 
+    const spellingCorrector = new SpellingCorrector({}, indexer, textProcessor, analyticsService);
+
+    // Synonyms apply at query time, and at index time when enabled
+    const synonymService = new SynonymService(
+      { synonymsPath: config.search.synonymsPath },
+      textProcessor
+    );
+    try {
+      const rules = await synonymService.load();
+      logger.info('Synonyms loaded', { rules, path: config.search.synonymsPath });
+    } catch (error) {
+      logger.warn('Failed to load synonyms, continuing without them', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+    if (config.search.indexSynonyms) {
+      textProcessor.setIndexSynonyms(synonymService);
+    }
+
     // Auth service - using in-memory implementation
     const { AuthServiceMemory } = await import('./services/auth-memory');
-    const authService = new AuthServiceMemory(config.security.jwtSecret, '7d');
+    const authService = new AuthServiceMemory(
+      config.security.jwtSecret,
+      '7d',
+      dataPath('users.json')
+    );
+
+    // Restore the state saved by the previous run; a damaged file stops the server
+    const persistentComponents = {
+      indexer,
+      documentStore,
+      autocompleteService,
+      searchHistoryService,
+      authService,
+    };
+    const restored = await restoreState(persistentComponents, textProcessor);
+    logger.info('Persisted state restored', { ...restored });
 
     const queryProcessor = new QueryProcessor(
       {
@@ -67,14 +129,32 @@ async function startServer() {
         maxPageSize: 100,
         snippetContextLength: 50,
         enableCache: false, // Disable cache since no Redis
+        exactTotalCount: config.search.exactTotalCount,
       },
       textProcessor,
       indexer,
       ranker,
       documentStore,
-      queryCache
+      queryCache,
+      spellingCorrector,
+      synonymService
+    );
+
+    // Rebuilds the index in the background and swaps it in, e.g. after the analyzers change
+    const reindexService = new ReindexService(
+      {
+        indexSynonyms: config.search.indexSynonyms,
+        ...(config.search.analysisPath ? { analysisPath: config.search.analysisPath } : {}),
+      },
+      indexer,
+      documentStore,
+      textProcessor,
+      synonymService
     );
 
+    // Checks the index against its invariants and the document store
+    const indexVerifier = new IndexVerifier({}, indexer, documentStore, textProcessor);
+
     // Create Express app
     const app = createApp(
       queryProcessor,
@@ -85,10 +165,14 @@ async function startServer() {
       indexer,
       authService,
       searchHistoryService,
+      synonymService,
+      reindexService,
+      indexVerifier,
       {
         port: config.port,
         corsOrigins: config.cors?.origins?.split(',') || ['*'],
         enableLogging: true,
+        adminToken: config.security.adminToken,
       }
     );
 
@@ -98,12 +182,12 @@ async function startServer() {
         port: config.port,
         env: config.nodeEnv,
         url: `http://localhost:${config.port}`,
-        note: 'Using in-memory storage - data will not persist',
+        note: `Using in-memory storage, saved to ${config.storage.dataDir}`,
       });
       console.log(`\n🚀 Server running at http://localhost:${config.port}`);
       console.log(`📝 API docs: http://localhost:${config.port}/api/v1/health`);
       console.log(`🔌 WebSocket stats: ws://localhost:${config.port}/ws/stats`);
-      console.log(`⚠️  Note: Using in-memory storage (no database required)\n`);
+      console.log(`💾 Data directory: ${config.storage.dataDir} (no database required)\n`);
     });
 
     // Initialize WebSocket stats service
@@ -136,7 +220,7 @@ async function startServer() {
     const collectionTimer = redditCollector.scheduleCollection(collectionInterval);
 
     // Run initial collection after 30 seconds
-    setTimeout(async () => {
+    const initialCollectionTimer = setTimeout(async () => {
       try {
         logger.info('Running initial Reddit collection...');
         const result = await redditCollector.runCollectionCycle();
@@ -161,29 +245,42 @@ async function startServer() {
     }, 30000);
 
     // Graceful shutdown
-    const shutdown = async () => {
-      logger.info('Shutting down gracefully...');
+    let shuttingDown = false;
+    const shutdown = async (signal: string) => {
+      if (shuttingDown) {
+        return;
+      }
+      shuttingDown = true;
+      logger.info('Shutting down gracefully...', { signal });
+
+      // Force shutdown after 10 seconds
+      setTimeout(() => {
+        logger.error('Forced shutdown after timeout');
+        process.exit(1);
+      }, 10000).unref();
 
       // Stop scheduled collection
+      clearTimeout(initialCollectionTimer);
       clearInterval(collectionTimer);
 
-      // Shutdown WebSocket service first
+      // Shutdown WebSocket service first, closing its clients
       wsStatsService.shutdown();
 
-      server.close(() => {
-        logger.info('HTTP server closed');
-        process.exit(0);
+      // Stop accepting connections and wait for in-flight requests to finish
+      await new Promise<void>((resolve) => {
+        server.close(() => resolve());
+        server.closeIdleConnections();
       });
+      logger.info('HTTP server closed');
 
-      // Force shutdown after 10 seconds
-      setTimeout(() => {
-        logger.error('Forced shutdown after timeout');
-        process.exit(1);
-      }, 10000);
+      // Flush everything to disk
+      const failed = await persistState(persistentComponents);
+      logger.info('State persisted', { failed });
+      process.exit(failed.length > 0 ? 1 : 0);
     };
 
-    process.on('SIGTERM', shutdown);
-    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', () => void shutdown('SIGTERM'));
+    process.on('SIGINT', () => void shutdown('SIGINT'));
   } catch (error) {
     logger.error('Failed to start server', { 
       error: error instanceof Error ? error.message : String(error),
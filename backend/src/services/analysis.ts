@@ -0,0 +1,729 @@
+import * as cheerio from 'cheerio';
+import { LancasterStemmer, PorterStemmer } from 'natural';
+import * as fs from 'fs/promises';
+import { Language, TEXT_FIELDS, TextField, Token } from '../models/document';
+import { DEFAULT_LANGUAGE, getStemmer, getStopwords } from './language';
+import {
+  AnalysisSettings,
+  AnalyzerDefinition,
+  CharFilterDefinition,
+  StemmerAlgorithm,
+  StopwordList,
+  TokenFilterDefinition,
+  TokenizerDefinition,
+} from '../models/analysis';
+
+export type {
+  AnalysisSettings,
+  AnalyzerDefinition,
+  CharFilterDefinition,
+  StemmerAlgorithm,
+  StopwordList,
+  TokenFilterDefinition,
+  TokenizerDefinition,
+} from '../models/analysis';
+
+const DEFAULT_CHAR_FILTERS: CharFilterDefinition[] = [{ type: 'html_strip' }, { type: 'nfkc' }];
+
+const DEFAULT_FILTERS: TokenFilterDefinition[] = [
+  { type: 'lowercase' },
+  { type: 'stop', stopwords: 'language' },
+  { type: 'stemmer', algorithm: 'language' },
+  { type: 'ascii_folding' },
+];
+
+/**
+ * Built-in analysis: HTML stripped, NFKC normalized, lowercased, stopwords removed and
+ * stemmed for the language of the text, accents folded ("café" matches "cafe")
+ * Titles and queries are tokenized in code mode, so "node.js" or "c++" are terms of their
+ * own; bodies only in their markdown code, as sentence punctuation in prose ("end.Next",
+ * "and/or") would otherwise be read as compounds.
+ */
+export const DEFAULT_ANALYSIS: AnalysisSettings = {
+  analyzers: {
+    standard: {
+      charFilters: DEFAULT_CHAR_FILTERS,
+      tokenizer: { type: 'standard' },
+      filters: DEFAULT_FILTERS,
+    },
+    code: {
+      charFilters: DEFAULT_CHAR_FILTERS,
+      tokenizer: { type: 'code' },
+      filters: DEFAULT_FILTERS,
+    },
+    markdown: {
+      charFilters: DEFAULT_CHAR_FILTERS,
+      tokenizer: { type: 'markdown' },
+      filters: DEFAULT_FILTERS,
+    },
+  },
+  fields: { title: 'code', body: 'markdown' },
+  search: 'code',
+};
+
+const CHAR_FILTER_TYPES = ['html_strip', 'nfkc'];
+const TOKENIZER_TYPES = ['standard', 'code', 'markdown'];
+const TOKEN_FILTER_TYPES = ['lowercase', 'ascii_folding', 'stop', 'stemmer', 'length', 'shingle'];
+const STOPWORD_LISTS: StopwordList[] = ['english', 'language', 'none'];
+const STEMMER_ALGORITHMS: StemmerAlgorithm[] = ['porter', 'lancaster', 'language', 'none'];
+const MAX_SHINGLE_SIZE = 4;
+
+/**
+ * Error thrown when analysis settings are invalid
+ */
+export class AnalysisConfigError extends Error {
+  path: string; // setting that is invalid, e.g. "analyzers.title.filters[1].algorithm"
+
+  constructor(message: string, path: string) {
+    super(message);
+    this.name = 'AnalysisConfigError';
+    this.path = path;
+  }
+}
+
+/**
+ * Error thrown when text would be analyzed differently from the index it is used with
+ */
+export class AnalysisMismatchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AnalysisMismatchError';
+  }
+}
+
+/**
+ * Validates analysis settings, e.g. read from a JSON file
+ * Missing top-level entries are taken from DEFAULT_ANALYSIS, so a file may only define
+ * extra analyzers and pick them per field.
+ * @param value Settings as read
+ * @returns Validated settings
+ * @throws AnalysisConfigError if a setting is invalid
+ */
+export function parseAnalysisSettings(value: unknown): AnalysisSettings {
+  const input = expectObject(value, 'analysis');
+
+  const analyzers: Record<string, AnalyzerDefinition> = { ...DEFAULT_ANALYSIS.analyzers };
+  if (input.analyzers !== undefined) {
+    const definitions = expectObject(input.analyzers, 'analyzers');
+    for (const [name, definition] of Object.entries(definitions)) {
+      analyzers[name] = parseAnalyzerDefinition(definition, `analyzers.${name}`);
+    }
+  }
+
+  const fields = { ...DEFAULT_ANALYSIS.fields };
+  if (input.fields !== undefined) {
+    const names = expectObject(input.fields, 'fields');
+    for (const [field, name] of Object.entries(names)) {
+      if (!TEXT_FIELDS.includes(field as TextField)) {
+        throw new AnalysisConfigError(`unknown field "${field}"`, `fields.${field}`);
+      }
+      fields[field as TextField] = expectAnalyzerName(name, analyzers, `fields.${field}`);
+    }
+  }
+
+  const search =
+    input.search === undefined
+      ? DEFAULT_ANALYSIS.search
+      : expectAnalyzerName(input.search, analyzers, 'search');
+
+  return { analyzers, fields, search };
+}
+
+/**
+ * Reads analysis settings from a JSON file
+ * @param filePath Path of the file
+ * @returns Validated settings
+ * @throws AnalysisConfigError if a setting is invalid
+ */
+export async function loadAnalysisSettings(filePath: string): Promise<AnalysisSettings> {
+  const data = await fs.readFile(filePath, 'utf-8');
+  let value: unknown;
+  try {
+    value = JSON.parse(data);
+  } catch (error) {
+    throw new AnalysisConfigError(
+      `${filePath} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`,
+      'analysis'
+    );
+  }
+  return parseAnalysisSettings(value);
+}
+
+/**
+ * Checks whether two analysis settings analyze text identically
+ */
+export function analysisSettingsEqual(a: AnalysisSettings, b: AnalysisSettings): boolean {
+  return canonicalJson(a) === canonicalJson(b);
+}
+
+function parseAnalyzerDefinition(value: unknown, path: string): AnalyzerDefinition {
+  const input = expectObject(value, path);
+
+  const charFilters = expectArray(input.charFilters ?? [], `${path}.charFilters`).map(
+    (filter, i) => {
+      const definition = expectObject(filter, `${path}.charFilters[${i}]`);
+      expectType(definition, CHAR_FILTER_TYPES, `${path}.charFilters[${i}].type`);
+      return definition as CharFilterDefinition;
+    }
+  );
+
+  const tokenizer = expectObject(input.tokenizer, `${path}.tokenizer`);
+  expectType(tokenizer, TOKENIZER_TYPES, `${path}.tokenizer.type`);
+  if (tokenizer.subTokens !== undefined && typeof tokenizer.subTokens !== 'boolean') {
+    throw new AnalysisConfigError('subTokens must be a boolean', `${path}.tokenizer.subTokens`);
+  }
+
+  const filters = expectArray(input.filters ?? [], `${path}.filters`).map((filter, i) =>
+    parseTokenFilterDefinition(filter, `${path}.filters[${i}]`)
+  );
+
+  return { charFilters, tokenizer: tokenizer as TokenizerDefinition, filters };
+}
+
+function parseTokenFilterDefinition(value: unknown, path: string): TokenFilterDefinition {
+  const definition = expectObject(value, path);
+  expectType(definition, TOKEN_FILTER_TYPES, `${path}.type`);
+
+  switch (definition.type) {
+    case 'stop': {
+      const list = definition.stopwords;
+      const valid =
+        list === undefined ||
+        STOPWORD_LISTS.includes(list as StopwordList) ||
+        (Array.isArray(list) && list.every((word) => typeof word === 'string'));
+      if (!valid) {
+        throw new AnalysisConfigError(
+          `stopwords must be one of ${STOPWORD_LISTS.join(', ')} or an array of words`,
+          `${path}.stopwords`
+        );
+      }
+      break;
+    }
+    case 'stemmer':
+      if (
+        definition.algorithm !== undefined &&
+        !STEMMER_ALGORITHMS.includes(definition.algorithm as StemmerAlgorithm)
+      ) {
+        throw new AnalysisConfigError(
+          `algorithm must be one of ${STEMMER_ALGORITHMS.join(', ')}`,
+          `${path}.algorithm`
+        );
+      }
+      break;
+    case 'length':
+      for (const bound of ['min', 'max']) {
+        const limit = definition[bound];
+        if (limit !== undefined && (!Number.isInteger(limit) || (limit as number) < 0)) {
+          throw new AnalysisConfigError(
+            `${bound} must be a non-negative integer`,
+            `${path}.${bound}`
+          );
+        }
+      }
+      break;
+    case 'shingle': {
+      const size = definition.size;
+      if (
+        size !== undefined &&
+        (!Number.isInteger(size) || (size as number) < 2 || (size as number) > MAX_SHINGLE_SIZE)
+      ) {
+        throw new AnalysisConfigError(
+          `size must be an integer between 2 and ${MAX_SHINGLE_SIZE}`,
+          `${path}.size`
+        );
+      }
+      if (
+        definition.outputUnigrams !== undefined &&
+        typeof definition.outputUnigrams !== 'boolean'
+      ) {
+        throw new AnalysisConfigError('outputUnigrams must be a boolean', `${path}.outputUnigrams`);
+      }
+      break;
+    }
+  }
+
+  return definition as TokenFilterDefinition;
+}
+
+function expectObject(value: unknown, path: string): Record<string, unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new AnalysisConfigError(`${path} must be an object`, path);
+  }
+  return value as Record<string, unknown>;
+}
+
+function expectArray(value: unknown, path: string): unknown[] {
+  if (!Array.isArray(value)) {
+    throw new AnalysisConfigError(`${path} must be an array`, path);
+  }
+  return value;
+}
+
+function expectType(definition: Record<string, unknown>, types: string[], path: string): void {
+  if (typeof definition.type !== 'string' || !types.includes(definition.type)) {
+    throw new AnalysisConfigError(`type must be one of ${types.join(', ')}`, path);
+  }
+}
+
+function expectAnalyzerName(
+  value: unknown,
+  analyzers: Record<string, AnalyzerDefinition>,
+  path: string
+): string {
+  if (typeof value !== 'string' || !analyzers[value]) {
+    throw new AnalysisConfigError(`unknown analyzer ${JSON.stringify(value)}`, path);
+  }
+  return value;
+}
+
+// JSON with object keys sorted, so equal settings always serialize the same way
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, item) =>
+    typeof item === 'object' && item !== null && !Array.isArray(item)
+      ? Object.fromEntries(Object.entries(item).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)))
+      : item
+  );
+}
+
+/**
+ * Removes HTML tags and entities and collapses whitespace
+ * @param text Raw text that may contain HTML
+ * @returns Plain text
+ */
+export function stripHtml(text: string): string {
+  if (!text || typeof text !== 'string') {
+    return '';
+  }
+
+  // Cheerio extracts the text content, which strips tags and decodes entities
+  const $ = cheerio.load(text);
+
+  // Clean up extra whitespace that may result from HTML removal
+  return $.text().replace(/\s+/g, ' ').trim();
+}
+
+// Scripts written without spaces between words, indexed as character bigrams, and the
+// katakana prolonged sound mark "ー"
+const CJK_CHAR = String.raw`[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}\u30fc\uff70]`;
+
+// Letters, combining marks, digits and underscores of all other scripts
+const WORD_CHAR = String.raw`(?:(?!${CJK_CHAR})[\p{L}\p{M}\p{N}_])`;
+
+const STANDARD_TOKEN_PATTERN = new RegExp(`(${CJK_CHAR}+)|${WORD_CHAR}+`, 'gu');
+
+/**
+ * Splits text into words: runs of letters, digits and underscores in any script
+ * Runs of CJK characters become overlapping bigrams ("東京都" → "東京", "京都"), as these
+ * scripts do not separate words. Positions are ordinal word indexes so that phrase
+ * queries can check adjacency; the character offset of each token is kept separately.
+ * @param text Text to tokenize
+ * @returns Tokens whose stem is still the surface form
+ */
+export function standardTokenize(text: string): Token[] {
+  if (!text || typeof text !== 'string') {
+    return [];
+  }
+
+  const tokens: Token[] = [];
+  for (const match of text.matchAll(STANDARD_TOKEN_PATTERN)) {
+    if (match[1]) {
+      tokens.push(...cjkBigrams(match[0], match.index, tokens.length));
+      continue;
+    }
+    tokens.push({
+      text: match[0],
+      position: tokens.length,
+      stem: match[0],
+      offset: match.index,
+    });
+  }
+  return tokens;
+}
+
+/**
+ * Splits a run of CJK characters into overlapping bigrams at consecutive positions
+ * A single character stays a token of its own.
+ */
+function cjkBigrams(run: string, offset: number, position: number): Token[] {
+  const chars = Array.from(run);
+  if (chars.length === 1) {
+    return [{ text: run, position, stem: run, offset }];
+  }
+
+  const tokens: Token[] = [];
+  let start = offset;
+  for (let i = 0; i + 1 < chars.length; i++) {
+    const bigram = chars[i] + chars[i + 1];
+    tokens.push({ text: bigram, position: position + i, stem: bigram, offset: start });
+    start += chars[i].length;
+  }
+  return tokens;
+}
+
+// A CJK run, a URL, or a word with its inner "." "-" "/" "::" separators, an optional
+// leading dot (".net") and trailing "+" or "#" ("c++", "c#")
+const CODE_TOKEN_PATTERN = new RegExp(
+  `(${CJK_CHAR}+)|https?://[^\\s<>"'\`]*[^\\s<>"'\`.,;:!?)\\]}]|` +
+    `(?<!${WORD_CHAR}|\\.)\\.?${WORD_CHAR}+(?:(?:[.\\-/]|::)${WORD_CHAR}+)*(?:[+#]+(?!${WORD_CHAR}))?`,
+  'gu'
+);
+
+const NON_WORD_CHAR = /[^\p{L}\p{M}\p{N}_]/u;
+
+// Pieces of a compound: acronyms, capitalized or lowercase words, numbers
+const CODE_PART_PATTERN = /\p{Lu}+(?!\p{Ll})|\p{Lu}?[\p{Ll}\p{Lm}\p{Lo}\p{M}]+|\p{N}+/gu;
+
+// Inline code and fenced code blocks of markdown
+const MARKDOWN_CODE_PATTERN = /```[\s\S]*?```|~~~[\s\S]*?~~~|`[^`]+`/g;
+
+/**
+ * Splits text into programming terms: identifiers, versions, dotted names, URLs
+ * Each match is one token at its own position. A token with punctuation is marked as a
+ * keyword so it is not stemmed. With sub-tokens, a compound is followed by its parts
+ * (camelCase, snake_case, dotted and numeric pieces) and by its joined form without
+ * separators, all at the same position: "node.js" also yields "nodejs", "node" and "js".
+ * @param text Text to tokenize
+ * @param subTokens Whether to emit the parts and joined form of compounds
+ * @returns Tokens whose stem is still the surface form
+ */
+export function codeTokenize(text: string, subTokens = true): Token[] {
+  if (!text || typeof text !== 'string') {
+    return [];
+  }
+
+  const tokens: Token[] = [];
+  let position = 0;
+  for (const match of text.matchAll(CODE_TOKEN_PATTERN)) {
+    const word = match[0];
+    const offset = match.index;
+    if (match[1]) {
+      const bigrams = cjkBigrams(word, offset, position);
+      tokens.push(...bigrams);
+      position += bigrams.length;
+      continue;
+    }
+    tokens.push({ text: word, position, stem: word, offset, keyword: NON_WORD_CHAR.test(word) });
+
+    if (subTokens) {
+      const parts = Array.from(word.matchAll(CODE_PART_PATTERN), (part) => part[0]);
+      const joined = word.replace(/[^\p{L}\p{M}\p{N}]/gu, '');
+      if (!word.includes('://') && joined !== word && !parts.includes(joined)) {
+        tokens.push({ text: word, position, stem: joined, offset });
+      }
+      if (parts.length > 1 || (parts.length === 1 && parts[0] !== word)) {
+        for (const part of word.matchAll(CODE_PART_PATTERN)) {
+          tokens.push({
+            text: part[0],
+            position,
+            stem: part[0],
+            offset: offset + part.index,
+            part: true,
+          });
+        }
+      }
+    }
+    position++;
+  }
+  return tokens;
+}
+
+/**
+ * Tokenizes markdown: prose like the standard tokenizer, `inline` and fenced code blocks
+ * like the code tokenizer
+ * Positions run on across prose and code and offsets point into the whole text.
+ * @param text Text to tokenize
+ * @returns Tokens whose stem is still the surface form
+ */
+export function markdownTokenize(text: string): Token[] {
+  if (!text || typeof text !== 'string') {
+    return [];
+  }
+
+  const tokens: Token[] = [];
+  const append = (segment: Token[], start: number) => {
+    const position = tokens.length > 0 ? tokens[tokens.length - 1].position + 1 : 0;
+    for (const token of segment) {
+      tokens.push({
+        ...token,
+        position: token.position + position,
+        offset: (token.offset ?? 0) + start,
+      });
+    }
+  };
+
+  let start = 0;
+  for (const match of text.matchAll(MARKDOWN_CODE_PATTERN)) {
+    append(standardTokenize(text.slice(start, match.index)), start);
+    append(codeTokenize(match[0]), match.index);
+    start = match.index + match[0].length;
+  }
+  append(standardTokenize(text.slice(start)), start);
+
+  return tokens;
+}
+
+type CharFilter = (text: string) => string;
+type Tokenizer = (text: string) => Token[];
+type TokenFilter = (tokens: Token[], text: string, language: Language) => Token[];
+
+function createCharFilter(definition: CharFilterDefinition): CharFilter {
+  switch (definition.type) {
+    case 'html_strip':
+      return stripHtml;
+    case 'nfkc':
+      return (text) => text.normalize('NFKC');
+  }
+}
+
+function createTokenizer(definition: TokenizerDefinition): Tokenizer {
+  switch (definition.type) {
+    case 'standard':
+      return standardTokenize;
+    case 'code': {
+      const subTokens = definition.subTokens ?? true;
+      return (text) => codeTokenize(text, subTokens);
+    }
+    case 'markdown':
+      return markdownTokenize;
+  }
+}
+
+function createTokenFilter(definition: TokenFilterDefinition): TokenFilter {
+  switch (definition.type) {
+    case 'lowercase':
+      return (tokens) => tokens.map((token) => ({ ...token, stem: token.stem.toLowerCase() }));
+
+    case 'ascii_folding':
+      return (tokens) => tokens.map((token) => ({ ...token, stem: foldToAscii(token.stem) }));
+
+    case 'stop': {
+      const list = definition.stopwords ?? 'english';
+      if (list === 'language') {
+        return (tokens, _text, language) => {
+          const words = getStopwords(language);
+          return tokens.filter((token) => !words.has(token.stem));
+        };
+      }
+      const words = Array.isArray(list)
+        ? new Set(list)
+        : list === 'english'
+          ? getStopwords('en')
+          : new Set<string>();
+      return (tokens) => tokens.filter((token) => !words.has(token.stem));
+    }
+
+    case 'stemmer': {
+      const algorithm = definition.algorithm ?? 'porter';
+      if (algorithm === 'none') {
+        return (tokens) => tokens;
+      }
+      const fixed = algorithm === 'lancaster' ? LancasterStemmer : PorterStemmer;
+      return (tokens, _text, language) => {
+        const stemmer = algorithm === 'language' ? getStemmer(language) : fixed;
+        return stemmer
+          ? tokens.map((token) =>
+              token.keyword ? token : { ...token, stem: stemmer.stem(token.stem) }
+            )
+          : tokens;
+      };
+    }
+
+    case 'length': {
+      const min = definition.min ?? 0;
+      const max = definition.max ?? Infinity;
+      return (tokens) =>
+        tokens.filter((token) => token.stem.length >= min && token.stem.length <= max);
+    }
+
+    case 'shingle':
+      return createShingleFilter(definition.size ?? 2, definition.outputUnigrams ?? true);
+  }
+}
+
+// Latin letters that do not decompose into a base letter and diacritics
+const LATIN_LIGATURES: Record<string, string> = {
+  ß: 'ss',
+  æ: 'ae',
+  œ: 'oe',
+  ø: 'o',
+  ł: 'l',
+  đ: 'd',
+  ð: 'd',
+  þ: 'th',
+  ı: 'i',
+};
+
+/**
+ * Removes diacritics from Latin letters ("café" → "cafe", "straße" → "strasse")
+ * Marks on other scripts are kept, so Cyrillic "й" and Hangul syllables are not changed.
+ */
+function foldToAscii(term: string): string {
+  return term
+    .normalize('NFD')
+    .replace(/(\p{Script=Latin})[\u0300-\u036f]+/gu, '$1')
+    .normalize('NFC')
+    .replace(/[ßæœøłđðþı]/g, (char) => LATIN_LIGATURES[char]);
+}
+
+/**
+ * Adds word n-grams ("machine learning" → "machin learn") at the position of their first word
+ * Only words at consecutive positions are joined, so n-grams never span a removed stopword.
+ */
+function createShingleFilter(size: number, outputUnigrams: boolean): TokenFilter {
+  return (tokens, text) => {
+    const output: Token[] = [];
+    for (let i = 0; i < tokens.length; i++) {
+      if (outputUnigrams) {
+        output.push(tokens[i]);
+      }
+      for (let n = 2; n <= size && i + n <= tokens.length; n++) {
+        const words = tokens.slice(i, i + n);
+        if (words[n - 1].position - words[0].position !== n - 1) {
+          break;
+        }
+        const first = words[0];
+        const last = words[n - 1];
+        output.push({
+          ...first,
+          text: text.slice(first.offset, (last.offset ?? 0) + last.text.length),
+          stem: words.map((word) => word.stem).join(' '),
+        });
+      }
+    }
+    return output;
+  };
+}
+
+/**
+ * Analyzer built from a definition
+ */
+export class Analyzer {
+  readonly definition: AnalyzerDefinition;
+  private charFilters: CharFilter[];
+  private tokenizer: Tokenizer;
+  private filters: TokenFilter[];
+
+  constructor(definition: AnalyzerDefinition) {
+    this.definition = definition;
+    this.charFilters = (definition.charFilters ?? []).map(createCharFilter);
+    this.tokenizer = createTokenizer(definition.tokenizer);
+    this.filters = (definition.filters ?? []).map(createTokenFilter);
+  }
+
+  /**
+   * Applies the char filters
+   * @param text Raw text
+   * @returns Text that token offsets refer to
+   */
+  filterChars(text: string): string {
+    return this.charFilters.reduce((filtered, filter) => filter(filtered), text ?? '');
+  }
+
+  /**
+   * Tokenizes text that already went through the char filters and applies the token filters
+   * @param text Filtered text
+   * @param language Language of the text, for language-dependent filters
+   * @returns Analyzed tokens with offsets into the text
+   */
+  tokenize(text: string, language: Language = DEFAULT_LANGUAGE): Token[] {
+    return this.filters.reduce(
+      (tokens, filter) => filter(tokens, text, language),
+      this.tokenizer(text)
+    );
+  }
+
+  /**
+   * Runs the whole analyzer
+   * @param text Raw text
+   * @param language Language of the text, for language-dependent filters
+   * @returns Analyzed tokens
+   */
+  analyze(text: string, language: Language = DEFAULT_LANGUAGE): Token[] {
+    return this.tokenize(this.filterChars(text), language);
+  }
+}
+
+/**
+ * Builds the analyzers of analysis settings
+ * @param settings Validated settings
+ * @returns Analyzer by name
+ */
+export function createAnalyzers(settings: AnalysisSettings): Map<string, Analyzer> {
+  return new Map(
+    Object.entries(settings.analyzers).map(([name, definition]) => [name, new Analyzer(definition)])
+  );
+}
+
+/**
+ * Groups analyzed query tokens into the terms a document must contain
+ * Tokens at one position are alternatives. A compound with parts becomes one group per
+ * part, each also satisfied by the compound itself or its joined form, so "node.js"
+ * matches text tokenized as "node.js", "nodejs" or "node js".
+ * @param tokens Analyzed tokens
+ * @returns Groups of stems, one of which each matching document contains
+ */
+export function toTermGroups(tokens: Token[]): string[][] {
+  const groups: string[][] = [];
+  for (const tokensAt of groupByPosition(tokens)) {
+    const alternatives = unique(tokensAt.filter((token) => !token.part).map((token) => token.stem));
+    const parts = unique(tokensAt.filter((token) => token.part).map((token) => token.stem));
+    if (parts.length === 0) {
+      groups.push(alternatives);
+    } else {
+      groups.push(...parts.map((part) => unique([...alternatives, part])));
+    }
+  }
+  return groups;
+}
+
+/**
+ * Keeps one token per position: the word as written, without its parts or joined form
+ * @param tokens Analyzed tokens
+ * @returns Tokens in position order
+ */
+export function toWords(tokens: Token[]): Token[] {
+  return groupByPosition(tokens).map(
+    (tokensAt) => tokensAt.find((token) => !token.part) ?? tokensAt[0]
+  );
+}
+
+/**
+ * Replaces compounds by their parts at consecutive positions, as the standard tokenizer
+ * reads them ("node.js tutorial" → "node", "js", "tutorial")
+ * @param tokens Analyzed tokens
+ * @returns Tokens in position order
+ */
+export function toPartTokens(tokens: Token[]): Token[] {
+  const result: Token[] = [];
+  let shift = 0;
+  for (const tokensAt of groupByPosition(tokens)) {
+    const parts = tokensAt.filter((token) => token.part);
+    if (parts.length === 0) {
+      result.push({ ...tokensAt[0], position: tokensAt[0].position + shift });
+      continue;
+    }
+    parts.forEach((part, i) => result.push({ ...part, position: part.position + shift + i }));
+    shift += parts.length - 1;
+  }
+  return result;
+}
+
+// Tokens grouped by position, in position order
+function groupByPosition(tokens: Token[]): Token[][] {
+  const groups = new Map<number, Token[]>();
+  for (const token of tokens) {
+    const group = groups.get(token.position);
+    if (group) {
+      group.push(token);
+    } else {
+      groups.set(token.position, [token]);
+    }
+  }
+  return Array.from(groups.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([, group]) => group);
+}
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values));
+}
@@ -192,6 +192,23 @@ export class AnalyticsService {
     return sortedQueries.slice(0, limit);
   }
 
+  /**
+   * Counts how often each query returned at least one result
+   * Used by the spelling corrector to favor words that users search for successfully
+   * @returns Map of query text to number of successful searches
+   */
+  getSuccessfulQueryCounts(): Map<string, number> {
+    const queryCounts = new Map<string, number>();
+
+    for (const event of this.queryEvents) {
+      if (event.resultCount > 0) {
+        queryCounts.set(event.query, (queryCounts.get(event.query) || 0) + 1);
+      }
+    }
+
+    return queryCounts;
+  }
+
   /**
    * Gets response time distribution statistics
    * Requirement 11.4: Track the distribution of query response times
@@ -1,6 +1,8 @@
 import bcrypt from 'bcrypt';
 import jwt from 'jsonwebtoken';
 import { randomUUID } from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
 import { User, UserPublic, toPublicUser } from '../models/user';
 import { logger } from '../utils/logger';
 
@@ -14,10 +16,60 @@ export class AuthServiceMemory implements IAuthService {
   private users: Map<string, User> = new Map();
   private jwtSecret: string;
   private jwtExpiresIn: string;
+  private usersPath?: string;
 
-  constructor(jwtSecret: string, jwtExpiresIn: string = '7d') {
+  /**
+   * @param jwtSecret Secret to sign tokens with
+   * @param jwtExpiresIn Token lifetime
+   * @param usersPath Path to persist users to; users are only kept in memory without it
+   */
+  constructor(jwtSecret: string, jwtExpiresIn: string = '7d', usersPath?: string) {
     this.jwtSecret = jwtSecret;
     this.jwtExpiresIn = jwtExpiresIn;
+    this.usersPath = usersPath;
+  }
+
+  /**
+   * Persist users to disk
+   */
+  async persist(): Promise<void> {
+    if (!this.usersPath) {
+      throw new Error('No users path configured for persistence');
+    }
+
+    await fs.mkdir(path.dirname(this.usersPath), { recursive: true });
+
+    // Write to temporary file first, then rename for atomic operation
+    const tempPath = `${this.usersPath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(Array.from(this.users.values())), 'utf-8');
+    await fs.rename(tempPath, this.usersPath);
+  }
+
+  /**
+   * Load users from disk, replacing the users in memory
+   */
+  async load(): Promise<void> {
+    if (!this.usersPath) {
+      throw new Error('No users path configured for loading');
+    }
+
+    try {
+      const data = await fs.readFile(this.usersPath, 'utf-8');
+      const users: User[] = JSON.parse(data);
+      this.users = new Map(
+        users.map((user) => [
+          user.id,
+          { ...user, createdAt: new Date(user.createdAt), updatedAt: new Date(user.updatedAt) },
+        ])
+      );
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        // File doesn't exist, start without users
+        this.users = new Map();
+      } else {
+        throw error;
+      }
+    }
   }
 
   /**
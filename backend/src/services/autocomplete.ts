@@ -1,4 +1,5 @@
 import * as fs from 'fs/promises';
+import * as path from 'path';
 
 /**
  * Configuration for AutocompleteService
@@ -228,6 +229,7 @@ export class AutocompleteService {
     }
 
     const serialized = this.serializeNode(this.root);
+    await fs.mkdir(path.dirname(this.config.triePath), { recursive: true });
     await fs.writeFile(this.config.triePath, JSON.stringify(serialized, null, 2), 'utf-8');
   }
 
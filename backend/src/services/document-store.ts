@@ -1,4 +1,7 @@
 import { Document } from '../models/document';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { logger } from '../utils/logger';
 
 /**
  * Configuration for document storage
@@ -6,6 +9,9 @@ import { Document } from '../models/document';
 export interface DocumentStoreConfig {
   // For in-memory implementation
   maxDocuments?: number;
+  storePath?: string; // Path to persist documents to
+  autoPersist?: boolean; // Whether to save to storePath shortly after every change
+  persistDelayMs?: number; // How long changes are collected before they are saved
 
   // For PostgreSQL implementation (future)
   databaseUrl?: string;
@@ -27,17 +33,26 @@ export interface DocumentFilter {
  * Implements requirements 1.3, 12.1, 12.3
  *
  * This is an in-memory implementation that can be replaced with PostgreSQL
+ *
+ * With autoPersist, the store is saved within persistDelayMs of every change. Documents are
+ * stored before they are indexed, so the saved store holds the documents the index
+ * write-ahead log recovers after a crash, unless the crash falls within that delay.
  */
 export class DocumentStore {
   private documents: Map<string, Document>;
   private config: DocumentStoreConfig;
+  private persistTimer?: NodeJS.Timeout; // pending save of recent changes
+  private persisting: Promise<void>; // last persist; persists run one at a time
 
   constructor(config: DocumentStoreConfig = {}) {
     this.config = {
       maxDocuments: 100000,
+      autoPersist: false,
+      persistDelayMs: 1000,
       ...config,
     };
     this.documents = new Map();
+    this.persisting = Promise.resolve();
   }
 
   /**
@@ -61,6 +76,7 @@ export class DocumentStore {
 
     // Store document (atomic operation in memory)
     this.documents.set(document.id, document);
+    this.schedulePersist();
     return true;
   }
 
@@ -168,6 +184,7 @@ export class DocumentStore {
     };
 
     this.documents.set(docId, updated);
+    this.schedulePersist();
     return true;
   }
 
@@ -177,7 +194,11 @@ export class DocumentStore {
    * @returns True if document was deleted, false if not found
    */
   async delete(docId: string): Promise<boolean> {
-    return this.documents.delete(docId);
+    const deleted = this.documents.delete(docId);
+    if (deleted) {
+      this.schedulePersist();
+    }
+    return deleted;
   }
 
   /**
@@ -204,6 +225,82 @@ export class DocumentStore {
    */
   async clear(): Promise<void> {
     this.documents.clear();
+    this.schedulePersist();
+  }
+
+  /**
+   * Persists all documents to disk
+   * Requirement 12.1: Persist documents to durable storage
+   * Includes the changes waiting for a scheduled save.
+   */
+  async persist(): Promise<void> {
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+      this.persistTimer = undefined;
+    }
+
+    const run = this.persisting.then(() => this.writeStore());
+    this.persisting = run.catch(() => undefined);
+    return run;
+  }
+
+  private async writeStore(): Promise<void> {
+    if (!this.config.storePath) {
+      throw new Error('No store path configured for persistence');
+    }
+
+    await fs.mkdir(path.dirname(this.config.storePath), { recursive: true });
+
+    // Write to temporary file first, then rename for atomic operation
+    const tempPath = `${this.config.storePath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(Array.from(this.documents.values())), 'utf-8');
+    await fs.rename(tempPath, this.config.storePath);
+  }
+
+  /**
+   * Saves the store after persistDelayMs, with the changes made until then
+   * A failed save is logged and retried after the next change.
+   */
+  private schedulePersist(): void {
+    if (!this.config.autoPersist || this.persistTimer) {
+      return;
+    }
+
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = undefined;
+      this.persist().catch((error) => {
+        logger.error('Failed to save documents', { error: (error as Error).message });
+      });
+    }, this.config.persistDelayMs);
+    this.persistTimer.unref();
+  }
+
+  /**
+   * Loads documents from disk, replacing the documents in the store
+   * Requirement 12.1: Restore documents from durable storage
+   */
+  async load(): Promise<void> {
+    if (!this.config.storePath) {
+      throw new Error('No store path configured for loading');
+    }
+
+    try {
+      const data = await fs.readFile(this.config.storePath, 'utf-8');
+      const documents: Document[] = JSON.parse(data);
+      this.documents = new Map(
+        documents.map((doc) => [
+          doc.id,
+          { ...doc, createdUtc: new Date(doc.createdUtc), collectedAt: new Date(doc.collectedAt) },
+        ])
+      );
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        // File doesn't exist, start with an empty store
+        this.documents = new Map();
+      } else {
+        throw error;
+      }
+    }
   }
 
   /**
@@ -0,0 +1,366 @@
+import { Document } from '../models/document';
+import { DocumentStore } from './ranker';
+
+/**
+ * Document fields whose values are counted individually
+ */
+export type TermsFacetName = 'subreddit' | 'author' | 'type';
+
+/**
+ * Numeric document fields counted in ranges
+ */
+export type RangeFacetName = 'redditScore' | 'commentCount';
+
+/**
+ * Any facet that can be requested with a search
+ */
+export type FacetName = TermsFacetName | 'createdUtc' | RangeFacetName;
+
+export const TERMS_FACETS: TermsFacetName[] = ['subreddit', 'author', 'type'];
+export const RANGE_FACETS: RangeFacetName[] = ['redditScore', 'commentCount'];
+export const FACET_NAMES: FacetName[] = [...TERMS_FACETS, 'createdUtc', ...RANGE_FACETS];
+
+/**
+ * Calendar unit of the createdUtc histogram buckets
+ */
+export type HistogramInterval = 'day' | 'week' | 'month' | 'year';
+
+export const HISTOGRAM_INTERVALS: HistogramInterval[] = ['day', 'week', 'month', 'year'];
+
+/**
+ * Largest number of values a terms facet may return
+ */
+export const MAX_FACET_SIZE = 100;
+
+/**
+ * Options of a single requested facet
+ */
+export interface FacetOptions {
+  size?: number; // terms facets: number of values to return
+  interval?: HistogramInterval; // createdUtc: bucket width
+  ranges?: number[]; // range facets: ascending bucket boundaries
+}
+
+/**
+ * Facets requested with a search, keyed by facet name
+ * Example: { subreddit: { size: 20 }, createdUtc: { interval: 'week' }, redditScore: {} }
+ */
+export type FacetRequest = Partial<Record<FacetName, FacetOptions>>;
+
+/**
+ * Number of matching documents with one value of a terms facet
+ */
+export interface TermsBucket {
+  value: string;
+  count: number;
+}
+
+/**
+ * Counts of the most frequent values of a field
+ */
+export interface TermsFacet {
+  buckets: TermsBucket[]; // most frequent values first
+  otherCount: number; // matching documents with a value outside the returned buckets
+}
+
+/**
+ * Number of matching documents created in one calendar interval
+ */
+export interface HistogramBucket {
+  from: Date; // inclusive
+  to: Date; // exclusive
+  count: number;
+}
+
+/**
+ * Number of matching documents with a numeric value in [from, to)
+ * A missing bound means the range is open on that side.
+ */
+export interface RangeBucket {
+  key: string; // "*-10", "10-100", "100-*"
+  from?: number;
+  to?: number;
+  count: number;
+}
+
+/**
+ * Facet counts returned with search results
+ */
+export interface FacetResults {
+  subreddit?: TermsFacet;
+  author?: TermsFacet;
+  type?: TermsFacet;
+  createdUtc?: HistogramBucket[];
+  redditScore?: RangeBucket[];
+  commentCount?: RangeBucket[];
+}
+
+/**
+ * Error thrown when a facet request is invalid
+ */
+export class FacetRequestError extends Error {
+  field: string; // request field that is invalid, e.g. "facets.subreddit.size"
+
+  constructor(message: string, field: string) {
+    super(message);
+    this.name = 'FacetRequestError';
+    this.field = field;
+  }
+}
+
+/**
+ * Validates a facet request from an API client
+ * @param value Facet request as received
+ * @returns Validated facet request
+ * @throws FacetRequestError if the request is not valid
+ */
+export function parseFacetRequest(value: unknown): FacetRequest {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new FacetRequestError('facets must be an object keyed by facet name', 'facets');
+  }
+
+  const request: FacetRequest = {};
+
+  for (const [name, options] of Object.entries(value)) {
+    const field = `facets.${name}`;
+    if (!FACET_NAMES.includes(name as FacetName)) {
+      throw new FacetRequestError(
+        `Unknown facet "${name}"; expected one of: ${FACET_NAMES.join(', ')}`,
+        field
+      );
+    }
+    if (typeof options !== 'object' || options === null || Array.isArray(options)) {
+      throw new FacetRequestError(`${field} must be an object`, field);
+    }
+
+    const { size, interval, ranges } = options as FacetOptions;
+
+    if (size !== undefined) {
+      if (!TERMS_FACETS.includes(name as TermsFacetName)) {
+        throw new FacetRequestError(`size is only supported by terms facets`, `${field}.size`);
+      }
+      if (!Number.isInteger(size) || size < 1 || size > MAX_FACET_SIZE) {
+        throw new FacetRequestError(
+          `size must be an integer between 1 and ${MAX_FACET_SIZE}`,
+          `${field}.size`
+        );
+      }
+    }
+
+    if (interval !== undefined) {
+      if (name !== 'createdUtc') {
+        throw new FacetRequestError(
+          `interval is only supported by the createdUtc facet`,
+          `${field}.interval`
+        );
+      }
+      if (!HISTOGRAM_INTERVALS.includes(interval)) {
+        throw new FacetRequestError(
+          `interval must be one of: ${HISTOGRAM_INTERVALS.join(', ')}`,
+          `${field}.interval`
+        );
+      }
+    }
+
+    if (ranges !== undefined) {
+      if (!RANGE_FACETS.includes(name as RangeFacetName)) {
+        throw new FacetRequestError(`ranges are only supported by range facets`, `${field}.ranges`);
+      }
+      if (
+        !Array.isArray(ranges) ||
+        ranges.length === 0 ||
+        ranges.some((bound, i) => !Number.isFinite(bound) || (i > 0 && bound <= ranges[i - 1]))
+      ) {
+        throw new FacetRequestError(
+          `ranges must be a non-empty array of ascending numbers`,
+          `${field}.ranges`
+        );
+      }
+    }
+
+    request[name as FacetName] = { size, interval, ranges };
+  }
+
+  return request;
+}
+
+/**
+ * Configuration for FacetAggregator
+ */
+export interface FacetConfig {
+  defaultSize?: number; // values returned by terms facets without a size
+  defaultInterval?: HistogramInterval;
+  redditScoreRanges?: number[]; // default boundaries of the redditScore facet
+  commentCountRanges?: number[]; // default boundaries of the commentCount facet
+}
+
+/**
+ * FacetAggregator counts facet values over a set of matching documents
+ *
+ * Facets are computed over every document that matches the query and filters, not only
+ * the current page, so the counts tell how many results selecting a value would leave.
+ */
+export class FacetAggregator {
+  private config: FacetConfig;
+  private documentStore: DocumentStore;
+
+  constructor(config: FacetConfig, documentStore: DocumentStore) {
+    this.config = {
+      defaultSize: 10,
+      defaultInterval: 'month',
+      redditScoreRanges: [0, 10, 100, 1000],
+      commentCountRanges: [1, 10, 50, 100],
+      ...config,
+    };
+    this.documentStore = documentStore;
+  }
+
+  /**
+   * Computes the requested facets over matching documents
+   * @param docIds IDs of all matching documents
+   * @param request Facets to compute
+   * @returns Facet counts
+   */
+  aggregate(docIds: string[], request: FacetRequest): FacetResults {
+    const documents = Array.from(this.documentStore.getByIds(docIds).values());
+    const facets: FacetResults = {};
+
+    for (const name of TERMS_FACETS) {
+      const options = request[name];
+      if (options) {
+        facets[name] = this.countTerms(documents, name, options.size ?? this.config.defaultSize!);
+      }
+    }
+
+    if (request.createdUtc) {
+      facets.createdUtc = this.countHistogram(
+        documents,
+        request.createdUtc.interval ?? this.config.defaultInterval!
+      );
+    }
+
+    if (request.redditScore) {
+      facets.redditScore = this.countRanges(
+        documents,
+        'redditScore',
+        request.redditScore.ranges ?? this.config.redditScoreRanges!
+      );
+    }
+
+    if (request.commentCount) {
+      facets.commentCount = this.countRanges(
+        documents,
+        'commentCount',
+        request.commentCount.ranges ?? this.config.commentCountRanges!
+      );
+    }
+
+    return facets;
+  }
+
+  /**
+   * Counts the values of a field and keeps the most frequent ones
+   */
+  private countTerms(documents: Document[], field: TermsFacetName, size: number): TermsFacet {
+    const counts = new Map<string, number>();
+    for (const doc of documents) {
+      counts.set(doc[field], (counts.get(doc[field]) ?? 0) + 1);
+    }
+
+    // Most frequent first; ties in alphabetical order so the result is stable
+    const buckets = Array.from(counts, ([value, count]) => ({ value, count })).sort(
+      (a, b) => b.count - a.count || a.value.localeCompare(b.value)
+    );
+    const top = buckets.slice(0, size);
+    const topCount = top.reduce((sum, bucket) => sum + bucket.count, 0);
+
+    return { buckets: top, otherCount: documents.length - topCount };
+  }
+
+  /**
+   * Counts documents per calendar interval of their creation date (UTC)
+   * Only intervals containing documents are returned, oldest first.
+   */
+  private countHistogram(documents: Document[], interval: HistogramInterval): HistogramBucket[] {
+    const counts = new Map<number, number>();
+    for (const doc of documents) {
+      const start = intervalStart(new Date(doc.createdUtc), interval).getTime();
+      counts.set(start, (counts.get(start) ?? 0) + 1);
+    }
+
+    return Array.from(counts)
+      .sort((a, b) => a[0] - b[0])
+      .map(([start, count]) => {
+        const from = new Date(start);
+        return { from, to: nextInterval(from, interval), count };
+      });
+  }
+
+  /**
+   * Counts documents per range of a numeric field
+   * Boundaries [0, 10] give the ranges below 0, 0 to 10 and 10 and above.
+   */
+  private countRanges(
+    documents: Document[],
+    field: RangeFacetName,
+    boundaries: number[]
+  ): RangeBucket[] {
+    const buckets: RangeBucket[] = [];
+    for (let i = 0; i <= boundaries.length; i++) {
+      const from = i > 0 ? boundaries[i - 1] : undefined;
+      const to = i < boundaries.length ? boundaries[i] : undefined;
+      buckets.push({ key: `${from ?? '*'}-${to ?? '*'}`, from, to, count: 0 });
+    }
+
+    for (const doc of documents) {
+      // Index of the first boundary above the value is the index of its bucket
+      let index = 0;
+      while (index < boundaries.length && doc[field] >= boundaries[index]) {
+        index++;
+      }
+      buckets[index].count++;
+    }
+
+    return buckets;
+  }
+}
+
+/**
+ * Gets the start of the calendar interval containing a date (weeks start on Monday)
+ */
+function intervalStart(date: Date, interval: HistogramInterval): Date {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+  const day = date.getUTCDate();
+
+  switch (interval) {
+    case 'day':
+      return new Date(Date.UTC(year, month, day));
+    case 'week':
+      return new Date(Date.UTC(year, month, day - ((date.getUTCDay() + 6) % 7)));
+    case 'month':
+      return new Date(Date.UTC(year, month, 1));
+    case 'year':
+      return new Date(Date.UTC(year, 0, 1));
+  }
+}
+
+/**
+ * Gets the start of the interval following one that starts at a date
+ */
+function nextInterval(start: Date, interval: HistogramInterval): Date {
+  const year = start.getUTCFullYear();
+  const month = start.getUTCMonth();
+  const day = start.getUTCDate();
+
+  switch (interval) {
+    case 'day':
+      return new Date(Date.UTC(year, month, day + 1));
+    case 'week':
+      return new Date(Date.UTC(year, month, day + 7));
+    case 'month':
+      return new Date(Date.UTC(year, month + 1, 1));
+    case 'year':
+      return new Date(Date.UTC(year + 1, 0, 1));
+  }
+}
@@ -0,0 +1,319 @@
+import { Document, Language } from '../models/document';
+import { TextProcessor } from './text-processor';
+import { Analyzer } from './analysis';
+
+/**
+ * Matched characters [start, end) within a fragment's text
+ */
+export interface HighlightRange {
+  start: number;
+  end: number; // exclusive
+}
+
+/**
+ * Piece of a field's text with the query terms it contains
+ * Offsets count UTF-16 code units, like JavaScript string indexes.
+ */
+export interface HighlightFragment {
+  text: string;
+  start: number; // offset of the fragment within the field text
+  end: number; // exclusive
+  ranges: HighlightRange[]; // matches, relative to the fragment text
+  score: number; // how well the fragment covers the query; 0 if it contains no match
+}
+
+/**
+ * Highlights of one search result
+ * The title is returned whole; the body as its best fragments, in text order.
+ */
+export interface ResultHighlight {
+  title: HighlightFragment;
+  body: HighlightFragment[];
+  bodyLength: number; // length of the body text, to tell whether fragments are cut off
+}
+
+/**
+ * Per-request highlighting options
+ */
+export interface HighlightOptions {
+  numberOfFragments?: number; // body fragments to return
+  fragmentSize?: number; // approximate length of a body fragment in characters
+}
+
+export const MAX_FRAGMENTS = 10;
+export const MIN_FRAGMENT_SIZE = 20;
+export const MAX_FRAGMENT_SIZE = 1000;
+
+/**
+ * Error thrown when highlighting options are invalid
+ */
+export class HighlightOptionsError extends Error {
+  field: string; // request field that is invalid, e.g. "highlight.fragmentSize"
+
+  constructor(message: string, field: string) {
+    super(message);
+    this.name = 'HighlightOptionsError';
+    this.field = field;
+  }
+}
+
+/**
+ * Validates highlighting options from an API client
+ * @param value Options as received
+ * @returns Validated options
+ * @throws HighlightOptionsError if an option is invalid
+ */
+export function parseHighlightOptions(value: unknown): HighlightOptions {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new HighlightOptionsError('highlight must be an object', 'highlight');
+  }
+
+  const { numberOfFragments, fragmentSize } = value as HighlightOptions;
+
+  if (
+    numberOfFragments !== undefined &&
+    (!Number.isInteger(numberOfFragments) ||
+      numberOfFragments < 1 ||
+      numberOfFragments > MAX_FRAGMENTS)
+  ) {
+    throw new HighlightOptionsError(
+      `numberOfFragments must be an integer between 1 and ${MAX_FRAGMENTS}`,
+      'highlight.numberOfFragments'
+    );
+  }
+
+  if (
+    fragmentSize !== undefined &&
+    (!Number.isInteger(fragmentSize) ||
+      fragmentSize < MIN_FRAGMENT_SIZE ||
+      fragmentSize > MAX_FRAGMENT_SIZE)
+  ) {
+    throw new HighlightOptionsError(
+      `fragmentSize must be an integer between ${MIN_FRAGMENT_SIZE} and ${MAX_FRAGMENT_SIZE}`,
+      'highlight.fragmentSize'
+    );
+  }
+
+  return { numberOfFragments, fragmentSize };
+}
+
+/**
+ * Configuration for the Highlighter
+ */
+export interface HighlighterConfig {
+  numberOfFragments?: number; // body fragments returned by default
+  fragmentSize?: number; // default approximate fragment length in characters
+  contextLength?: number; // characters kept before the first match of a fragment
+}
+
+/**
+ * A query term found in a field
+ */
+interface Match {
+  start: number;
+  end: number;
+  term: string; // stem the match was found by
+}
+
+/**
+ * Highlighter finds query terms in document fields and picks the best fragments
+ *
+ * Fields are analyzed again with their index analyzer, so every match is a token whose
+ * term is a query term: "running" is highlighted for a search for "run". Offsets point
+ * into the char-filtered text (HTML removed, whitespace collapsed), which is returned
+ * with them, so clients can render matches without parsing any markup.
+ */
+export class Highlighter {
+  private config: HighlighterConfig;
+  private textProcessor: TextProcessor;
+
+  constructor(config: HighlighterConfig, textProcessor: TextProcessor) {
+    this.config = {
+      numberOfFragments: 3,
+      fragmentSize: 150,
+      contextLength: 50,
+      ...config,
+    };
+    this.textProcessor = textProcessor;
+  }
+
+  /**
+   * Highlights the query terms in a document
+   * @param doc Document to highlight
+   * @param queryTerms Stemmed query terms, including expansions
+   * @param options Optional fragment count and size
+   * @returns Whole highlighted title and the best body fragments
+   */
+  highlight(doc: Document, queryTerms: string[], options: HighlightOptions = {}): ResultHighlight {
+    const terms = new Set(queryTerms);
+    const language = this.textProcessor.getDocumentLanguage(doc);
+    const titleAnalyzer = this.textProcessor.getAnalyzer('title');
+    const bodyAnalyzer = this.textProcessor.getAnalyzer('body');
+    const title = titleAnalyzer.filterChars(doc.title);
+    const body = bodyAnalyzer.filterChars(doc.content);
+
+    return {
+      title: this.wholeField(title, this.findMatches(title, titleAnalyzer, language, terms)),
+      body: this.bestFragments(
+        body,
+        this.findMatches(body, bodyAnalyzer, language, terms),
+        options.numberOfFragments ?? this.config.numberOfFragments!,
+        options.fragmentSize ?? this.config.fragmentSize!
+      ),
+      bodyLength: body.length,
+    };
+  }
+
+  /**
+   * Finds the tokens of a text whose term is a query term
+   * @param text Char-filtered field text
+   * @param analyzer Analyzer of the field
+   * @param language Language of the document
+   * @param terms Analyzed query terms
+   * @returns Non-overlapping matches in text order
+   */
+  private findMatches(
+    text: string,
+    analyzer: Analyzer,
+    language: Language,
+    terms: Set<string>
+  ): Match[] {
+    if (terms.size === 0) {
+      return [];
+    }
+
+    const matches = analyzer
+      .tokenize(text, language)
+      .filter((token) => terms.has(token.stem))
+      .map((token) => ({
+        start: token.offset!,
+        end: token.offset! + token.text.length,
+        term: token.stem,
+      }))
+      .sort((a, b) => a.start - b.start || b.end - a.end);
+
+    // Tokens at the same place (such as a word and a multi-word token starting with it) are merged
+    const merged: Match[] = [];
+    for (const match of matches) {
+      const last = merged[merged.length - 1];
+      if (last && match.start < last.end) {
+        last.end = Math.max(last.end, match.end);
+      } else {
+        merged.push(match);
+      }
+    }
+    return merged;
+  }
+
+  /**
+   * Returns a whole field as a single fragment
+   */
+  private wholeField(text: string, matches: Match[]): HighlightFragment {
+    return this.createFragment(text, 0, text.length, matches);
+  }
+
+  /**
+   * Picks the best non-overlapping fragments of a field
+   * Every match anchors a candidate fragment starting a little before it; candidates are
+   * scored by the distinct query terms they contain, then by their number of matches.
+   * Without matches, the beginning of the field is returned.
+   * @param text Analyzed field text
+   * @param matches Matches in text order
+   * @param count Number of fragments to return
+   * @param size Approximate fragment length
+   * @returns Fragments in text order
+   */
+  private bestFragments(
+    text: string,
+    matches: Match[],
+    count: number,
+    size: number
+  ): HighlightFragment[] {
+    if (text.length === 0) {
+      return [];
+    }
+    if (matches.length === 0) {
+      const [start, end] = this.window(text, 0, size);
+      return [this.createFragment(text, start, end, [])];
+    }
+
+    const candidates = matches.map((match) => {
+      const [start, end] = this.window(
+        text,
+        Math.max(0, match.start - this.config.contextLength!),
+        size,
+        match
+      );
+      return this.createFragment(text, start, end, matches);
+    });
+
+    // Best first; earlier fragments win ties so the result is stable
+    candidates.sort((a, b) => b.score - a.score || a.start - b.start);
+
+    const chosen: HighlightFragment[] = [];
+    for (const candidate of candidates) {
+      if (chosen.length >= count) {
+        break;
+      }
+      if (chosen.every((other) => candidate.end <= other.start || candidate.start >= other.end)) {
+        chosen.push(candidate);
+      }
+    }
+
+    return chosen.sort((a, b) => a.start - b.start);
+  }
+
+  /**
+   * Computes fragment bounds that do not cut words
+   * @param text Field text
+   * @param from Preferred start
+   * @param size Preferred length
+   * @param anchor Match the fragment must contain
+   * @returns Start and exclusive end
+   */
+  private window(text: string, from: number, size: number, anchor?: Match): [number, number] {
+    const anchorStart = anchor?.start ?? text.length;
+    const anchorEnd = anchor?.end ?? 0;
+
+    // Start at the beginning of a word
+    let start = from;
+    if (start > 0 && /\S/.test(text[start - 1])) {
+      const space = text.indexOf(' ', start);
+      if (space !== -1 && space < anchorStart) {
+        start = space + 1;
+      }
+    }
+
+    // End after a whole word, but never before the end of the anchoring match
+    let end = Math.min(text.length, Math.max(start + size, anchorEnd));
+    if (end < text.length && /\S/.test(text[end])) {
+      const space = text.lastIndexOf(' ', end);
+      if (space >= anchorEnd && space > start) {
+        end = space;
+      }
+    }
+
+    return [start, end];
+  }
+
+  /**
+   * Builds a fragment and scores the matches inside it
+   */
+  private createFragment(
+    text: string,
+    start: number,
+    end: number,
+    matches: Match[]
+  ): HighlightFragment {
+    const inside = matches.filter((match) => match.start >= start && match.end <= end);
+    const distinctTerms = new Set(inside.map((match) => match.term)).size;
+
+    return {
+      text: text.slice(start, end),
+      start,
+      end,
+      ranges: inside.map((match) => ({ start: match.start - start, end: match.end - start })),
+      score: distinctTerms + 0.1 * (inside.length - distinctTerms),
+    };
+  }
+}
@@ -0,0 +1,798 @@
+import * as fs from 'fs/promises';
+import {
+  IndexContents,
+  InvertedIndex,
+  PostingsList,
+  SerializableInvertedIndex,
+  assembleIndex,
+  deserializeIndex,
+} from '../models/index';
+import { Segment, createSegment, setDeletions } from '../models/segment';
+import {
+  KEYWORD_FIELDS,
+  KeywordField,
+  NUMERIC_FIELDS,
+  NumericField,
+  TEXT_FIELDS,
+  TextField,
+} from '../models/document';
+import { AnalysisSettings } from '../models/analysis';
+
+/**
+ * Binary on-disk format of the inverted index
+ *
+ * Layout (all integers little-endian):
+ *   header    "FVXI" magic, u16 format version, u16 reserved (0)
+ *   blocks    u8 type, u32 payload length, payload, u32 CRC-32 of type, length and payload
+ *
+ * Block types, in file order:
+ *   META        JSON: document count, segment count, analysis settings, last write-ahead log
+ *               record included
+ *   DOCUMENTS   lengths, field lengths, keywords and numeric values of up to 4096 documents
+ *   SEGMENT     segment id, docIds (ordinal order) and deletion bitmap
+ *   DICTIONARY  sorted, front-coded terms of the current segment with document frequency and
+ *               byte length of each term's postings
+ *   POSTINGS    postings of the terms of the preceding DICTIONARY block
+ *   END         number of blocks before it; a file without it is truncated
+ *
+ * A posting is the delta from the previous posting's ordinal (zigzag, as reused buffer
+ * ordinals may go back), the term frequency, the positions as count plus deltas, and the
+ * field frequencies. Integers are varints, so a typical posting takes a few bytes instead
+ * of the ~80 characters of its JSON. Blocks are checksummed and read one at a time, so
+ * loading never holds more than the decoded index plus one block.
+ */
+
+const MAGIC = 'FVXI';
+const HEADER_LENGTH = 8;
+const BLOCK_HEADER_LENGTH = 5;
+
+/**
+ * Version written by writeIndexFile; files with a higher version are refused
+ */
+export const INDEX_FORMAT_VERSION = 1;
+
+const BlockType = {
+  END: 0,
+  META: 1,
+  DOCUMENTS: 2,
+  SEGMENT: 3,
+  DICTIONARY: 4,
+  POSTINGS: 5,
+} as const;
+
+const DOCUMENTS_PER_BLOCK = 4096;
+const TERMS_PER_BLOCK = 4096;
+const POSTINGS_BYTES_PER_BLOCK = 1 << 20;
+
+// Term maps of a segment, in the order DICTIONARY blocks refer to them
+const TERM_MAPS = ['termToPostings', 'exactTermToPostings'] as const;
+
+/**
+ * On-disk format of an index file
+ */
+export type IndexFileFormat = 'binary' | 'json';
+
+/**
+ * Error thrown when an index file cannot be read or an index cannot be written
+ */
+export class IndexFileError extends Error {
+  code: string; // NOT_AN_INDEX, UNSUPPORTED_VERSION, TRUNCATED, CHECKSUM_MISMATCH or CORRUPT
+  offset?: number; // byte offset of the block the problem was found in
+
+  constructor(message: string, code: string = 'CORRUPT', offset?: number) {
+    super(message);
+    this.name = 'IndexFileError';
+    this.code = code;
+    this.offset = offset;
+  }
+}
+
+interface IndexMeta {
+  documentCount: number;
+  segmentCount: number;
+  analysis?: AnalysisSettings;
+  walSequence?: number;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Int32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c;
+  }
+  return table;
+})();
+
+/**
+ * Computes the CRC-32 (IEEE) checksum of bytes
+ * @param bytes Bytes to checksum
+ * @param crc Checksum of the bytes preceding them, to checksum data in parts
+ */
+export function crc32(bytes: Uint8Array, crc: number = 0): number {
+  crc = ~crc;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return ~crc >>> 0;
+}
+
+/**
+ * Growable buffer the encoders write to
+ */
+class ByteWriter {
+  private buffer = Buffer.allocUnsafe(1 << 16);
+  length = 0;
+
+  private ensure(bytes: number): void {
+    if (this.length + bytes <= this.buffer.length) {
+      return;
+    }
+    const grown = Buffer.allocUnsafe(Math.max(this.buffer.length * 2, this.length + bytes));
+    this.buffer.copy(grown, 0, 0, this.length);
+    this.buffer = grown;
+  }
+
+  byte(value: number): void {
+    this.ensure(1);
+    this.buffer[this.length++] = value;
+  }
+
+  varint(value: number): void {
+    if (!Number.isSafeInteger(value) || value < 0) {
+      throw new IndexFileError(`Cannot encode ${value} as an unsigned integer`);
+    }
+    this.ensure(8);
+    while (value >= 0x80) {
+      this.buffer[this.length++] = (value % 0x80) | 0x80;
+      value = Math.floor(value / 0x80);
+    }
+    this.buffer[this.length++] = value;
+  }
+
+  zigzag(value: number): void {
+    this.varint(value >= 0 ? value * 2 : -value * 2 - 1);
+  }
+
+  int32(value: number): void {
+    this.ensure(4);
+    this.buffer.writeInt32LE(value, this.length);
+    this.length += 4;
+  }
+
+  float64(value: number): void {
+    this.ensure(8);
+    this.buffer.writeDoubleLE(value, this.length);
+    this.length += 8;
+  }
+
+  bytes(bytes: Uint8Array): void {
+    this.ensure(bytes.length);
+    this.buffer.set(bytes, this.length);
+    this.length += bytes.length;
+  }
+
+  string(value: string): void {
+    const bytes = Buffer.from(value, 'utf-8');
+    this.varint(bytes.length);
+    this.bytes(bytes);
+  }
+
+  toBuffer(): Buffer {
+    return this.buffer.subarray(0, this.length);
+  }
+}
+
+/**
+ * Cursor over a block payload; reading past its end is corruption
+ */
+class ByteReader {
+  private position = 0;
+
+  constructor(
+    private readonly buffer: Buffer,
+    private readonly offset: number
+  ) {}
+
+  private need(bytes: number): void {
+    if (this.position + bytes > this.buffer.length) {
+      throw new IndexFileError('Block ends unexpectedly', 'CORRUPT', this.offset);
+    }
+  }
+
+  get done(): boolean {
+    return this.position === this.buffer.length;
+  }
+
+  byte(): number {
+    this.need(1);
+    return this.buffer[this.position++];
+  }
+
+  varint(): number {
+    let value = 0;
+    let multiplier = 1;
+    for (let i = 0; i < 8; i++) {
+      const byte = this.byte();
+      value += (byte & 0x7f) * multiplier;
+      if (byte < 0x80) {
+        return value;
+      }
+      multiplier *= 0x80;
+    }
+    throw new IndexFileError('Invalid varint', 'CORRUPT', this.offset);
+  }
+
+  zigzag(): number {
+    const value = this.varint();
+    return value % 2 === 0 ? value / 2 : -(value + 1) / 2;
+  }
+
+  int32(): number {
+    this.need(4);
+    const value = this.buffer.readInt32LE(this.position);
+    this.position += 4;
+    return value;
+  }
+
+  float64(): number {
+    this.need(8);
+    const value = this.buffer.readDoubleLE(this.position);
+    this.position += 8;
+    return value;
+  }
+
+  bytes(length: number): Buffer {
+    this.need(length);
+    const bytes = this.buffer.subarray(this.position, this.position + length);
+    this.position += length;
+    return bytes;
+  }
+
+  string(): string {
+    return this.bytes(this.varint()).toString('utf-8');
+  }
+}
+
+/**
+ * Frames a payload as a block with its checksum
+ */
+function createBlock(type: number, payload: Buffer): Buffer {
+  const block = Buffer.allocUnsafe(BLOCK_HEADER_LENGTH + payload.length + 4);
+  block[0] = type;
+  block.writeUInt32LE(payload.length, 1);
+  payload.copy(block, BLOCK_HEADER_LENGTH);
+  block.writeUInt32LE(
+    crc32(block.subarray(0, BLOCK_HEADER_LENGTH + payload.length)),
+    BLOCK_HEADER_LENGTH + payload.length
+  );
+  return block;
+}
+
+function encodeDocuments(index: InvertedIndex, docIds: string[]): Buffer {
+  const writer = new ByteWriter();
+  writer.varint(docIds.length);
+
+  for (const docId of docIds) {
+    const fieldLengths = index.fieldLengths.get(docId);
+    const keywords = index.documentKeywords.get(docId);
+    const values = index.documentValues.get(docId);
+
+    writer.string(docId);
+    writer.varint(index.documentLengths.get(docId)!);
+    writer.byte((fieldLengths ? 1 : 0) | (keywords ? 2 : 0) | (values ? 4 : 0));
+
+    // Absent fields are 0, present ones value + 1
+    if (fieldLengths) {
+      for (const field of TEXT_FIELDS) {
+        writer.varint(fieldLengths[field] === undefined ? 0 : fieldLengths[field]! + 1);
+      }
+    }
+    if (keywords) {
+      for (const field of KEYWORD_FIELDS) {
+        const value = keywords[field];
+        if (value === undefined) {
+          writer.varint(0);
+        } else {
+          const bytes = Buffer.from(value, 'utf-8');
+          writer.varint(bytes.length + 1);
+          writer.bytes(bytes);
+        }
+      }
+    }
+    if (values) {
+      const present = NUMERIC_FIELDS.filter((field) => values[field] !== undefined);
+      writer.byte(present.reduce((mask, field) => mask | (1 << NUMERIC_FIELDS.indexOf(field)), 0));
+      for (const field of present) {
+        writer.float64(values[field]!);
+      }
+    }
+  }
+
+  return writer.toBuffer();
+}
+
+function encodeSegment(segment: Segment): Buffer {
+  const writer = new ByteWriter();
+  writer.varint(segment.id);
+  writer.varint(segment.docIds.length);
+  for (const docId of segment.docIds) {
+    writer.string(docId);
+  }
+  writer.varint(segment.deletions.length);
+  for (const word of segment.deletions) {
+    writer.int32(word);
+  }
+  return writer.toBuffer();
+}
+
+function encodePostings(writer: ByteWriter, segment: Segment, postings: PostingsList[]): void {
+  let previousOrdinal = 0;
+  for (const posting of postings) {
+    const ordinal = segment.docOrdinals.get(posting.docId);
+    if (ordinal === undefined) {
+      throw new IndexFileError(
+        `Posting of "${posting.docId}" refers to a document missing from segment ${segment.id}`
+      );
+    }
+    writer.zigzag(ordinal - previousOrdinal);
+    previousOrdinal = ordinal;
+
+    writer.varint(posting.termFrequency);
+    writer.varint(posting.positions.length);
+    let previousPosition = 0;
+    for (const position of posting.positions) {
+      if (position < previousPosition) {
+        throw new IndexFileError(`Positions of "${posting.docId}" are not in ascending order`);
+      }
+      writer.varint(position - previousPosition);
+      previousPosition = position;
+    }
+
+    // Absent field frequencies are 0, otherwise 1 + bitmask of the fields that follow
+    const fieldFrequencies = posting.fieldFrequencies;
+    if (!fieldFrequencies) {
+      writer.varint(0);
+      continue;
+    }
+    const present = TEXT_FIELDS.filter((field) => fieldFrequencies[field] !== undefined);
+    writer.varint(1 + present.reduce((mask, field) => mask | (1 << TEXT_FIELDS.indexOf(field)), 0));
+    for (const field of present) {
+      writer.varint(fieldFrequencies[field]!);
+    }
+  }
+}
+
+/**
+ * Encodes the term maps of a segment as DICTIONARY and POSTINGS block pairs
+ */
+function encodeTerms(segment: Segment, blocks: Buffer[]): void {
+  TERM_MAPS.forEach((name, map) => {
+    const termToPostings = segment[name];
+    const terms = Array.from(termToPostings.keys()).sort();
+
+    let start = 0;
+    while (start < terms.length) {
+      const dictionary = new ByteWriter();
+      const postings = new ByteWriter();
+      let previous = Buffer.alloc(0);
+      let end = start;
+
+      while (
+        end < terms.length &&
+        end - start < TERMS_PER_BLOCK &&
+        postings.length < POSTINGS_BYTES_PER_BLOCK
+      ) {
+        const term = Buffer.from(terms[end], 'utf-8');
+        let shared = 0;
+        while (
+          shared < term.length &&
+          shared < previous.length &&
+          term[shared] === previous[shared]
+        ) {
+          shared++;
+        }
+
+        const list = termToPostings.get(terms[end])!;
+        const before = postings.length;
+        encodePostings(postings, segment, list);
+
+        dictionary.varint(shared);
+        dictionary.varint(term.length - shared);
+        dictionary.bytes(term.subarray(shared));
+        dictionary.varint(list.length);
+        dictionary.varint(postings.length - before);
+        previous = term;
+        end++;
+      }
+
+      const header = new ByteWriter();
+      header.byte(map);
+      header.varint(end - start);
+      header.bytes(dictionary.toBuffer());
+      blocks.push(createBlock(BlockType.DICTIONARY, header.toBuffer()));
+      blocks.push(createBlock(BlockType.POSTINGS, postings.toBuffer()));
+      start = end;
+    }
+  });
+}
+
+/**
+ * Encodes an index in the binary format
+ *
+ * Encoding is synchronous, so the blocks are a consistent snapshot even when documents
+ * are indexed while they are being written.
+ * @param index Index to encode
+ * @param walSequence Sequence number of the last write-ahead log record the index includes
+ * @returns File header followed by the blocks
+ * @throws IndexFileError if the index holds values the format cannot represent
+ */
+export function encodeIndex(index: InvertedIndex, walSequence: number = 0): Buffer[] {
+  const segments =
+    index.buffer.docIds.length > 0 ? [...index.segments, index.buffer] : index.segments;
+
+  const header = Buffer.alloc(HEADER_LENGTH);
+  header.write(MAGIC, 0, 'latin1');
+  header.writeUInt16LE(INDEX_FORMAT_VERSION, 4);
+
+  const meta: IndexMeta = {
+    documentCount: index.documentLengths.size,
+    segmentCount: segments.length,
+    analysis: index.analysis,
+    walSequence,
+  };
+  const blocks = [createBlock(BlockType.META, Buffer.from(JSON.stringify(meta), 'utf-8'))];
+
+  const docIds = Array.from(index.documentLengths.keys());
+  for (let start = 0; start < docIds.length; start += DOCUMENTS_PER_BLOCK) {
+    blocks.push(
+      createBlock(
+        BlockType.DOCUMENTS,
+        encodeDocuments(index, docIds.slice(start, start + DOCUMENTS_PER_BLOCK))
+      )
+    );
+  }
+
+  for (const segment of segments) {
+    blocks.push(createBlock(BlockType.SEGMENT, encodeSegment(segment)));
+    encodeTerms(segment, blocks);
+  }
+
+  const end = new ByteWriter();
+  end.varint(blocks.length);
+  blocks.push(createBlock(BlockType.END, end.toBuffer()));
+
+  return [header, ...blocks];
+}
+
+/**
+ * Writes an index to a file in the binary format
+ * The index is encoded before the first await, so the file holds its state at the call.
+ * @param filePath File to write; replaced if it exists
+ * @param index Index to write
+ * @param walSequence Sequence number of the last write-ahead log record the index includes
+ */
+export async function writeIndexFile(
+  filePath: string,
+  index: InvertedIndex,
+  walSequence: number = 0
+): Promise<void> {
+  const chunks = encodeIndex(index, walSequence);
+  const handle = await fs.open(filePath, 'w');
+  try {
+    for (const chunk of chunks) {
+      await handle.write(chunk);
+    }
+    await handle.sync();
+  } finally {
+    await handle.close();
+  }
+}
+
+function decodeDocuments(reader: ByteReader, contents: IndexContents): void {
+  const count = reader.varint();
+  for (let i = 0; i < count; i++) {
+    const docId = reader.string();
+    contents.documentLengths.set(docId, reader.varint());
+    const flags = reader.byte();
+
+    if (flags & 1) {
+      const fieldLengths: Partial<Record<TextField, number>> = {};
+      for (const field of TEXT_FIELDS) {
+        const value = reader.varint();
+        if (value > 0) {
+          fieldLengths[field] = value - 1;
+        }
+      }
+      contents.fieldLengths.set(docId, fieldLengths);
+    }
+    if (flags & 2) {
+      const keywords: Partial<Record<KeywordField, string>> = {};
+      for (const field of KEYWORD_FIELDS) {
+        const length = reader.varint();
+        if (length > 0) {
+          keywords[field] = reader.bytes(length - 1).toString('utf-8');
+        }
+      }
+      contents.documentKeywords.set(docId, keywords);
+    }
+    if (flags & 4) {
+      const values: Partial<Record<NumericField, number>> = {};
+      const mask = reader.byte();
+      NUMERIC_FIELDS.forEach((field, bit) => {
+        if (mask & (1 << bit)) {
+          values[field] = reader.float64();
+        }
+      });
+      contents.documentValues.set(docId, values);
+    }
+  }
+}
+
+function decodeSegment(reader: ByteReader): Segment {
+  const segment = createSegment(reader.varint());
+  const docCount = reader.varint();
+  for (let ordinal = 0; ordinal < docCount; ordinal++) {
+    const docId = reader.string();
+    segment.docIds.push(docId);
+    segment.docOrdinals.set(docId, ordinal);
+  }
+
+  const deletions: number[] = [];
+  const words = reader.varint();
+  for (let i = 0; i < words; i++) {
+    deletions.push(reader.int32());
+  }
+  setDeletions(segment, deletions);
+  return segment;
+}
+
+interface DictionaryEntry {
+  term: string;
+  documentFrequency: number;
+  byteLength: number;
+}
+
+function decodeDictionary(reader: ByteReader): {
+  map: (typeof TERM_MAPS)[number];
+  entries: DictionaryEntry[];
+} {
+  const map = TERM_MAPS[reader.byte()];
+  if (!map) {
+    throw new IndexFileError('Unknown term map in dictionary block');
+  }
+
+  const entries: DictionaryEntry[] = [];
+  const count = reader.varint();
+  let previous = Buffer.alloc(0);
+  for (let i = 0; i < count; i++) {
+    const shared = reader.varint();
+    if (shared > previous.length) {
+      throw new IndexFileError('Invalid term prefix in dictionary block');
+    }
+    const term = Buffer.concat([previous.subarray(0, shared), reader.bytes(reader.varint())]);
+    entries.push({
+      term: term.toString('utf-8'),
+      documentFrequency: reader.varint(),
+      byteLength: reader.varint(),
+    });
+    previous = term;
+  }
+
+  return { map, entries };
+}
+
+function decodePostings(
+  reader: ByteReader,
+  segment: Segment,
+  documentFrequency: number
+): PostingsList[] {
+  const postings: PostingsList[] = [];
+  let ordinal = 0;
+
+  for (let i = 0; i < documentFrequency; i++) {
+    ordinal += reader.zigzag();
+    const docId = segment.docIds[ordinal];
+    if (docId === undefined) {
+      throw new IndexFileError(`Posting refers to unknown ordinal ${ordinal}`);
+    }
+
+    const termFrequency = reader.varint();
+    const positions: number[] = [];
+    const positionCount = reader.varint();
+    let position = 0;
+    for (let j = 0; j < positionCount; j++) {
+      position += reader.varint();
+      positions.push(position);
+    }
+
+    const posting: PostingsList = { docId, termFrequency, positions };
+    const mask = reader.varint();
+    if (mask > 0) {
+      const fieldFrequencies: Partial<Record<TextField, number>> = {};
+      TEXT_FIELDS.forEach((field, bit) => {
+        if ((mask - 1) & (1 << bit)) {
+          fieldFrequencies[field] = reader.varint();
+        }
+      });
+      posting.fieldFrequencies = fieldFrequencies;
+    }
+    postings.push(posting);
+  }
+
+  return postings;
+}
+
+/**
+ * Detects the format of an index file from its first bytes
+ * @param filePath Index file
+ * @returns 'binary' for files starting with the binary format's magic, otherwise 'json'
+ */
+export async function detectIndexFormat(filePath: string): Promise<IndexFileFormat> {
+  const handle = await fs.open(filePath, 'r');
+  try {
+    const magic = Buffer.alloc(MAGIC.length);
+    const { bytesRead } = await handle.read(magic, 0, MAGIC.length, 0);
+    return bytesRead === MAGIC.length && magic.toString('latin1') === MAGIC ? 'binary' : 'json';
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Reads an index file in the binary format
+ *
+ * Blocks are read and checked one at a time; nothing is returned unless the whole file
+ * is intact.
+ * @param filePath Index file
+ * @returns Decoded index contents
+ * @throws IndexFileError if the file is not a binary index, is of a newer version, is
+ *   truncated, fails a checksum or declares a block larger than the file
+ */
+export async function readIndexFile(filePath: string): Promise<IndexContents> {
+  const handle = await fs.open(filePath, 'r');
+  try {
+    const { size: fileSize } = await handle.stat();
+    const read = async (length: number, offset: number): Promise<Buffer> => {
+      const buffer = Buffer.allocUnsafe(length);
+      const { bytesRead } = await handle.read(buffer, 0, length, offset);
+      if (bytesRead < length) {
+        throw new IndexFileError('Index file is truncated', 'TRUNCATED', offset);
+      }
+      return buffer;
+    };
+
+    const header = await read(HEADER_LENGTH, 0);
+    if (header.toString('latin1', 0, MAGIC.length) !== MAGIC) {
+      throw new IndexFileError('Not a binary index file', 'NOT_AN_INDEX', 0);
+    }
+    const version = header.readUInt16LE(4);
+    if (version > INDEX_FORMAT_VERSION) {
+      throw new IndexFileError(
+        `Index format version ${version} is newer than the supported version ${INDEX_FORMAT_VERSION}`,
+        'UNSUPPORTED_VERSION',
+        4
+      );
+    }
+
+    const contents: IndexContents = {
+      segments: [],
+      documentLengths: new Map(),
+      fieldLengths: new Map(),
+      documentKeywords: new Map(),
+      documentValues: new Map(),
+    };
+    let meta: IndexMeta | undefined;
+    let dictionary: ReturnType<typeof decodeDictionary> | undefined;
+    let offset = HEADER_LENGTH;
+    let blockCount = 0;
+
+    for (;;) {
+      const blockHeader = await read(BLOCK_HEADER_LENGTH, offset);
+      const type = blockHeader[0];
+      const length = blockHeader.readUInt32LE(1);
+
+      // Check the length against the file before allocating for it: a corrupt length
+      // could otherwise ask for gigabytes
+      if (offset + BLOCK_HEADER_LENGTH + length + 4 > fileSize) {
+        throw length > fileSize
+          ? new IndexFileError('Block length exceeds the index file size', 'CORRUPT', offset)
+          : new IndexFileError('Index file is truncated', 'TRUNCATED', offset);
+      }
+      const rest = await read(length + 4, offset + BLOCK_HEADER_LENGTH);
+      const payload = rest.subarray(0, length);
+      if (crc32(payload, crc32(blockHeader)) !== rest.readUInt32LE(length)) {
+        throw new IndexFileError('Block checksum mismatch', 'CHECKSUM_MISMATCH', offset);
+      }
+
+      const reader = new ByteReader(payload, offset);
+      const segment = contents.segments[contents.segments.length - 1];
+      if (type !== BlockType.META && !meta) {
+        throw new IndexFileError('Index file has no metadata block', 'CORRUPT', offset);
+      }
+
+      switch (type) {
+        case BlockType.META:
+          meta = JSON.parse(payload.toString('utf-8')) as IndexMeta;
+          contents.analysis = meta.analysis;
+          contents.walSequence = meta.walSequence;
+          break;
+        case BlockType.DOCUMENTS:
+          decodeDocuments(reader, contents);
+          break;
+        case BlockType.SEGMENT:
+          contents.segments.push(decodeSegment(reader));
+          break;
+        case BlockType.DICTIONARY:
+          if (!segment) {
+            throw new IndexFileError('Dictionary block outside a segment', 'CORRUPT', offset);
+          }
+          dictionary = decodeDictionary(reader);
+          break;
+        case BlockType.POSTINGS: {
+          if (!segment || !dictionary) {
+            throw new IndexFileError('Postings block without a dictionary', 'CORRUPT', offset);
+          }
+          const termToPostings = segment[dictionary.map];
+          for (const entry of dictionary.entries) {
+            const postings = new ByteReader(reader.bytes(entry.byteLength), offset);
+            termToPostings.set(
+              entry.term,
+              decodePostings(postings, segment, entry.documentFrequency)
+            );
+          }
+          dictionary = undefined;
+          break;
+        }
+        case BlockType.END:
+          if (reader.varint() !== blockCount) {
+            throw new IndexFileError('Block count mismatch', 'CORRUPT', offset);
+          }
+          break;
+        default:
+          throw new IndexFileError(`Unknown block type ${type}`, 'CORRUPT', offset);
+      }
+
+      if (type !== BlockType.META && !reader.done) {
+        throw new IndexFileError('Block has trailing bytes', 'CORRUPT', offset);
+      }
+      offset += BLOCK_HEADER_LENGTH + length + 4;
+      if (type === BlockType.END) {
+        break;
+      }
+      blockCount++;
+    }
+
+    if (
+      contents.documentLengths.size !== meta!.documentCount ||
+      contents.segments.length !== meta!.segmentCount
+    ) {
+      throw new IndexFileError('Index file contents do not match its metadata', 'CORRUPT');
+    }
+
+    return contents;
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Reads an index file in either format
+ * @param filePath Index file, binary or JSON
+ * @returns Index, the format it was stored in and the last write-ahead log record it
+ *   includes (0 for JSON files, which predate the log)
+ */
+export async function loadIndexFile(
+  filePath: string
+): Promise<{ index: InvertedIndex; format: IndexFileFormat; walSequence: number }> {
+  const format = await detectIndexFormat(filePath);
+  if (format === 'binary') {
+    const contents = await readIndexFile(filePath);
+    return { index: assembleIndex(contents), format, walSequence: contents.walSequence ?? 0 };
+  }
+
+  const serialized: SerializableInvertedIndex = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+  return { index: deserializeIndex(serialized), format, walSequence: 0 };
+}
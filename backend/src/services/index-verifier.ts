@@ -0,0 +1,172 @@
+import { Indexer } from './indexer';
+import { DocumentStore } from './document-store';
+import { TextProcessor } from './text-processor';
+import { logger } from '../utils/logger';
+
+/**
+ * Configuration for index verification
+ */
+export interface IndexVerifierConfig {
+  maxListedDocuments?: number; // document IDs listed per problem; all are counted
+}
+
+/**
+ * Documents with one kind of problem
+ */
+export interface DocumentProblem {
+  count: number;
+  docIds: string[]; // the first maxListedDocuments of them
+}
+
+/**
+ * Findings of a verification, and what was repaired
+ */
+export interface VerificationReport {
+  valid: boolean; // whether no problem was found
+  indexedDocuments: number;
+  storedDocuments: number;
+  errors: string[]; // violated index invariants
+  damaged: DocumentProblem; // documents with invalid postings or statistics
+  orphans: DocumentProblem; // indexed documents the store does not have
+  missing: DocumentProblem; // processed documents the index does not have
+  staleStats: string[]; // index statistics that disagree with the indexed documents
+  repair?: {
+    reindexed: number; // damaged and missing documents indexed again
+    removed: number; // orphans and damaged documents the store does not have
+    valid: boolean; // whether the index passed verification afterwards
+    remainingErrors: string[];
+  };
+}
+
+/**
+ * IndexVerifier checks the index against its invariants and the document store
+ *
+ * The index must hold exactly the processed documents of the store (see restoreState) and
+ * every postings list and statistic must be consistent. Verification reports where this
+ * does not hold; a repair reindexes damaged and missing documents from the store, removes
+ * orphans and rebuilds the statistics, then verifies again. Documents are processed with
+ * the given text processor, which must use the analysis settings of the index.
+ */
+export class IndexVerifier {
+  private config: IndexVerifierConfig;
+  private indexer: Indexer;
+  private documentStore: DocumentStore;
+  private textProcessor: TextProcessor;
+
+  constructor(
+    config: IndexVerifierConfig,
+    indexer: Indexer,
+    documentStore: DocumentStore,
+    textProcessor: TextProcessor
+  ) {
+    this.config = {
+      maxListedDocuments: 100,
+      ...config,
+    };
+    this.indexer = indexer;
+    this.documentStore = documentStore;
+    this.textProcessor = textProcessor;
+  }
+
+  /**
+   * Verifies the index and optionally repairs it
+   * Runs without yielding, so the index does not change while it is checked.
+   * @param repair Whether to repair the problems found
+   * @returns Problems found, and the outcome of the repair
+   */
+  verify(repair: boolean = false): VerificationReport {
+    const integrity = this.indexer.checkIntegrity();
+    const orphans = this.indexer
+      .getAllDocumentIds()
+      .filter((docId) => !this.documentStore.exists(docId));
+    const missing = this.documentStore
+      .getAll()
+      .filter((doc) => doc.processed && !this.indexer.hasDocument(doc.id))
+      .map((doc) => doc.id);
+
+    const report: VerificationReport = {
+      valid:
+        integrity.errors.length === 0 &&
+        integrity.staleStats.length === 0 &&
+        orphans.length === 0 &&
+        missing.length === 0,
+      indexedDocuments: this.indexer.getTotalDocuments(),
+      storedDocuments: this.documentStore.getTotalDocuments(),
+      errors: integrity.errors,
+      damaged: this.toProblem(integrity.damagedDocuments),
+      orphans: this.toProblem(orphans),
+      missing: this.toProblem(missing),
+      staleStats: integrity.staleStats,
+    };
+
+    if (!report.valid) {
+      logger.warn('Index verification found problems', {
+        errors: integrity.errors.length,
+        damaged: integrity.damagedDocuments.length,
+        orphans: orphans.length,
+        missing: missing.length,
+        staleStats: integrity.staleStats,
+      });
+    }
+
+    if (repair && !report.valid) {
+      report.repair = this.repair(integrity.damagedDocuments, orphans, missing);
+    }
+    return report;
+  }
+
+  /**
+   * Reindexes or removes the given documents, rebuilds the statistics and verifies again
+   */
+  private repair(
+    damaged: string[],
+    orphans: string[],
+    missing: string[]
+  ): NonNullable<VerificationReport['repair']> {
+    let reindexed = 0;
+    let removed = 0;
+
+    // Every version of a damaged document is purged first: the lookups may no longer point
+    // at the segment holding it, and indexing it again would leave that version live
+    const handled = new Set([...damaged, ...missing]);
+    for (const docId of handled) {
+      const purged = this.indexer.purgeDocument(docId);
+      const doc = this.documentStore.getById(docId);
+      if (doc) {
+        this.indexer.indexDocument(this.textProcessor.processDocument(doc));
+        reindexed++;
+      } else if (purged) {
+        removed++;
+      }
+    }
+
+    for (const docId of orphans) {
+      if (!handled.has(docId) && this.indexer.purgeDocument(docId)) {
+        removed++;
+      }
+    }
+
+    // Invalid postings of reindexed documents are only dropped when their segment is merged
+    if (damaged.length > 0) {
+      this.indexer.forceMerge();
+    }
+    this.indexer.rebuildStatistics();
+
+    const after = this.indexer.checkIntegrity();
+    const result = {
+      reindexed,
+      removed,
+      valid: after.errors.length === 0 && after.staleStats.length === 0,
+      remainingErrors: after.errors,
+    };
+    logger.info('Index repaired', { reindexed, removed, valid: result.valid });
+    return result;
+  }
+
+  /**
+   * Counts documents and lists the first of them
+   */
+  private toProblem(docIds: string[]): DocumentProblem {
+    return { count: docIds.length, docIds: docIds.slice(0, this.config.maxListedDocuments) };
+  }
+}
@@ -1,13 +1,40 @@
 import {
   InvertedIndex,
   PostingsList,
+  assembleIndex,
   createEmptyIndex,
-  calculateAverageDocumentLength,
-  serializeIndex,
-  deserializeIndex,
-  SerializableInvertedIndex,
+  validateIndexEntry,
+  validateInvertedIndex,
+  validatePostingsList,
+  addDocumentKeywords,
+  removeDocumentKeywords,
+  addDocumentLengths,
+  removeDocumentLengths,
 } from '../models/index';
-import { ProcessedDocument } from '../models/document';
+import {
+  Segment,
+  createSegment,
+  getLiveDocumentCount,
+  getLivePostings,
+  hasLivePostings,
+  isLiveDocument,
+  markDeleted,
+  mergeSegments,
+  unmarkDeleted,
+} from '../models/segment';
+import {
+  KeywordField,
+  NumericField,
+  ProcessedDocument,
+  TextField,
+  Token,
+} from '../models/document';
+import { TermDictionary } from './term-dictionary';
+import { AnalysisMismatchError, AnalysisSettings, analysisSettingsEqual } from './analysis';
+import { loadIndexFile, writeIndexFile } from './index-file';
+import { WalChange, WalRecord, WriteAheadLog } from './write-ahead-log';
+import { logger } from '../utils/logger';
+import { randomUUID } from 'crypto';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 
@@ -17,25 +44,102 @@ import * as path from 'path';
 export interface IndexerConfig {
   // Path where the index should be persisted
   indexPath?: string;
-  // Whether to automatically persist changes
+  // Whether to log changes to a write-ahead log and checkpoint the index periodically
   autoPersist?: boolean;
+  // Write-ahead log file (default: indexPath + ".wal")
+  walPath?: string;
+  // Whether to fsync the write-ahead log after every change
+  walSync?: boolean;
+  // Logged changes after which the index file is rewritten and the log emptied
+  checkpointInterval?: number;
+  // Documents buffered in memory before they are sealed into a segment
+  maxBufferDocuments?: number;
+  // Number of segments of similar size that are merged into one
+  mergeFactor?: number;
+  // Fraction of deleted documents at which a segment is rewritten without them
+  maxDeletedRatio?: number;
+  // Whether merges run after indexing calls return (false: before they return)
+  backgroundMerge?: boolean;
+}
+
+/**
+ * Problems found in an index by Indexer.checkIntegrity
+ */
+export interface IndexIntegrity {
+  errors: string[]; // violated invariants
+  damagedDocuments: string[]; // documents with invalid postings, or postings but no statistics
+  staleStats: string[]; // statistics that disagree with the indexed documents
 }
 
 /**
  * Indexer builds and maintains an inverted index for fast document retrieval
  * Implements requirements 3.1, 3.2, 3.3, 3.4, 3.5 for index construction and management
+ *
+ * The index is log-structured (see models/segment): documents are added to an in-memory
+ * buffer that is sealed into an immutable segment when full, and removing or replacing a
+ * document only marks it deleted in its segment. Adding, replacing and removing a document
+ * therefore cost the same however large the index is. Segments of similar size are merged
+ * in the background, dropping deleted documents, so searches read few segments.
+ *
+ * With autoPersist, every change is appended to a write-ahead log (see ./write-ahead-log)
+ * before it is applied, and the index file is rewritten only every checkpointInterval
+ * changes. load() replays the changes logged after the last checkpoint.
  */
 export class Indexer {
   private index: InvertedIndex;
   private config: IndexerConfig;
+  private termDictionary?: TermDictionary; // built lazily, discarded when the index changes
+  private postingsByDocId: Map<string, Map<string, PostingsList>>; // term → docId → posting, built lazily
+  private exactPostingsByDocId: Map<string, Map<string, PostingsList>>; // word → docId → posting, built lazily
+  private sortedPostings: Map<string, PostingsList[]>; // term → postings in docId order, built lazily
+  private numericMaxima: Map<NumericField, number>; // largest value per numeric field, built lazily
+  private documentTerms?: Map<string, Map<string, PostingsList>>; // docId → term → posting, built lazily
+  private livePostings: Map<string, PostingsList[]>; // term → live postings of all segments, built lazily
+  private liveExactPostings: Map<string, PostingsList[]>; // word → live postings of all segments, built lazily
+  private liveTerms?: string[]; // terms with live postings, built lazily
+  private bufferTerms: Map<string, { terms: string[]; exactTerms: string[] }>; // docId → terms, for buffered documents
+  private mergeScheduled: boolean;
+  private generation: number; // incremented on every change to the index
+  private documentGenerations: Map<string, number>; // docId → generation the document was indexed at
+  private indexId: string; // identifies the index contents; replaced when they are replaced wholesale
+  private wal: WriteAheadLog;
+  private walSequence: number; // sequence number of the last logged change
+  private loggedChanges: number; // changes logged since the last checkpoint
+  private replaying: boolean;
+  private checkpointing: boolean;
+  private persisting: Promise<void>; // last persist; persists run one at a time
 
   constructor(config: IndexerConfig = {}) {
     this.config = {
-      indexPath: 'index.json',
+      indexPath: 'index.bin',
       autoPersist: false,
+      maxBufferDocuments: 1000,
+      mergeFactor: 10,
+      maxDeletedRatio: 0.5,
+      backgroundMerge: true,
+      walSync: false,
+      checkpointInterval: 10000,
       ...config,
     };
+    this.config.walPath ??= `${this.config.indexPath}.wal`;
     this.index = createEmptyIndex();
+    this.postingsByDocId = new Map();
+    this.exactPostingsByDocId = new Map();
+    this.sortedPostings = new Map();
+    this.numericMaxima = new Map();
+    this.livePostings = new Map();
+    this.liveExactPostings = new Map();
+    this.bufferTerms = new Map();
+    this.mergeScheduled = false;
+    this.generation = 0;
+    this.documentGenerations = new Map();
+    this.indexId = randomUUID();
+    this.wal = new WriteAheadLog(this.config.walPath, this.config.walSync);
+    this.walSequence = 0;
+    this.loggedChanges = 0;
+    this.replaying = false;
+    this.checkpointing = false;
+    this.persisting = Promise.resolve();
   }
 
   /**
@@ -45,27 +149,102 @@ export class Indexer {
    */
   indexDocument(document: ProcessedDocument): void {
     const { docId, tokens } = document;
+    const buffer = this.index.buffer;
+    this.logChange({ type: 'index', document });
 
-    // Remove existing entries for this document if it exists
-    this.removeDocument(docId);
+    // Replace the existing version of this document if there is one
+    this.deleteDocument(docId);
 
-    // Track document length for BM25 calculations
+    // Track document and per-field lengths for BM25 calculations
+    const fieldLengths = document.fieldLengths ?? {};
     this.index.documentLengths.set(docId, tokens.length);
+    this.index.fieldLengths.set(docId, fieldLengths);
+    addDocumentLengths(this.index, tokens.length, fieldLengths);
+
+    // Track keyword values for field-scoped search
+    if (document.keywords) {
+      this.index.documentKeywords.set(docId, document.keywords);
+      addDocumentKeywords(this.index, docId, document.keywords);
+    }
+    if (document.numericValues) {
+      this.index.documentValues.set(docId, document.numericValues);
+    }
+
+    // Stemmed terms, and the words as written (lowercased) for exact matching. Synonyms
+    // were not written, and a compound's joined form shares its whole word and position.
+    const terms = this.addPostings(buffer.termToPostings, docId, tokens, (token) => token.stem);
+    const written = new Set<string>();
+    const exactTerms = this.addPostings(buffer.exactTermToPostings, docId, tokens, (token) => {
+      const word = token.text.toLowerCase();
+      const key = `${token.position} ${word}`;
+      if (token.synonym || written.has(key)) {
+        return undefined;
+      }
+      written.add(key);
+      return word;
+    });
+    this.bufferTerms.set(docId, { terms, exactTerms });
+
+    // A document removed from the buffer and added again keeps its ordinal
+    const ordinal = buffer.docOrdinals.get(docId);
+    if (ordinal === undefined) {
+      buffer.docOrdinals.set(docId, buffer.docIds.length);
+      buffer.docIds.push(docId);
+    } else {
+      unmarkDeleted(buffer, ordinal);
+    }
+    this.index.documentSegments.set(docId, buffer);
+
+    if (buffer.docIds.length >= this.config.maxBufferDocuments!) {
+      this.flush();
+    }
+
+    this.invalidateCaches();
+    this.documentGenerations.set(docId, this.generation);
+    this.scheduleCheckpoint();
+  }
 
+  /**
+   * Adds the postings of one document to a term map
+   * @param termToPostings Map to add the postings to
+   * @param docId Document ID
+   * @param tokens Tokens of the document
+   * @param getTerm Term a token is indexed under, or undefined to skip it
+   * @returns Terms postings were added for
+   */
+  private addPostings(
+    termToPostings: Map<string, PostingsList[]>,
+    docId: string,
+    tokens: Token[],
+    getTerm: (token: Token) => string | undefined
+  ): string[] {
     // Build term frequency map and positions for this document
-    const termData = new Map<string, { frequency: number; positions: number[] }>();
+    const termData = new Map<
+      string,
+      {
+        frequency: number;
+        positions: number[];
+        fieldFrequencies: Partial<Record<TextField, number>>;
+      }
+    >();
 
     // Process each token
     tokens.forEach((token) => {
-      const term = token.stem; // Use stemmed form for indexing
+      const term = getTerm(token);
+      if (term === undefined) {
+        return;
+      }
 
       if (!termData.has(term)) {
-        termData.set(term, { frequency: 0, positions: [] });
+        termData.set(term, { frequency: 0, positions: [], fieldFrequencies: {} });
       }
 
       const data = termData.get(term)!;
       data.frequency++;
       data.positions.push(token.position);
+      if (token.field) {
+        data.fieldFrequencies[token.field] = (data.fieldFrequencies[token.field] ?? 0) + 1;
+      }
     });
 
     // Add postings for each term in this document
@@ -77,23 +256,18 @@ export class Indexer {
         docId,
         termFrequency: data.frequency,
         positions: data.positions,
+        fieldFrequencies: data.fieldFrequencies,
       };
 
       // Add to inverted index
-      if (!this.index.termToPostings.has(term)) {
-        this.index.termToPostings.set(term, []);
+      if (!termToPostings.has(term)) {
+        termToPostings.set(term, []);
       }
 
-      this.index.termToPostings.get(term)!.push(posting);
+      termToPostings.get(term)!.push(posting);
     }
 
-    // Update document statistics
-    this.updateDocumentStatistics();
-
-    // Auto-persist if enabled
-    if (this.config.autoPersist) {
-      this.persist().catch(console.error);
-    }
+    return Array.from(termData.keys());
   }
 
   /**
@@ -112,29 +286,240 @@ export class Indexer {
    * @param docId Document ID to remove
    */
   removeDocument(docId: string): void {
+    if (!this.index.documentSegments.has(docId)) {
+      return;
+    }
+
+    this.logChange({ type: 'remove', docId });
+    this.deleteDocument(docId);
+    this.invalidateCaches();
+    this.scheduleCheckpoint();
+  }
+
+  /**
+   * Deletes a document and its statistics
+   * Documents in a sealed segment are marked deleted; their postings are dropped when
+   * the segment is merged. The buffer is still mutable, so its postings are dropped at once.
+   * @param docId Document ID to delete
+   * @returns True if the document was indexed
+   */
+  private deleteDocument(docId: string): boolean {
+    const segment = this.index.documentSegments.get(docId);
+    if (!segment) {
+      return false;
+    }
+
+    if (segment === this.index.buffer) {
+      const { terms, exactTerms } = this.bufferTerms.get(docId)!;
+      removePostings(segment.termToPostings, terms, docId);
+      removePostings(segment.exactTermToPostings, exactTerms, docId);
+      this.bufferTerms.delete(docId);
+    }
+    markDeleted(segment, segment.docOrdinals.get(docId)!);
+    this.index.documentSegments.delete(docId);
+    this.deleteStatistics(docId);
+
+    if (segment !== this.index.buffer && this.needsExpunge(segment)) {
+      this.scheduleMerge();
+    }
+    return true;
+  }
+
+  /**
+   * Deletes the lengths, keyword values and numeric values of a document
+   * @returns True if the document had any
+   */
+  private deleteStatistics(docId: string): boolean {
+    const found =
+      this.index.documentLengths.has(docId) ||
+      this.index.fieldLengths.has(docId) ||
+      this.index.documentKeywords.has(docId) ||
+      this.index.documentValues.has(docId);
+
     // Remove from document lengths
-    this.index.documentLengths.delete(docId);
+    const length = this.index.documentLengths.get(docId) ?? 0;
+    const fieldLengths = this.index.fieldLengths.get(docId) ?? {};
+    if (this.index.documentLengths.delete(docId)) {
+      removeDocumentLengths(this.index, length, fieldLengths);
+    }
+    this.index.fieldLengths.delete(docId);
 
-    // Remove postings for this document from all terms
-    for (const [term, postings] of this.index.termToPostings.entries()) {
-      const filteredPostings = postings.filter((posting) => posting.docId !== docId);
+    // Remove keyword values
+    const keywords = this.index.documentKeywords.get(docId);
+    if (keywords) {
+      removeDocumentKeywords(this.index, docId, keywords);
+      this.index.documentKeywords.delete(docId);
+    }
+    this.index.documentValues.delete(docId);
+    this.documentGenerations.delete(docId);
+    return found;
+  }
 
-      if (filteredPostings.length === 0) {
-        // No documents left for this term, remove it entirely
-        this.index.termToPostings.delete(term);
-      } else {
-        // Update the postings list
-        this.index.termToPostings.set(term, filteredPostings);
+  /**
+   * Removes every version of a document, also where the lookups disagree with the segments
+   * Unlike removeDocument, which finds the document through documentSegments, this marks
+   * deleted every live ordinal the segments list for it and drops statistics that belong
+   * to no live version. Used to repair a damaged index (see ./index-verifier).
+   * @param docId Document ID to remove
+   * @returns True if anything was removed
+   */
+  purgeDocument(docId: string): boolean {
+    this.logChange({ type: 'purge', docId });
+
+    // Buffered postings are only dropped for documents tracked in bufferTerms; sealed
+    // segments rely on the deletion bitmap alone
+    this.flush();
+    let removed = this.deleteDocument(docId);
+    for (const segment of this.index.segments) {
+      if (!segment.docOrdinals.has(docId)) {
+        continue;
       }
+      segment.docIds.forEach((id, ordinal) => {
+        if (id === docId && markDeleted(segment, ordinal)) {
+          removed = true;
+        }
+      });
     }
+    this.index.documentSegments.delete(docId);
+    removed = this.deleteStatistics(docId) || removed;
 
-    // Update document statistics
-    this.updateDocumentStatistics();
+    if (removed) {
+      this.invalidateCaches();
+    }
+    this.scheduleCheckpoint();
+    return removed;
+  }
 
-    // Auto-persist if enabled
-    if (this.config.autoPersist) {
-      this.persist().catch(console.error);
+  /**
+   * Seals the buffered documents into an immutable segment
+   * Called when the buffer is full; segments are merged afterwards as the merge policy requires.
+   */
+  flush(): void {
+    const buffer = this.index.buffer;
+    if (buffer.docIds.length === 0) {
+      return;
     }
+
+    this.index.segments.push(buffer);
+    this.index.buffer = createSegment(this.index.nextSegmentId++);
+    this.bufferTerms.clear();
+    this.scheduleMerge();
+  }
+
+  /**
+   * Merges all documents into a single segment without deletions
+   * Searches read one postings list per term afterwards; useful before persisting an
+   * index that will mostly be searched.
+   */
+  forceMerge(): void {
+    this.flush();
+    const segments = this.index.segments;
+    if (segments.length > 1 || segments.some((segment) => segment.deletedCount > 0)) {
+      this.replaceSegments(segments, mergeSegments(this.index.nextSegmentId++, segments));
+    }
+  }
+
+  /**
+   * Merges segments chosen by the merge policy, after the current call returns
+   * Each merge runs in its own turn of the event loop, so searches are served in between.
+   */
+  private scheduleMerge(): void {
+    if (!this.config.backgroundMerge) {
+      while (this.mergeNext()) {
+        // Merge until the policy is satisfied
+      }
+      return;
+    }
+
+    if (this.mergeScheduled) {
+      return;
+    }
+    this.mergeScheduled = true;
+    setImmediate(() => {
+      this.mergeScheduled = false;
+      if (this.mergeNext()) {
+        this.scheduleMerge();
+      }
+    });
+  }
+
+  /**
+   * Runs the next merge the merge policy asks for
+   * @returns True if segments were merged
+   */
+  private mergeNext(): boolean {
+    const segments = this.findMerge();
+    if (!segments) {
+      return false;
+    }
+
+    this.replaceSegments(segments, mergeSegments(this.index.nextSegmentId++, segments));
+    return true;
+  }
+
+  /**
+   * Picks the segments to merge next
+   *
+   * Segments are grouped in levels by size: level n holds segments of up to about
+   * maxBufferDocuments × mergeFactor^n live documents. When the newest mergeFactor
+   * adjacent segments share a level they are merged into one of the next level, so each
+   * document is rewritten about log(documents) times in all. A segment with too many
+   * deleted documents is rewritten on its own to drop them.
+   * @returns Adjacent segments, oldest first, or undefined if nothing needs merging
+   */
+  private findMerge(): Segment[] | undefined {
+    const segments = this.index.segments;
+
+    const expunge = segments.find((segment) => this.needsExpunge(segment));
+    if (expunge) {
+      return [expunge];
+    }
+
+    const mergeFactor = this.config.mergeFactor!;
+    const level = (segment: Segment) =>
+      Math.max(
+        0,
+        Math.floor(
+          Math.log(getLiveDocumentCount(segment) / this.config.maxBufferDocuments!) /
+            Math.log(mergeFactor)
+        )
+      );
+
+    for (let end = segments.length; end >= mergeFactor; end--) {
+      const run = segments.slice(end - mergeFactor, end);
+      if (run.every((segment) => level(segment) === level(run[0]))) {
+        return run;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Checks whether a segment holds enough deleted documents to be rewritten
+   */
+  private needsExpunge(segment: Segment): boolean {
+    return (
+      segment.deletedCount > 0 &&
+      segment.deletedCount >= this.config.maxDeletedRatio! * segment.docIds.length
+    );
+  }
+
+  /**
+   * Replaces adjacent segments by the segment they were merged into
+   * Merging changes how postings are stored, not which documents match, so the
+   * generation stays the same.
+   */
+  private replaceSegments(segments: Segment[], merged: Segment): void {
+    const start = this.index.segments.indexOf(segments[0]);
+    this.index.segments.splice(
+      start,
+      segments.length,
+      ...(merged.docIds.length > 0 ? [merged] : [])
+    );
+    for (const docId of merged.docIds) {
+      this.index.documentSegments.set(docId, merged);
+    }
+    this.clearLookups();
   }
 
   /**
@@ -144,7 +529,120 @@ export class Indexer {
    * @returns Array of postings for the term, or empty array if not found
    */
   getPostings(term: string): PostingsList[] {
-    return this.index.termToPostings.get(term) || [];
+    let postings = this.livePostings.get(term);
+    if (!postings) {
+      postings = this.collectPostings(term, (segment) => segment.termToPostings);
+      this.livePostings.set(term, postings);
+    }
+    return postings;
+  }
+
+  /**
+   * Gets the posting of a term in a single document
+   * Used to read term positions for phrase matching
+   * @param term Term to look up
+   * @param docId Document ID
+   * @returns Posting for the term in the document, or undefined if the term does not occur
+   */
+  getPosting(term: string, docId: string): PostingsList | undefined {
+    let byDocId = this.postingsByDocId.get(term);
+    if (!byDocId) {
+      byDocId = new Map(this.getPostings(term).map((posting) => [posting.docId, posting]));
+      this.postingsByDocId.set(term, byDocId);
+    }
+    return byDocId.get(docId);
+  }
+
+  /**
+   * Gets postings list for a word as written
+   * Words are lowercased but not stemmed, so "testing" does not find "tests".
+   * @param word Lowercased surface form
+   * @returns Array of postings for the word, or empty array if not found
+   */
+  getExactPostings(word: string): PostingsList[] {
+    let postings = this.liveExactPostings.get(word);
+    if (!postings) {
+      postings = this.collectPostings(word, (segment) => segment.exactTermToPostings);
+      this.liveExactPostings.set(word, postings);
+    }
+    return postings;
+  }
+
+  /**
+   * Gathers the live postings of a term from every segment, oldest first
+   */
+  private collectPostings(
+    term: string,
+    getTermMap: (segment: Segment) => Map<string, PostingsList[]>
+  ): PostingsList[] {
+    const lists = this.getSegments()
+      .map((segment) => getLivePostings(segment, getTermMap(segment), term))
+      .filter((postings) => postings.length > 0);
+    return lists.length === 1 ? lists[0] : ([] as PostingsList[]).concat(...lists);
+  }
+
+  /**
+   * Gets the sealed segments and the buffer, oldest first
+   */
+  private getSegments(): Segment[] {
+    return [...this.index.segments, this.index.buffer];
+  }
+
+  /**
+   * Gets the posting of a word as written in a single document
+   * @param word Lowercased surface form
+   * @param docId Document ID
+   * @returns Posting for the word in the document, or undefined if it does not occur
+   */
+  getExactPosting(word: string, docId: string): PostingsList | undefined {
+    let byDocId = this.exactPostingsByDocId.get(word);
+    if (!byDocId) {
+      byDocId = new Map(this.getExactPostings(word).map((posting) => [posting.docId, posting]));
+      this.exactPostingsByDocId.set(word, byDocId);
+    }
+    return byDocId.get(docId);
+  }
+
+  /**
+   * Gets the postings list for a term ordered by document ID
+   * Used by top-k retrieval, which walks several postings lists in step
+   * @param term Term to look up
+   * @returns Postings sorted by docId, or empty array if the term is not indexed
+   */
+  getSortedPostings(term: string): PostingsList[] {
+    let sorted = this.sortedPostings.get(term);
+    if (!sorted) {
+      sorted = [...this.getPostings(term)].sort((a, b) =>
+        a.docId < b.docId ? -1 : a.docId > b.docId ? 1 : 0
+      );
+      this.sortedPostings.set(term, sorted);
+    }
+    return sorted;
+  }
+
+  /**
+   * Gets the terms of a document with their postings
+   * The forward index is built from the inverted index on first use and kept until the index changes.
+   * @param docId Document ID
+   * @returns Map of term to the document's posting, empty if the document is not indexed
+   */
+  getDocumentTerms(docId: string): Map<string, PostingsList> {
+    if (!this.documentTerms) {
+      this.documentTerms = new Map();
+      for (const segment of this.getSegments()) {
+        for (const term of segment.termToPostings.keys()) {
+          for (const posting of getLivePostings(segment, segment.termToPostings, term)) {
+            let terms = this.documentTerms.get(posting.docId);
+            if (!terms) {
+              terms = new Map();
+              this.documentTerms.set(posting.docId, terms);
+            }
+            terms.set(term, posting);
+          }
+        }
+      }
+    }
+    return this.documentTerms.get(docId) ?? new Map();
   }
 
   /**
@@ -154,8 +652,7 @@ export class Indexer {
    * @returns Number of documents containing the term
    */
   getDocumentFrequency(term: string): number {
-    const postings = this.index.termToPostings.get(term);
-    return postings ? postings.length : 0;
+    return this.getPostings(term).length;
   }
 
   /**
@@ -184,48 +681,449 @@ export class Indexer {
     return this.index.documentLengths.get(docId) || 0;
   }
 
+  /**
+   * Gets the length of a single text field of a document
+   * Used for BM25F per-field length normalization
+   * @param docId Document ID
+   * @param field Text field
+   * @returns Field length in tokens, or 0 if not found
+   */
+  getFieldLength(docId: string, field: TextField): number {
+    return this.index.fieldLengths.get(docId)?.[field] ?? 0;
+  }
+
+  /**
+   * Gets the average length of a text field across all documents
+   * @param field Text field
+   * @returns Average field length in tokens
+   */
+  getAverageFieldLength(field: TextField): number {
+    return this.index.averageFieldLengths[field] ?? 0;
+  }
+
   /**
    * Gets all terms in the index
    * @returns Array of all indexed terms
    */
   getAllTerms(): string[] {
-    return Array.from(this.index.termToPostings.keys());
+    if (!this.liveTerms) {
+      const terms = new Set<string>();
+      for (const segment of this.getSegments()) {
+        for (const term of segment.termToPostings.keys()) {
+          if (!terms.has(term) && hasLivePostings(segment, segment.termToPostings, term)) {
+            terms.add(term);
+          }
+        }
+      }
+      this.liveTerms = Array.from(terms);
+    }
+    return this.liveTerms;
+  }
+
+  /**
+   * Gets the sorted term dictionary
+   * Used to expand fuzzy query terms; rebuilt on first use after the index changes
+   * @returns Term dictionary of all indexed terms
+   */
+  getTermDictionary(): TermDictionary {
+    if (!this.termDictionary) {
+      this.termDictionary = new TermDictionary(this.getAllTerms());
+    }
+    return this.termDictionary;
+  }
+
+  /**
+   * Gets documents whose keyword field has the given value
+   * Used for field-scoped queries such as "subreddit:rust"
+   * @param field Keyword field (author, subreddit, type)
+   * @param value Normalized keyword value
+   * @returns Array of matching document IDs
+   */
+  getDocumentsByKeyword(field: KeywordField, value: string): string[] {
+    const docIds = this.index.keywordIndex.get(field)?.get(value);
+    return docIds ? Array.from(docIds) : [];
+  }
+
+  /**
+   * Gets a numeric field value of a document
+   * Used to evaluate range filters without loading the document
+   * @param docId Document ID
+   * @param field Numeric field (createdUtc as epoch milliseconds, redditScore, commentCount)
+   * @returns Field value, or undefined if the document was indexed without numeric values
+   */
+  getNumericValue(docId: string, field: NumericField): number | undefined {
+    return this.index.documentValues.get(docId)?.[field];
+  }
+
+  /**
+   * Gets the largest value of a numeric field across all documents
+   * Used to bound the score of documents that have not been scored yet
+   * @param field Numeric field
+   * @returns Largest value, Infinity if some document has no value, or -Infinity for an empty index
+   */
+  getMaxNumericValue(field: NumericField): number {
+    let max = this.numericMaxima.get(field);
+    if (max === undefined) {
+      max = this.index.documentValues.size < this.index.documentLengths.size ? Infinity : -Infinity;
+      for (const values of this.index.documentValues.values()) {
+        max = Math.max(max, values[field] ?? Infinity);
+      }
+      this.numericMaxima.set(field, max);
+    }
+    return max;
+  }
+
+  /**
+   * Gets the generation of the index
+   * The generation changes whenever documents are added or removed, so values derived
+   * from the index can be cached until it changes.
+   * @returns Index generation
+   */
+  getGeneration(): number {
+    return this.generation;
+  }
+
+  /**
+   * Gets the generation a document was indexed at
+   * Documents loaded from disk count as indexed at generation 0.
+   * @param docId Document ID
+   * @returns Index generation right after the document was last indexed
+   */
+  getDocumentGeneration(docId: string): number {
+    return this.documentGenerations.get(docId) ?? 0;
+  }
+
+  /**
+   * Gets the identity of the index contents
+   * Adding and removing documents keeps the identity; loading, clearing or swapping the index
+   * replaces it, since generations no longer tell which documents are newer.
+   * @returns Index identity
+   */
+  getIndexId(): string {
+    return this.indexId;
+  }
+
+  /**
+   * Gets the IDs of all indexed documents
+   * Used as the universe when evaluating negated query clauses
+   * @returns Array of indexed document IDs
+   */
+  getAllDocumentIds(): string[] {
+    return Array.from(this.index.documentLengths.keys());
+  }
+
+  /**
+   * Checks whether a document is indexed
+   * @param docId Document ID
+   * @returns True if the document is in the index
+   */
+  hasDocument(docId: string): boolean {
+    return this.index.documentLengths.has(docId);
+  }
+
+  /**
+   * Gets the analysis settings the indexed documents were processed with
+   * @returns Recorded settings, or undefined if none were recorded
+   */
+  getAnalysisSettings(): AnalysisSettings | undefined {
+    return this.index.analysis;
+  }
+
+  /**
+   * Records the analysis settings documents are processed with
+   * Settings can only change while the index is empty; documents analyzed differently
+   * would not match the terms of queries.
+   * @param settings Analysis settings of the text processor feeding this index
+   * @throws AnalysisMismatchError if the index holds documents analyzed with other settings
+   */
+  setAnalysisSettings(settings: AnalysisSettings): void {
+    const recorded = this.index.analysis;
+    if (recorded && this.index.totalDocuments > 0 && !analysisSettingsEqual(recorded, settings)) {
+      throw new AnalysisMismatchError(
+        'The index was built with different analysis settings; reindex to change them'
+      );
+    }
+    this.index.analysis = settings;
+  }
+
+  /**
+   * Exchanges the index with the index of another indexer, e.g. one rebuilt in the background
+   * This indexer stays the one searches and updates go through, so the exchange is atomic
+   * for them; the other indexer holds the replaced index afterwards, and exchanging again
+   * swaps it back. With autoPersist, a checkpoint is started: until it is written, load()
+   * restores the replaced index and skips the changes logged after the swap.
+   * @param other Indexer holding the new index; it must not persist to the same files
+   */
+  swapIndex(other: Indexer): void {
+    this.logChange({ type: 'swap' });
+
+    // Buffered documents are tracked per indexer, so both buffers are sealed first
+    this.flush();
+    other.flush();
+
+    const index = this.index;
+    this.index = other.index;
+    other.index = index;
+    this.resetIdentity();
+    other.resetIdentity();
+    this.scheduleMerge();
+
+    if (this.config.autoPersist && !this.replaying) {
+      this.persist().catch((error) => {
+        logger.error('Index checkpoint failed', { error: (error as Error).message });
+      });
+    }
+  }
+
+  /**
+   * Checks the invariants of the index (see validateInvertedIndex)
+   * @throws Error describing the first violated invariant
+   */
+  validate(): void {
+    validateInvertedIndex(this.index);
+  }
+
+  /**
+   * Checks the index for violated invariants and statistics that no longer add up
+   * Statistics are compared with the ones rebuilt from the per-document values, the way
+   * load() builds them.
+   * @returns Problems found; all lists are empty for a sound index
+   */
+  checkIntegrity(): IndexIntegrity {
+    const errors: string[] = [];
+    const damaged = new Set<string>();
+    const message = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+    for (const term of this.getAllTerms()) {
+      const postings = this.getPostings(term);
+      try {
+        validateIndexEntry({ term, documentFrequency: this.getDocumentFrequency(term), postings });
+      } catch (error) {
+        let attributed = false;
+        for (const posting of postings) {
+          try {
+            validatePostingsList(posting);
+          } catch (postingError) {
+            errors.push(`Term "${term}", document ${posting.docId}: ${message(postingError)}`);
+            damaged.add(posting.docId);
+            attributed = true;
+          }
+        }
+        if (!attributed) {
+          errors.push(`Term "${term}": ${message(error)}`);
+        }
+      }
+
+      const seen = new Set<string>();
+      for (const posting of postings) {
+        if (seen.has(posting.docId)) {
+          errors.push(`Term "${term}" has more than one posting for ${posting.docId}`);
+          damaged.add(posting.docId);
+        }
+        seen.add(posting.docId);
+        if (!this.index.documentLengths.has(posting.docId)) {
+          errors.push(`Term "${term}" has a posting for ${posting.docId}, which has no length`);
+          damaged.add(posting.docId);
+        }
+      }
+    }
+
+    // Every document is listed once per segment and live in one segment at most
+    const liveSegments = new Map<string, number>();
+    for (const segment of this.getSegments()) {
+      const listed = new Set<string>();
+      for (const docId of segment.docIds) {
+        if (listed.has(docId)) {
+          errors.push(`Segment ${segment.id} lists document ${docId} more than once`);
+          damaged.add(docId);
+        }
+        listed.add(docId);
+      }
+      for (const docId of listed) {
+        if (isLiveDocument(segment, docId)) {
+          liveSegments.set(docId, (liveSegments.get(docId) ?? 0) + 1);
+        }
+      }
+    }
+    for (const [docId, count] of liveSegments) {
+      if (count > 1) {
+        errors.push(`Document ${docId} is live in ${count} segments`);
+        damaged.add(docId);
+      }
+    }
+
+    for (const docId of this.index.documentLengths.keys()) {
+      if (!this.index.documentSegments.has(docId)) {
+        errors.push(`Document ${docId} has a length but is in no segment`);
+        damaged.add(docId);
+      }
+    }
+
+    // Also covers postings of deleted documents; invalid live postings are reported above
+    try {
+      validateInvertedIndex(this.index);
+    } catch (error) {
+      if (!errors.some((reported) => reported.endsWith(message(error)))) {
+        errors.push(message(error));
+      }
+    }
+
+    return { errors, damagedDocuments: Array.from(damaged), staleStats: this.findStaleStats() };
+  }
+
+  /**
+   * Compares the statistics with the ones rebuilt from the per-document values
+   * @returns Names of the statistics that differ
+   */
+  private findStaleStats(): string[] {
+    const { segments, buffer, documentLengths, fieldLengths, documentKeywords } = this.index;
+    const expected = assembleIndex({
+      segments: [...segments, buffer],
+      documentLengths,
+      fieldLengths,
+      documentKeywords,
+      documentValues: this.index.documentValues,
+    });
+
+    const stale: string[] = [];
+    const close = (a: number | undefined, b: number | undefined) =>
+      Math.abs((a ?? 0) - (b ?? 0)) <= 1e-9 * Math.max(1, Math.abs(b ?? 0));
+    const fieldsClose = (
+      a: Partial<Record<TextField, number>>,
+      b: Partial<Record<TextField, number>>
+    ) => (Object.keys({ ...a, ...b }) as TextField[]).every((field) => close(a[field], b[field]));
+
+    if (this.index.totalDocuments !== expected.totalDocuments) {
+      stale.push('totalDocuments');
+    }
+    if (!close(this.index.totalDocumentLength, expected.totalDocumentLength)) {
+      stale.push('totalDocumentLength');
+    }
+    if (!close(this.index.averageDocumentLength, expected.averageDocumentLength)) {
+      stale.push('averageDocumentLength');
+    }
+    if (!fieldsClose(this.index.totalFieldLengths, expected.totalFieldLengths)) {
+      stale.push('totalFieldLengths');
+    }
+    if (!fieldsClose(this.index.averageFieldLengths, expected.averageFieldLengths)) {
+      stale.push('averageFieldLengths');
+    }
+
+    const keywordEntries = (index: InvertedIndex) =>
+      Array.from(index.keywordIndex.entries()).flatMap(([field, values]) =>
+        Array.from(values.entries()).flatMap(([value, docIds]) =>
+          Array.from(docIds, (docId) => `${field}\u0000${value}\u0000${docId}`)
+        )
+      );
+    const keywords = new Set(keywordEntries(this.index));
+    const expectedKeywords = keywordEntries(expected);
+    if (
+      keywords.size !== expectedKeywords.length ||
+      expectedKeywords.some((entry) => !keywords.has(entry))
+    ) {
+      stale.push('keywordIndex');
+    }
+
+    const { documentSegments } = this.index;
+    if (
+      documentSegments.size !== expected.documentSegments.size ||
+      Array.from(expected.documentSegments).some(
+        ([docId, segment]) => documentSegments.get(docId) !== segment
+      )
+    ) {
+      stale.push('documentSegments');
+    }
+
+    return stale;
+  }
+
+  /**
+   * Rebuilds the statistics from the per-document values, as load() does
+   * The buffer is sealed first. Lengths, keywords and values of documents that are in no
+   * segment are dropped; documents whose postings have no length must be reindexed or
+   * removed beforehand.
+   */
+  rebuildStatistics(): void {
+    this.flush();
+    const { segments, documentLengths, fieldLengths, documentKeywords, documentValues, analysis } =
+      this.index;
+    const contents = { segments, documentLengths, fieldLengths, documentKeywords, documentValues };
+
+    let index = assembleIndex({ ...contents, analysis });
+    const unplaced = Array.from(documentLengths.keys()).filter(
+      (docId) => !index.documentSegments.has(docId)
+    );
+    if (unplaced.length > 0) {
+      for (const docId of unplaced) {
+        documentLengths.delete(docId);
+        fieldLengths.delete(docId);
+        documentKeywords.delete(docId);
+        documentValues.delete(docId);
+      }
+      index = assembleIndex({ ...contents, analysis });
+    }
+
+    this.index = index;
+    this.invalidateCaches();
   }
 
   /**
    * Persists the index to disk
-   * Requirements 3.5, 12.2: Serialize index to JSON file
+   * Requirements 3.5, 12.2: Serialize index to a file, in the binary format (see ./index-file)
+   * This is a checkpoint: the changes logged so far are in the file, so they are dropped
+   * from the write-ahead log.
    */
   async persist(): Promise<void> {
+    const run = this.persisting.then(() => this.writeCheckpoint());
+    this.persisting = run.catch(() => undefined);
+    return run;
+  }
+
+  private async writeCheckpoint(): Promise<void> {
     if (!this.config.indexPath) {
       throw new Error('No index path configured for persistence');
     }
 
-    const serialized = serializeIndex(this.index);
     const indexDir = path.dirname(this.config.indexPath);
 
     // Ensure directory exists
     await fs.mkdir(indexDir, { recursive: true });
 
+    // writeIndexFile encodes the index before it yields, so the file holds exactly the
+    // changes logged up to here; changes logged while it is written stay in the log
+    const sequence = this.walSequence;
+    const changes = this.loggedChanges;
+    const walOffset = this.config.autoPersist ? this.wal.byteLength : 0;
+
     // Write to temporary file first, then rename for atomic operation
     const tempPath = `${this.config.indexPath}.tmp`;
-    await fs.writeFile(tempPath, JSON.stringify(serialized, null, 2), 'utf-8');
+    await writeIndexFile(tempPath, this.index, sequence);
     await fs.rename(tempPath, this.config.indexPath);
+
+    if (this.config.autoPersist) {
+      this.wal.discardBefore(walOffset);
+    }
+    this.loggedChanges -= changes;
   }
 
   /**
    * Loads the index from disk
    * Requirements 3.5, 12.2: Restore index from file
+   * Reads both the binary format and the JSON format of earlier versions; the next
+   * persist writes the binary format. Changes in the write-ahead log that the file does
+   * not include are then replayed.
+   * @throws IndexFileError if the file is damaged or of a newer format version
    */
   async load(): Promise<void> {
     if (!this.config.indexPath) {
       throw new Error('No index path configured for loading');
     }
 
+    let walSequence = 0;
     try {
-      const data = await fs.readFile(this.config.indexPath, 'utf-8');
-      const serialized: SerializableInvertedIndex = JSON.parse(data);
-      this.index = deserializeIndex(serialized);
+      const loaded = await loadIndexFile(this.config.indexPath);
+      this.index = loaded.index;
+      walSequence = loaded.walSequence;
     } catch (error) {
       if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
         // File doesn't exist, start with empty index
@@ -234,18 +1132,130 @@ export class Indexer {
         throw error;
       }
     }
+    this.bufferTerms.clear();
+    this.resetIdentity();
+
+    // Replay the changes made after the checkpoint. Changes made after a swap apply to
+    // the swapped-in index, which the file does not hold, so they are skipped.
+    let replayed = 0;
+    let skipped = 0;
+    this.wal.close();
+    this.replaying = true;
+    try {
+      const { discarded } = await this.wal.replay((record) => {
+        if (record.sequence <= walSequence) {
+          return;
+        }
+        walSequence = record.sequence;
+        if (skipped > 0 || record.type === 'swap') {
+          skipped++;
+          return;
+        }
+        this.applyChange(record);
+        replayed++;
+      });
+      if (discarded > 0) {
+        logger.warn('Discarded incomplete write-ahead log record', { bytes: discarded });
+      }
+    } finally {
+      this.replaying = false;
+    }
+
+    this.walSequence = walSequence;
+    this.loggedChanges = replayed;
+    this.scheduleMerge();
+
+    if (skipped > 0) {
+      // Changes logged from now on must not follow the swap record
+      logger.warn('The index was swapped but not checkpointed; restored the previous index', {
+        skippedChanges: skipped - 1,
+      });
+      await this.persist();
+      return;
+    }
+    this.scheduleCheckpoint();
+  }
+
+  /**
+   * Checkpoints the index and closes the write-ahead log, e.g. on shutdown
+   * A persist that is already running finishes first.
+   */
+  async close(): Promise<void> {
+    await this.persist();
+    this.wal.close();
+  }
+
+  /**
+   * Applies a logged change during replay
+   */
+  private applyChange(record: WalRecord): void {
+    switch (record.type) {
+      case 'index':
+        this.indexDocument(record.document);
+        break;
+      case 'remove':
+        this.removeDocument(record.docId);
+        break;
+      case 'purge':
+        this.purgeDocument(record.docId);
+        break;
+      case 'clear':
+        this.clear();
+        break;
+    }
+  }
+
+  /**
+   * Appends a change to the write-ahead log, before it is applied
+   */
+  private logChange(change: WalChange): void {
+    if (!this.config.autoPersist || this.replaying) {
+      return;
+    }
+
+    this.walSequence++;
+    this.wal.append({ ...change, sequence: this.walSequence });
+    this.loggedChanges++;
+  }
+
+  /**
+   * Starts a checkpoint once enough changes are logged
+   * A failed checkpoint is logged and retried after the next change; the changes are
+   * safe in the write-ahead log meanwhile.
+   */
+  private scheduleCheckpoint(): void {
+    if (
+      !this.config.autoPersist ||
+      this.replaying ||
+      this.checkpointing ||
+      this.loggedChanges < this.config.checkpointInterval!
+    ) {
+      return;
+    }
+
+    this.checkpointing = true;
+    this.persist()
+      .catch((error) => {
+        logger.error('Index checkpoint failed', { error: (error as Error).message });
+      })
+      .finally(() => {
+        this.checkpointing = false;
+      });
   }
 
   /**
    * Clears the entire index
    */
   clear(): void {
-    this.index = createEmptyIndex();
+    this.logChange({ type: 'clear' });
 
-    // Auto-persist if enabled
-    if (this.config.autoPersist) {
-      this.persist().catch(console.error);
-    }
+    // The analysis settings stay: they describe how new documents will be processed
+    const analysis = this.index.analysis;
+    this.index = createEmptyIndex();
+    this.index.analysis = analysis;
+    this.bufferTerms.clear();
+    this.resetIdentity();
+    this.scheduleCheckpoint();
   }
 
   /**
@@ -256,26 +1266,78 @@ export class Indexer {
     totalDocuments: number;
     averageDocumentLength: number;
     totalPostings: number;
+    segments: number;
+    bufferedDocuments: number;
+    deletedDocuments: number;
+    loggedChanges: number;
   } {
+    const segments = this.getSegments().filter((segment) => segment.docIds.length > 0);
     let totalPostings = 0;
-    for (const postings of this.index.termToPostings.values()) {
-      totalPostings += postings.length;
+    for (const segment of segments) {
+      for (const term of segment.termToPostings.keys()) {
+        totalPostings += getLivePostings(segment, segment.termToPostings, term).length;
+      }
     }
 
     return {
-      totalTerms: this.index.termToPostings.size,
+      totalTerms: this.getAllTerms().length,
       totalDocuments: this.index.totalDocuments,
       averageDocumentLength: this.index.averageDocumentLength,
       totalPostings,
+      segments: segments.length,
+      bufferedDocuments: getLiveDocumentCount(this.index.buffer),
+      deletedDocuments: segments.reduce((sum, segment) => sum + segment.deletedCount, 0),
+      loggedChanges: this.loggedChanges,
     };
   }
 
   /**
-   * Updates document statistics (total count and average length)
-   * Called after adding/removing documents
+   * Discards lookup structures derived from the index and starts a new generation
    */
-  private updateDocumentStatistics(): void {
-    this.index.totalDocuments = this.index.documentLengths.size;
-    this.index.averageDocumentLength = calculateAverageDocumentLength(this.index.documentLengths);
+  private invalidateCaches(): void {
+    this.clearLookups();
+    this.generation++;
+  }
+
+  /**
+   * Discards lookup structures derived from the segments
+   */
+  private clearLookups(): void {
+    this.termDictionary = undefined;
+    this.liveTerms = undefined;
+    this.livePostings.clear();
+    this.liveExactPostings.clear();
+    this.postingsByDocId.clear();
+    this.exactPostingsByDocId.clear();
+    this.sortedPostings.clear();
+    this.numericMaxima.clear();
+    this.documentTerms = undefined;
+  }
+
+  /**
+   * Starts a new index identity after the contents were replaced wholesale
+   */
+  private resetIdentity(): void {
+    this.invalidateCaches();
+    this.documentGenerations.clear();
+    this.indexId = randomUUID();
+  }
+}
+
+/**
+ * Removes a document's postings from the given terms of a term map
+ */
+function removePostings(
+  termToPostings: Map<string, PostingsList[]>,
+  terms: string[],
+  docId: string
+): void {
+  for (const term of terms) {
+    const postings = termToPostings.get(term)?.filter((posting) => posting.docId !== docId);
+    if (postings && postings.length > 0) {
+      termToPostings.set(term, postings);
+    } else {
+      termToPostings.delete(term);
+    }
   }
 }
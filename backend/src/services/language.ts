@@ -0,0 +1,166 @@
+import {
+  stopwords,
+  Stemmer,
+  PorterStemmer,
+  PorterStemmerDe,
+  PorterStemmerEs,
+  PorterStemmerFr,
+  PorterStemmerIt,
+  PorterStemmerNl,
+  PorterStemmerNo,
+  PorterStemmerPt,
+  PorterStemmerRu,
+  PorterStemmerSv,
+} from 'natural';
+import { Language } from '../models/document';
+
+/**
+ * Language assumed when it cannot be detected
+ */
+export const DEFAULT_LANGUAGE: Language = 'en';
+
+/**
+ * Fewest stopwords a Latin-script text must contain for its language to be detected
+ */
+const MIN_STOPWORD_MATCHES = 2;
+
+// The most frequent function words of each language; English uses natural's list
+const splitWords = (list: string) => list.trim().split(/\s+/);
+
+const STOPWORDS: Record<Language, string[]> = {
+  en: stopwords,
+  de: splitWords(`
+    aber alle als also am an auch auf aus bei bin bis bist da damit dann das dass dem den
+    der des die dies diese dieser dir doch dort du durch ein eine einem einen einer eines er
+    es für hat hatte ich ihr im in ist ja jetzt kann kein mich mir mit nach nicht noch nur
+    ob oder ohne sich sie sind so über um und uns von vor war was weil wenn wer wie wir wird
+    wo zu zum zur
+  `),
+  es: splitWords(`
+    a al algo como con cuando de del desde donde el ella ellos en entre era es esta este
+    esto fue ha hay la las le les lo los más me mi muy ni no nos o para pero por porque que
+    se si sin sobre su sus también te tiene todo tu un una uno y ya yo
+  `),
+  fr: splitWords(`
+    à au aux avec ce ces cette dans de des du elle en est et été être il ils je la le les
+    leur lui mais me même mes moi mon ne nous on ou par pas plus pour qu que qui sa se ses
+    son sont sur ta te tes toi ton tu un une vous y
+  `),
+  it: splitWords(`
+    a ad al alla anche che chi ci come con da dal dei del della di è e ed gli ha hanno i il
+    in io la le lei lo loro lui ma mi mio ne nel nella noi non o per perché più quando
+    quello questo se si sono su sua suo tu tutto un una uno
+  `),
+  nl: splitWords(`
+    aan al als bij dan dat de der die dit door een en er geen heb heeft het hij hoe ik in is
+    ja je kan maar me met mij na naar niet nog nu of om ons ook op te tot u uit van voor was
+    wat we wel wie wij zal ze zich zij zijn zo
+  `),
+  pt: splitWords(`
+    a ao aos as com como da das de do dos e ela ele eles em entre era essa esse esta este eu
+    foi há isso já mais mas me meu minha muito na não nas no nos o os ou para pela pelo por
+    qual quando que se sem seu sua também te tem um uma você
+  `),
+  sv: splitWords(`
+    alla att av de dem den det detta din du där efter eller en ett från för han har hon hur
+    här i inte jag kan man med men mig min mot nu när och om oss på så som till under upp ut
+    var vad vi vid är
+  `),
+  no: splitWords(`
+    alle at av de dem den denne der det du eller en er et etter for fra han har hun hva hvis
+    hvor i ikke jeg kan man med meg men min mot nå når og om oss på så som til ut var vi
+    være
+  `),
+  ru: splitWords(`
+    а без бы был была были было в вам вас весь во вот все всё вы где да для до его ее её
+    если есть еще ещё же за и из или им их к как когда кто ли меня мне может мы на над нас
+    не него нее неё нет ни них но о об он она они оно от по под при с со так также то тоже
+    только у уже чем что чтобы эта эти это я
+  `),
+  zh: [],
+  ja: [],
+  ko: [],
+};
+
+const STEMMERS: Partial<Record<Language, Stemmer>> = {
+  en: PorterStemmer,
+  de: PorterStemmerDe,
+  es: PorterStemmerEs,
+  fr: PorterStemmerFr,
+  it: PorterStemmerIt,
+  nl: PorterStemmerNl,
+  pt: PorterStemmerPt,
+  sv: PorterStemmerSv,
+  no: PorterStemmerNo,
+  ru: PorterStemmerRu,
+};
+
+const LATIN_LANGUAGES: Language[] = ['en', 'de', 'es', 'fr', 'it', 'nl', 'pt', 'sv', 'no'];
+
+const stopwordSets = new Map<Language, Set<string>>();
+
+/**
+ * Gets the stopwords of a language
+ * @param language Language of the text
+ * @returns Lowercased stopwords; empty for languages indexed as bigrams
+ */
+export function getStopwords(language: Language): Set<string> {
+  let words = stopwordSets.get(language);
+  if (!words) {
+    words = new Set(STOPWORDS[language]);
+    stopwordSets.set(language, words);
+  }
+  return words;
+}
+
+/**
+ * Gets the stemmer of a language
+ * @param language Language of the text
+ * @returns Stemmer, or undefined for languages that are not stemmed
+ */
+export function getStemmer(language: Language): Stemmer | undefined {
+  return STEMMERS[language];
+}
+
+/**
+ * Detects the language of a text
+ *
+ * Texts mostly written in CJK or Cyrillic characters are recognized by their script:
+ * kana means Japanese, Hangul Korean and other Han text Chinese. Latin-script texts are
+ * attributed to the language whose stopwords they contain most; texts too short to
+ * contain enough of them, such as most queries, keep the fallback language.
+ * @param text Text to inspect
+ * @param fallback Language returned when the text gives too little evidence
+ * @returns Detected language
+ */
+export function detectLanguage(text: string, fallback: Language = DEFAULT_LANGUAGE): Language {
+  if (!text) {
+    return fallback;
+  }
+
+  const count = (pattern: RegExp) => text.match(pattern)?.length ?? 0;
+  const latin = count(/\p{Script=Latin}/gu);
+  const han = count(/\p{Script=Han}/gu);
+  const kana = count(/[\p{Script=Hiragana}\p{Script=Katakana}]/gu);
+  const hangul = count(/\p{Script=Hangul}/gu);
+  const cyrillic = count(/\p{Script=Cyrillic}/gu);
+
+  // A CJK character carries about as much as a short word, so a third as many count as a majority
+  if ((han + kana + hangul) * 3 >= latin && han + kana + hangul > 0) {
+    return kana > 0 ? 'ja' : hangul >= han ? 'ko' : 'zh';
+  }
+  if (cyrillic > latin) {
+    return 'ru';
+  }
+
+  const words = text.toLowerCase().match(/\p{L}+/gu) ?? [];
+  const scores = LATIN_LANGUAGES.map((language) => {
+    const languageStopwords = getStopwords(language);
+    return { language, matches: words.filter((word) => languageStopwords.has(word)).length };
+  }).sort((a, b) => b.matches - a.matches);
+
+  const [best, second] = scores;
+  return best.matches >= MIN_STOPWORD_MATCHES && best.matches > second.matches
+    ? best.language
+    : fallback;
+}
@@ -0,0 +1,67 @@
+import { Indexer } from './indexer';
+
+/**
+ * Configuration for MoreLikeThis
+ */
+export interface MoreLikeThisConfig {
+  maxQueryTerms?: number; // terms kept from the source document
+  minDocFrequency?: number; // terms in fewer documents cannot match anything else
+  maxDocFrequencyRatio?: number; // terms in a larger share of the documents do not discriminate
+}
+
+/**
+ * Term of a document with its TF-IDF weight
+ */
+export interface WeightedTerm {
+  term: string;
+  weight: number;
+}
+
+/**
+ * MoreLikeThis turns a document into a weighted query for finding similar documents
+ *
+ * The document's terms are read from its postings and weighted by TF-IDF, so words the
+ * document uses often but the corpus uses rarely describe it best. Terms that only occur
+ * in the document itself or in most of the corpus are skipped.
+ */
+export class MoreLikeThis {
+  private config: MoreLikeThisConfig;
+  private indexer: Indexer;
+
+  constructor(config: MoreLikeThisConfig, indexer: Indexer) {
+    this.config = {
+      maxQueryTerms: 25,
+      minDocFrequency: 2,
+      maxDocFrequencyRatio: 0.5,
+      ...config,
+    };
+    this.indexer = indexer;
+  }
+
+  /**
+   * Builds the term vector of a document
+   * @param docId Source document
+   * @returns Highest weighted terms, best first; empty if the document is not indexed
+   */
+  buildTermVector(docId: string): WeightedTerm[] {
+    const totalDocs = this.indexer.getTotalDocuments();
+    const maxDocFrequency = Math.max(
+      this.config.minDocFrequency!,
+      Math.floor(totalDocs * this.config.maxDocFrequencyRatio!)
+    );
+
+    const terms: WeightedTerm[] = [];
+    for (const [term, posting] of this.indexer.getDocumentTerms(docId)) {
+      const docFreq = this.indexer.getDocumentFrequency(term);
+      if (docFreq < this.config.minDocFrequency! || docFreq > maxDocFrequency) {
+        continue;
+      }
+      terms.push({ term, weight: posting.termFrequency * Math.log(totalDocs / docFreq) });
+    }
+
+    // Ties are broken by term so the same document always gives the same query
+    return terms
+      .sort((a, b) => b.weight - a.weight || (a.term < b.term ? -1 : a.term > b.term ? 1 : 0))
+      .slice(0, this.config.maxQueryTerms);
+  }
+}
@@ -0,0 +1,128 @@
+import { Indexer } from './indexer';
+import { DocumentStore } from './document-store';
+import { AutocompleteService } from './autocomplete';
+import { SearchHistoryService } from './search-history';
+import { AuthServiceMemory } from './auth-memory';
+import { TextProcessor } from './text-processor';
+import { analysisSettingsEqual } from './analysis';
+import { logger } from '../utils/logger';
+
+/**
+ * Components whose state is kept on disk between runs
+ */
+export interface PersistentComponents {
+  indexer: Indexer;
+  documentStore: DocumentStore;
+  autocompleteService: AutocompleteService;
+  searchHistoryService: SearchHistoryService;
+  authService: AuthServiceMemory;
+}
+
+/**
+ * Outcome of restoring the persisted state
+ */
+export interface RestoreReport {
+  documents: number; // documents in the store
+  indexedDocuments: number; // documents in the index after the consistency checks
+  removedFromIndex: number; // indexed documents missing from the store
+  reindexed: number; // processed documents missing from the index
+}
+
+/**
+ * Restores every component from disk and makes the index agree with the document store
+ *
+ * The index keeps the analysis settings it was built with: queries must be analyzed the
+ * same way, so the text processor switches to them if they differ from the configured
+ * ones. Documents the store does not have cannot be shown in results and are removed
+ * from the index; processed documents the index lacks (e.g. the index was lost) are
+ * indexed again. Unprocessed documents are left to the collector.
+ * @param components Components to restore
+ * @param textProcessor Text processor feeding the index
+ * @returns What was restored and repaired
+ * @throws If a file exists but cannot be read; starting empty would overwrite it
+ */
+export async function restoreState(
+  components: PersistentComponents,
+  textProcessor: TextProcessor
+): Promise<RestoreReport> {
+  const { indexer, documentStore } = components;
+  await Promise.all([
+    indexer.load(),
+    documentStore.load(),
+    components.autocompleteService.load(),
+    components.searchHistoryService.load(),
+    components.authService.load(),
+  ]);
+
+  const recorded = indexer.getAnalysisSettings();
+  if (recorded && indexer.getTotalDocuments() > 0) {
+    if (!analysisSettingsEqual(recorded, textProcessor.getAnalysisSettings())) {
+      logger.warn(
+        'The index was built with different analysis settings; using them until it is reindexed'
+      );
+    }
+    textProcessor.setAnalysisSettings(recorded);
+  } else {
+    indexer.setAnalysisSettings(textProcessor.getAnalysisSettings());
+  }
+
+  let removedFromIndex = 0;
+  for (const docId of indexer.getAllDocumentIds()) {
+    if (!documentStore.exists(docId)) {
+      indexer.removeDocument(docId);
+      removedFromIndex++;
+    }
+  }
+
+  let reindexed = 0;
+  for (const doc of documentStore.getAll()) {
+    if (doc.processed && !indexer.hasDocument(doc.id)) {
+      indexer.indexDocument(textProcessor.processDocument(doc));
+      reindexed++;
+    }
+  }
+
+  if (removedFromIndex > 0 || reindexed > 0) {
+    logger.warn('Index and document store disagreed; index repaired', {
+      removedFromIndex,
+      reindexed,
+    });
+  }
+
+  return {
+    documents: documentStore.getTotalDocuments(),
+    indexedDocuments: indexer.getTotalDocuments(),
+    removedFromIndex,
+    reindexed,
+  };
+}
+
+/**
+ * Writes every component to disk
+ * A component that fails to save does not stop the others.
+ * @param components Components to save
+ * @returns Names of the components that could not be saved
+ */
+export async function persistState(components: PersistentComponents): Promise<string[]> {
+  const tasks: [string, () => Promise<void>][] = [
+    ['index', () => components.indexer.close()],
+    ['documents', () => components.documentStore.persist()],
+    ['autocomplete', () => components.autocompleteService.persist()],
+    ['searchHistory', () => components.searchHistoryService.persist()],
+    ['users', () => components.authService.persist()],
+  ];
+
+  const results = await Promise.allSettled(tasks.map(([, task]) => task()));
+  const failed: string[] = [];
+  results.forEach((result, i) => {
+    if (result.status === 'rejected') {
+      failed.push(tasks[i][0]);
+      logger.error('Failed to persist state', {
+        component: tasks[i][0],
+        error: result.reason instanceof Error ? result.reason.message : String(result.reason),
+      });
+    }
+  });
+
+  return failed;
+}
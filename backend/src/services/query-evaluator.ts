@@ -0,0 +1,570 @@
+import { Indexer } from './indexer';
+import { TextProcessor } from './text-processor';
+import { TermDictionary, TermMatch } from './term-dictionary';
+import { toPartTokens, toTermGroups, toWords } from './analysis';
+import { calculatePhraseMatchLength, getFieldPositions } from '../models/index';
+import {
+  KEYWORD_FIELDS,
+  KeywordField,
+  SearchField,
+  TextField,
+  Token,
+  normalizeKeyword,
+} from '../models/document';
+import {
+  AnalyzedPhrase,
+  PhraseNode,
+  PhraseReading,
+  QueryExpansionError,
+  QueryNode,
+  TermExpansion,
+  TermNode,
+  collectPositiveClauses,
+  getPhraseReadings,
+} from '../models/query';
+
+/**
+ * Configuration for QueryEvaluator
+ */
+export interface QueryEvaluatorConfig {
+  maxExpansions?: number; // maximum index terms a fuzzy query term expands to
+  maxWildcardExpansions?: number; // wildcard terms matching more index terms are rejected
+}
+
+/**
+ * QueryEvaluator evaluates a query AST against the inverted index
+ *
+ * Each node evaluates to the set of matching document IDs:
+ * - term: documents in the postings list of every stem produced by analyzing the word; a
+ *   compound ("node.js") also matches its joined form ("nodejs") or all of its parts
+ * - fuzzy term: the same, where each stem also matches index terms within the edit distance
+ * - wildcard term: documents containing any index term matching the pattern
+ * - phrase: documents where the stems occur in order, within the phrase slop
+ * - exact term/phrase: the same with the words as written (lowercased) instead of the stems
+ * - field-scoped term/phrase: the same, restricted to the title or body field; keyword
+ *   fields (author, subreddit, type) match the whole value exactly instead
+ * - and:  intersection of the positive children minus the negated children
+ * - or:   union of the children
+ * - not:  all indexed documents minus the child
+ *
+ * Words that analyze to nothing (e.g. stopwords) place no constraint on the result and are
+ * ignored by their parent node.
+ */
+export class QueryEvaluator {
+  private config: QueryEvaluatorConfig;
+  private indexer: Indexer;
+  private textProcessor: TextProcessor;
+  // Expansions against the current term dictionary, keyed by "stem~fuzziness" or "*pattern"
+  private expansionCache = new Map<string, TermMatch[]>();
+  private expansionDictionary?: TermDictionary;
+
+  constructor(indexer: Indexer, textProcessor: TextProcessor, config: QueryEvaluatorConfig = {}) {
+    this.config = {
+      maxExpansions: 50,
+      maxWildcardExpansions: 500,
+      ...config,
+    };
+    this.indexer = indexer;
+    this.textProcessor = textProcessor;
+  }
+
+  /**
+   * Evaluates a query AST
+   * @param node Root node of the query AST
+   * @returns Set of matching document IDs
+   */
+  evaluate(node: QueryNode): Set<string> {
+    return this.evaluateNode(node) ?? new Set();
+  }
+
+  /**
+   * Gets the unique stems that contribute to relevance scoring
+   * @param node Root node of the query AST
+   * @returns Array of stemmed query terms, excluding negated terms
+   */
+  getScoringTerms(node: QueryNode): string[] {
+    const terms = new Set<string>();
+    for (const clause of collectPositiveClauses(node)) {
+      // Keyword clauses filter documents but carry no text relevance
+      if (isKeywordField(clause.field)) {
+        continue;
+      }
+
+      const stems =
+        clause.type === 'phrase'
+          ? getPhraseTerms(this.analyzePhrase(clause))
+          : this.expandTerm(clause).flatMap((matches) => matches.map((match) => match.term));
+      for (const stem of stems) {
+        terms.add(stem);
+      }
+    }
+    return Array.from(terms);
+  }
+
+  /**
+   * Gets the scoring terms that were added by expanding a query term
+   * A term that is also matched exactly elsewhere in the query is not an expansion.
+   * @param node Root node of the query AST
+   * @returns Map of expanded index term to how it was expanded
+   */
+  getTermExpansions(node: QueryNode): Map<string, TermExpansion> {
+    const expansions = new Map<string, TermExpansion>();
+    const exact = new Set<string>();
+
+    for (const clause of collectPositiveClauses(node)) {
+      if (isKeywordField(clause.field)) {
+        continue;
+      }
+
+      const matches =
+        clause.type === 'phrase'
+          ? getPhraseTerms(this.analyzePhrase(clause)).map((term) => ({ term, distance: 0 }))
+          : this.expandTerm(clause).flat();
+
+      for (const match of matches) {
+        if (clause.synonym) {
+          if (!expansions.has(match.term)) {
+            expansions.set(match.term, { kind: 'synonym' });
+          }
+          continue;
+        }
+
+        if (clause.type === 'term' && clause.wildcard) {
+          if (!expansions.has(match.term)) {
+            expansions.set(match.term, { kind: 'wildcard' });
+          }
+          continue;
+        }
+
+        if (match.distance === 0) {
+          exact.add(match.term);
+          continue;
+        }
+
+        const existing = expansions.get(match.term);
+        if (!existing || existing.kind !== 'fuzzy' || match.distance < existing.distance) {
+          expansions.set(match.term, { kind: 'fuzzy', distance: match.distance });
+        }
+      }
+    }
+
+    for (const term of exact) {
+      expansions.delete(term);
+    }
+
+    return expansions;
+  }
+
+  /**
+   * Gets the words of the query as written, for boosting documents that contain them unstemmed
+   * Expanded, fuzzy and wildcard terms are not words the user wrote and are skipped.
+   * @param node Root node of the query AST
+   * @returns Unique lowercased words, excluding negated clauses
+   */
+  getExactTerms(node: QueryNode): string[] {
+    const words = new Set<string>();
+    for (const clause of collectPositiveClauses(node)) {
+      if (
+        clause.synonym ||
+        isKeywordField(clause.field) ||
+        (clause.type === 'term' && (clause.fuzziness || clause.wildcard))
+      ) {
+        continue;
+      }
+
+      for (const word of this.analyzeExact(clause).terms) {
+        words.add(word);
+      }
+    }
+    return Array.from(words);
+  }
+
+  /**
+   * Gets the multi-word phrases that contribute to proximity scoring
+   * @param node Root node of the query AST
+   * @returns Array of analyzed phrases, excluding negated phrases and synonyms
+   */
+  getScoringPhrases(node: QueryNode): AnalyzedPhrase[] {
+    return collectPositiveClauses(node)
+      .filter(
+        (clause): clause is PhraseNode =>
+          clause.type === 'phrase' && !clause.synonym && !isKeywordField(clause.field)
+      )
+      .map((clause) => this.analyzePhrase(clause))
+      .filter((phrase) => phrase.terms.length > 1);
+  }
+
+  /**
+   * Analyzes a term node into index terms
+   * @param node Term node
+   * @returns Groups of alternative stems, one of which must match for each group (empty
+   *   for stopwords and punctuation)
+   */
+  analyzeTerm(node: TermNode): string[][] {
+    return toTermGroups(this.textProcessor.analyze(node.text, node.language));
+  }
+
+  /**
+   * Analyzes a term or phrase into its words as written, for exact matching
+   * Each word is one term, kept whole and lowercased but not stemmed or folded, so
+   * "Testing" matches "testing" but not "tests" or "tested".
+   * @param node Term or phrase node
+   * @returns Words with their positions relative to the first one
+   */
+  analyzeExact(node: TermNode | PhraseNode): PhraseReading {
+    return toPhraseTerms(toWords(this.textProcessor.analyze(node.text, node.language)), true);
+  }
+
+  /**
+   * Expands a term node into the index terms it matches
+   *
+   * Each stem matches itself; stems of fuzzy terms also match every index term within
+   * the edit distance, keeping the closest and most frequent ones up to maxExpansions.
+   * Wildcard terms are not analyzed and match the index terms fitting the pattern.
+   * @param node Term node
+   * @returns For each stem group of the word, the index terms it matches
+   * @throws QueryExpansionError if a wildcard term matches more than maxWildcardExpansions terms
+   */
+  expandTerm(node: TermNode): TermMatch[][] {
+    if (node.wildcard) {
+      return [this.expandWildcard(node)];
+    }
+
+    const groups = this.analyzeTerm(node);
+    if (!node.fuzziness) {
+      return groups.map((stems) => stems.map((stem) => ({ term: stem, distance: 0 })));
+    }
+
+    return groups.map((stems) => {
+      if (stems.length === 1) {
+        return this.expandFuzzy(stems[0], node.fuzziness!);
+      }
+
+      // Alternatives of a compound: closest distance per index term
+      const matches = new Map<string, TermMatch>();
+      for (const match of stems.flatMap((stem) => this.expandFuzzy(stem, node.fuzziness!))) {
+        const existing = matches.get(match.term);
+        if (!existing || match.distance < existing.distance) {
+          matches.set(match.term, match);
+        }
+      }
+      return Array.from(matches.values());
+    });
+  }
+
+  /**
+   * Expands a stem to the index terms within an edit distance
+   */
+  private expandFuzzy(stem: string, fuzziness: number): TermMatch[] {
+    const dictionary = this.getExpansionDictionary();
+    const key = `${stem}~${fuzziness}`;
+    let matches = this.expansionCache.get(key);
+
+    if (!matches) {
+      matches = dictionary
+        .fuzzyMatches(stem, fuzziness)
+        .sort(
+          (a, b) =>
+            a.distance - b.distance ||
+            this.indexer.getDocumentFrequency(b.term) - this.indexer.getDocumentFrequency(a.term)
+        )
+        .slice(0, this.config.maxExpansions);
+      this.expansionCache.set(key, matches);
+    }
+
+    return matches;
+  }
+
+  /**
+   * Expands a wildcard term against the term dictionary
+   * Patterns are matched against indexed terms, which are stemmed ("program*" rather
+   * than "programming*").
+   */
+  private expandWildcard(node: TermNode): TermMatch[] {
+    const pattern = node.text.toLowerCase();
+    const dictionary = this.getExpansionDictionary();
+    const key = `*${pattern}`;
+    let matches = this.expansionCache.get(key);
+
+    if (!matches) {
+      const limit = this.config.maxWildcardExpansions!;
+      const terms = dictionary.wildcardMatches(pattern, limit + 1);
+      if (terms.length > limit) {
+        throw new QueryExpansionError(
+          `"${node.text}" matches more than ${limit} terms; use a more specific pattern`,
+          node.position,
+          limit
+        );
+      }
+
+      matches = terms.map((term) => ({ term, distance: 0 }));
+      this.expansionCache.set(key, matches);
+    }
+
+    return matches;
+  }
+
+  /**
+   * Gets the term dictionary, discarding cached expansions when the index has changed
+   */
+  private getExpansionDictionary(): TermDictionary {
+    const dictionary = this.indexer.getTermDictionary();
+    if (dictionary !== this.expansionDictionary) {
+      this.expansionCache.clear();
+      this.expansionDictionary = dictionary;
+    }
+    return dictionary;
+  }
+
+  /**
+   * Analyzes a phrase node into stems with their relative positions
+   *
+   * Stopwords removed by analysis leave gaps in the offsets, so "state of the art"
+   * matches documents where "art" occurs three positions after "state". Compounds are
+   * read as their parts ("node.js tutorial" as "node js tutorial"), with the compounds
+   * kept whole as an alternative for text tokenized in code mode.
+   * @param node Phrase node
+   * @returns Analyzed phrase
+   */
+  analyzePhrase(node: PhraseNode): AnalyzedPhrase {
+    const tokens = this.textProcessor.analyze(node.text, node.language);
+    const words = toWords(tokens);
+    const parts = toPartTokens(tokens);
+
+    return {
+      ...toPhraseTerms(parts),
+      slop: node.slop,
+      field: node.field as TextField | undefined,
+      ...(parts.length !== words.length && { alternative: toPhraseTerms(words) }),
+      ...(node.exact && { exact: toPhraseTerms(words, true) }),
+    };
+  }
+
+  /**
+   * Evaluates a single node
+   * @returns Set of matching document IDs, or null if the node places no constraint
+   */
+  private evaluateNode(node: QueryNode): Set<string> | null {
+    switch (node.type) {
+      case 'term':
+        return this.evaluateTerm(node);
+      case 'phrase':
+        return this.evaluatePhrase(node);
+      case 'and':
+        return this.evaluateAnd(node.children);
+      case 'or':
+        return this.evaluateOr(node.children);
+      case 'not': {
+        const excluded = this.evaluateNode(node.child);
+        return excluded ? this.difference(this.allDocuments(), [excluded]) : null;
+      }
+    }
+  }
+
+  private evaluateTerm(node: TermNode): Set<string> | null {
+    if (isKeywordField(node.field)) {
+      return this.keywordToSet(node.field, node.text);
+    }
+
+    const field = node.field as TextField | undefined;
+    if (node.exact) {
+      const words = this.analyzeExact(node).terms;
+      return words.length > 0
+        ? this.intersect(words.map((word) => this.postingsToSet(word, field, true)))
+        : null;
+    }
+
+    const expanded = this.expandTerm(node);
+    if (expanded.length === 0) {
+      return null;
+    }
+
+    // A single word can produce several stem groups ("e-mail" → e, mail); all of them must
+    // be present, each through any of its alternatives or the index terms they expand to
+    const sets = expanded.map((matches) =>
+      this.union(matches.map((match) => this.postingsToSet(match.term, field)))
+    );
+    return this.intersect(sets);
+  }
+
+  private evaluatePhrase(node: PhraseNode): Set<string> | null {
+    if (isKeywordField(node.field)) {
+      return this.keywordToSet(node.field, node.text);
+    }
+
+    const phrase = this.analyzePhrase(node);
+    if (phrase.terms.length === 0) {
+      return null;
+    }
+
+    // Candidates must contain every term of a reading; positions are only checked for those
+    const exact = phrase.exact !== undefined;
+    const candidates = this.union(
+      getPhraseReadings(phrase).map((reading) =>
+        this.intersect(reading.terms.map((term) => this.postingsToSet(term, phrase.field, exact)))
+      )
+    );
+    if (phrase.terms.length === 1) {
+      return candidates;
+    }
+
+    const result = new Set<string>();
+    for (const docId of candidates) {
+      if (this.getPhraseMatchLength(phrase, docId) <= phrase.slop) {
+        result.add(docId);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Calculates how closely a document matches a phrase
+   * @param phrase Analyzed phrase
+   * @param docId Document ID
+   * @returns Smallest match length (0 = exact), or Infinity if a term is missing
+   */
+  private getPhraseMatchLength(phrase: AnalyzedPhrase, docId: string): number {
+    return Math.min(
+      ...getPhraseReadings(phrase).map((reading) => {
+        const positions = reading.terms.map((term) => {
+          const posting = phrase.exact
+            ? this.indexer.getExactPosting(term, docId)
+            : this.indexer.getPosting(term, docId);
+          return posting ? getFieldPositions(posting, phrase.field) : [];
+        });
+        return calculatePhraseMatchLength(positions, reading.offsets);
+      })
+    );
+  }
+
+  private evaluateAnd(children: QueryNode[]): Set<string> | null {
+    const included: Set<string>[] = [];
+    const excluded: Set<string>[] = [];
+
+    for (const child of children) {
+      if (child.type === 'not') {
+        const set = this.evaluateNode(child.child);
+        if (set) {
+          excluded.push(set);
+        }
+      } else {
+        const set = this.evaluateNode(child);
+        if (set) {
+          included.push(set);
+        }
+      }
+    }
+
+    if (included.length === 0 && excluded.length === 0) {
+      return null;
+    }
+
+    // Purely negative conjunctions ("-game") exclude from the whole index
+    const base = included.length > 0 ? this.intersect(included) : this.allDocuments();
+    return excluded.length > 0 ? this.difference(base, excluded) : base;
+  }
+
+  private evaluateOr(children: QueryNode[]): Set<string> | null {
+    let result: Set<string> | null = null;
+
+    for (const child of children) {
+      const set = this.evaluateNode(child);
+      if (!set) {
+        continue;
+      }
+
+      if (!result) {
+        result = new Set(set);
+      } else {
+        for (const docId of set) {
+          result.add(docId);
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Intersects sets, iterating the smallest one first
+   */
+  private intersect(sets: Set<string>[]): Set<string> {
+    const [smallest, ...rest] = [...sets].sort((a, b) => a.size - b.size);
+    const result = new Set<string>();
+
+    for (const docId of smallest) {
+      if (rest.every((set) => set.has(docId))) {
+        result.add(docId);
+      }
+    }
+
+    return result;
+  }
+
+  private union(sets: Set<string>[]): Set<string> {
+    const result = new Set<string>();
+
+    for (const set of sets) {
+      for (const docId of set) {
+        result.add(docId);
+      }
+    }
+
+    return result;
+  }
+
+  private difference(base: Set<string>, excluded: Set<string>[]): Set<string> {
+    const result = new Set<string>();
+
+    for (const docId of base) {
+      if (!excluded.some((set) => set.has(docId))) {
+        result.add(docId);
+      }
+    }
+
+    return result;
+  }
+
+  private postingsToSet(term: string, field?: TextField, exact = false): Set<string> {
+    const postings = exact ? this.indexer.getExactPostings(term) : this.indexer.getPostings(term);
+    const inField = field
+      ? postings.filter((posting) => (posting.fieldFrequencies?.[field] ?? 0) > 0)
+      : postings;
+    return new Set(inField.map((posting) => posting.docId));
+  }
+
+  private keywordToSet(field: KeywordField, value: string): Set<string> {
+    return new Set(this.indexer.getDocumentsByKeyword(field, normalizeKeyword(field, value)));
+  }
+
+  private allDocuments(): Set<string> {
+    return new Set(this.indexer.getAllDocumentIds());
+  }
+}
+
+/**
+ * Gets the stems of a phrase in all its readings
+ */
+function getPhraseTerms(phrase: AnalyzedPhrase): string[] {
+  return phrase.alternative ? [...phrase.terms, ...phrase.alternative.terms] : phrase.terms;
+}
+
+/**
+ * Gets the stems, or lowercased words as written, of phrase tokens and their positions
+ * relative to the first one
+ */
+function toPhraseTerms(tokens: Token[], exact = false): PhraseReading {
+  const first = tokens.length > 0 ? tokens[0].position : 0;
+  return {
+    terms: tokens.map((token) => (exact ? token.text.toLowerCase() : token.stem)),
+    offsets: tokens.map((token) => token.position - first),
+  };
+}
+
+/**
+ * Checks whether a clause targets a keyword field rather than a text field
+ */
+function isKeywordField(field: SearchField | undefined): field is KeywordField {
+  return field !== undefined && KEYWORD_FIELDS.includes(field as KeywordField);
+}
@@ -0,0 +1,433 @@
+import {
+  BooleanOperator,
+  MAX_FUZZINESS,
+  NotNode,
+  QueryNode,
+  QueryParseError,
+} from '../models/query';
+import { SearchField } from '../models/document';
+
+/**
+ * Matches a field prefix such as "title:" or "subreddit:" at the start of a word
+ */
+const FIELD_PREFIX = /^(title|body|author|subreddit|type|language):/i;
+
+/**
+ * Matches a fuzzy suffix such as "~1" at the end of a word; a bare "~" means the maximum
+ */
+const FUZZY_SUFFIX = /^(.*[^~])~(\d*)$/;
+
+/**
+ * Configuration for QueryParser
+ */
+export interface QueryParserConfig {
+  defaultOperator?: BooleanOperator; // operator used between clauses with no explicit operator
+}
+
+/**
+ * Lexical token of the query language
+ */
+interface QueryToken {
+  kind: 'word' | 'phrase' | 'field' | 'and' | 'or' | 'not' | 'minus' | 'lparen' | 'rparen';
+  text: string;
+  position: number;
+  slop?: number; // phrase tokens only
+  fuzziness?: number; // word tokens only
+  wildcard?: boolean; // word tokens only
+  exact?: boolean; // word and phrase tokens
+}
+
+/**
+ * QueryParser turns a query string into a query AST
+ *
+ * Grammar (highest precedence last):
+ *   query    := orExpr EOF
+ *   orExpr   := implicit ( "OR" implicit )*
+ *   implicit := andExpr ( andExpr )*        -- joined with the default operator
+ *   andExpr  := unary ( "AND" unary )*
+ *   unary    := ( "NOT" | "-" ) unary | field? primary
+ *   field    := ( "title" | "body" | "author" | "subreddit" | "type" | "language" ) ":"
+ *   primary  := "(" orExpr ")" | ( "=" | "+" )? phrase | "="? word
+ *   phrase   := '"' text '"' ( "~" number )?
+ *   word     := text ( "~" number? )?        -- fuzzy term within the given edit distance
+ *             | pattern                       -- wildcard term; * matches any characters, ? one
+ *
+ * An attached "=" (or "+" before a phrase) matches words as written instead of their
+ * stems: "=testing" does not match "tests", and '+"unit testing"' not "unit tests".
+ *
+ * Operators are only recognized in upper case so that lower case "and", "or" and "not"
+ * are treated as ordinary words. Negated clauses always exclude documents, even when the
+ * default operator is OR, so "rust -game" never matches documents about games.
+ *
+ * A field prefix applies to the word, phrase or group that follows it, so
+ * "subreddit:(rust OR golang)" scopes both words to the subreddit field.
+ */
+export class QueryParser {
+  private config: QueryParserConfig;
+  private tokens: QueryToken[] = [];
+  private current = 0;
+  private queryLength = 0;
+  private currentField?: SearchField;
+
+  constructor(config: QueryParserConfig = {}) {
+    this.config = {
+      defaultOperator: 'OR',
+      ...config,
+    };
+  }
+
+  /**
+   * Parses a query string into an AST
+   * @param query Raw query string
+   * @returns Root node of the query AST
+   * @throws QueryParseError if the query is syntactically invalid
+   */
+  parse(query: string): QueryNode {
+    this.tokens = this.tokenize(query);
+    this.current = 0;
+    this.queryLength = query.length;
+    this.currentField = undefined;
+
+    if (this.tokens.length === 0) {
+      throw new QueryParseError('Query must contain at least one term', 0);
+    }
+
+    const root = this.parseOr();
+
+    const trailing = this.peek();
+    if (trailing) {
+      throw new QueryParseError(`Unexpected "${trailing.text}"`, trailing.position);
+    }
+
+    return root;
+  }
+
+  /**
+   * Splits a query string into lexical tokens
+   * @param query Raw query string
+   * @returns Array of tokens with their character offsets
+   */
+  private tokenize(query: string): QueryToken[] {
+    const tokens: QueryToken[] = [];
+    let i = 0;
+
+    while (i < query.length) {
+      const char = query[i];
+
+      if (/\s/.test(char)) {
+        i++;
+        continue;
+      }
+
+      if (char === '(' || char === ')') {
+        tokens.push({ kind: char === '(' ? 'lparen' : 'rparen', text: char, position: i });
+        i++;
+        continue;
+      }
+
+      // "=word", "=\"phrase\"" and +"phrase" match words as written
+      const exact =
+        (char === '=' && i + 1 < query.length && !/[\s()]/.test(query[i + 1])) ||
+        (char === '+' && query[i + 1] === '"');
+      if (exact) {
+        i++;
+      }
+
+      if (query[i] === '"') {
+        const phrase = this.readPhrase(query, i);
+        tokens.push(exact ? { ...phrase.token, exact } : phrase.token);
+        i = phrase.end;
+        continue;
+      }
+
+      // A leading minus directly attached to a clause negates it ("-game", "-(a OR b)")
+      if (!exact && char === '-' && i + 1 < query.length && !/[\s)]/.test(query[i + 1])) {
+        tokens.push({ kind: 'minus', text: char, position: i });
+        i++;
+        continue;
+      }
+
+      const field = exact ? null : FIELD_PREFIX.exec(query.slice(i));
+      if (field) {
+        tokens.push({ kind: 'field', text: field[1].toLowerCase(), position: i });
+        i += field[0].length;
+        if (i >= query.length || /[\s)]/.test(query[i])) {
+          throw new QueryParseError(`Expected a value after "${field[0]}"`, i);
+        }
+        continue;
+      }
+
+      const start = i;
+      while (i < query.length && !/[\s()"]/.test(query[i])) {
+        i++;
+      }
+      const text = query.slice(start, i);
+
+      if (exact) {
+        tokens.push(this.readExactWord(text, start));
+      } else if (text === 'AND' || text === 'OR' || text === 'NOT') {
+        tokens.push({ kind: text.toLowerCase() as 'and' | 'or' | 'not', text, position: start });
+      } else {
+        tokens.push(this.readWord(text, start));
+      }
+    }
+
+    return tokens;
+  }
+
+  /**
+   * Reads a quoted phrase and its optional slop suffix
+   * @param query Raw query string
+   * @param start Offset of the opening quote
+   * @returns Phrase token and the offset just past it
+   */
+  private readPhrase(query: string, start: number): { token: QueryToken; end: number } {
+    const close = query.indexOf('"', start + 1);
+    if (close === -1) {
+      throw new QueryParseError('Unterminated phrase', start);
+    }
+
+    const text = query.slice(start + 1, close);
+    let end = close + 1;
+    let slop = 0;
+
+    if (query[end] === '~') {
+      const digits = /^\d+/.exec(query.slice(end + 1));
+      if (!digits) {
+        throw new QueryParseError('Expected a number after "~"', end);
+      }
+      slop = parseInt(digits[0], 10);
+      end += 1 + digits[0].length;
+    }
+
+    return { token: { kind: 'phrase', text, position: start, slop }, end };
+  }
+
+  /**
+   * Builds a word token, recognizing wildcard patterns and splitting off a fuzzy suffix
+   * @param text Word text as typed
+   * @param start Offset of the word in the query
+   * @returns Word token
+   */
+  private readWord(text: string, start: number): QueryToken {
+    if (/[*?]/.test(text)) {
+      return { kind: 'word', text, position: start, wildcard: true };
+    }
+
+    const fuzzy = FUZZY_SUFFIX.exec(text);
+    if (!fuzzy) {
+      return { kind: 'word', text, position: start };
+    }
+
+    const fuzziness = fuzzy[2] === '' ? MAX_FUZZINESS : parseInt(fuzzy[2], 10);
+    if (fuzziness > MAX_FUZZINESS) {
+      throw new QueryParseError(
+        `Edit distance must be at most ${MAX_FUZZINESS}`,
+        start + fuzzy[1].length
+      );
+    }
+
+    return { kind: 'word', text: fuzzy[1], position: start, fuzziness };
+  }
+
+  /**
+   * Builds an exact word token
+   * @param text Word text as typed after the "="
+   * @param start Offset of the word in the query
+   * @returns Word token
+   * @throws QueryParseError if the word is a wildcard pattern or fuzzy
+   */
+  private readExactWord(text: string, start: number): QueryToken {
+    const word = this.readWord(text, start);
+    if (word.wildcard || word.fuzziness) {
+      throw new QueryParseError('Exact terms cannot be fuzzy or wildcard patterns', start - 1);
+    }
+    return { ...word, exact: true };
+  }
+
+  private parseOr(): QueryNode {
+    const clauses = [this.parseImplicit()];
+
+    while (this.peek()?.kind === 'or') {
+      const operator = this.advance();
+      this.expectClauseStart(operator);
+      clauses.push(this.parseImplicit());
+    }
+
+    return clauses.length === 1 ? clauses[0] : { type: 'or', children: clauses };
+  }
+
+  private parseImplicit(): QueryNode {
+    this.expectClauseStart();
+    const clauses = [this.parseAnd()];
+
+    while (this.canStartClause(this.peek())) {
+      clauses.push(this.parseAnd());
+    }
+
+    return this.combineImplicit(clauses);
+  }
+
+  private parseAnd(): QueryNode {
+    const clauses = [this.parseUnary()];
+
+    while (this.peek()?.kind === 'and') {
+      const operator = this.advance();
+      this.expectClauseStart(operator);
+      clauses.push(this.parseUnary());
+    }
+
+    return clauses.length === 1 ? clauses[0] : { type: 'and', children: clauses };
+  }
+
+  private parseUnary(): QueryNode {
+    const token = this.peek();
+
+    if (token && (token.kind === 'not' || token.kind === 'minus')) {
+      this.advance();
+      this.expectClauseStart(token);
+      return { type: 'not', child: this.parseUnary() };
+    }
+
+    if (token && token.kind === 'field') {
+      this.advance();
+      const value = this.peek();
+      if (!value || !['word', 'phrase', 'lparen'].includes(value.kind)) {
+        throw new QueryParseError(
+          `Expected a value after "${token.text}:"`,
+          value?.position ?? this.queryLength
+        );
+      }
+
+      const outerField = this.currentField;
+      this.currentField = token.text as SearchField;
+      const node = this.parsePrimary();
+      this.currentField = outerField;
+      return node;
+    }
+
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): QueryNode {
+    const token = this.advance();
+
+    if (token.kind === 'lparen') {
+      if (this.peek()?.kind === 'rparen') {
+        throw new QueryParseError('Empty parentheses', token.position);
+      }
+
+      const inner = this.parseOr();
+
+      if (this.peek()?.kind !== 'rparen') {
+        throw new QueryParseError('Missing closing parenthesis', token.position);
+      }
+      this.advance();
+
+      return inner;
+    }
+
+    const field = this.currentField ? { field: this.currentField } : {};
+
+    const exact = token.exact ? { exact: true } : {};
+
+    if (token.kind === 'phrase') {
+      return {
+        type: 'phrase',
+        text: token.text,
+        slop: token.slop ?? 0,
+        position: token.position,
+        ...field,
+        ...exact,
+      };
+    }
+
+    const fuzziness = token.fuzziness ? { fuzziness: token.fuzziness } : {};
+    const wildcard = token.wildcard ? { wildcard: true } : {};
+    return {
+      type: 'term',
+      text: token.text,
+      position: token.position,
+      ...field,
+      ...fuzziness,
+      ...wildcard,
+      ...exact,
+    };
+  }
+
+  /**
+   * Joins adjacent clauses with the default operator
+   *
+   * Negated clauses are always applied as exclusions on top of the positive clauses.
+   */
+  private combineImplicit(clauses: QueryNode[]): QueryNode {
+    if (clauses.length === 1) {
+      return clauses[0];
+    }
+
+    if (this.config.defaultOperator === 'AND') {
+      return { type: 'and', children: clauses };
+    }
+
+    const negated = clauses.filter((clause): clause is NotNode => clause.type === 'not');
+    const positive = clauses.filter((clause) => clause.type !== 'not');
+
+    if (negated.length === 0) {
+      return { type: 'or', children: positive };
+    }
+
+    const children: QueryNode[] = [];
+    if (positive.length === 1) {
+      children.push(positive[0]);
+    } else if (positive.length > 1) {
+      children.push({ type: 'or', children: positive });
+    }
+
+    return { type: 'and', children: [...children, ...negated] };
+  }
+
+  /**
+   * Ensures the next token can begin a clause, reporting a helpful error otherwise
+   * @param after Operator token that requires a following clause, if any
+   */
+  private expectClauseStart(after?: QueryToken): void {
+    const next = this.peek();
+
+    if (this.canStartClause(next)) {
+      return;
+    }
+
+    if (!next) {
+      if (after) {
+        throw new QueryParseError(`Expected a term after "${after.text}"`, after.position);
+      }
+      throw new QueryParseError('Unexpected end of query', this.queryLength);
+    }
+
+    if (next.kind === 'rparen') {
+      throw new QueryParseError('Unexpected closing parenthesis', next.position);
+    }
+
+    throw new QueryParseError(`Unexpected operator "${next.text}"`, next.position);
+  }
+
+  private canStartClause(token: QueryToken | undefined): boolean {
+    return (
+      token !== undefined &&
+      (token.kind === 'word' ||
+        token.kind === 'phrase' ||
+        token.kind === 'field' ||
+        token.kind === 'not' ||
+        token.kind === 'minus' ||
+        token.kind === 'lparen')
+    );
+  }
+
+  private peek(): QueryToken | undefined {
+    return this.tokens[this.current];
+  }
+
+  private advance(): QueryToken {
+    return this.tokens[this.current++];
+  }
+}
@@ -1,8 +1,36 @@
 import { TextProcessor } from './text-processor';
 import { Indexer } from './indexer';
-import { Ranker, DocumentStore } from './ranker';
-import { Document } from '../models/document';
+import { Ranker, DocumentStore, Explanation, RankOptions, ScoredDocument } from './ranker';
+import { Document, Language } from '../models/document';
 import { QueryCache } from './query-cache';
+import { QueryParser } from './query-parser';
+import { QueryEvaluator } from './query-evaluator';
+import { SpellingCorrector } from './spelling-corrector';
+import { SynonymService } from './synonyms';
+import {
+  FacetAggregator,
+  FacetRequest,
+  FacetResults,
+  TERMS_FACETS,
+  TermsFacetName,
+} from './facets';
+import { SearchFilters } from './search-filters';
+import { Highlighter, HighlightOptions, ResultHighlight } from './highlighter';
+import { MoreLikeThis, WeightedTerm } from './more-like-this';
+import { detectLanguage } from './language';
+import {
+  captureStatistics,
+  decodeCursor,
+  encodeCursor,
+  isAfterCursor,
+  pinnedStatistics,
+  SearchCursor,
+  SearchCursorError,
+  searchFingerprint,
+  SortOrder,
+} from './search-cursor';
+import { BooleanOperator, MAX_FUZZINESS, PhraseNode, QueryNode, TermNode } from '../models/query';
+import { KEYWORD_FIELDS, KeywordField, normalizeKeyword, NumericField } from '../models/document';
 import { logger } from '../utils/logger';
 
 /**
@@ -11,18 +39,39 @@ import { logger } from '../utils/logger';
 export interface QueryConfig {
   defaultPageSize?: number;
   maxPageSize?: number;
-  snippetContextLength?: number; // characters before/after query term
+  snippetContextLength?: number; // characters kept before the first query term of a fragment
+  fragmentSize?: number; // approximate length of highlighted body fragments
+  numberOfFragments?: number; // body fragments returned per result
   enableCache?: boolean; // whether to use caching
+  defaultOperator?: BooleanOperator; // operator between query clauses without an explicit one
+  autoCorrect?: boolean; // run the spelling suggestion instead when a query has no results
+  maxExpansions?: number; // maximum index terms a fuzzy query term expands to
+  maxWildcardExpansions?: number; // wildcard terms matching more index terms are rejected
+  exactTotalCount?: boolean; // count every match; when false, plain term queries estimate the count
 }
 
+export type { SearchFilters } from './search-filters';
+
 /**
- * Search filters for advanced search
+ * Inclusive bounds of a numeric filter
  */
-export interface SearchFilters {
-  subreddit?: string; // Filter by specific subreddit
-  dateFrom?: Date; // Filter documents from this date onwards
-  dateTo?: Date; // Filter documents up to this date
-  sortBy?: 'relevance' | 'date' | 'score'; // Sort order
+interface RangeFilter {
+  field: NumericField;
+  min: number;
+  max: number;
+}
+
+/**
+ * Per-request search options
+ */
+export interface SearchOptions {
+  autoCorrect?: boolean; // overrides QueryConfig.autoCorrect for this request
+  fuzzy?: boolean; // treat every query word as a fuzzy term with an edit distance based on its length
+  facets?: FacetRequest; // facets to count over all matching documents
+  explain?: boolean; // attach a score explanation to every result
+  exactTotalCount?: boolean; // overrides QueryConfig.exactTotalCount for this request
+  cursor?: string; // nextCursor of the previous page; replaces the page number
+  highlight?: HighlightOptions; // overrides the fragment count and size for this request
 }
 
 /**
@@ -32,7 +81,8 @@ export interface SearchResult {
   docId: string;
   title: string;
   url: string;
-  snippet: string;
+  snippet: string; // best body fragment as plain text
+  highlight: ResultHighlight; // query term ranges in the title and the best body fragments
   score: number;
   metadata: {
     author: string;
@@ -40,7 +90,9 @@ export interface SearchResult {
     redditScore: number;
     commentCount: number;
     createdUtc: Date;
+    language: Language;
   };
+  explanation?: Explanation; // how the score was computed, when requested
 }
 
 /**
@@ -49,9 +101,41 @@ export interface SearchResult {
 export interface SearchResults {
   results: SearchResult[];
   totalCount: number;
+  totalCountEstimated?: boolean; // true if totalCount is an estimate rather than an exact count
   page: number;
   pageSize: number;
   queryTimeMs: number;
+  suggestion?: string; // "did you mean" correction of the query
+  autoCorrected?: boolean; // true if the results are for the suggestion instead of the query
+  facets?: FacetResults; // counts of the requested facets over all matching documents
+  nextCursor?: string; // pass as the cursor option to get the following results; absent on the last page
+}
+
+/**
+ * Options for finding documents similar to another one
+ */
+export interface SimilarOptions {
+  limit?: number; // number of similar documents to return (default: defaultPageSize)
+  subreddit?: string; // only return documents from this subreddit
+}
+
+/**
+ * Documents similar to a source document
+ */
+export interface SimilarResults {
+  docId: string; // source document
+  terms: WeightedTerm[]; // term vector the similar documents were ranked by
+  results: SearchResult[]; // most similar first, never including the source document
+}
+
+/**
+ * Score explanation of one document for a query
+ */
+export interface QueryExplanation {
+  query: string;
+  docId: string;
+  matched: boolean; // whether the document matches the query; unmatched documents are never returned
+  explanation: Explanation;
 }
 
 /**
@@ -65,6 +149,13 @@ export class QueryProcessor {
   private ranker: Ranker;
   private documentStore: DocumentStore;
   private cache?: QueryCache;
+  private parser: QueryParser;
+  private evaluator: QueryEvaluator;
+  private facetAggregator: FacetAggregator;
+  private highlighter: Highlighter;
+  private moreLikeThis: MoreLikeThis;
+  private spellingCorrector?: SpellingCorrector;
+  private synonymService?: SynonymService;
 
   constructor(
     config: QueryConfig,
@@ -72,13 +163,22 @@ export class QueryProcessor {
     indexer: Indexer,
     ranker: Ranker,
     documentStore: DocumentStore,
-    cache?: QueryCache
+    cache?: QueryCache,
+    spellingCorrector?: SpellingCorrector,
+    synonymService?: SynonymService
   ) {
     this.config = {
       defaultPageSize: 10,
       maxPageSize: 100,
       snippetContextLength: 50,
+      fragmentSize: 150,
+      numberOfFragments: 3,
       enableCache: true,
+      defaultOperator: 'OR',
+      autoCorrect: false,
+      maxExpansions: 50,
+      maxWildcardExpansions: 500,
+      exactTotalCount: true,
       ...config,
     };
     this.textProcessor = textProcessor;
@@ -86,6 +186,23 @@ export class QueryProcessor {
     this.ranker = ranker;
     this.documentStore = documentStore;
     this.cache = cache;
+    this.spellingCorrector = spellingCorrector;
+    this.synonymService = synonymService;
+    this.parser = new QueryParser({ defaultOperator: this.config.defaultOperator });
+    this.evaluator = new QueryEvaluator(indexer, textProcessor, {
+      maxExpansions: this.config.maxExpansions,
+      maxWildcardExpansions: this.config.maxWildcardExpansions,
+    });
+    this.facetAggregator = new FacetAggregator({}, documentStore);
+    this.highlighter = new Highlighter(
+      {
+        numberOfFragments: this.config.numberOfFragments,
+        fragmentSize: this.config.fragmentSize,
+        contextLength: this.config.snippetContextLength,
+      },
+      textProcessor
+    );
+    this.moreLikeThis = new MoreLikeThis({}, indexer);
   }
 
   /**
@@ -93,19 +210,46 @@ export class QueryProcessor {
    * Requirements 7.1-7.6: Apply text processing, retrieve documents, rank, paginate, generate snippets
    * Requirements 8.1-8.3: Check cache, return cached results, store results with TTL
    * Requirement 18.2: Support search filters (date range, subreddit, sort)
+   * Facets requested in the options are counted over all filtered matches, not just the page
+   * Relevance-sorted results are retrieved top-k: only documents that can reach the
+   * requested page are fully scored. Without exactTotalCount, plain term queries also
+   * skip collecting the matches and estimate totalCount from document frequencies.
+   * Results are ordered by their sort key and then docId. Each page returns a nextCursor
+   * holding the position of its last result, the index generation and statistics and the
+   * time recency was measured at, so following pages continue exactly where the previous
+   * one ended.
+   * Supports boolean syntax: AND, OR, NOT / -term, parentheses, "quoted phrases"~slop, fuzzy~N, wild*card and =exact terms
    * @param query Search query string
    * @param page Page number (1-indexed)
    * @param pageSize Number of results per page
    * @param filters Optional search filters
+   * @param options Optional per-request options
    * @returns Search results with pagination metadata
+   * @throws QueryParseError if the query syntax is invalid
+   * @throws QueryExpansionError if a wildcard term matches too many index terms
+   * @throws SearchCursorError if the cursor is invalid or expired
    */
   processQuery(
     query: string,
     page: number = 1,
     pageSize?: number,
-    filters?: SearchFilters
+    filters?: SearchFilters,
+    options: SearchOptions = {}
   ): SearchResults {
     const startTime = Date.now();
+    const autoCorrect = options.autoCorrect ?? this.config.autoCorrect!;
+    // Per-request options change the results but are not part of the cache key
+    const useCache =
+      this.config.enableCache &&
+      this.cache &&
+      !filters &&
+      !autoCorrect &&
+      !options.fuzzy &&
+      !options.facets &&
+      !options.explain &&
+      options.exactTotalCount === undefined &&
+      options.cursor === undefined &&
+      !options.highlight;
 
     // Validate and normalize pagination parameters
     const normalizedPageSize = Math.min(
@@ -114,11 +258,18 @@ export class QueryProcessor {
     );
     const normalizedPage = Math.max(1, page);
 
+    const sortBy = filters?.sortBy ?? 'relevance';
+    const fingerprint = searchFingerprint(query, filters, options.fuzzy);
+    const cursor =
+      options.cursor !== undefined
+        ? this.checkCursor(options.cursor, sortBy, fingerprint)
+        : undefined;
+
     // Requirement 8.1: Check cache before processing
     // Requirement 18.4: Handle cache unavailability gracefully
-    if (this.config.enableCache && this.cache) {
+    if (useCache) {
       try {
-        const cached = this.cache.get(query, normalizedPage, normalizedPageSize);
+        const cached = this.cache!.get(query, normalizedPage, normalizedPageSize);
         if (cached) {
           // Requirement 8.2: Return cached results immediately
           return cached;
@@ -131,83 +282,141 @@ export class QueryProcessor {
       }
     }
 
-    // Requirement 7.1: Apply same text processing pipeline as documents
-    const processedDoc = this.textProcessor.processDocument({
-      id: 'query',
-      type: 'post',
-      title: '',
-      content: query,
-      url: '',
-      author: '',
-      subreddit: '',
-      redditScore: 0,
-      commentCount: 0,
-      createdUtc: new Date(),
-      collectedAt: new Date(),
-      processed: false,
-    });
-
-    const queryTerms = Array.from(processedDoc.uniqueTerms);
+    // Parse the boolean query language into an AST
+    const userAst = this.parser.parse(query);
+    const expandedAst = this.setLanguage(
+      this.expandSynonyms(options.fuzzy ? this.applyFuzziness(userAst) : userAst),
+      filters?.language ?? detectLanguage(query)
+    );
+    const queryAst = this.addFilterClauses(expandedAst, filters);
 
-    // Requirement 7.2: Retrieve all documents containing at least one query term
-    const matchingDocIds = this.getMatchingDocuments(queryTerms);
+    // Requirement 7.1: Apply same text processing pipeline as documents
+    const queryTerms = this.evaluator.getScoringTerms(queryAst);
+    const queryPhrases = this.evaluator.getScoringPhrases(queryAst);
+    const exactTerms = this.evaluator.getExactTerms(queryAst);
+    const termExpansions = this.evaluator.getTermExpansions(queryAst);
 
-    // Requirement 18.2: Apply filters to matching documents
-    const filteredDocIds = this.applyFilters(matchingDocIds, filters);
+    // Later pages measure recency at the same time as the first and score with its index
+    // statistics, leaving out documents indexed since, so scores do not drift
+    const asOf = cursor?.asOf ?? Date.now();
+    const rankOptions: RankOptions = {
+      phrases: queryPhrases,
+      exactTerms,
+      expansions: termExpansions,
+      now: asOf,
+      ...(cursor?.statistics
+        ? { statistics: pinnedStatistics(cursor.statistics), maxGeneration: cursor.generation }
+        : {}),
+    };
+    const after = cursor ? { score: cursor.sortValue, docId: cursor.docId } : undefined;
+    const exactTotalCount = options.exactTotalCount ?? this.config.exactTotalCount!;
+    // Every document up to the end of the requested page, and one more to know if there is a next page
+    const startIdx = cursor ? 0 : (normalizedPage - 1) * normalizedPageSize;
+    const endIdx = startIdx + normalizedPageSize;
+    const topK = endIdx + 1;
 
-    // Requirement 7.3: Pass to ranker for scoring
-    const scoredDocs = this.ranker.rankDocuments(queryTerms, filteredDocIds);
+    let sortedDocs: Array<{ docId: string; score: number }>;
+    let filteredDocIds: string[] = [];
+    let totalCount: number;
+    let totalCountEstimated = false;
 
-    // Requirement 18.2: Apply sort order if specified
-    const sortedDocs = this.applySorting(scoredDocs, filters?.sortBy);
+    if (!exactTotalCount && !filters && !options.facets && this.isTermDisjunction(queryAst)) {
+      // Any document containing a query term matches, so the postings walk finds them all
+      sortedDocs = this.ranker.rankTopK(queryTerms, topK, { ...rankOptions, after }).documents;
+      totalCount = Math.max(sortedDocs.length, this.estimateMatchCount(queryTerms));
+      totalCountEstimated = true;
+    } else {
+      // Requirement 7.2: Retrieve documents matching the boolean query
+      const matchingDocIds = Array.from(this.evaluator.evaluate(queryAst));
 
-    // Requirement 7.4: Support pagination
-    const totalCount = sortedDocs.length;
-    const startIdx = (normalizedPage - 1) * normalizedPageSize;
-    const endIdx = startIdx + normalizedPageSize;
-    const paginatedDocs = sortedDocs.slice(startIdx, endIdx);
+      // Requirement 18.2: Apply filters to matching documents
+      filteredDocIds = this.applyFilters(matchingDocIds, filters);
 
-    // Requirement 7.5: Include document metadata for each result
-    const results: SearchResult[] = paginatedDocs.map((scoredDoc) => {
-      const doc = this.documentStore.getById(scoredDoc.docId);
-      if (!doc) {
-        throw new Error(`Document ${scoredDoc.docId} not found in store`);
+      // Requirement 7.3: Pass to ranker for scoring
+      // Requirement 18.2: Apply sort order if specified
+      if (sortBy === 'relevance') {
+        sortedDocs = this.ranker.rankTopK(queryTerms, topK, {
+          ...rankOptions,
+          candidates: new Set(filteredDocIds),
+          after,
+        }).documents;
+      } else {
+        const scoredDocs = this.ranker.rankDocuments(queryTerms, filteredDocIds, rankOptions);
+        sortedDocs = this.applySorting(scoredDocs, sortBy).filter(
+          (doc) => !cursor || isAfterCursor(cursor, this.getSortValue(doc, sortBy), doc.docId)
+        );
       }
 
-      // Requirement 7.6: Generate snippets with query terms
-      const snippet = this.generateSnippet(doc, queryTerms);
+      // Requirement 7.4: Support pagination
+      totalCount = filteredDocIds.length;
+    }
 
+    // Suggest a correction for words missing from the index, and run it instead if requested
+    const suggestion = this.spellingCorrector?.suggest(query, userAst);
+    if (suggestion && totalCount === 0 && autoCorrect && !cursor) {
+      const corrected = this.processQuery(suggestion, page, pageSize, filters, {
+        ...options,
+        autoCorrect: false,
+      });
+      // Its cursor belongs to the suggestion, not to the query the client sent
+      delete corrected.nextCursor;
       return {
-        docId: scoredDoc.docId,
-        title: doc.title,
-        url: doc.url,
-        snippet,
-        score: scoredDoc.score,
-        metadata: {
-          author: doc.author,
-          subreddit: doc.subreddit,
-          redditScore: doc.redditScore,
-          commentCount: doc.commentCount,
-          createdUtc: doc.createdUtc,
-        },
+        ...corrected,
+        queryTimeMs: Date.now() - startTime,
+        suggestion,
+        autoCorrected: true,
       };
-    });
+    }
+
+    const facets = options.facets
+      ? this.computeFacets(expandedAst, filteredDocIds, filters, options.facets)
+      : undefined;
+
+    const paginatedDocs = sortedDocs.slice(startIdx, endIdx);
+    const lastDoc = paginatedDocs[paginatedDocs.length - 1];
+    const nextCursor =
+      sortedDocs.length > endIdx
+        ? encodeCursor({
+            sortBy,
+            sortValue: this.getSortValue(lastDoc, sortBy),
+            docId: lastDoc.docId,
+            indexId: cursor?.indexId ?? this.indexer.getIndexId(),
+            generation: cursor?.generation ?? this.indexer.getGeneration(),
+            asOf,
+            fingerprint,
+            ...(sortBy === 'relevance'
+              ? { statistics: cursor?.statistics ?? captureStatistics(this.indexer, queryTerms) }
+              : {}),
+          })
+        : undefined;
+
+    // Requirement 7.5: Include document metadata for each result
+    const results: SearchResult[] = paginatedDocs.map((scoredDoc) => ({
+      ...this.createResult(scoredDoc, queryTerms, options.highlight),
+      ...(options.explain
+        ? { explanation: this.ranker.explainDocument(queryTerms, scoredDoc.docId, rankOptions) }
+        : {}),
+    }));
 
     const queryTimeMs = Date.now() - startTime;
 
     const searchResults: SearchResults = {
       results,
       totalCount,
+      ...(totalCountEstimated ? { totalCountEstimated } : {}),
       page: normalizedPage,
       pageSize: normalizedPageSize,
       queryTimeMs,
+      ...(suggestion ? { suggestion } : {}),
+      ...(facets ? { facets } : {}),
+      ...(nextCursor ? { nextCursor } : {}),
     };
 
     // Requirement 8.3: Store results in cache with TTL
     // Requirement 18.4: Handle cache unavailability gracefully
-    if (this.config.enableCache && this.cache) {
+    if (useCache) {
       try {
-        this.cache.set(query, normalizedPage, normalizedPageSize, searchResults);
+        this.cache!.set(query, normalizedPage, normalizedPageSize, searchResults);
       } catch (error) {
         // Cache unavailable - log and continue
         logger.warn('Failed to store results in cache', {
@@ -219,6 +428,89 @@ export class QueryProcessor {
     return searchResults;
   }
 
+  /**
+   * Finds documents similar to a document ("more like this")
+   * The document's highest TF-IDF terms are run as a query, each boosted by its weight
+   * relative to the best term. Documents sharing any of the terms are ranked like search
+   * results, so recency and popularity count as well; the source document is excluded.
+   * @param docId Source document
+   * @param options Optional result limit and subreddit restriction
+   * @returns Similar documents, or undefined if the source document does not exist
+   */
+  findSimilar(docId: string, options: SimilarOptions = {}): SimilarResults | undefined {
+    if (!this.documentStore.getById(docId)) {
+      return undefined;
+    }
+
+    const limit = Math.min(options.limit ?? this.config.defaultPageSize!, this.config.maxPageSize!);
+    const terms = this.moreLikeThis.buildTermVector(docId);
+    const queryTerms = terms.map(({ term }) => term);
+    const termBoosts = new Map(terms.map(({ term, weight }) => [term, weight / terms[0].weight]));
+
+    const candidates = new Set(this.getMatchingDocuments(queryTerms));
+    candidates.delete(docId);
+    if (options.subreddit !== undefined) {
+      const inSubreddit = new Set(
+        this.indexer.getDocumentsByKeyword(
+          'subreddit',
+          normalizeKeyword('subreddit', options.subreddit)
+        )
+      );
+      for (const candidate of candidates) {
+        if (!inSubreddit.has(candidate)) {
+          candidates.delete(candidate);
+        }
+      }
+    }
+
+    const ranked = this.ranker.rankTopK(queryTerms, limit, { candidates, termBoosts });
+
+    return {
+      docId,
+      terms,
+      results: ranked.documents.map((scoredDoc) => this.createResult(scoredDoc, queryTerms)),
+    };
+  }
+
+  /**
+   * Explains how a document scores for a query
+   * The query is analyzed and expanded exactly as in processQuery; filters do not
+   * affect scores and are not applied, so the query is analyzed in its detected language.
+   * @param query Search query string
+   * @param docId Document to explain
+   * @param options Optional per-request options (fuzzy)
+   * @returns Score explanation, or undefined if the document does not exist
+   * @throws QueryParseError if the query syntax is invalid
+   * @throws QueryExpansionError if a wildcard term matches too many index terms
+   */
+  explain(query: string, docId: string, options: SearchOptions = {}): QueryExplanation | undefined {
+    const userAst = this.parser.parse(query);
+    const queryAst = this.setLanguage(
+      this.expandSynonyms(options.fuzzy ? this.applyFuzziness(userAst) : userAst),
+      detectLanguage(query)
+    );
+
+    const explanation = this.ranker.explainDocument(
+      this.evaluator.getScoringTerms(queryAst),
+      docId,
+      {
+        phrases: this.evaluator.getScoringPhrases(queryAst),
+        exactTerms: this.evaluator.getExactTerms(queryAst),
+        expansions: this.evaluator.getTermExpansions(queryAst),
+      }
+    );
+    if (!explanation) {
+      return undefined;
+    }
+
+    return {
+      query,
+      docId,
+      matched: this.evaluator.evaluate(queryAst).has(docId),
+      explanation,
+    };
+  }
+
   /**
    * Retrieves all documents containing at least one query term
    * Requirement 7.2: Retrieve all documents containing at least one query term from the inverted index
@@ -239,141 +531,508 @@ export class QueryProcessor {
   }
 
   /**
-   * Applies filters to matching documents
-   * Requirement 18.2: Support date range, subreddit filters
-   * @param docIds Array of document IDs to filter
-   * @param filters Optional search filters
-   * @returns Filtered array of document IDs
+   * Decodes a cursor and checks that it can continue this search
+   * Relevance cursors pin the index statistics and generation of the first page, so they
+   * survive ingestion; they only expire when the index is replaced (loaded or cleared).
+   * Date and Reddit score keys do not depend on the index, so those cursors stay valid.
+   * @param value Cursor string from the client
+   * @param sortBy Sort order of the search
+   * @param fingerprint Fingerprint of the search
+   * @returns Decoded cursor
+   * @throws SearchCursorError if the cursor is invalid or expired
    */
-  private applyFilters(docIds: string[], filters?: SearchFilters): string[] {
-    if (!filters) {
-      return docIds;
+  private checkCursor(value: string, sortBy: SortOrder, fingerprint: string): SearchCursor {
+    const cursor = decodeCursor(value);
+    if (cursor.fingerprint !== fingerprint || cursor.sortBy !== sortBy) {
+      throw new SearchCursorError('cursor belongs to a different query or filters');
     }
+    if (sortBy === 'relevance' && !cursor.statistics) {
+      throw new SearchCursorError('cursor is malformed');
+    }
+    if (sortBy === 'relevance' && cursor.indexId !== this.indexer.getIndexId()) {
+      throw new SearchCursorError(
+        'The index was replaced since the first page; search again to get a new cursor',
+        'CURSOR_EXPIRED'
+      );
+    }
+    return cursor;
+  }
 
-    return docIds.filter((docId) => {
-      const doc = this.documentStore.getById(docId);
-      if (!doc) {
-        return false;
-      }
+  /**
+   * Gets the value a result is sorted by, before ties are broken by docId
+   */
+  private getSortValue(doc: { docId: string; score: number }, sortBy: SortOrder): number {
+    switch (sortBy) {
+      case 'relevance':
+        return doc.score;
+      case 'date':
+        return this.getNumericValue(doc.docId, 'createdUtc') ?? -Infinity;
+      case 'score':
+        return this.getNumericValue(doc.docId, 'redditScore') ?? -Infinity;
+    }
+  }
 
-      // Filter by subreddit
-      if (filters.subreddit && doc.subreddit.toLowerCase() !== filters.subreddit.toLowerCase()) {
+  /**
+   * Checks whether a query matches exactly the documents containing one of its scoring terms
+   * True for a term or an OR of terms without field restrictions or exact matching, where
+   * each term analyzes to a single stem group: a word with several groups ("e-mail" → e,
+   * mail) requires all of them.
+   */
+  private isTermDisjunction(node: QueryNode): boolean {
+    switch (node.type) {
+      case 'term':
+        return (
+          node.field === undefined &&
+          !node.exact &&
+          (node.wildcard || this.evaluator.analyzeTerm(node).length === 1)
+        );
+      case 'or':
+        return node.children.every((child) => this.isTermDisjunction(child));
+      default:
         return false;
+    }
+  }
+
+  /**
+   * Estimates how many documents contain at least one of the terms
+   * Treats terms as independent: N * (1 - product over terms of (1 - df / N)).
+   * @param queryTerms Array of query terms
+   * @returns Estimated number of matching documents
+   */
+  private estimateMatchCount(queryTerms: string[]): number {
+    const totalDocs = this.indexer.getTotalDocuments();
+    if (totalDocs === 0) {
+      return 0;
+    }
+
+    let missProbability = 1;
+    for (const term of new Set(queryTerms)) {
+      missProbability *= 1 - this.indexer.getDocumentFrequency(term) / totalDocs;
+    }
+    return Math.round(totalDocs * (1 - missProbability));
+  }
+
+  /**
+   * Makes every term of the query fuzzy for the fuzzy search flag
+   * Terms that already have an explicit edit distance ("rust~1") keep it and wildcard
+   * terms are left alone; others allow
+   * no edits below 3 characters, one edit below 6 and two edits otherwise.
+   * @param node Parsed user query
+   * @returns Query AST with fuzzy terms
+   */
+  private applyFuzziness(node: QueryNode): QueryNode {
+    switch (node.type) {
+      case 'term': {
+        if (node.fuzziness !== undefined || node.wildcard || node.exact) {
+          return node;
+        }
+        const length = node.text.length;
+        const fuzziness = length < 3 ? 0 : length < 6 ? 1 : MAX_FUZZINESS;
+        return fuzziness > 0 ? { ...node, fuzziness } : node;
       }
+      case 'phrase':
+        return node;
+      case 'not':
+        return { ...node, child: this.applyFuzziness(node.child) };
+      case 'and':
+      case 'or':
+        return { ...node, children: node.children.map((child) => this.applyFuzziness(child)) };
+    }
+  }
 
-      // Filter by date range
-      if (filters.dateFrom && doc.createdUtc < filters.dateFrom) {
-        return false;
+  /**
+   * Sets the language every term and phrase of the query is analyzed in
+   * Documents are stemmed in their own language, so a query only matches documents of
+   * other languages through words both languages stem alike.
+   * @param node Query AST
+   * @param language Language of the language filter, or detected from the query text
+   * @returns Query AST with the language set
+   */
+  private setLanguage(node: QueryNode, language: Language): QueryNode {
+    switch (node.type) {
+      case 'term':
+      case 'phrase':
+        return { ...node, language };
+      case 'not':
+        return { ...node, child: this.setLanguage(node.child, language) };
+      case 'and':
+      case 'or':
+        return {
+          ...node,
+          children: node.children.map((child) => this.setLanguage(child, language)),
+        };
+    }
+  }
+
+  /**
+   * Adds synonyms to the query as alternatives of the words and phrases they expand
+   *
+   * Each matching term or phrase becomes an OR of itself and its synonyms; multi-word
+   * synonyms are searched as phrases. Runs of adjacent terms ("machine learning") are
+   * matched against multi-word entries, longest first.
+   * @param node Parsed query
+   * @returns Query AST with synonym alternatives
+   */
+  private expandSynonyms(node: QueryNode): QueryNode {
+    if (!this.synonymService) {
+      return node;
+    }
+
+    switch (node.type) {
+      case 'term':
+      case 'phrase': {
+        if (
+          node.synonym ||
+          node.exact ||
+          (node.type === 'term' && node.wildcard) ||
+          this.isKeywordClause(node)
+        ) {
+          return node;
+        }
+        return this.withSynonyms(node, node.text, node);
       }
+      case 'not':
+        return { ...node, child: this.expandSynonyms(node.child) };
+      case 'and':
+      case 'or': {
+        const maxLength = this.synonymService.getMaxEntryLength();
+        const children: QueryNode[] = [];
 
-      if (filters.dateTo && doc.createdUtc > filters.dateTo) {
-        return false;
+        for (let i = 0; i < node.children.length; i++) {
+          let matched = false;
+
+          for (let length = Math.min(maxLength, node.children.length - i); length > 1; length--) {
+            const run = node.children.slice(i, i + length);
+            if (!this.isPlainTermRun(run)) {
+              continue;
+            }
+
+            const text = run.map((term) => term.text).join(' ');
+            if (this.synonymService.getSynonyms(text).length > 0) {
+              children.push(this.withSynonyms({ type: node.type, children: run }, text, run[0]));
+              i += length - 1;
+              matched = true;
+              break;
+            }
+          }
+
+          if (!matched) {
+            children.push(this.expandSynonyms(node.children[i]));
+          }
+        }
+
+        return { ...node, children };
       }
+    }
+  }
 
-      return true;
+  /**
+   * Combines a clause with the synonyms of its text
+   * @param clause Clause typed by the user
+   * @param text Text to look up
+   * @param source Term or phrase whose field and position the synonyms inherit
+   * @returns The clause, or an OR of the clause and its synonyms
+   */
+  private withSynonyms(clause: QueryNode, text: string, source: TermNode | PhraseNode): QueryNode {
+    const synonyms = this.synonymService!.getSynonyms(text);
+    if (synonyms.length === 0) {
+      return clause;
+    }
+
+    const field = source.field ? { field: source.field } : {};
+    const alternatives: QueryNode[] = synonyms.map((synonym) =>
+      synonym.includes(' ')
+        ? {
+            type: 'phrase',
+            text: synonym,
+            slop: 0,
+            position: source.position,
+            synonym: true,
+            ...field,
+          }
+        : { type: 'term', text: synonym, position: source.position, synonym: true, ...field }
+    );
+
+    return { type: 'or', children: [clause, ...alternatives] };
+  }
+
+  /**
+   * Checks whether clauses are plain terms of the same field that may form a multi-word synonym
+   */
+  private isPlainTermRun(nodes: QueryNode[]): nodes is TermNode[] {
+    return nodes.every(
+      (node) =>
+        node.type === 'term' &&
+        !node.wildcard &&
+        !node.fuzziness &&
+        !node.exact &&
+        !this.isKeywordClause(node) &&
+        node.field === (nodes[0] as TermNode).field
+    );
+  }
+
+  private isKeywordClause(node: TermNode | PhraseNode): boolean {
+    return node.field !== undefined && KEYWORD_FIELDS.includes(node.field as KeywordField);
+  }
+
+  /**
+   * Adds keyword filters to the query as required field-scoped clauses
+   * Requirement 18.2: Support subreddit filter
+   * Included values of a field are alternatives; excluded values become negated clauses,
+   * so keyword filters are answered from the keyword index like "subreddit:rust".
+   * @param queryAst Parsed user query
+   * @param filters Optional search filters
+   * @returns Query AST with the filter clauses applied
+   */
+  private addFilterClauses(queryAst: QueryNode, filters?: SearchFilters): QueryNode {
+    if (!filters) {
+      return queryAst;
+    }
+
+    const keyword = (field: KeywordField, text: string): TermNode => ({
+      type: 'term',
+      text,
+      position: 0,
+      field,
     });
+    const anyOf = (field: KeywordField, values: string[]): QueryNode[] => {
+      if (values.length === 0) return [];
+      if (values.length === 1) return [keyword(field, values[0])];
+      return [{ type: 'or', children: values.map((value) => keyword(field, value)) }];
+    };
+    const noneOf = (field: KeywordField, values: string[] = []): QueryNode[] =>
+      values.map((value) => ({ type: 'not', child: keyword(field, value) }));
+
+    const subreddits = [
+      ...(filters.subreddit ? [filters.subreddit] : []),
+      ...(filters.subreddits ?? []),
+    ];
+    const clauses: QueryNode[] = [
+      ...anyOf('subreddit', subreddits),
+      ...anyOf('author', filters.authors ?? []),
+      ...anyOf('type', filters.type ? [filters.type] : []),
+      ...anyOf('language', filters.language ? [filters.language] : []),
+      ...noneOf('subreddit', filters.excludeSubreddits),
+      ...noneOf('author', filters.excludeAuthors),
+    ];
+
+    return clauses.length > 0 ? { type: 'and', children: [queryAst, ...clauses] } : queryAst;
+  }
+
+  /**
+   * Counts the requested facets over the filtered matches
+   *
+   * A terms facet whose own field is filtered ("subreddits: ['rust']") is counted as if
+   * that filter were not set, so the other values of the field stay visible and can be
+   * added to the selection.
+   * @param queryAst Query without filter clauses
+   * @param docIds Documents matching the query and all filters
+   * @param filters Optional search filters
+   * @param request Facets to compute
+   * @returns Facet counts
+   */
+  private computeFacets(
+    queryAst: QueryNode,
+    docIds: string[],
+    filters: SearchFilters | undefined,
+    request: FacetRequest
+  ): FacetResults {
+    const facets = this.facetAggregator.aggregate(docIds, request);
+    if (!filters) {
+      return facets;
+    }
+
+    for (const name of TERMS_FACETS) {
+      const others = this.withoutIncludeFilter(filters, name);
+      if (!request[name] || !others) {
+        continue;
+      }
+
+      const matching = Array.from(this.evaluator.evaluate(this.addFilterClauses(queryAst, others)));
+      const counts = this.facetAggregator.aggregate(this.applyFilters(matching, others), {
+        [name]: request[name],
+      });
+      facets[name] = counts[name];
+    }
+
+    return facets;
+  }
+
+  /**
+   * Removes the include filter on a keyword field
+   * @returns Filters without it, or undefined if the field has no include filter
+   */
+  private withoutIncludeFilter(
+    filters: SearchFilters,
+    field: TermsFacetName
+  ): SearchFilters | undefined {
+    switch (field) {
+      case 'subreddit':
+        return filters.subreddit || filters.subreddits?.length
+          ? { ...filters, subreddit: undefined, subreddits: undefined }
+          : undefined;
+      case 'author':
+        return filters.authors?.length ? { ...filters, authors: undefined } : undefined;
+      case 'type':
+        return filters.type ? { ...filters, type: undefined } : undefined;
+    }
+  }
+
+  /**
+   * Applies numeric and date range filters to matching documents
+   * Requirement 18.2: Support date range filters
+   * Values are read from the index, so documents are not loaded to be filtered.
+   * @param docIds Array of document IDs to filter
+   * @param filters Optional search filters
+   * @returns Filtered array of document IDs
+   */
+  private applyFilters(docIds: string[], filters?: SearchFilters): string[] {
+    const ranges = this.getRangeFilters(filters);
+    if (ranges.length === 0) {
+      return docIds;
+    }
+
+    return docIds.filter((docId) =>
+      ranges.every((range) => {
+        const value = this.getNumericValue(docId, range.field);
+        return value !== undefined && value >= range.min && value <= range.max;
+      })
+    );
+  }
+
+  /**
+   * Collects the range filters that are set, with open bounds as infinities
+   */
+  private getRangeFilters(filters?: SearchFilters): RangeFilter[] {
+    if (!filters) {
+      return [];
+    }
+
+    const ranges: RangeFilter[] = [
+      {
+        field: 'createdUtc',
+        min: filters.dateFrom?.getTime() ?? -Infinity,
+        max: filters.dateTo?.getTime() ?? Infinity,
+      },
+      {
+        field: 'redditScore',
+        min: filters.minRedditScore ?? -Infinity,
+        max: filters.maxRedditScore ?? Infinity,
+      },
+      {
+        field: 'commentCount',
+        min: filters.minCommentCount ?? -Infinity,
+        max: filters.maxCommentCount ?? Infinity,
+      },
+    ];
+
+    return ranges.filter((range) => range.min > -Infinity || range.max < Infinity);
+  }
+
+  /**
+   * Gets a numeric field of a document from the index
+   * Falls back to the document store for documents indexed before numeric values were stored.
+   */
+  private getNumericValue(docId: string, field: NumericField): number | undefined {
+    const value = this.indexer.getNumericValue(docId, field);
+    if (value !== undefined) {
+      return value;
+    }
+
+    const doc = this.documentStore.getById(docId);
+    if (!doc) {
+      return undefined;
+    }
+    return field === 'createdUtc' ? new Date(doc.createdUtc).getTime() : doc[field];
   }
 
   /**
    * Applies sorting to scored documents
    * Requirement 18.2: Support sort by relevance, date, or score
+   * Ties are broken by docId so that every result has a stable position for cursors.
    * @param scoredDocs Array of scored documents
    * @param sortBy Sort order (default: relevance)
    * @returns Sorted array of scored documents
    */
   private applySorting(
     scoredDocs: Array<{ docId: string; score: number }>,
-    sortBy: 'relevance' | 'date' | 'score' = 'relevance'
+    sortBy: SortOrder = 'relevance'
   ): Array<{ docId: string; score: number }> {
     if (sortBy === 'relevance') {
       // Already sorted by relevance score from ranker
       return scoredDocs;
     }
 
-    if (sortBy === 'date') {
-      // Sort by creation date (newest first)
-      return [...scoredDocs].sort((a, b) => {
-        const docA = this.documentStore.getById(a.docId);
-        const docB = this.documentStore.getById(b.docId);
-        if (!docA || !docB) return 0;
-        return docB.createdUtc.getTime() - docA.createdUtc.getTime();
-      });
-    }
-
-    if (sortBy === 'score') {
-      // Sort by Reddit score (highest first)
-      return [...scoredDocs].sort((a, b) => {
-        const docA = this.documentStore.getById(a.docId);
-        const docB = this.documentStore.getById(b.docId);
-        if (!docA || !docB) return 0;
-        return docB.redditScore - docA.redditScore;
-      });
-    }
-
-    return scoredDocs;
+    // Sort by creation date (newest first) or Reddit score (highest first)
+    return scoredDocs
+      .map((doc) => ({ doc, value: this.getSortValue(doc, sortBy) }))
+      .sort(
+        (a, b) =>
+          b.value - a.value || (a.doc.docId < b.doc.docId ? -1 : a.doc.docId > b.doc.docId ? 1 : 0)
+      )
+      .map(({ doc }) => doc);
   }
 
   /**
    * Generates a snippet for a document containing query terms
    * Requirement 7.6: Extract text fragments containing query terms with surrounding context
    * @param doc Document to generate snippet from
-   * @param queryTerms Array of query terms
-   * @returns Snippet with highlighted query terms
+   * @param queryTerms Array of stemmed query terms
+   * @returns Best matching body fragment as plain text, with ellipses where it is cut off
    */
   generateSnippet(doc: Document, queryTerms: string[]): string {
-    const contextLength = this.config.snippetContextLength!;
-    const text = `${doc.title} ${doc.content}`;
-
-    // Process the document text to get tokens
-    const processedDoc = this.textProcessor.processDocument(doc);
-
-    // Find first occurrence of any query term
-    let bestPosition = -1;
-    let bestTerm = '';
-
-    for (const token of processedDoc.tokens) {
-      if (queryTerms.includes(token.stem)) {
-        bestPosition = token.position;
-        bestTerm = token.text;
-        break;
-      }
-    }
-
-    // If no query term found, return beginning of content
-    if (bestPosition === -1) {
-      const maxLength = contextLength * 2;
-      return text.substring(0, maxLength) + (text.length > maxLength ? '...' : '');
-    }
+    return this.formatSnippet(this.highlighter.highlight(doc, queryTerms));
+  }
 
-    // Find the character position of the token in the original text
-    // This is approximate since we don't store exact character positions
-    const words = text.split(/\s+/);
-    let charPosition = 0;
-    for (let i = 0; i < Math.min(bestPosition, words.length); i++) {
-      charPosition += words[i].length + 1; // +1 for space
+  /**
+   * Builds the search result of a ranked document
+   * Requirement 7.5: Include document metadata for each result
+   * Requirement 7.6: Generate snippets with query terms
+   */
+  private createResult(
+    scoredDoc: ScoredDocument,
+    queryTerms: string[],
+    highlightOptions?: HighlightOptions
+  ): SearchResult {
+    const doc = this.documentStore.getById(scoredDoc.docId);
+    if (!doc) {
+      throw new Error(`Document ${scoredDoc.docId} not found in store`);
     }
 
-    // Extract context around the term
-    const start = Math.max(0, charPosition - contextLength);
-    const end = Math.min(text.length, charPosition + bestTerm.length + contextLength);
+    const highlight = this.highlighter.highlight(doc, queryTerms, highlightOptions);
 
-    let snippet = text.substring(start, end);
-
-    // Add ellipsis if truncated
-    if (start > 0) {
-      snippet = '...' + snippet;
-    }
-    if (end < text.length) {
-      snippet = snippet + '...';
-    }
+    return {
+      docId: scoredDoc.docId,
+      title: doc.title,
+      url: doc.url,
+      snippet: this.formatSnippet(highlight),
+      highlight,
+      score: scoredDoc.score,
+      metadata: {
+        author: doc.author,
+        subreddit: doc.subreddit,
+        redditScore: doc.redditScore,
+        commentCount: doc.commentCount,
+        createdUtc: doc.createdUtc,
+        language: this.textProcessor.getDocumentLanguage(doc),
+      },
+    };
+  }
 
-    // Highlight query terms (simple approach - wrap in markers)
-    for (const term of queryTerms) {
-      // Create a case-insensitive regex to find the term
-      const regex = new RegExp(`\\b${term}\\b`, 'gi');
-      snippet = snippet.replace(regex, (match) => `**${match}**`);
+  /**
+   * Formats the best scoring body fragment as a plain text snippet
+   */
+  private formatSnippet(highlight: ResultHighlight): string {
+    const best = highlight.body.reduce<ResultHighlight['body'][number] | undefined>(
+      (top, fragment) => (!top || fragment.score > top.score ? fragment : top),
+      undefined
+    );
+    if (!best) {
+      return '';
     }
 
-    return snippet.trim();
+    const prefix = best.start > 0 ? '...' : '';
+    const suffix = best.end < highlight.bodyLength ? '...' : '';
+    return `${prefix}${best.text}${suffix}`;
   }
 }
@@ -1,15 +1,21 @@
 import { Indexer } from './indexer';
-import { Document } from '../models/document';
+import { Document, TEXT_FIELDS, TextField } from '../models/document';
+import { calculatePhraseMatchLength, getFieldPositions } from '../models/index';
+import { AnalyzedPhrase, TermExpansion, getPhraseReadings } from '../models/query';
+import { compareRanked, RankedDocument, wandTopK, WandResult, WandScorer, WandTerm } from './wand';
 
 /**
  * Configuration for the Ranker
  */
 export interface RankingConfig {
   // Ranking algorithm to use
-  algorithm?: 'tfidf' | 'bm25';
+  algorithm?: 'tfidf' | 'bm25' | 'bm25f';
   // BM25 parameters
   bm25K1?: number; // term saturation (default: 1.5)
   bm25B?: number; // length normalization (default: 0.75)
+  // BM25F parameters (k1 is shared with BM25)
+  fieldBoosts?: Partial<Record<TextField, number>>; // per-field term frequency weight
+  fieldB?: Partial<Record<TextField, number>>; // per-field length normalization
   // Multi-factor weights
   textWeight?: number; // weight for text relevance score
   recencyWeight?: number; // weight for recency score
@@ -17,6 +23,35 @@ export interface RankingConfig {
   engagementWeight?: number; // weight for engagement score
   // Recency decay
   recencyDecayDays?: number; // decay constant for recency scoring
+  // Phrase proximity
+  proximityBoost?: number; // text relevance multiplier bonus for tight phrase matches
+  // Exact forms
+  exactMatchBoost?: number; // text relevance multiplier bonus for query words found as written
+  // Query expansion
+  fuzzyTermWeight?: number; // weight per edit of a fuzzy expansion relative to an exact match
+  wildcardTermWeight?: number; // weight of a wildcard expansion relative to an exact match
+  synonymTermWeight?: number; // weight of a synonym relative to the word that was typed
+}
+
+/**
+ * Query-specific inputs for ranking beyond the plain query terms
+ */
+export interface RankOptions {
+  phrases?: AnalyzedPhrase[]; // quoted phrases, used for the proximity bonus
+  exactTerms?: string[]; // query words as written (lowercased), used for the exact match bonus
+  expansions?: Map<string, TermExpansion>; // query terms added by expansion, scored lower
+  now?: number; // time recency is measured from, epoch milliseconds (default: current time)
+  statistics?: IndexStatistics; // collection statistics to score with (default: the live index)
+  maxGeneration?: number; // only rank documents indexed at or before this index generation
+  termBoosts?: Map<string, number>; // extra weight per query term, e.g. from a more-like-this term vector
+}
+
+/**
+ * Inputs for top-k ranking
+ */
+export interface TopKOptions extends RankOptions {
+  candidates?: Set<string>; // documents that may be returned; default: any document containing a query term
+  after?: RankedDocument; // only return documents ranked after this one (search_after paging)
 }
 
 /**
@@ -30,9 +65,21 @@ export interface ScoredDocument {
     recency: number;
     popularity: number;
     engagement: number;
+    proximity: number;
+    exactMatch: number;
   };
 }
 
+/**
+ * Explanation of how a score was computed
+ * Each node's value is derived from its details as its description states.
+ */
+export interface Explanation {
+  value: number;
+  description: string;
+  details?: Explanation[];
+}
+
 /**
  * Document store interface for retrieving document metadata
  */
@@ -41,6 +88,17 @@ export interface DocumentStore {
   getByIds(docIds: string[]): Map<string, Document>;
 }
 
+/**
+ * Collection statistics that relevance scores depend on
+ * Implemented by the Indexer; search cursors pin a copy so later pages score like the first.
+ */
+export interface IndexStatistics {
+  getTotalDocuments(): number;
+  getDocumentFrequency(term: string): number;
+  getAverageDocumentLength(): number;
+  getAverageFieldLength(field: TextField): number;
+}
+
 /**
  * Ranker scores and ranks documents based on relevance and other signals
  * Implements requirements 4.1-4.5 (TF-IDF), 5.1-5.4 (BM25), 6.1-6.5 (Multi-factor)
@@ -49,10 +107,12 @@ export class Ranker {
   private config: RankingConfig;
   private indexer: Indexer;
   private documentStore: DocumentStore;
+  private termUpperBounds: Map<string, number>; // unweighted maximum term score, per index generation
+  private boundsGeneration: number;
 
   constructor(config: RankingConfig, indexer: Indexer, documentStore: DocumentStore) {
     this.config = {
-      algorithm: 'bm25',
+      algorithm: 'bm25f',
       bm25K1: 1.5,
       bm25B: 0.75,
       textWeight: 0.7,
@@ -60,10 +120,19 @@ export class Ranker {
       popularityWeight: 0.1,
       engagementWeight: 0.05,
       recencyDecayDays: 7,
+      proximityBoost: 1.0,
+      exactMatchBoost: 0.5,
+      fuzzyTermWeight: 0.5,
+      wildcardTermWeight: 0.8,
+      synonymTermWeight: 0.8,
       ...config,
+      fieldBoosts: { title: 2.5, body: 1.0, ...config.fieldBoosts },
+      fieldB: { title: 0.5, body: 0.75, ...config.fieldB },
     };
     this.indexer = indexer;
     this.documentStore = documentStore;
+    this.termUpperBounds = new Map();
+    this.boundsGeneration = indexer.getGeneration();
   }
 
   /**
@@ -74,8 +143,7 @@ export class Ranker {
    * @returns Term frequency (number of times term appears in document)
    */
   calculateTF(term: string, docId: string): number {
-    const postings = this.indexer.getPostings(term);
-    const posting = postings.find((p) => p.docId === docId);
+    const posting = this.indexer.getPosting(term, docId);
     return posting ? posting.termFrequency : 0;
   }
 
@@ -83,11 +151,12 @@ export class Ranker {
    * Calculates inverse document frequency for a term
    * Requirement 4.2: Compute log(total_documents / documents_containing_term)
    * @param term Query term
+   * @param stats Collection statistics (default: the live index)
    * @returns IDF score
    */
-  calculateIDF(term: string): number {
-    const totalDocs = this.indexer.getTotalDocuments();
-    const docFreq = this.indexer.getDocumentFrequency(term);
+  calculateIDF(term: string, stats: IndexStatistics = this.indexer): number {
+    const totalDocs = stats.getTotalDocuments();
+    const docFreq = stats.getDocumentFrequency(term);
 
     if (docFreq === 0 || totalDocs === 0) {
       return 0;
@@ -101,11 +170,12 @@ export class Ranker {
    * Requirement 4.3: Multiply term frequency by inverse document frequency
    * @param term Query term
    * @param docId Document ID
+   * @param stats Collection statistics (default: the live index)
    * @returns TF-IDF score
    */
-  calculateTFIDF(term: string, docId: string): number {
+  calculateTFIDF(term: string, docId: string, stats: IndexStatistics = this.indexer): number {
     const tf = this.calculateTF(term, docId);
-    const idf = this.calculateIDF(term);
+    const idf = this.calculateIDF(term, stats);
     return tf * idf;
   }
 
@@ -114,11 +184,18 @@ export class Ranker {
    * Requirement 4.4: Sum TF-IDF scores across all query terms
    * @param queryTerms Array of query terms
    * @param docId Document ID
+   * @param termWeights Optional per-term weights (default 1)
+   * @param stats Collection statistics (default: the live index)
    * @returns Total TF-IDF score
    */
-  calculateTotalTFIDF(queryTerms: string[], docId: string): number {
+  calculateTotalTFIDF(
+    queryTerms: string[],
+    docId: string,
+    termWeights?: Map<string, number>,
+    stats: IndexStatistics = this.indexer
+  ): number {
     return queryTerms.reduce((sum, term) => {
-      return sum + this.calculateTFIDF(term, docId);
+      return sum + (termWeights?.get(term) ?? 1) * this.calculateTFIDF(term, docId, stats);
     }, 0);
   }
 
@@ -128,13 +205,20 @@ export class Ranker {
    * Formula: IDF * (tf * (k1 + 1)) / (tf + k1 * (1 - b + b * docLength / avgDocLength))
    * @param queryTerms Array of query terms
    * @param docId Document ID
+   * @param termWeights Optional per-term weights (default 1)
+   * @param stats Collection statistics (default: the live index)
    * @returns BM25 score
    */
-  calculateBM25(queryTerms: string[], docId: string): number {
+  calculateBM25(
+    queryTerms: string[],
+    docId: string,
+    termWeights?: Map<string, number>,
+    stats: IndexStatistics = this.indexer
+  ): number {
     const k1 = this.config.bm25K1!;
     const b = this.config.bm25B!;
     const docLength = this.indexer.getDocumentLength(docId);
-    const avgDocLength = this.indexer.getAverageDocumentLength();
+    const avgDocLength = stats.getAverageDocumentLength();
 
     if (avgDocLength === 0) {
       return 0;
@@ -144,13 +228,65 @@ export class Ranker {
 
     for (const term of queryTerms) {
       const tf = this.calculateTF(term, docId);
-      const idf = this.calculateIDF(term);
+      const idf = this.calculateIDF(term, stats);
 
       // BM25 formula
       const numerator = tf * (k1 + 1);
       const denominator = tf + k1 * (1 - b + b * (docLength / avgDocLength));
 
-      score += idf * (numerator / denominator);
+      score += (termWeights?.get(term) ?? 1) * idf * (numerator / denominator);
+    }
+
+    return score;
+  }
+
+  /**
+   * Calculates BM25F score for a document given query terms
+   * Term frequencies are normalized per field and combined with field boosts before
+   * saturation, so a title match outweighs the same term deep in the body text.
+   * Formula: IDF * tf' * (k1 + 1) / (tf' + k1), where
+   *   tf' = sum over fields of boost_f * tf_f / (1 - b_f + b_f * fieldLength_f / avgFieldLength_f)
+   * @param queryTerms Array of query terms
+   * @param docId Document ID
+   * @param termWeights Optional per-term weights (default 1)
+   * @param stats Collection statistics (default: the live index)
+   * @returns BM25F score
+   */
+  calculateBM25F(
+    queryTerms: string[],
+    docId: string,
+    termWeights?: Map<string, number>,
+    stats: IndexStatistics = this.indexer
+  ): number {
+    const k1 = this.config.bm25K1!;
+    let score = 0;
+
+    for (const term of queryTerms) {
+      const posting = this.indexer.getPosting(term, docId);
+      if (!posting) {
+        continue;
+      }
+
+      // Postings indexed before fields were tracked count entirely as body text
+      const fieldFrequencies = posting.fieldFrequencies ?? { body: posting.termFrequency };
+
+      let weightedTF = 0;
+      for (const field of TEXT_FIELDS) {
+        const tf = fieldFrequencies[field] ?? 0;
+        const avgFieldLength = stats.getAverageFieldLength(field);
+        if (tf === 0 || avgFieldLength === 0) {
+          continue;
+        }
+
+        const boost = this.config.fieldBoosts![field] ?? 1;
+        const b = this.config.fieldB![field] ?? this.config.bm25B!;
+        const fieldLength = this.indexer.getFieldLength(docId, field);
+
+        weightedTF += (boost * tf) / (1 - b + b * (fieldLength / avgFieldLength));
+      }
+
+      const idf = this.calculateIDF(term, stats);
+      score += (termWeights?.get(term) ?? 1) * idf * ((weightedTF * (k1 + 1)) / (weightedTF + k1));
     }
 
     return score;
@@ -160,10 +296,10 @@ export class Ranker {
    * Calculates recency score based on document age
    * Requirement 6.2: Apply exponential decay based on document age
    * @param timestamp Document creation timestamp
+   * @param now Time the age is measured at (default: current time)
    * @returns Recency score (0-1)
    */
-  calculateRecencyScore(timestamp: Date): number {
-    const now = new Date();
+  calculateRecencyScore(timestamp: Date, now: Date = new Date()): number {
     const ageInMs = now.getTime() - timestamp.getTime();
     const ageInDays = ageInMs / (1000 * 60 * 60 * 24);
     const decayConstant = this.config.recencyDecayDays!;
@@ -195,14 +331,333 @@ export class Ranker {
     return Math.log(1 + commentCount);
   }
 
+  /**
+   * Calculates proximity score from phrase matches
+   * Each phrase contributes 1 / (1 + matchLength) when it matches within its slop,
+   * so exact phrases score 1 and scattered matches score progressively less.
+   * @param phrases Analyzed query phrases
+   * @param docId Document ID
+   * @returns Proximity score (0-1), averaged over phrases
+   */
+  calculateProximityScore(phrases: AnalyzedPhrase[], docId: string): number {
+    if (phrases.length === 0) {
+      return 0;
+    }
+
+    let total = 0;
+    for (const phrase of phrases) {
+      const matchLength = Math.min(
+        ...getPhraseReadings(phrase).map((reading) => {
+          const positions = reading.terms.map((term) => {
+            const posting = phrase.exact
+              ? this.indexer.getExactPosting(term, docId)
+              : this.indexer.getPosting(term, docId);
+            return posting ? getFieldPositions(posting, phrase.field) : [];
+          });
+          return calculatePhraseMatchLength(positions, reading.offsets);
+        })
+      );
+
+      if (matchLength <= phrase.slop) {
+        total += 1 / (1 + matchLength);
+      }
+    }
+
+    return total / phrases.length;
+  }
+
+  /**
+   * Calculates how many query words a document contains as written
+   * Stemmed matching treats "testing", "tests" and "tested" alike; this score lets the
+   * form that was typed rank first.
+   * @param exactTerms Lowercased query words, unstemmed
+   * @param docId Document ID
+   * @returns Fraction of the words found unstemmed in the document (0-1)
+   */
+  calculateExactMatchScore(exactTerms: string[], docId: string): number {
+    if (exactTerms.length === 0) {
+      return 0;
+    }
+
+    const found = exactTerms.filter((word) => this.indexer.getExactPosting(word, docId)).length;
+    return found / exactTerms.length;
+  }
+
+  /**
+   * Calculates scoring weights for expanded query terms
+   * A fuzzy expansion at edit distance d is weighted fuzzyTermWeight^d, so closer
+   * matches count more and exact matches (weight 1) always count most. Wildcard and
+   * synonym expansions are weighted wildcardTermWeight and synonymTermWeight.
+   * @param expansions Expanded query terms
+   * @returns Map of term to weight
+   */
+  calculateTermWeights(expansions: Map<string, TermExpansion>): Map<string, number> {
+    const weights = new Map<string, number>();
+    for (const [term, expansion] of expansions) {
+      switch (expansion.kind) {
+        case 'fuzzy':
+          weights.set(term, Math.pow(this.config.fuzzyTermWeight!, expansion.distance));
+          break;
+        case 'wildcard':
+          weights.set(term, this.config.wildcardTermWeight!);
+          break;
+        case 'synonym':
+          weights.set(term, this.config.synonymTermWeight!);
+          break;
+      }
+    }
+    return weights;
+  }
+
+  /**
+   * Combines the expansion weights of query terms with their boosts
+   */
+  private getTermWeights(options: RankOptions): Map<string, number> {
+    const weights = this.calculateTermWeights(options.expansions ?? new Map());
+    for (const [term, boost] of options.termBoosts ?? []) {
+      weights.set(term, (weights.get(term) ?? 1) * boost);
+    }
+    return weights;
+  }
+
+  /**
+   * Explains the score of a document for a query
+   * The root value equals the score rankDocuments assigns to the document: per-term
+   * TF, IDF and length normalization under the text relevance, then the phrase
+   * proximity and exact match bonuses and the recency, popularity and engagement
+   * signals with their weights.
+   * @param queryTerms Array of query terms
+   * @param docId Document ID
+   * @param options Query phrases, exact words and expanded terms, as passed to rankDocuments
+   * @returns Score explanation, or undefined if the document is not in the store
+   */
+  explainDocument(
+    queryTerms: string[],
+    docId: string,
+    options: RankOptions = {}
+  ): Explanation | undefined {
+    const doc = this.documentStore.getById(docId);
+    if (!doc) {
+      return undefined;
+    }
+
+    const termWeights = this.getTermWeights(options);
+    const stats = options.statistics ?? this.indexer;
+    const terms = queryTerms.map((term) => this.explainTerm(term, docId, termWeights, stats));
+    const termSum = terms.reduce((sum, term) => sum + term.value, 0);
+
+    const proximity = this.calculateProximityScore(options.phrases ?? [], docId);
+    const proximityFactor = 1 + this.config.proximityBoost! * proximity;
+    const exactMatch = this.calculateExactMatchScore(options.exactTerms ?? [], docId);
+    const exactMatchFactor = 1 + this.config.exactMatchBoost! * exactMatch;
+    const textRelevance: Explanation = {
+      value: termSum * proximityFactor * exactMatchFactor,
+      description: `text relevance (${this.config.algorithm}), sum of term scores × proximity factor × exact match factor`,
+      details: [
+        { value: termSum, description: 'sum of term scores', details: terms },
+        {
+          value: proximityFactor,
+          description: 'proximity factor, 1 + proximityBoost × proximity',
+          details: [
+            { value: this.config.proximityBoost!, description: 'proximityBoost' },
+            { value: proximity, description: 'proximity of quoted phrases (1 = exact)' },
+          ],
+        },
+        {
+          value: exactMatchFactor,
+          description: 'exact match factor, 1 + exactMatchBoost × exact match',
+          details: [
+            { value: this.config.exactMatchBoost!, description: 'exactMatchBoost' },
+            { value: exactMatch, description: 'fraction of query words found as written' },
+          ],
+        },
+      ],
+    };
+
+    const now = new Date(options.now ?? Date.now());
+    const ageInDays = (now.getTime() - doc.createdUtc.getTime()) / (1000 * 60 * 60 * 24);
+    const signals: Array<[string, number, Explanation]> = [
+      ['textWeight', this.config.textWeight!, textRelevance],
+      [
+        'recencyWeight',
+        this.config.recencyWeight!,
+        {
+          value: this.calculateRecencyScore(doc.createdUtc, now),
+          description: 'recency, exp(-ageInDays / recencyDecayDays)',
+          details: [
+            { value: ageInDays, description: 'ageInDays' },
+            { value: this.config.recencyDecayDays!, description: 'recencyDecayDays' },
+          ],
+        },
+      ],
+      [
+        'popularityWeight',
+        this.config.popularityWeight!,
+        {
+          value: this.calculatePopularityScore(doc.redditScore),
+          description: 'popularity, ln(1 + max(0, redditScore))',
+          details: [{ value: doc.redditScore, description: 'redditScore' }],
+        },
+      ],
+      [
+        'engagementWeight',
+        this.config.engagementWeight!,
+        {
+          value: this.calculateEngagementScore(doc.commentCount),
+          description: 'engagement, ln(1 + commentCount)',
+          details: [{ value: doc.commentCount, description: 'commentCount' }],
+        },
+      ],
+    ];
+
+    const weighted = signals.map(([name, weight, signal]) => ({
+      value: weight * signal.value,
+      description: `${name} × ${signal.description.split(',')[0]}`,
+      details: [{ value: weight, description: name }, signal],
+    }));
+
+    return {
+      value: weighted.reduce((sum, signal) => sum + signal.value, 0),
+      description: 'score, sum of weighted signals',
+      details: weighted,
+    };
+  }
+
+  /**
+   * Explains the text relevance contribution of one query term
+   */
+  private explainTerm(
+    term: string,
+    docId: string,
+    termWeights: Map<string, number>,
+    stats: IndexStatistics
+  ): Explanation {
+    const weight = termWeights.get(term) ?? 1;
+    const totalDocs = stats.getTotalDocuments();
+    const docFreq = stats.getDocumentFrequency(term);
+    const idf: Explanation = {
+      value: this.calculateIDF(term, stats),
+      description: 'idf, ln(totalDocuments / documentFrequency)',
+      details: [
+        { value: totalDocs, description: 'totalDocuments' },
+        { value: docFreq, description: 'documentFrequency' },
+      ],
+    };
+    const termWeight: Explanation = {
+      value: weight,
+      description: weight === 1 ? 'term weight' : 'term weight (expanded term)',
+    };
+    const k1 = this.config.bm25K1!;
+
+    let tf: Explanation;
+    let saturation: Explanation | undefined;
+
+    if (this.config.algorithm === 'bm25f') {
+      const posting = this.indexer.getPosting(term, docId);
+      const fieldFrequencies = posting
+        ? (posting.fieldFrequencies ?? { body: posting.termFrequency })
+        : {};
+      const fields: Explanation[] = [];
+
+      for (const field of TEXT_FIELDS) {
+        const fieldTF = fieldFrequencies[field] ?? 0;
+        const avgFieldLength = stats.getAverageFieldLength(field);
+        if (fieldTF === 0 || avgFieldLength === 0) {
+          continue;
+        }
+
+        const boost = this.config.fieldBoosts![field] ?? 1;
+        const b = this.config.fieldB![field] ?? this.config.bm25B!;
+        const fieldLength = this.indexer.getFieldLength(docId, field);
+        const norm = 1 - b + b * (fieldLength / avgFieldLength);
+
+        fields.push({
+          value: (boost * fieldTF) / norm,
+          description: `${field}: boost × tf / lengthNorm`,
+          details: [
+            { value: boost, description: 'boost' },
+            { value: fieldTF, description: 'tf' },
+            {
+              value: norm,
+              description: 'lengthNorm, 1 - b + b × fieldLength / avgFieldLength',
+              details: [
+                { value: b, description: 'b' },
+                { value: fieldLength, description: 'fieldLength' },
+                { value: avgFieldLength, description: 'avgFieldLength' },
+              ],
+            },
+          ],
+        });
+      }
+
+      tf = {
+        value: fields.reduce((sum, field) => sum + field.value, 0),
+        description: 'weighted tf, sum over fields',
+        details: fields,
+      };
+      saturation = {
+        value: (tf.value * (k1 + 1)) / (tf.value + k1),
+        description: 'tf saturation, tf × (k1 + 1) / (tf + k1)',
+        details: [tf, { value: k1, description: 'k1' }],
+      };
+    } else if (this.config.algorithm === 'bm25') {
+      const b = this.config.bm25B!;
+      const docLength = this.indexer.getDocumentLength(docId);
+      const avgDocLength = stats.getAverageDocumentLength();
+      const norm = 1 - b + b * (docLength / avgDocLength);
+
+      tf = { value: this.calculateTF(term, docId), description: 'tf' };
+      saturation = {
+        value: avgDocLength === 0 ? 0 : (tf.value * (k1 + 1)) / (tf.value + k1 * norm),
+        description: 'tf saturation, tf × (k1 + 1) / (tf + k1 × lengthNorm)',
+        details: [
+          tf,
+          { value: k1, description: 'k1' },
+          {
+            value: norm,
+            description: 'lengthNorm, 1 - b + b × docLength / avgDocLength',
+            details: [
+              { value: b, description: 'b' },
+              { value: docLength, description: 'docLength' },
+              { value: avgDocLength, description: 'avgDocLength' },
+            ],
+          },
+        ],
+      };
+    } else {
+      tf = { value: this.calculateTF(term, docId), description: 'tf' };
+    }
+
+    const factors = [termWeight, idf, saturation ?? tf];
+
+    return {
+      value: tf.value === 0 ? 0 : factors.reduce((product, factor) => product * factor.value, 1),
+      description: saturation
+        ? `term "${term}": weight × idf × tf saturation`
+        : `term "${term}": weight × idf × tf`,
+      details: factors,
+    };
+  }
+
   /**
    * Ranks documents using the configured algorithm and multi-factor scoring
    * Requirements 4.5, 5.4, 6.1, 6.5: Combine scores and sort by relevance
    * @param queryTerms Array of query terms
    * @param docIds Array of document IDs to rank
-   * @returns Array of scored documents sorted by score (descending)
+   * @param options Query phrases used for the proximity bonus, exact words, expanded terms
+   *   and pinned statistics
+   * @returns Array of scored documents sorted by score (descending), ties by docId
    */
-  rankDocuments(queryTerms: string[], docIds: string[]): ScoredDocument[] {
+  rankDocuments(
+    queryTerms: string[],
+    docIds: string[],
+    options: RankOptions = {}
+  ): ScoredDocument[] {
+    const phrases = options.phrases ?? [];
+    const exactTerms = options.exactTerms ?? [];
+    const termWeights = this.getTermWeights(options);
+    const now = new Date(options.now ?? Date.now());
+    const stats = options.statistics ?? this.indexer;
     const scoredDocs: ScoredDocument[] = [];
 
     // Get document metadata for all documents
@@ -210,45 +665,270 @@ export class Ranker {
 
     for (const docId of docIds) {
       const doc = documents.get(docId);
-      if (!doc) {
-        continue; // Skip if document not found
+      if (!doc || !this.isWithinGeneration(docId, options.maxGeneration)) {
+        continue; // Skip if document not found or indexed after the requested generation
       }
+      scoredDocs.push(
+        this.scoreDocument(queryTerms, doc, phrases, exactTerms, termWeights, now, stats)
+      );
+    }
 
-      // Calculate text relevance score
-      let textRelevance: number;
-      if (this.config.algorithm === 'bm25') {
-        textRelevance = this.calculateBM25(queryTerms, docId);
-      } else {
-        textRelevance = this.calculateTotalTFIDF(queryTerms, docId);
+    // Sort by score in descending order (Requirement 4.5, 5.4)
+    scoredDocs.sort(compareRanked);
+
+    return scoredDocs;
+  }
+
+  /**
+   * Finds the k highest scoring documents without scoring every match
+   *
+   * Uses WAND: each query term gets an upper bound on what it can add to a score, and
+   * documents whose terms cannot lift them above the current k-th best score are skipped.
+   * The result is identical to the first k documents of rankDocuments over the candidates.
+   * @param queryTerms Array of query terms
+   * @param k Number of documents to return
+   * @param options Query phrases, expanded terms, the candidate documents and the position to start after
+   * @returns Best k documents sorted by score (descending) and the number of documents scored
+   */
+  rankTopK(queryTerms: string[], k: number, options: TopKOptions = {}): WandResult<ScoredDocument> {
+    const { candidates, after } = options;
+    const phrases = options.phrases ?? [];
+    const exactTerms = options.exactTerms ?? [];
+    const termWeights = this.getTermWeights(options);
+
+    // Upper bounds only hold when no signal can lower a score
+    const weights = [
+      this.config.textWeight!,
+      this.config.recencyWeight!,
+      this.config.popularityWeight!,
+      this.config.engagementWeight!,
+      this.config.proximityBoost!,
+      this.config.exactMatchBoost!,
+      ...termWeights.values(),
+    ];
+    if (weights.some((weight) => weight < 0)) {
+      const docIds = candidates
+        ? Array.from(candidates)
+        : Array.from(
+            new Set(
+              queryTerms.flatMap((term) => this.indexer.getPostings(term).map((p) => p.docId))
+            )
+          );
+      const ranked = this.rankDocuments(queryTerms, docIds, options).filter(
+        (doc) => !after || compareRanked(doc, after) > 0
+      );
+      return { documents: ranked.slice(0, k), scoredCount: ranked.length };
+    }
+
+    const now = options.now ?? Date.now();
+    const stats = options.statistics ?? this.indexer;
+    const scorer: WandScorer<ScoredDocument> = {
+      score: (docId) => {
+        if (candidates && !candidates.has(docId)) {
+          return undefined;
+        }
+        const doc = this.documentStore.getById(docId);
+        if (!doc || !this.isWithinGeneration(docId, options.maxGeneration)) {
+          return undefined;
+        }
+        const scored = this.scoreDocument(
+          queryTerms,
+          doc,
+          phrases,
+          exactTerms,
+          termWeights,
+          new Date(now),
+          stats
+        );
+        return !after || compareRanked(scored, after) > 0 ? scored : undefined;
+      },
+      staticBound: (docId) => this.getStaticScore(docId, now),
+      maxStaticBound: this.getStaticUpperBound(now),
+    };
+
+    const textScale =
+      this.config.textWeight! *
+      (1 + (phrases.length > 0 ? this.config.proximityBoost! : 0)) *
+      (1 + (exactTerms.length > 0 ? this.config.exactMatchBoost! : 0));
+    const terms: WandTerm[] = queryTerms.map((term) => ({
+      postings: this.indexer.getSortedPostings(term),
+      upperBound: textScale * (termWeights.get(term) ?? 1) * this.getTermUpperBound(term, stats),
+    }));
+
+    // Candidates without any query term are never reached by the postings walk
+    const initial: ScoredDocument[] = [];
+    if (candidates) {
+      for (const docId of candidates) {
+        if (queryTerms.every((term) => !this.indexer.getPosting(term, docId))) {
+          const doc = scorer.score(docId);
+          if (doc) {
+            initial.push(doc);
+          }
+        }
       }
+    }
 
-      // Calculate other signals
-      const recency = this.calculateRecencyScore(doc.createdUtc);
-      const popularity = this.calculatePopularityScore(doc.redditScore);
-      const engagement = this.calculateEngagementScore(doc.commentCount);
-
-      // Combine scores with weights (Requirement 6.5)
-      const finalScore =
-        this.config.textWeight! * textRelevance +
-        this.config.recencyWeight! * recency +
-        this.config.popularityWeight! * popularity +
-        this.config.engagementWeight! * engagement;
-
-      scoredDocs.push({
-        docId,
-        score: finalScore,
-        componentScores: {
-          textRelevance,
-          recency,
-          popularity,
-          engagement,
-        },
-      });
+    const result = wandTopK(terms, k, scorer, initial);
+    return { documents: result.documents, scoredCount: result.scoredCount + initial.length };
+  }
+
+  /**
+   * Scores one document with the configured algorithm and multi-factor scoring
+   */
+  private scoreDocument(
+    queryTerms: string[],
+    doc: Document,
+    phrases: AnalyzedPhrase[],
+    exactTerms: string[],
+    termWeights: Map<string, number>,
+    now: Date,
+    stats: IndexStatistics
+  ): ScoredDocument {
+    const docId = doc.id;
+
+    // Calculate text relevance score
+    let textRelevance: number;
+    if (this.config.algorithm === 'bm25f') {
+      textRelevance = this.calculateBM25F(queryTerms, docId, termWeights, stats);
+    } else if (this.config.algorithm === 'bm25') {
+      textRelevance = this.calculateBM25(queryTerms, docId, termWeights, stats);
+    } else {
+      textRelevance = this.calculateTotalTFIDF(queryTerms, docId, termWeights, stats);
     }
 
-    // Sort by score in descending order (Requirement 4.5, 5.4)
-    scoredDocs.sort((a, b) => b.score - a.score);
+    // Tight phrase matches boost text relevance over scattered term matches
+    const proximity = this.calculateProximityScore(phrases, docId);
+    textRelevance *= 1 + this.config.proximityBoost! * proximity;
 
-    return scoredDocs;
+    // Query words found as written rank above other forms of the same stem
+    const exactMatch = this.calculateExactMatchScore(exactTerms, docId);
+    textRelevance *= 1 + this.config.exactMatchBoost! * exactMatch;
+
+    // Calculate other signals
+    const recency = this.calculateRecencyScore(doc.createdUtc, now);
+    const popularity = this.calculatePopularityScore(doc.redditScore);
+    const engagement = this.calculateEngagementScore(doc.commentCount);
+
+    // Combine scores with weights (Requirement 6.5)
+    const finalScore =
+      this.config.textWeight! * textRelevance +
+      this.config.recencyWeight! * recency +
+      this.config.popularityWeight! * popularity +
+      this.config.engagementWeight! * engagement;
+
+    return {
+      docId,
+      score: finalScore,
+      componentScores: {
+        textRelevance,
+        recency,
+        popularity,
+        engagement,
+        proximity,
+        exactMatch,
+      },
+    };
+  }
+
+  /**
+   * Gets the highest text relevance a term alone gives any document, before term weights
+   * Computed once per term and kept until the index changes; bounds under pinned
+   * statistics are computed every time.
+   */
+  private getTermUpperBound(term: string, stats: IndexStatistics): number {
+    if (stats !== this.indexer) {
+      return this.calculateTermUpperBound(term, stats);
+    }
+
+    const generation = this.indexer.getGeneration();
+    if (generation !== this.boundsGeneration) {
+      this.termUpperBounds.clear();
+      this.boundsGeneration = generation;
+    }
+
+    let bound = this.termUpperBounds.get(term);
+    if (bound === undefined) {
+      bound = this.calculateTermUpperBound(term, stats);
+      this.termUpperBounds.set(term, bound);
+    }
+    return bound;
+  }
+
+  /**
+   * Scores every document containing a term by that term alone and keeps the highest score
+   */
+  private calculateTermUpperBound(term: string, stats: IndexStatistics): number {
+    const calculate =
+      this.config.algorithm === 'bm25f'
+        ? (docId: string) => this.calculateBM25F([term], docId, undefined, stats)
+        : this.config.algorithm === 'bm25'
+          ? (docId: string) => this.calculateBM25([term], docId, undefined, stats)
+          : (docId: string) => this.calculateTFIDF(term, docId, stats);
+
+    let bound = 0;
+    for (const posting of this.indexer.getPostings(term)) {
+      bound = Math.max(bound, calculate(posting.docId));
+    }
+    return bound;
+  }
+
+  /**
+   * Checks whether a document was indexed at or before a generation
+   * @param docId Document ID
+   * @param maxGeneration Latest generation to accept, or undefined to accept any document
+   */
+  private isWithinGeneration(docId: string, maxGeneration: number | undefined): boolean {
+    return (
+      maxGeneration === undefined || this.indexer.getDocumentGeneration(docId) <= maxGeneration
+    );
+  }
+
+  /**
+   * Gets the weighted recency, popularity and engagement of a document from the index
+   * Cheaper than scoring the document; used to skip documents that cannot make the top k.
+   * @returns Weighted score as of now, or Infinity if the index has no values for the document
+   */
+  private getStaticScore(docId: string, now: number): number {
+    const createdUtc = this.indexer.getNumericValue(docId, 'createdUtc');
+    const redditScore = this.indexer.getNumericValue(docId, 'redditScore');
+    const commentCount = this.indexer.getNumericValue(docId, 'commentCount');
+    if (createdUtc === undefined || redditScore === undefined || commentCount === undefined) {
+      return Infinity;
+    }
+    return this.weightStaticSignals(createdUtc, redditScore, commentCount, now);
+  }
+
+  /**
+   * Gets the highest weighted recency, popularity and engagement any document can have
+   */
+  private getStaticUpperBound(now: number): number {
+    if (this.indexer.getTotalDocuments() === 0) {
+      return 0;
+    }
+
+    return this.weightStaticSignals(
+      this.indexer.getMaxNumericValue('createdUtc'),
+      this.indexer.getMaxNumericValue('redditScore'),
+      Math.max(0, this.indexer.getMaxNumericValue('commentCount')),
+      now
+    );
+  }
+
+  /**
+   * Combines the term-independent signals with their weights
+   * A time of scoring earlier than the actual one gives an upper bound of the recency.
+   */
+  private weightStaticSignals(
+    createdUtc: number,
+    redditScore: number,
+    commentCount: number,
+    now: number
+  ): number {
+    const ageInDays = (now - createdUtc) / (1000 * 60 * 60 * 24);
+    return (
+      this.config.recencyWeight! * Math.exp(-ageInDays / this.config.recencyDecayDays!) +
+      this.config.popularityWeight! * this.calculatePopularityScore(redditScore) +
+      this.config.engagementWeight! * this.calculateEngagementScore(commentCount)
+    );
   }
 }
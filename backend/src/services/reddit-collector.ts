@@ -2,6 +2,7 @@ import { Document } from '../models/document';
 import { DocumentStore } from './document-store';
 import CircuitBreaker from 'opossum';
 import { logger } from '../utils/logger';
+import { detectLanguage } from './language';
 import axios from 'axios';
 
 /**
@@ -281,6 +282,7 @@ export class RedditCollector {
           createdUtc: new Date(postData.created_utc * 1000),
           collectedAt: new Date(),
           processed: false,
+          language: detectLanguage(`${postData.title} ${postData.selftext || ''}`),
         };
 
         documents.push(doc);
@@ -0,0 +1,328 @@
+import { Indexer } from './indexer';
+import { DocumentStore } from './document-store';
+import { Document } from '../models/document';
+import { TextProcessor } from './text-processor';
+import { SynonymService } from './synonyms';
+import { AnalysisSettings, analysisSettingsEqual, loadAnalysisSettings } from './analysis';
+import { logger } from '../utils/logger';
+
+/**
+ * Configuration for reindexing
+ */
+export interface ReindexConfig {
+  batchSize?: number; // documents processed per turn of the event loop
+  maxBufferDocuments?: number; // buffer size of the index being built
+  indexSynonyms?: boolean; // whether documents are expanded with synonyms at index time
+  analysisPath?: string; // analysis settings file, read again for every reindex
+}
+
+/**
+ * State of the reindex job
+ */
+export type ReindexState = 'idle' | 'building' | 'completed' | 'failed' | 'rolled-back';
+
+/**
+ * Progress and outcome of the last reindex
+ */
+export interface ReindexStatus {
+  state: ReindexState;
+  processed: number; // documents indexed into the new index so far
+  total: number; // documents to index, counted when the job started
+  startedAt?: string;
+  finishedAt?: string;
+  documents?: number; // documents in the new index
+  previousDocuments?: number; // documents in the index it replaced
+  analysisChanged?: boolean; // whether the new index uses other analysis settings
+  error?: string;
+  canRollback: boolean;
+}
+
+/**
+ * Error thrown when a reindex or rollback cannot be started
+ */
+export class ReindexError extends Error {
+  code: string; // API error code: REINDEX_IN_PROGRESS or NOTHING_TO_ROLL_BACK
+
+  constructor(message: string, code: string) {
+    super(message);
+    this.name = 'ReindexError';
+    this.code = code;
+  }
+}
+
+/**
+ * Point an index was built from: documents changed after it are indexed again on catch-up
+ */
+interface IndexBaseline {
+  generation: number; // live index generation when the documents were read
+  documents: Map<string, Document>; // stored documents as they were read
+}
+
+/**
+ * ReindexService rebuilds the index from the document store without interrupting searches
+ *
+ * The live Indexer is the alias everything searches and updates through. A reindex builds a
+ * second index in the background, a batch of documents per turn of the event loop, while
+ * the live one keeps serving. Documents stored or removed meanwhile are caught up, the new
+ * index is validated, and the two indexers exchange their indexes (blue/green): searches see
+ * either the old or the new index, never a mix. The replaced index is kept, so a rollback
+ * swaps it back; it holds memory until the next reindex. Documents re-indexed or updated
+ * while an index is not live are indexed into it again before it is swapped in.
+ *
+ * Documents count as indexed when they are processed or the live index holds them (the
+ * collector marks them processed after indexing them).
+ */
+export class ReindexService {
+  private config: ReindexConfig;
+  private indexer: Indexer;
+  private documentStore: DocumentStore;
+  private textProcessor: TextProcessor;
+  private synonymService?: SynonymService;
+  private status: ReindexStatus;
+  private standby?: { indexer: Indexer; analysis: AnalysisSettings; baseline: IndexBaseline }; // replaced index
+  private running?: Promise<void>;
+
+  constructor(
+    config: ReindexConfig,
+    indexer: Indexer,
+    documentStore: DocumentStore,
+    textProcessor: TextProcessor,
+    synonymService?: SynonymService
+  ) {
+    this.config = {
+      batchSize: 500,
+      maxBufferDocuments: 1000,
+      indexSynonyms: false,
+      ...config,
+    };
+    this.indexer = indexer;
+    this.documentStore = documentStore;
+    this.textProcessor = textProcessor;
+    this.synonymService = synonymService;
+    this.status = { state: 'idle', processed: 0, total: 0, canRollback: false };
+  }
+
+  /**
+   * Starts rebuilding the index in the background
+   * @param analysis Analysis settings for the new index (default: read from the analysis
+   * settings file if one is configured, else the current settings)
+   * @returns Status of the started job
+   * @throws ReindexError if a reindex is already running
+   * @throws AnalysisConfigError if the analysis settings file is invalid
+   */
+  async start(analysis?: AnalysisSettings): Promise<ReindexStatus> {
+    this.assertIdle();
+    let settings = analysis;
+    if (!settings && this.config.analysisPath) {
+      settings = await loadAnalysisSettings(this.config.analysisPath);
+      this.assertIdle();
+    }
+
+    this.status = {
+      state: 'building',
+      processed: 0,
+      total: 0,
+      startedAt: new Date().toISOString(),
+      canRollback: false,
+    };
+    this.running = this.run(settings ?? this.textProcessor.getAnalysisSettings()).finally(() => {
+      this.running = undefined;
+    });
+    return this.getStatus();
+  }
+
+  /**
+   * Waits for the running reindex, if any, to finish
+   */
+  async waitForCompletion(): Promise<void> {
+    await this.running;
+  }
+
+  /**
+   * Gets the progress of the running reindex, or the outcome of the last one
+   */
+  getStatus(): ReindexStatus {
+    return { ...this.status, canRollback: this.standby !== undefined && !this.running };
+  }
+
+  /**
+   * Swaps the index replaced by the last reindex back in
+   * Documents stored or removed since the reindex are caught up first, analyzed with the
+   * settings of that index.
+   * @returns Status after the rollback
+   * @throws ReindexError if a reindex is running or there is no replaced index
+   */
+  rollback(): ReindexStatus {
+    this.assertIdle();
+    if (!this.standby) {
+      throw new ReindexError('There is no previous index to roll back to', 'NOTHING_TO_ROLL_BACK');
+    }
+
+    const { indexer, analysis, baseline } = this.standby;
+    this.catchUp(indexer, this.createProcessor(analysis), baseline);
+    indexer.validate();
+
+    this.indexer.swapIndex(indexer);
+    this.textProcessor.setAnalysisSettings(analysis);
+    this.standby = undefined;
+    this.reloadSynonyms();
+
+    this.status = {
+      ...this.status,
+      state: 'rolled-back',
+      finishedAt: new Date().toISOString(),
+      documents: this.indexer.getTotalDocuments(),
+      previousDocuments: indexer.getTotalDocuments(),
+    };
+    logger.info('Index rolled back', { documents: this.status.documents });
+    return this.getStatus();
+  }
+
+  /**
+   * Throws if a reindex is running
+   */
+  private assertIdle(): void {
+    if (this.running) {
+      throw new ReindexError('A reindex is already running', 'REINDEX_IN_PROGRESS');
+    }
+  }
+
+  /**
+   * Builds, validates and swaps in the new index
+   */
+  private async run(analysis: AnalysisSettings): Promise<void> {
+    try {
+      const target = new Indexer({
+        autoPersist: false,
+        maxBufferDocuments: this.config.maxBufferDocuments,
+      });
+      target.setAnalysisSettings(analysis);
+      const processor = this.createProcessor(analysis);
+
+      const baseline = this.createBaseline();
+      const documents = Array.from(baseline.documents.values()).filter(
+        (doc) => doc.processed || this.indexer.hasDocument(doc.id)
+      );
+      this.status.total = documents.length;
+      logger.info('Reindex started', { documents: documents.length });
+
+      for (let i = 0; i < documents.length; i += this.config.batchSize!) {
+        for (const doc of documents.slice(i, i + this.config.batchSize!)) {
+          // Documents removed since the job started are not indexed
+          if (this.documentStore.exists(doc.id)) {
+            target.indexDocument(processor.processDocument(doc));
+          }
+          this.status.processed++;
+        }
+        await new Promise((resolve) => setImmediate(resolve));
+      }
+
+      // Catching up, validating and swapping run without yielding, so no change is missed
+      const expected = this.catchUp(target, processor, baseline);
+      target.validate();
+      if (target.getTotalDocuments() !== expected) {
+        throw new Error(
+          `The new index holds ${target.getTotalDocuments()} documents but ${expected} were expected`
+        );
+      }
+
+      const previousAnalysis = this.textProcessor.getAnalysisSettings();
+      this.indexer.swapIndex(target);
+      this.textProcessor.setAnalysisSettings(analysis);
+      this.standby = {
+        indexer: target,
+        analysis: previousAnalysis,
+        baseline: this.createBaseline(),
+      };
+
+      const analysisChanged = !analysisSettingsEqual(analysis, previousAnalysis);
+      if (analysisChanged) {
+        this.reloadSynonyms();
+      }
+
+      this.status = {
+        ...this.status,
+        state: 'completed',
+        finishedAt: new Date().toISOString(),
+        documents: this.indexer.getTotalDocuments(),
+        previousDocuments: target.getTotalDocuments(),
+        analysisChanged,
+      };
+      logger.info('Reindex completed', {
+        documents: this.status.documents,
+        previousDocuments: this.status.previousDocuments,
+        analysisChanged,
+      });
+    } catch (error) {
+      // The live index is untouched
+      this.status = {
+        ...this.status,
+        state: 'failed',
+        finishedAt: new Date().toISOString(),
+        error: error instanceof Error ? error.message : String(error),
+      };
+      logger.error('Reindex failed', { error: this.status.error });
+    }
+  }
+
+  /**
+   * Makes an index hold exactly the documents that should be indexed
+   * @param target Indexer to update
+   * @param processor Text processor for documents it lacks or holds outdated
+   * @param baseline Point the index was built from
+   * @returns Number of documents that should be indexed
+   */
+  private catchUp(target: Indexer, processor: TextProcessor, baseline: IndexBaseline): number {
+    const expected = new Set<string>();
+    for (const doc of this.documentStore.getAll()) {
+      if (doc.processed || this.indexer.hasDocument(doc.id)) {
+        expected.add(doc.id);
+        const changed =
+          baseline.documents.get(doc.id) !== doc ||
+          this.indexer.getDocumentGeneration(doc.id) > baseline.generation;
+        if (changed || !target.hasDocument(doc.id)) {
+          target.indexDocument(processor.processDocument(doc));
+        }
+      }
+    }
+
+    for (const docId of target.getAllDocumentIds()) {
+      if (!expected.has(docId)) {
+        target.removeDocument(docId);
+      }
+    }
+    return expected.size;
+  }
+
+  /**
+   * Records the live index generation and the stored documents, to detect later changes
+   */
+  private createBaseline(): IndexBaseline {
+    return {
+      generation: this.indexer.getGeneration(),
+      documents: new Map(this.documentStore.getAll().map((doc) => [doc.id, doc])),
+    };
+  }
+
+  /**
+   * Creates a text processor that processes documents like the live one, with other settings
+   */
+  private createProcessor(analysis: AnalysisSettings): TextProcessor {
+    const processor = new TextProcessor({ analysis });
+    if (this.config.indexSynonyms) {
+      processor.setIndexSynonyms(this.synonymService);
+    }
+    return processor;
+  }
+
+  /**
+   * Reloads the synonyms, whose entries are analyzed with the live settings
+   */
+  private reloadSynonyms(): void {
+    this.synonymService?.load().catch((error) => {
+      logger.warn('Failed to reload synonyms after the index swap', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    });
+  }
+}
@@ -0,0 +1,214 @@
+import { createHash } from 'crypto';
+import { SearchFilters } from './search-filters';
+import { IndexStatistics } from './ranker';
+import { TEXT_FIELDS, TextField } from '../models/document';
+
+/**
+ * Sort orders supported by search
+ */
+export type SortOrder = NonNullable<SearchFilters['sortBy']>;
+
+/**
+ * Position in a result list, decoded from an opaque cursor string
+ *
+ * Results are ordered by a sort key (relevance score, creation time or Reddit score,
+ * descending) and then by docId, so every result has a unique position and the next
+ * page starts strictly after the last result of the previous one.
+ */
+export interface SearchCursor {
+  sortBy: SortOrder;
+  sortValue: number; // sort key of the last returned result
+  docId: string; // docId of the last returned result
+  indexId: string; // identity of the index the first page was ranked against
+  generation: number; // index generation the first page was ranked against
+  asOf: number; // time used for recency scoring, epoch milliseconds
+  fingerprint: string; // identifies the query and filters the cursor belongs to
+  statistics?: CursorStatistics; // relevance cursors: statistics the first page was scored with
+}
+
+/**
+ * Collection statistics pinned by a relevance cursor
+ * Later pages score with these instead of the live index, so documents added or removed
+ * since the first page do not shift the scores of the remaining results.
+ */
+export interface CursorStatistics {
+  totalDocuments: number;
+  averageDocumentLength: number;
+  averageFieldLengths: Record<TextField, number>;
+  documentFrequencies: Record<string, number>; // per query term
+}
+
+/**
+ * Error thrown when a cursor cannot be used
+ */
+export class SearchCursorError extends Error {
+  code: string; // API error code: INVALID_CURSOR or CURSOR_EXPIRED
+
+  constructor(message: string, code: string = 'INVALID_CURSOR') {
+    super(message);
+    this.name = 'SearchCursorError';
+    this.code = code;
+  }
+}
+
+const CURSOR_VERSION = 2;
+
+/**
+ * Encodes a cursor as an opaque URL-safe string
+ * @param cursor Cursor to encode
+ * @returns Cursor string for API clients
+ */
+export function encodeCursor(cursor: SearchCursor): string {
+  const payload = [
+    CURSOR_VERSION,
+    cursor.sortBy,
+    cursor.sortValue,
+    cursor.docId,
+    cursor.indexId,
+    cursor.generation,
+    cursor.asOf,
+    cursor.fingerprint,
+    cursor.statistics ?? null,
+  ];
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+/**
+ * Decodes a cursor string from an API client
+ * @param value Cursor string as received
+ * @returns Decoded cursor
+ * @throws SearchCursorError if the string is not a valid cursor
+ */
+export function decodeCursor(value: string): SearchCursor {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(Buffer.from(value, 'base64url').toString('utf-8'));
+  } catch {
+    throw new SearchCursorError('cursor is malformed');
+  }
+
+  if (!Array.isArray(payload) || payload.length !== 9 || payload[0] !== CURSOR_VERSION) {
+    throw new SearchCursorError('cursor is malformed');
+  }
+
+  const [, sortBy, sortValue, docId, indexId, generation, asOf, fingerprint, statistics] = payload;
+  if (
+    !['relevance', 'date', 'score'].includes(sortBy) ||
+    typeof sortValue !== 'number' ||
+    typeof docId !== 'string' ||
+    typeof indexId !== 'string' ||
+    !Number.isInteger(generation) ||
+    !Number.isFinite(asOf) ||
+    typeof fingerprint !== 'string' ||
+    (statistics !== null && !isCursorStatistics(statistics))
+  ) {
+    throw new SearchCursorError('cursor is malformed');
+  }
+
+  return {
+    sortBy,
+    sortValue,
+    docId,
+    indexId,
+    generation,
+    asOf,
+    fingerprint,
+    ...(statistics ? { statistics } : {}),
+  };
+}
+
+/**
+ * Captures the statistics that scores of a query depend on
+ * @param stats Live index statistics
+ * @param terms Scoring terms of the query
+ * @returns Statistics to store in a relevance cursor
+ */
+export function captureStatistics(stats: IndexStatistics, terms: string[]): CursorStatistics {
+  const averageFieldLengths = {} as Record<TextField, number>;
+  for (const field of TEXT_FIELDS) {
+    averageFieldLengths[field] = stats.getAverageFieldLength(field);
+  }
+
+  const documentFrequencies: Record<string, number> = {};
+  for (const term of terms) {
+    documentFrequencies[term] = stats.getDocumentFrequency(term);
+  }
+
+  return {
+    totalDocuments: stats.getTotalDocuments(),
+    averageDocumentLength: stats.getAverageDocumentLength(),
+    averageFieldLengths,
+    documentFrequencies,
+  };
+}
+
+/**
+ * Serves pinned statistics to the ranker
+ * Terms the cursor did not pin, such as fuzzy expansions to words indexed since the
+ * first page, have a document frequency of 0 and do not contribute to scores.
+ * @param statistics Statistics from a relevance cursor
+ * @returns Index statistics for ranking
+ */
+export function pinnedStatistics(statistics: CursorStatistics): IndexStatistics {
+  return {
+    getTotalDocuments: () => statistics.totalDocuments,
+    getDocumentFrequency: (term) =>
+      Object.prototype.hasOwnProperty.call(statistics.documentFrequencies, term)
+        ? statistics.documentFrequencies[term]
+        : 0,
+    getAverageDocumentLength: () => statistics.averageDocumentLength,
+    getAverageFieldLength: (field) => statistics.averageFieldLengths[field] ?? 0,
+  };
+}
+
+/**
+ * Computes the fingerprint of a search, so a cursor cannot be used with another query
+ * @param query Search query string
+ * @param filters Search filters
+ * @param fuzzy Whether fuzzy search was requested
+ * @returns Short hash of the search
+ */
+export function searchFingerprint(query: string, filters?: SearchFilters, fuzzy?: boolean): string {
+  return createHash('sha256')
+    .update(JSON.stringify([query, filters ?? null, fuzzy ?? false]))
+    .digest('base64url')
+    .slice(0, 16);
+}
+
+/**
+ * Checks the shape of decoded cursor statistics
+ */
+function isCursorStatistics(value: unknown): value is CursorStatistics {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+
+  const { totalDocuments, averageDocumentLength, averageFieldLengths, documentFrequencies } =
+    value as Record<string, unknown>;
+  const isNumberRecord = (record: unknown): boolean =>
+    typeof record === 'object' &&
+    record !== null &&
+    !Array.isArray(record) &&
+    Object.values(record).every((item) => Number.isFinite(item));
+
+  return (
+    Number.isInteger(totalDocuments) &&
+    Number.isFinite(averageDocumentLength) &&
+    isNumberRecord(averageFieldLengths) &&
+    isNumberRecord(documentFrequencies)
+  );
+}
+
+/**
+ * Checks whether a result comes after the cursor position
+ * @param cursor Position of the last returned result
+ * @param sortValue Sort key of the result
+ * @param docId docId of the result
+ * @returns True if the result belongs to a later page
+ */
+export function isAfterCursor(cursor: SearchCursor, sortValue: number, docId: string): boolean {
+  if (sortValue !== cursor.sortValue) {
+    return sortValue < cursor.sortValue;
+  }
+  return docId > cursor.docId;
+}
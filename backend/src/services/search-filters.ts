@@ -0,0 +1,174 @@
+import { Language, LANGUAGES } from '../models/document';
+
+/**
+ * Search filters for advanced search
+ *
+ * Keyword filters are a shorthand for field-scoped clauses: { subreddits: ['rust'] }
+ * behaves exactly like adding "subreddit:rust" to the query. Numeric and date ranges
+ * are inclusive.
+ */
+export interface SearchFilters {
+  subreddit?: string; // Filter by specific subreddit (same as subreddits: [subreddit])
+  subreddits?: string[]; // Only documents from one of these subreddits
+  excludeSubreddits?: string[]; // No documents from these subreddits
+  authors?: string[]; // Only documents by one of these authors
+  excludeAuthors?: string[]; // No documents by these authors
+  type?: 'post' | 'comment'; // Only posts or only comments
+  language?: Language; // Only documents in this language; query text is analyzed in it too
+  minRedditScore?: number;
+  maxRedditScore?: number;
+  minCommentCount?: number;
+  maxCommentCount?: number;
+  dateFrom?: Date; // Filter documents from this date onwards
+  dateTo?: Date; // Filter documents up to this date
+  sortBy?: 'relevance' | 'date' | 'score'; // Sort order
+}
+
+/**
+ * Largest number of values accepted by a single list filter
+ */
+export const MAX_FILTER_VALUES = 50;
+
+const LIST_FILTERS = ['subreddits', 'excludeSubreddits', 'authors', 'excludeAuthors'] as const;
+
+const RANGE_FILTERS = [
+  ['minRedditScore', 'maxRedditScore'],
+  ['minCommentCount', 'maxCommentCount'],
+] as const;
+
+const SORT_ORDERS = ['relevance', 'date', 'score'];
+
+/**
+ * Error thrown when search filters are invalid
+ */
+export class SearchFilterError extends Error {
+  code: string; // API error code
+  field: string; // request field that is invalid, e.g. "filters.dateFrom"
+
+  constructor(message: string, field: string, code: string = 'INVALID_FILTERS') {
+    super(message);
+    this.name = 'SearchFilterError';
+    this.field = field;
+    this.code = code;
+  }
+}
+
+/**
+ * Validates search filters from an API client
+ * Dates may be given as ISO 8601 strings or epoch milliseconds.
+ * @param value Filters as received
+ * @returns Validated filters
+ * @throws SearchFilterError if a filter is invalid
+ */
+export function parseSearchFilters(value: unknown): SearchFilters {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new SearchFilterError('filters must be an object', 'filters');
+  }
+
+  const input = value as Record<string, unknown>;
+  const filters: SearchFilters = {};
+
+  if (input.subreddit !== undefined && input.subreddit !== '') {
+    filters.subreddit = parseKeyword(input.subreddit, 'filters.subreddit');
+  }
+
+  for (const name of LIST_FILTERS) {
+    const list = input[name];
+    if (list === undefined) {
+      continue;
+    }
+    if (!Array.isArray(list) || list.length > MAX_FILTER_VALUES) {
+      throw new SearchFilterError(
+        `${name} must be an array of at most ${MAX_FILTER_VALUES} strings`,
+        `filters.${name}`
+      );
+    }
+    filters[name] = list.map((item, i) => parseKeyword(item, `filters.${name}[${i}]`));
+  }
+
+  if (input.type !== undefined) {
+    if (input.type !== 'post' && input.type !== 'comment') {
+      throw new SearchFilterError('type must be one of: post, comment', 'filters.type');
+    }
+    filters.type = input.type;
+  }
+
+  if (input.language !== undefined && input.language !== '') {
+    if (typeof input.language !== 'string' || !LANGUAGES.includes(input.language as Language)) {
+      throw new SearchFilterError(
+        `language must be one of: ${LANGUAGES.join(', ')}`,
+        'filters.language'
+      );
+    }
+    filters.language = input.language as Language;
+  }
+
+  for (const [minName, maxName] of RANGE_FILTERS) {
+    const min = parseNumber(input[minName], `filters.${minName}`);
+    const max = parseNumber(input[maxName], `filters.${maxName}`);
+    if (min !== undefined && max !== undefined && min > max) {
+      throw new SearchFilterError(
+        `${minName} must not be greater than ${maxName}`,
+        `filters.${minName}`
+      );
+    }
+    filters[minName] = min;
+    filters[maxName] = max;
+  }
+
+  filters.dateFrom = parseDate(input.dateFrom, 'filters.dateFrom');
+  filters.dateTo = parseDate(input.dateTo, 'filters.dateTo');
+  if (filters.dateFrom && filters.dateTo && filters.dateFrom > filters.dateTo) {
+    throw new SearchFilterError('dateFrom must not be after dateTo', 'filters.dateFrom');
+  }
+
+  const sortBy = input.sortBy ?? 'relevance';
+  if (typeof sortBy !== 'string' || !SORT_ORDERS.includes(sortBy)) {
+    throw new SearchFilterError(
+      'Sort must be one of: relevance, date, score',
+      'filters.sortBy',
+      'INVALID_SORT'
+    );
+  }
+  filters.sortBy = sortBy as SearchFilters['sortBy'];
+
+  return filters;
+}
+
+/**
+ * Validates a subreddit or author filter value
+ */
+function parseKeyword(value: unknown, field: string): string {
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw new SearchFilterError(`${field} must be a non-empty string`, field);
+  }
+  return value.trim();
+}
+
+/**
+ * Validates an optional numeric range bound
+ */
+function parseNumber(value: unknown, field: string): number | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new SearchFilterError(`${field} must be a finite number`, field);
+  }
+  return value;
+}
+
+/**
+ * Validates an optional date bound
+ */
+function parseDate(value: unknown, field: string): Date | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+
+  const date = typeof value === 'string' || typeof value === 'number' ? new Date(value) : null;
+  if (!date || isNaN(date.getTime())) {
+    throw new SearchFilterError(`${field} must be an ISO 8601 date or epoch milliseconds`, field);
+  }
+  return date;
+}
@@ -1,4 +1,6 @@
 import { logger } from '../utils/logger';
+import * as fs from 'fs/promises';
+import * as path from 'path';
 
 /**
  * Search history entry
@@ -16,6 +18,7 @@ export interface SearchHistoryEntry {
  */
 export interface SearchHistoryConfig {
   maxEntriesPerUser?: number; // Maximum history entries per user (default: 100)
+  historyPath?: string; // Path to persist history to (default: search-history.json)
 }
 
 /**
@@ -29,6 +32,7 @@ export class SearchHistoryService {
   constructor(config: SearchHistoryConfig = {}) {
     this.config = {
       maxEntriesPerUser: config.maxEntriesPerUser || 100,
+      historyPath: config.historyPath || 'search-history.json',
     };
   }
 
@@ -174,6 +178,41 @@ export class SearchHistoryService {
     };
   }
 
+  /**
+   * Persist all users' history to disk
+   */
+  async persist(): Promise<void> {
+    await fs.mkdir(path.dirname(this.config.historyPath), { recursive: true });
+
+    // Write to temporary file first, then rename for atomic operation
+    const tempPath = `${this.config.historyPath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(Object.fromEntries(this.history)), 'utf-8');
+    await fs.rename(tempPath, this.config.historyPath);
+  }
+
+  /**
+   * Load history from disk, replacing the history in memory
+   */
+  async load(): Promise<void> {
+    try {
+      const data = await fs.readFile(this.config.historyPath, 'utf-8');
+      const history: Record<string, SearchHistoryEntry[]> = JSON.parse(data);
+      this.history = new Map(
+        Object.entries(history).map(([userId, entries]) => [
+          userId,
+          entries.map((entry) => ({ ...entry, timestamp: new Date(entry.timestamp) })),
+        ])
+      );
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        // File doesn't exist, start with empty history
+        this.history = new Map();
+      } else {
+        throw error;
+      }
+    }
+  }
+
   /**
    * Generate a unique ID for history entries
    * @returns Unique identifier
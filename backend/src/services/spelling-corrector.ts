@@ -0,0 +1,207 @@
+import { Indexer } from './indexer';
+import { TextProcessor } from './text-processor';
+import { AnalyticsService } from './analytics';
+import { editDistance } from '../utils/edit-distance';
+import { KEYWORD_FIELDS, KeywordField } from '../models/document';
+import { QueryNode, collectPositiveClauses } from '../models/query';
+
+/**
+ * Configuration for SpellingCorrector
+ */
+export interface SpellingCorrectorConfig {
+  maxEditDistance?: number; // maximum edits for words longer than shortWordLength
+  shortWordLength?: number; // words up to this length allow a single edit only
+  minWordLength?: number; // shorter words are never corrected
+  queryLogWeight?: number; // weight of one successful logged search relative to one document
+}
+
+/**
+ * A word of the query string that should be replaced
+ */
+interface Correction {
+  start: number; // character offset in the query string
+  end: number;
+  replacement: string;
+}
+
+/**
+ * SpellingCorrector proposes "did you mean" corrections for misspelled query words
+ *
+ * Candidates come from the indexed vocabulary, weighted by document frequency, and from
+ * words of past queries that returned results (AnalyticsService query logs), weighted by
+ * how often they were searched. A query word is only corrected when the index does not
+ * contain it. The closest candidate wins; ties go to the more frequent one.
+ *
+ * Index terms are stems, so a correction may be the stemmed form of a word ("programing"
+ * → "program") unless a successful query supplied the full word.
+ */
+export class SpellingCorrector {
+  private config: SpellingCorrectorConfig;
+  private indexer: Indexer;
+  private textProcessor: TextProcessor;
+  private analyticsService?: AnalyticsService;
+
+  constructor(
+    config: SpellingCorrectorConfig,
+    indexer: Indexer,
+    textProcessor: TextProcessor,
+    analyticsService?: AnalyticsService
+  ) {
+    this.config = {
+      maxEditDistance: 2,
+      shortWordLength: 4,
+      minWordLength: 3,
+      queryLogWeight: 1,
+      ...config,
+    };
+    this.indexer = indexer;
+    this.textProcessor = textProcessor;
+    this.analyticsService = analyticsService;
+  }
+
+  /**
+   * Suggests a corrected version of a query
+   * Words inside phrases are corrected in place; operators, field prefixes and negated
+   * clauses are left untouched.
+   * @param query Raw query string
+   * @param queryAst Parsed query
+   * @returns Corrected query string, or undefined if no word needs correcting
+   */
+  suggest(query: string, queryAst: QueryNode): string | undefined {
+    const words: Array<{ text: string; start: number }> = [];
+
+    for (const clause of collectPositiveClauses(queryAst)) {
+      if (clause.field && KEYWORD_FIELDS.includes(clause.field as KeywordField)) {
+        continue;
+      }
+
+      if (clause.type === 'term') {
+        words.push({ text: clause.text, start: clause.position });
+      } else {
+        // Skip the opening quote
+        for (const match of clause.text.matchAll(/\S+/g)) {
+          words.push({ text: match[0], start: clause.position + 1 + match.index! });
+        }
+      }
+    }
+
+    const misspelled = words.filter((word) => this.isMisspelled(word.text));
+    if (misspelled.length === 0) {
+      return undefined;
+    }
+
+    const vocabulary = this.buildVocabulary();
+    const corrections: Correction[] = [];
+
+    for (const word of misspelled) {
+      const replacement = this.correctWord(word.text, vocabulary);
+      if (replacement) {
+        corrections.push({ start: word.start, end: word.start + word.text.length, replacement });
+      }
+    }
+
+    if (corrections.length === 0) {
+      return undefined;
+    }
+
+    // Apply from the end so earlier offsets stay valid
+    let suggestion = query;
+    for (const correction of corrections.sort((a, b) => b.start - a.start)) {
+      suggestion =
+        suggestion.slice(0, correction.start) +
+        correction.replacement +
+        suggestion.slice(correction.end);
+    }
+
+    return suggestion;
+  }
+
+  /**
+   * Finds the best correction for a single word
+   * @param word Misspelled word
+   * @param vocabulary Candidate words with their weights
+   * @returns Closest candidate, or undefined if none is within the edit distance limit
+   */
+  correctWord(word: string, vocabulary: Map<string, number>): string | undefined {
+    const normalized = word.toLowerCase();
+    const maxDistance =
+      normalized.length <= this.config.shortWordLength! ? 1 : this.config.maxEditDistance!;
+    // Index terms are stems, so also compare the stemmed word ("memroy" → "memroi" ~ "memori")
+    const stem = this.textProcessor.analyze(word)[0]?.stem ?? normalized;
+
+    let best: string | undefined;
+    let bestDistance = Infinity;
+    let bestWeight = 0;
+
+    for (const [candidate, weight] of vocabulary) {
+      const distance = Math.min(
+        editDistance(normalized, candidate, maxDistance),
+        editDistance(stem, candidate, maxDistance)
+      );
+      if (distance === 0 || distance > maxDistance) {
+        continue;
+      }
+
+      if (distance < bestDistance || (distance === bestDistance && weight > bestWeight)) {
+        best = candidate;
+        bestDistance = distance;
+        bestWeight = weight;
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Checks whether a query word is a correctable word missing from the index
+   * Stopwords and words with digits or symbols are never corrected.
+   */
+  private isMisspelled(word: string): boolean {
+    if (word.length < this.config.minWordLength! || !/^[a-z]+$/i.test(word)) {
+      return false;
+    }
+
+    return this.textProcessor.analyze(word).length > 0 && !this.isIndexed(word);
+  }
+
+  /**
+   * Checks whether every stem of a word occurs in the index
+   */
+  private isIndexed(word: string): boolean {
+    const tokens = this.textProcessor.analyze(word);
+    return (
+      tokens.length > 0 &&
+      tokens.every((token) => this.indexer.getDocumentFrequency(token.stem) > 0)
+    );
+  }
+
+  /**
+   * Collects candidate words with their weights from the index and the query logs
+   * @returns Map of candidate word to weight
+   */
+  private buildVocabulary(): Map<string, number> {
+    const vocabulary = new Map<string, number>();
+
+    for (const term of this.indexer.getAllTerms()) {
+      if (/^[a-z]+$/.test(term)) {
+        vocabulary.set(term, this.indexer.getDocumentFrequency(term));
+      }
+    }
+
+    if (!this.analyticsService) {
+      return vocabulary;
+    }
+
+    for (const [query, count] of this.analyticsService.getSuccessfulQueryCounts()) {
+      for (const word of query.toLowerCase().split(/\s+/)) {
+        // Only propose logged words that would actually match something
+        if (!/^[a-z]+$/.test(word) || !this.isIndexed(word)) {
+          continue;
+        }
+        vocabulary.set(word, (vocabulary.get(word) ?? 0) + count * this.config.queryLogWeight!);
+      }
+    }
+
+    return vocabulary;
+  }
+}
@@ -0,0 +1,230 @@
+import * as fs from 'fs/promises';
+import { TextProcessor } from './text-processor';
+import { toWords } from './analysis';
+import { Token } from '../models/document';
+
+/**
+ * Configuration for SynonymService
+ */
+export interface SynonymConfig {
+  synonymsPath?: string; // path of the synonym file
+}
+
+/**
+ * Error thrown when a synonym file contains an invalid rule
+ */
+export class SynonymParseError extends Error {
+  line: number; // 1-based line number of the invalid rule
+
+  constructor(message: string, line: number) {
+    super(message);
+    this.name = 'SynonymParseError';
+    this.line = line;
+  }
+}
+
+/**
+ * SynonymService loads synonym rules and looks up synonyms of words and phrases
+ *
+ * The synonym file has one rule per line; blank lines and lines starting with # are ignored:
+ *   js, javascript           -- equivalent: each entry expands to all the others
+ *   k8s => kubernetes        -- one-way: searching "k8s" also finds "kubernetes", not vice versa
+ *   ml, machine learning     -- multi-word entries are matched and searched as phrases
+ *
+ * Entries are looked up by their analyzed form, so "JS" and "js" or "Kubernetes" and
+ * "kubernetes" are the same entry. Loading replaces all rules at once, so the synonyms
+ * can be reloaded while the server is running.
+ */
+export class SynonymService {
+  private config: SynonymConfig;
+  private textProcessor: TextProcessor;
+  private synonyms: Map<string, string[]>; // analyzed entry → synonym texts
+  private maxEntryLength: number; // number of terms in the longest entry
+  private ruleCount: number;
+
+  constructor(config: SynonymConfig, textProcessor: TextProcessor) {
+    this.config = {
+      synonymsPath: 'config/synonyms.txt',
+      ...config,
+    };
+    this.textProcessor = textProcessor;
+    this.synonyms = new Map();
+    this.maxEntryLength = 0;
+    this.ruleCount = 0;
+  }
+
+  /**
+   * Loads the synonym file, replacing the current rules
+   * A missing file leaves no synonyms; an invalid file keeps the current rules.
+   * @returns Number of rules loaded
+   * @throws SynonymParseError if a rule is invalid
+   */
+  async load(): Promise<number> {
+    let text = '';
+    try {
+      text = await fs.readFile(this.config.synonymsPath!, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+
+    return this.loadRules(text);
+  }
+
+  /**
+   * Parses synonym rules and replaces the current rules with them
+   * @param text Synonym rules in the synonym file format
+   * @returns Number of rules loaded
+   * @throws SynonymParseError if a rule is invalid
+   */
+  loadRules(text: string): number {
+    const synonyms = new Map<string, string[]>();
+    let ruleCount = 0;
+
+    text.split(/\r?\n/).forEach((rawLine, index) => {
+      const line = rawLine.trim();
+      if (line === '' || line.startsWith('#')) {
+        return;
+      }
+
+      const sides = line.split('=>');
+      if (sides.length > 2) {
+        throw new SynonymParseError(`Line ${index + 1}: only one "=>" is allowed`, index + 1);
+      }
+
+      const inputs = this.parseEntries(sides[0]);
+      const outputs = sides.length === 2 ? this.parseEntries(sides[1]) : inputs;
+      if (
+        inputs.length === 0 ||
+        outputs.length === 0 ||
+        (sides.length === 1 && inputs.length < 2)
+      ) {
+        throw new SynonymParseError(
+          `Line ${index + 1}: expected "a, b" or "a => b" but found "${line}"`,
+          index + 1
+        );
+      }
+
+      for (const input of inputs) {
+        const key = this.getKey(input);
+        if (key === '') {
+          continue; // only stopwords
+        }
+
+        const existing = synonyms.get(key) ?? [];
+        for (const output of outputs) {
+          if (this.getKey(output) !== key && !existing.includes(output)) {
+            existing.push(output);
+          }
+        }
+        synonyms.set(key, existing);
+      }
+
+      ruleCount++;
+    });
+
+    this.synonyms = synonyms;
+    this.ruleCount = ruleCount;
+    this.maxEntryLength = Math.max(
+      0,
+      ...Array.from(synonyms.keys(), (key) => key.split(' ').length)
+    );
+    return ruleCount;
+  }
+
+  /**
+   * Gets the synonyms of a word or phrase
+   * @param text Word or phrase as typed
+   * @returns Synonym texts (empty if there are none)
+   */
+  getSynonyms(text: string): string[] {
+    const key = this.getKey(text);
+    return key === '' ? [] : (this.synonyms.get(key) ?? []);
+  }
+
+  /**
+   * Gets the number of terms in the longest synonym entry
+   * Used to bound the search for multi-word entries in a query
+   */
+  getMaxEntryLength(): number {
+    return this.maxEntryLength;
+  }
+
+  /**
+   * Gets the number of loaded rules
+   */
+  getRuleCount(): number {
+    return this.ruleCount;
+  }
+
+  /**
+   * Adds synonym tokens to an analyzed token stream for index-time expansion
+   *
+   * Synonyms are added at the position of the entry they replace, so phrase queries
+   * match either form ("machine learning" is also indexed where "ml" occurs).
+   * @param tokens Analyzed tokens of one field
+   * @returns Tokens with synonym tokens inserted after the entries they expand
+   */
+  expandTokens(tokens: Token[]): Token[] {
+    if (this.synonyms.size === 0) {
+      return tokens;
+    }
+
+    // Entries are matched against the words; parts of compounds are not words of their own
+    const words = toWords(tokens);
+    const wordIndexes = new Map(words.map((word, i) => [word, i]));
+    const expanded: Token[] = [];
+
+    for (const token of tokens) {
+      expanded.push(token);
+      const i = wordIndexes.get(token);
+      if (i === undefined) {
+        continue;
+      }
+
+      // Every entry starting at this word, longest first
+      for (let length = Math.min(this.maxEntryLength, words.length - i); length > 0; length--) {
+        const key = words
+          .slice(i, i + length)
+          .map((word) => word.stem)
+          .join(' ');
+
+        for (const synonym of this.synonyms.get(key) ?? []) {
+          const synonymTokens = this.textProcessor.analyze(synonym);
+          const first = synonymTokens.length > 0 ? synonymTokens[0].position : 0;
+
+          for (const synonymToken of synonymTokens) {
+            expanded.push({
+              ...synonymToken,
+              position: words[i].position + synonymToken.position - first,
+              offset: words[i].offset,
+              synonym: true,
+            });
+          }
+        }
+      }
+    }
+
+    return expanded;
+  }
+
+  /**
+   * Splits one side of a rule into its comma-separated entries
+   */
+  private parseEntries(side: string): string[] {
+    return side
+      .split(',')
+      .map((entry) => entry.trim().replace(/\s+/g, ' '))
+      .filter((entry) => entry !== '');
+  }
+
+  /**
+   * Gets the lookup key of a word or phrase: its stems separated by spaces
+   */
+  private getKey(text: string): string {
+    return toWords(this.textProcessor.analyze(text))
+      .map((token) => token.stem)
+      .join(' ');
+  }
+}
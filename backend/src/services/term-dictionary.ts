@@ -0,0 +1,213 @@
+import { AutomatonState, LevenshteinAutomaton } from '../utils/edit-distance';
+
+/**
+ * Index term matched by an expanding query clause
+ */
+export interface TermMatch {
+  term: string;
+  distance: number; // edit distance from the query term (0 = exact)
+}
+
+/**
+ * TermDictionary keeps the indexed terms in sorted order for expanding query terms
+ *
+ * Sorting lets terms that share a prefix be visited together, so a whole range of terms
+ * can be skipped as soon as their common prefix rules them out, and prefix and wildcard
+ * patterns only scan the range of terms starting with their literal prefix.
+ */
+export class TermDictionary {
+  private terms: string[];
+
+  constructor(terms: Iterable<string>) {
+    this.terms = Array.from(terms).sort();
+  }
+
+  /**
+   * Gets the number of terms in the dictionary
+   */
+  get size(): number {
+    return this.terms.length;
+  }
+
+  /**
+   * Checks whether a term is in the dictionary
+   * @param term Term to look up
+   * @returns True if the term is indexed
+   */
+  has(term: string): boolean {
+    const index = this.lowerBound(term);
+    return this.terms[index] === term;
+  }
+
+  /**
+   * Finds all terms starting with a prefix
+   * @param prefix Term prefix
+   * @param limit Stop after this many matches
+   * @returns Matching terms in dictionary order
+   */
+  prefixMatches(prefix: string, limit: number = Infinity): string[] {
+    const matches: string[] = [];
+
+    for (let i = this.lowerBound(prefix); i < this.terms.length; i++) {
+      if (!this.terms[i].startsWith(prefix) || matches.length >= limit) {
+        break;
+      }
+      matches.push(this.terms[i]);
+    }
+
+    return matches;
+  }
+
+  /**
+   * Finds all terms matching a wildcard pattern
+   * In the pattern, * matches any number of characters and ? matches exactly one.
+   * @param pattern Wildcard pattern such as "react*" or "type?cript"
+   * @param limit Stop after this many matches
+   * @returns Matching terms in dictionary order
+   */
+  wildcardMatches(pattern: string, limit: number = Infinity): string[] {
+    const literalEnd = pattern.search(/[*?]/);
+    if (literalEnd === -1) {
+      return this.has(pattern) ? [pattern] : [];
+    }
+
+    const prefix = pattern.slice(0, literalEnd);
+    if (pattern === `${prefix}*`) {
+      return this.prefixMatches(prefix, limit);
+    }
+
+    const regex = wildcardToRegExp(pattern);
+    const matches: string[] = [];
+
+    for (let i = this.lowerBound(prefix); i < this.terms.length; i++) {
+      const term = this.terms[i];
+      if (!term.startsWith(prefix) || matches.length >= limit) {
+        break;
+      }
+      if (regex.test(term)) {
+        matches.push(term);
+      }
+    }
+
+    return matches;
+  }
+
+  /**
+   * Finds all terms within an edit distance of a term
+   *
+   * Runs a Levenshtein automaton over the sorted terms. The automaton states for the
+   * prefix shared with the previous term are reused, and when a prefix can no longer
+   * match every term starting with it is skipped.
+   * @param term Query term
+   * @param maxEdits Maximum edit distance
+   * @returns Matching terms with their edit distance, in dictionary order
+   */
+  fuzzyMatches(term: string, maxEdits: number): TermMatch[] {
+    const automaton = new LevenshteinAutomaton(term, maxEdits);
+    const matches: TermMatch[] = [];
+
+    // states[k] is the automaton state after reading the first k characters of previous
+    const states: AutomatonState[] = [automaton.start()];
+    let previous = '';
+    let i = 0;
+
+    while (i < this.terms.length) {
+      const candidate = this.terms[i];
+      const shared = commonPrefixLength(previous, candidate);
+      states.length = shared + 1;
+
+      let rejectedAt = -1;
+      for (let k = shared; k < candidate.length; k++) {
+        const state = automaton.step(states[k], candidate[k]);
+        states.push(state);
+        if (!automaton.canMatch(state)) {
+          rejectedAt = k + 1;
+          break;
+        }
+      }
+
+      if (rejectedAt !== -1) {
+        // No term starting with this prefix can match
+        const prefix = candidate.slice(0, rejectedAt);
+        previous = prefix;
+        i = this.prefixEnd(prefix, i);
+        continue;
+      }
+
+      const state = states[candidate.length];
+      if (automaton.isMatch(state)) {
+        matches.push({ term: candidate, distance: automaton.distance(state) });
+      }
+
+      previous = candidate;
+      i++;
+    }
+
+    return matches;
+  }
+
+  /**
+   * Finds the index of the first term that is not smaller than a value
+   */
+  private lowerBound(value: string, from: number = 0): number {
+    let low = from;
+    let high = this.terms.length;
+
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (this.terms[mid] < value) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+
+    return low;
+  }
+
+  /**
+   * Finds the index of the first term after all terms starting with a prefix
+   */
+  private prefixEnd(prefix: string, from: number): number {
+    let low = from;
+    let high = this.terms.length;
+
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (this.terms[mid].startsWith(prefix) || this.terms[mid] < prefix) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+
+    return low;
+  }
+}
+
+/**
+ * Converts a wildcard pattern into an anchored regular expression
+ */
+function wildcardToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('')
+    .map((char) => {
+      if (char === '*') return '.*';
+      if (char === '?') return '.';
+      return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Gets the length of the common prefix of two strings
+ */
+function commonPrefixLength(a: string, b: string): number {
+  const max = Math.min(a.length, b.length);
+  let length = 0;
+  while (length < max && a[length] === b[length]) {
+    length++;
+  }
+  return length;
+}
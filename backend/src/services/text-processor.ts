@@ -1,27 +1,94 @@
-import * as cheerio from 'cheerio';
 import { stopwords, PorterStemmer } from 'natural';
-import { Document, ProcessedDocument, Token, createProcessedDocument } from '../models/document';
+import {
+  Document,
+  Language,
+  ProcessedDocument,
+  TextField,
+  Token,
+  createProcessedDocument,
+  normalizeKeyword,
+} from '../models/document';
+import { SynonymService } from './synonyms';
+import {
+  AnalysisSettings,
+  Analyzer,
+  createAnalyzers,
+  DEFAULT_ANALYSIS,
+  standardTokenize,
+  stripHtml,
+} from './analysis';
+import { detectLanguage } from './language';
+
+/**
+ * Number of empty positions left between the title and body, so that
+ * phrase queries never match across the field boundary
+ */
+const FIELD_POSITION_GAP = 100;
 
 /**
  * Configuration for text processing
  */
 export interface ProcessorConfig {
-  // Future configuration options can be added here
   preservePositions?: boolean;
+  analysis?: AnalysisSettings; // analyzers per field and for queries (default: DEFAULT_ANALYSIS)
 }
 
 /**
  * TextProcessor handles cleaning, normalizing, and tokenizing text content
  * Implements requirements 2.1, 2.2, 2.3, and 2.6 for HTML stripping, case normalization, and tokenization
+ *
+ * Documents and queries are analyzed with the analyzers of the analysis settings: each
+ * text field with its own analyzer, query text with the search analyzer.
  */
 export class TextProcessor {
   private config: ProcessorConfig;
+  private indexSynonyms?: SynonymService;
+  private analyzers: Map<string, Analyzer>;
 
   constructor(config: ProcessorConfig = {}) {
     this.config = {
       preservePositions: true,
+      analysis: DEFAULT_ANALYSIS,
       ...config,
     };
+    this.analyzers = createAnalyzers(this.config.analysis!);
+  }
+
+  /**
+   * Gets the analysis settings text is processed with
+   * @returns Validated analysis settings
+   */
+  getAnalysisSettings(): AnalysisSettings {
+    return this.config.analysis!;
+  }
+
+  /**
+   * Replaces the analysis settings, e.g. with the ones an index was built with
+   * @param settings Validated analysis settings
+   */
+  setAnalysisSettings(settings: AnalysisSettings): void {
+    this.analyzers = createAnalyzers(settings);
+    this.config.analysis = settings;
+  }
+
+  /**
+   * Gets the analyzer of a text field, or the search analyzer for query text
+   * @param field Text field, or undefined for query text
+   * @returns Analyzer
+   */
+  getAnalyzer(field?: TextField): Analyzer {
+    const { fields, search } = this.config.analysis!;
+    return this.analyzers.get(field ? fields[field] : search)!;
+  }
+
+  /**
+   * Enables or disables index-time synonym expansion
+   * Documents processed afterwards also contain the synonyms of their words at the same
+   * positions; documents processed earlier are only expanded when they are reindexed.
+   * @param synonyms Synonym service, or undefined to disable expansion
+   */
+  setIndexSynonyms(synonyms: SynonymService | undefined): void {
+    this.indexSynonyms = synonyms;
   }
 
   /**
@@ -31,18 +98,7 @@ export class TextProcessor {
    * @returns Clean text with HTML removed
    */
   cleanHtml(text: string): string {
-    if (!text || typeof text !== 'string') {
-      return '';
-    }
-
-    // Use cheerio to parse and extract text content
-    const $ = cheerio.load(text);
-
-    // Extract text content, which automatically strips HTML tags and decodes entities
-    const cleanText = $.text();
-
-    // Clean up extra whitespace that may result from HTML removal
-    return cleanText.replace(/\s+/g, ' ').trim();
+    return stripHtml(text);
   }
 
   /**
@@ -62,34 +118,13 @@ export class TextProcessor {
   /**
    * Tokenizes text by splitting on whitespace and punctuation boundaries
    * Requirements 2.3, 2.6: Split on whitespace and punctuation boundaries, track token positions
+   * Positions are ordinal word indexes so that phrase queries can check adjacency;
+   * the character offset of each token is kept separately.
    * @param text Input text to tokenize
    * @returns Array of tokens with positions
    */
   tokenize(text: string): Token[] {
-    if (!text || typeof text !== 'string') {
-      return [];
-    }
-
-    const tokens: Token[] = [];
-
-    // Split text into tokens using regex that matches word boundaries
-    // This regex splits on whitespace and punctuation while preserving the tokens
-    const tokenRegex = /\b\w+\b/g;
-    let match;
-
-    while ((match = tokenRegex.exec(text)) !== null) {
-      const tokenText = match[0];
-      const tokenPosition = match.index;
-
-      // Create token with original text and position
-      tokens.push({
-        text: tokenText,
-        position: tokenPosition,
-        stem: tokenText, // Stemming will be implemented in task 3.9
-      });
-    }
-
-    return tokens;
+    return standardTokenize(text);
   }
 
   /**
@@ -131,32 +166,84 @@ export class TextProcessor {
   }
 
   /**
-   * Processes a document by cleaning HTML, normalizing case, tokenizing, removing stopwords, and stemming
+   * Processes a document by running each text field through its analyzer
+   * The title and body are analyzed separately and tagged with their field; body positions
+   * follow the title positions so that the token stream stays in document order. Both are
+   * analyzed in the document's language, which is also indexed as a keyword.
    * @param document Document to process
    * @returns Processed document with tokenized content
    */
   processDocument(document: Document): ProcessedDocument {
-    // Clean HTML from title and content
-    const cleanTitle = this.cleanHtml(document.title);
-    const cleanContent = this.cleanHtml(document.content);
+    const language = this.getDocumentLanguage(document);
+    const titleTokens = this.analyzeField(document.title, 'title', 0, language);
 
-    // Normalize case
-    const normalizedTitle = this.normalizeCase(cleanTitle);
-    const normalizedContent = this.normalizeCase(cleanContent);
+    const bodyStart =
+      titleTokens.length > 0
+        ? Math.max(...titleTokens.map((token) => token.position)) + 1 + FIELD_POSITION_GAP
+        : 0;
+    const bodyTokens = this.analyzeField(document.content, 'body', bodyStart, language);
 
-    // Combine title and content for processing
-    const combinedText = `${normalizedTitle} ${normalizedContent}`.trim();
+    return createProcessedDocument(
+      document.id,
+      [...titleTokens, ...bodyTokens],
+      {
+        author: normalizeKeyword('author', document.author || ''),
+        subreddit: normalizeKeyword('subreddit', document.subreddit || ''),
+        type: document.type,
+        language,
+      },
+      {
+        createdUtc: new Date(document.createdUtc).getTime(),
+        redditScore: document.redditScore,
+        commentCount: document.commentCount,
+      }
+    );
+  }
 
-    // Tokenize the combined text
-    const tokens = this.tokenize(combinedText);
+  /**
+   * Gets the language a document is analyzed in
+   * @param document Document
+   * @returns Its stored language, or the language detected from its title and body
+   */
+  getDocumentLanguage(document: Document): Language {
+    return document.language ?? detectLanguage(`${document.title} ${document.content}`);
+  }
 
-    // Remove stopwords
-    const filteredTokens = this.removeStopwords(tokens);
+  /**
+   * Analyzes a single document field
+   * @param text Raw field text
+   * @param field Field the tokens belong to
+   * @param startPosition Position assigned to the first word of the field
+   * @param language Language of the document
+   * @returns Tokens tagged with the field
+   */
+  private analyzeField(
+    text: string,
+    field: TextField,
+    startPosition: number,
+    language: Language
+  ): Token[] {
+    let tokens = this.getAnalyzer(field).analyze(text, language);
+    if (this.indexSynonyms) {
+      tokens = this.indexSynonyms.expandTokens(tokens);
+    }
 
-    // Apply stemming
-    const stemmedTokens = this.stem(filteredTokens);
+    return tokens.map((token) => ({
+      ...token,
+      position: token.position + startPosition,
+      field,
+    }));
+  }
 
-    return createProcessedDocument(document.id, stemmedTokens);
+  /**
+   * Analyzes free text (such as a query term) with the search analyzer
+   * Requirement 7.1: Apply same text processing pipeline to queries as to documents
+   * @param text Text to analyze
+   * @param language Language of the text (default: English)
+   * @returns Array of analyzed tokens
+   */
+  analyze(text: string, language?: Language): Token[] {
+    return this.getAnalyzer().analyze(text, language);
   }
 
   /**
@@ -0,0 +1,278 @@
+import { PostingsList } from '../models/index';
+
+/**
+ * Query term prepared for top-k retrieval
+ */
+export interface WandTerm {
+  postings: PostingsList[]; // sorted by docId
+  upperBound: number; // largest amount the term can add to any document's score
+}
+
+/**
+ * Document scored during top-k retrieval
+ */
+export interface RankedDocument {
+  docId: string;
+  score: number;
+}
+
+/**
+ * Scores documents for top-k retrieval
+ * Scores combine the query terms with parts that do not depend on them (such as
+ * recency or popularity), which are bounded separately.
+ */
+export interface WandScorer<T extends RankedDocument> {
+  score(docId: string): T | undefined; // undefined for documents that must not be returned
+  staticBound(docId: string): number; // upper bound of the term-independent parts of one document
+  maxStaticBound: number; // the same bound over all documents
+}
+
+/**
+ * Result of top-k retrieval
+ */
+export interface WandResult<T extends RankedDocument> {
+  documents: T[]; // best documents, best first
+  scoredCount: number; // documents that were fully scored
+}
+
+/**
+ * Orders documents by score, best first, breaking ties by docId
+ * Used by every ranking path so that equal scores always come out in the same order.
+ */
+export function compareRanked(a: RankedDocument, b: RankedDocument): number {
+  if (a.score !== b.score) {
+    return b.score - a.score;
+  }
+  return a.docId < b.docId ? -1 : a.docId > b.docId ? 1 : 0;
+}
+
+/**
+ * Finds the k best documents with the WAND (weak AND) algorithm
+ *
+ * The postings lists are walked together in docId order. Before a document is scored,
+ * the upper bounds of the terms that could occur in it are added up; if even that sum
+ * cannot beat the k-th best score found so far, the document is skipped without being
+ * scored, and the lists jump directly to the next document that could. Documents that
+ * pass are checked once more against their own term-independent bound before scoring.
+ * @param terms Query terms with their postings and score upper bounds
+ * @param k Number of documents to return
+ * @param scorer Scores documents and bounds their term-independent parts
+ * @param initial Documents already scored that compete for the top k
+ * @returns Best k documents and the number of documents scored
+ */
+export function wandTopK<T extends RankedDocument>(
+  terms: WandTerm[],
+  k: number,
+  scorer: WandScorer<T>,
+  initial: T[] = []
+): WandResult<T> {
+  const heap = new TopKHeap<T>(k);
+  for (const doc of initial) {
+    heap.offer(doc);
+  }
+
+  const cursors = terms
+    .filter((term) => term.postings.length > 0)
+    .map((term) => new PostingsCursor(term.postings, term.upperBound));
+  let scoredCount = 0;
+
+  while (k > 0 && cursors.length > 0) {
+    sortCursors(cursors);
+
+    // The pivot is the first document whose score could reach the current threshold
+    const threshold = heap.threshold();
+    let bound = scorer.maxStaticBound;
+    let pivot = -1;
+    for (let i = 0; i < cursors.length; i++) {
+      bound += cursors[i].upperBound;
+      if (canReach(bound, threshold)) {
+        pivot = i;
+        break;
+      }
+    }
+    if (pivot === -1) {
+      break;
+    }
+
+    const pivotDoc = cursors[pivot].docId;
+    if (cursors[0].docId === pivotDoc) {
+      let documentBound = scorer.staticBound(pivotDoc);
+      for (const cursor of cursors) {
+        if (cursor.docId === pivotDoc) {
+          documentBound += cursor.upperBound;
+        }
+      }
+      if (canReach(documentBound, threshold)) {
+        const doc = scorer.score(pivotDoc);
+        scoredCount++;
+        if (doc) {
+          heap.offer(doc);
+        }
+      }
+      for (const cursor of cursors) {
+        if (cursor.docId === pivotDoc) {
+          cursor.next();
+        }
+      }
+    } else {
+      // No document before the pivot can make it into the top k
+      for (let i = 0; i < pivot; i++) {
+        cursors[i].advanceTo(pivotDoc);
+      }
+    }
+
+    for (let i = cursors.length - 1; i >= 0; i--) {
+      if (cursors[i].exhausted) {
+        cursors.splice(i, 1);
+      }
+    }
+  }
+
+  return { documents: heap.toSortedArray(), scoredCount };
+}
+
+/**
+ * Orders cursors by their current docId
+ * Only the cursors that moved are out of place, so insertion sort is close to linear.
+ */
+function sortCursors(cursors: PostingsCursor[]): void {
+  for (let i = 1; i < cursors.length; i++) {
+    const cursor = cursors[i];
+    const docId = cursor.docId;
+    let j = i - 1;
+    while (j >= 0 && cursors[j].docId > docId) {
+      cursors[j + 1] = cursors[j];
+      j--;
+    }
+    cursors[j + 1] = cursor;
+  }
+}
+
+/**
+ * Checks whether a score bound can reach the threshold
+ * Allows for rounding differences between the bound and the exact score.
+ */
+function canReach(bound: number, threshold: number): boolean {
+  return bound + Math.abs(bound) * 1e-9 + 1e-12 >= threshold;
+}
+
+/**
+ * Position in a postings list sorted by docId
+ */
+class PostingsCursor {
+  readonly upperBound: number;
+  private postings: PostingsList[];
+  private index: number;
+
+  constructor(postings: PostingsList[], upperBound: number) {
+    this.postings = postings;
+    this.upperBound = upperBound;
+    this.index = 0;
+  }
+
+  get exhausted(): boolean {
+    return this.index >= this.postings.length;
+  }
+
+  get docId(): string {
+    return this.postings[this.index].docId;
+  }
+
+  next(): void {
+    this.index++;
+  }
+
+  /**
+   * Moves to the first posting whose docId is not smaller than target
+   * Gallops ahead, then binary searches the range that was overshot.
+   */
+  advanceTo(target: string): void {
+    let step = 1;
+    let low = this.index;
+    let high = this.index;
+    while (high < this.postings.length && this.postings[high].docId < target) {
+      low = high + 1;
+      high += step;
+      step *= 2;
+    }
+    high = Math.min(high, this.postings.length);
+
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (this.postings[mid].docId < target) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    this.index = low;
+  }
+}
+
+/**
+ * Bounded min-heap keeping the k best documents seen so far
+ */
+class TopKHeap<T extends RankedDocument> {
+  private items: T[];
+  private capacity: number;
+
+  constructor(capacity: number) {
+    this.items = [];
+    this.capacity = capacity;
+  }
+
+  /**
+   * Gets the score a document must reach to enter the heap
+   */
+  threshold(): number {
+    return this.items.length < this.capacity ? -Infinity : this.items[0].score;
+  }
+
+  offer(doc: T): void {
+    if (this.capacity === 0) {
+      return;
+    }
+    if (this.items.length < this.capacity) {
+      this.items.push(doc);
+      this.siftUp(this.items.length - 1);
+    } else if (compareRanked(doc, this.items[0]) < 0) {
+      this.items[0] = doc;
+      this.siftDown(0);
+    }
+  }
+
+  toSortedArray(): T[] {
+    return [...this.items].sort(compareRanked);
+  }
+
+  // The root is the worst document, so a child must not rank below its parent
+  private siftUp(index: number): void {
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (compareRanked(this.items[index], this.items[parent]) <= 0) {
+        break;
+      }
+      [this.items[index], this.items[parent]] = [this.items[parent], this.items[index]];
+      index = parent;
+    }
+  }
+
+  private siftDown(index: number): void {
+    for (;;) {
+      const left = 2 * index + 1;
+      const right = left + 1;
+      let worst = index;
+      if (left < this.items.length && compareRanked(this.items[left], this.items[worst]) > 0) {
+        worst = left;
+      }
+      if (right < this.items.length && compareRanked(this.items[right], this.items[worst]) > 0) {
+        worst = right;
+      }
+      if (worst === index) {
+        return;
+      }
+      [this.items[index], this.items[worst]] = [this.items[worst], this.items[index]];
+      index = worst;
+    }
+  }
+}
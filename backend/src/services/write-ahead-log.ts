@@ -0,0 +1,271 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  KeywordField,
+  NumericField,
+  ProcessedDocument,
+  TextField,
+  Token,
+} from '../models/document';
+import { crc32 } from './index-file';
+
+/**
+ * Write-ahead log of index changes
+ *
+ * Every change is appended to the log before it is applied to the in-memory index, so
+ * after a crash the index is the last checkpoint (the index file) plus the log replayed
+ * on top of it. Records are numbered; the index file stores the number of the last record
+ * it includes, and replay skips records up to it.
+ *
+ * Record layout: u32 payload length, u32 CRC-32 of the payload, payload (JSON), all
+ * little-endian. A crash while appending leaves an incomplete or mismatching last record;
+ * replay stops there and cuts it off.
+ */
+
+const RECORD_HEADER_LENGTH = 8;
+
+/**
+ * Token as logged: text, position, stem, and field and synonym flag when set
+ * Other token properties are not used by the indexer.
+ */
+type LoggedToken = [string, number, string, TextField?, 1?];
+
+/**
+ * Processed document as logged
+ */
+interface LoggedDocument {
+  docId: string;
+  tokens: LoggedToken[];
+  fieldLengths?: Partial<Record<TextField, number>>;
+  keywords?: Partial<Record<KeywordField, string>>;
+  numericValues?: Partial<Record<NumericField, number>>;
+}
+
+/**
+ * Change to the index
+ * A purge removes a document also where the index is damaged (see Indexer.purgeDocument).
+ * A swap replaces the whole index (see Indexer.swapIndex); the replacement is not logged,
+ * so changes logged after a swap only apply to a checkpoint taken after it.
+ */
+export type WalChange =
+  | { type: 'index'; document: ProcessedDocument }
+  | { type: 'remove'; docId: string }
+  | { type: 'purge'; docId: string }
+  | { type: 'clear' }
+  | { type: 'swap' };
+
+/**
+ * Change recorded in the log, numbered from 1 in the order the changes were made
+ */
+export type WalRecord = WalChange & { sequence: number };
+
+type LoggedRecord =
+  | { sequence: number; type: 'index'; document: LoggedDocument }
+  | { sequence: number; type: 'remove'; docId: string }
+  | { sequence: number; type: 'purge'; docId: string }
+  | { sequence: number; type: 'clear' }
+  | { sequence: number; type: 'swap' };
+
+function toLoggedRecord(record: WalRecord): LoggedRecord {
+  if (record.type !== 'index') {
+    return record;
+  }
+
+  const { docId, tokens, fieldLengths, keywords, numericValues } = record.document;
+  return {
+    ...record,
+    document: {
+      docId,
+      tokens: tokens.map((token): LoggedToken => {
+        const logged: LoggedToken = [token.text, token.position, token.stem];
+        if (token.field || token.synonym) {
+          logged.push(token.field);
+        }
+        if (token.synonym) {
+          logged.push(1);
+        }
+        return logged;
+      }),
+      fieldLengths,
+      keywords,
+      numericValues,
+    },
+  };
+}
+
+function fromLoggedRecord(record: LoggedRecord): WalRecord {
+  if (record.type !== 'index') {
+    return record;
+  }
+
+  const { docId, fieldLengths, keywords, numericValues } = record.document;
+  const tokens = record.document.tokens.map(([text, position, stem, field, synonym]) => {
+    const token: Token = { text, position, stem };
+    if (field) {
+      token.field = field;
+    }
+    if (synonym) {
+      token.synonym = true;
+    }
+    return token;
+  });
+
+  return {
+    ...record,
+    document: {
+      docId,
+      tokens,
+      tokenCount: tokens.length,
+      uniqueTerms: new Set(tokens.map((token) => token.stem)),
+      fieldLengths,
+      keywords,
+      numericValues,
+    },
+  };
+}
+
+/**
+ * Append-only log file of index changes
+ */
+export class WriteAheadLog {
+  private fd?: number;
+  private size = 0;
+
+  /**
+   * @param filePath Log file; created on the first append
+   * @param sync Whether to fsync after every record (survives power loss, not just crashes)
+   */
+  constructor(
+    private readonly filePath: string,
+    private readonly sync: boolean = false
+  ) {}
+
+  /**
+   * Number of bytes in the log; records appended later start at or after it
+   */
+  get byteLength(): number {
+    if (this.fd === undefined) {
+      this.open();
+    }
+    return this.size;
+  }
+
+  private open(): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    this.fd = fs.openSync(this.filePath, 'a');
+    this.size = fs.fstatSync(this.fd).size;
+  }
+
+  /**
+   * Appends a record; it is in the file when this returns
+   * @param record Change to log
+   */
+  append(record: WalRecord): void {
+    if (this.fd === undefined) {
+      this.open();
+    }
+
+    const payload = Buffer.from(JSON.stringify(toLoggedRecord(record)), 'utf-8');
+    const frame = Buffer.allocUnsafe(RECORD_HEADER_LENGTH + payload.length);
+    frame.writeUInt32LE(payload.length, 0);
+    frame.writeUInt32LE(crc32(payload), 4);
+    payload.copy(frame, RECORD_HEADER_LENGTH);
+
+    fs.writeSync(this.fd!, frame);
+    if (this.sync) {
+      fs.fsyncSync(this.fd!);
+    }
+    this.size += frame.length;
+  }
+
+  /**
+   * Reads the records of the log in order
+   * Must run before the first append. An incomplete or damaged record ends the log: it
+   * and anything after it are cut off, as they were never acknowledged.
+   * @param apply Called for every intact record
+   * @returns Number of records read and number of bytes cut off
+   */
+  async replay(
+    apply: (record: WalRecord) => void
+  ): Promise<{ records: number; discarded: number }> {
+    let handle: fs.promises.FileHandle;
+    try {
+      handle = await fs.promises.open(this.filePath, 'r');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return { records: 0, discarded: 0 };
+      }
+      throw error;
+    }
+
+    let offset = 0;
+    let records = 0;
+    let fileSize: number;
+    try {
+      fileSize = (await handle.stat()).size;
+      const header = Buffer.alloc(RECORD_HEADER_LENGTH);
+      while (offset + RECORD_HEADER_LENGTH <= fileSize) {
+        await handle.read(header, 0, RECORD_HEADER_LENGTH, offset);
+        const length = header.readUInt32LE(0);
+        if (offset + RECORD_HEADER_LENGTH + length > fileSize) {
+          break;
+        }
+
+        const payload = Buffer.allocUnsafe(length);
+        await handle.read(payload, 0, length, offset + RECORD_HEADER_LENGTH);
+        if (crc32(payload) !== header.readUInt32LE(4)) {
+          break;
+        }
+
+        apply(fromLoggedRecord(JSON.parse(payload.toString('utf-8')) as LoggedRecord));
+        offset += RECORD_HEADER_LENGTH + length;
+        records++;
+      }
+    } finally {
+      await handle.close();
+    }
+
+    if (offset < fileSize) {
+      await fs.promises.truncate(this.filePath, offset);
+    }
+    return { records, discarded: fileSize - offset };
+  }
+
+  /**
+   * Drops the start of the log, once a checkpoint includes its records
+   * Runs synchronously, so no record is appended while the log is rewritten.
+   * @param offset Byte length of the log when the checkpoint was taken
+   */
+  discardBefore(offset: number): void {
+    const size = this.byteLength;
+    if (offset >= size) {
+      fs.ftruncateSync(this.fd!, 0);
+      this.size = 0;
+      return;
+    }
+
+    const rest = Buffer.alloc(size - offset);
+    const fd = fs.openSync(this.filePath, 'r');
+    try {
+      fs.readSync(fd, rest, 0, rest.length, offset);
+    } finally {
+      fs.closeSync(fd);
+    }
+
+    this.close();
+    const tempPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tempPath, rest);
+    fs.renameSync(tempPath, this.filePath);
+    this.open();
+  }
+
+  /**
+   * Closes the log file; the next append reopens it
+   */
+  close(): void {
+    if (this.fd !== undefined) {
+      fs.closeSync(this.fd);
+      this.fd = undefined;
+    }
+  }
+}
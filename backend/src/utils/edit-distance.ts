@@ -0,0 +1,141 @@
+/**
+ * Edit distance utilities for spelling correction and fuzzy matching
+ */
+
+/**
+ * Calculates the Damerau-Levenshtein distance between two strings
+ *
+ * Counts the minimum number of single-character insertions, deletions, substitutions and
+ * transpositions of adjacent characters needed to turn one string into the other (optimal
+ * string alignment variant). Transpositions count as one edit because swapped letters are
+ * the most common typing mistake ("teh" → "the").
+ *
+ * When maxDistance is given the calculation stops as soon as the distance is known to
+ * exceed it.
+ * @param a First string
+ * @param b Second string
+ * @param maxDistance Optional upper bound; larger distances are reported as maxDistance + 1
+ * @returns Edit distance between the strings
+ */
+export function editDistance(a: string, b: string, maxDistance: number = Infinity): number {
+  if (a === b) {
+    return 0;
+  }
+
+  // The length difference is a lower bound on the distance
+  if (Math.abs(a.length - b.length) > maxDistance) {
+    return maxDistance + 1;
+  }
+
+  let beforePrevious = new Array<number>(b.length + 1).fill(0);
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  let current = new Array<number>(b.length + 1).fill(0);
+
+  for (let i = 1; i <= a.length; i++) {
+    current[0] = i;
+    let rowMin = current[0];
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], beforePrevious[j - 2] + 1);
+      }
+
+      rowMin = Math.min(rowMin, current[j]);
+    }
+
+    // Every later row is at least the minimum of this one
+    if (rowMin > maxDistance) {
+      return maxDistance + 1;
+    }
+
+    [beforePrevious, previous, current] = [previous, current, beforePrevious];
+  }
+
+  return Math.min(previous[b.length], maxDistance + 1);
+}
+
+/**
+ * State of a LevenshteinAutomaton after reading some characters
+ */
+export interface AutomatonState {
+  row: number[]; // edit distance from each prefix of the pattern to the input read so far
+  previousRow?: number[]; // row before the last character, used for transpositions
+  lastChar?: string;
+}
+
+/**
+ * Automaton that accepts every string within a bounded edit distance of a pattern
+ *
+ * The automaton is simulated one row of the edit distance matrix at a time, so it can be
+ * run over a sorted term dictionary: terms sharing a prefix share the states for that
+ * prefix, and once canMatch() is false no term with the prefix can be accepted.
+ * Uses the same edit operations as editDistance, including adjacent transpositions.
+ */
+export class LevenshteinAutomaton {
+  readonly pattern: string;
+  readonly maxEdits: number;
+
+  constructor(pattern: string, maxEdits: number) {
+    this.pattern = pattern;
+    this.maxEdits = maxEdits;
+  }
+
+  /**
+   * Gets the state before any input has been read
+   */
+  start(): AutomatonState {
+    return { row: Array.from({ length: this.pattern.length + 1 }, (_, j) => j) };
+  }
+
+  /**
+   * Reads one character of input
+   * @param state Current state
+   * @param char Next input character
+   * @returns New state
+   */
+  step(state: AutomatonState, char: string): AutomatonState {
+    const { row, previousRow, lastChar } = state;
+    const next = new Array<number>(row.length);
+    next[0] = row[0] + 1;
+
+    for (let j = 1; j < row.length; j++) {
+      const cost = this.pattern[j - 1] === char ? 0 : 1;
+      next[j] = Math.min(row[j] + 1, next[j - 1] + 1, row[j - 1] + cost);
+
+      if (
+        previousRow &&
+        j > 1 &&
+        this.pattern[j - 1] === lastChar &&
+        this.pattern[j - 2] === char
+      ) {
+        next[j] = Math.min(next[j], previousRow[j - 2] + 1);
+      }
+    }
+
+    return { row: next, previousRow: row, lastChar: char };
+  }
+
+  /**
+   * Gets the edit distance between the input read so far and the pattern
+   */
+  distance(state: AutomatonState): number {
+    return state.row[state.row.length - 1];
+  }
+
+  /**
+   * Checks whether the input read so far is accepted
+   */
+  isMatch(state: AutomatonState): boolean {
+    return this.distance(state) <= this.maxEdits;
+  }
+
+  /**
+   * Checks whether any continuation of the input read so far can still be accepted
+   */
+  canMatch(state: AutomatonState): boolean {
+    return Math.min(...state.row) <= this.maxEdits;
+  }
+}
@@ -0,0 +1,238 @@
+import {
+  AnalysisConfigError,
+  AnalysisMismatchError,
+  Analyzer,
+  codeTokenize,
+  DEFAULT_ANALYSIS,
+  markdownTokenize,
+  parseAnalysisSettings,
+  toPartTokens,
+  toTermGroups,
+  toWords,
+  standardTokenize,
+} from '../src/services/analysis';
+import { Language } from '../src/models/document';
+import { Indexer } from '../src/services/indexer';
+import { TextProcessor } from '../src/services/text-processor';
+import { createDocument } from './helpers';
+
+describe('parseAnalysisSettings', () => {
+  it('takes missing entries from the defaults', () => {
+    const settings = parseAnalysisSettings({
+      analyzers: { exact: { tokenizer: { type: 'standard' }, filters: [{ type: 'lowercase' }] } },
+      fields: { title: 'exact' },
+    });
+    expect(Object.keys(settings.analyzers).sort()).toEqual([
+      'code',
+      'exact',
+      'markdown',
+      'standard',
+    ]);
+    expect(settings.fields).toEqual({ title: 'exact', body: 'markdown' });
+    expect(settings.search).toBe('code');
+  });
+
+  it.each([
+    [{ fields: { title: 'missing' } }, 'fields.title'],
+    [{ fields: { author: 'standard' } }, 'fields.author'],
+    [{ analyzers: { a: { tokenizer: { type: 'whitespace' } } } }, 'analyzers.a.tokenizer.type'],
+    [
+      {
+        analyzers: {
+          a: { tokenizer: { type: 'standard' }, filters: [{ type: 'stemmer', algorithm: 'x' }] },
+        },
+      },
+      'analyzers.a.filters[0].algorithm',
+    ],
+    [
+      {
+        analyzers: {
+          a: { tokenizer: { type: 'standard' }, filters: [{ type: 'shingle', size: 5 }] },
+        },
+      },
+      'analyzers.a.filters[0].size',
+    ],
+  ])('rejects %j at %s', (value, path) => {
+    expect(() => parseAnalysisSettings(value)).toThrow(expect.objectContaining({ path }));
+    expect(() => parseAnalysisSettings(value)).toThrow(AnalysisConfigError);
+  });
+});
+
+describe('Analyzer', () => {
+  const terms = (analyzer: Analyzer, text: string) => analyzer.analyze(text).map((t) => t.stem);
+
+  it('runs char filters, the tokenizer and token filters in order', () => {
+    const analyzer = new Analyzer({
+      charFilters: [{ type: 'html_strip' }],
+      tokenizer: { type: 'standard' },
+      filters: [
+        { type: 'lowercase' },
+        { type: 'stop', stopwords: ['the'] },
+        { type: 'length', min: 3 },
+      ],
+    });
+    expect(terms(analyzer, '<p>The <b>Cafe</b> is OK by Zoe</p>')).toEqual(['cafe', 'zoe']);
+  });
+
+  it('keeps offsets into the filtered text and the surface form', () => {
+    const analyzer = new Analyzer(DEFAULT_ANALYSIS.analyzers.standard);
+    const text = analyzer.filterChars('<b>Running</b> fast');
+    const [token] = analyzer.tokenize(text);
+    expect(token).toMatchObject({ text: 'Running', stem: 'run', offset: 0 });
+    expect(text.slice(token.offset!, token.offset! + token.text.length)).toBe('Running');
+  });
+
+  it('adds shingles of consecutive words only', () => {
+    const analyzer = new Analyzer({
+      tokenizer: { type: 'standard' },
+      filters: [{ type: 'stop' }, { type: 'shingle', size: 2, outputUnigrams: false }],
+    });
+    const tokens = analyzer.analyze('machine learning is fun');
+    expect(tokens.map((t) => [t.stem, t.text])).toEqual([['machine learning', 'machine learning']]);
+  });
+
+  it('picks the stemming algorithm', () => {
+    const stem = (algorithm: 'porter' | 'lancaster' | 'none') =>
+      terms(
+        new Analyzer({
+          tokenizer: { type: 'standard' },
+          filters: [{ type: 'stemmer', algorithm }],
+        }),
+        'maximum'
+      );
+    expect(stem('none')).toEqual(['maximum']);
+    expect(stem('porter')).toEqual(['maximum']);
+    expect(stem('lancaster')).toEqual(['maxim']);
+  });
+});
+
+describe('unicode text', () => {
+  const analyzer = new Analyzer(DEFAULT_ANALYSIS.analyzers.standard);
+  const terms = (text: string, language?: Language) =>
+    analyzer.analyze(text, language).map((token) => token.stem);
+
+  it('reads words of any script and folds accents and compatibility forms', () => {
+    expect(terms('Café Zoë ﬁle')).toEqual(['cafe', 'zoe', 'file']);
+    expect(terms('Straße Ærø')).toEqual(['strasse', 'aero']);
+  });
+
+  it('indexes CJK runs as overlapping bigrams', () => {
+    const tokens = standardTokenize('東京都 rust 天');
+    expect(tokens.map((token) => [token.stem, token.position, token.offset])).toEqual([
+      ['東京', 0, 0],
+      ['京都', 1, 1],
+      ['rust', 2, 4],
+      ['天', 3, 9],
+    ]);
+  });
+
+  it('removes stopwords and stems in the language of the text', () => {
+    expect(terms('die Häuser und Bäume', 'de')).toEqual(['haus', 'baum']);
+    expect(terms('die Häuser und Bäume')).toEqual(['die', 'hauser', 'und', 'baume']);
+  });
+});
+
+describe('code tokenization', () => {
+  const stems = (tokens: { stem: string; position: number }[]) =>
+    tokens.map((token) => `${token.position}:${token.stem}`);
+
+  it('keeps programming terms whole and marks them as keywords', () => {
+    const tokens = codeTokenize('Learn c++ and .net, see https://nodejs.org/docs.', false);
+    expect(tokens.map((token) => [token.stem, token.keyword])).toEqual([
+      ['Learn', false],
+      ['c++', true],
+      ['and', false],
+      ['.net', true],
+      ['see', false],
+      ['https://nodejs.org/docs', true],
+    ]);
+  });
+
+  it('adds the joined form and parts of compounds at their position', () => {
+    expect(stems(codeTokenize('node.js getUserName'))).toEqual([
+      '0:node.js',
+      '0:nodejs',
+      '0:node',
+      '0:js',
+      '1:getUserName',
+      '1:get',
+      '1:User',
+      '1:Name',
+    ]);
+    expect(codeTokenize('node.js')[2]).toMatchObject({ text: 'node', offset: 0, part: true });
+    expect(codeTokenize('node.js')[3]).toMatchObject({ text: 'js', offset: 5, part: true });
+  });
+
+  it('only reads markdown code in code mode', () => {
+    const text = 'Use node.js: `node.js` works';
+    expect(stems(markdownTokenize(text))).toEqual([
+      '0:Use',
+      '1:node',
+      '2:js',
+      '3:node.js',
+      '3:nodejs',
+      '3:node',
+      '3:js',
+      '4:works',
+    ]);
+    const [, , , code] = markdownTokenize(text);
+    expect(text.slice(code.offset!, code.offset! + code.text.length)).toBe('node.js');
+  });
+
+  it('does not stem keywords', () => {
+    const analyzer = new Analyzer(DEFAULT_ANALYSIS.analyzers.code);
+    expect(analyzer.analyze('Running asp.net').map((token) => token.stem)).toEqual([
+      'run',
+      'asp.net',
+      'aspnet',
+      'asp',
+      'net',
+    ]);
+  });
+
+  it('turns query tokens into term groups, words and parts', () => {
+    const tokens = new Analyzer(DEFAULT_ANALYSIS.analyzers.code).analyze('node.js tutorial');
+    expect(toTermGroups(tokens)).toEqual([
+      ['node.js', 'nodej', 'node'],
+      ['node.js', 'nodej', 'js'],
+      ['tutori'],
+    ]);
+    expect(stems(toWords(tokens))).toEqual(['0:node.js', '1:tutori']);
+    expect(stems(toPartTokens(tokens))).toEqual(['0:node', '1:js', '2:tutori']);
+  });
+});
+
+describe('per-field analysis', () => {
+  const settings = parseAnalysisSettings({
+    analyzers: { keep: { tokenizer: { type: 'standard' }, filters: [{ type: 'lowercase' }] } },
+    fields: { title: 'keep' },
+  });
+
+  it('analyzes each field and the query with its own analyzer', () => {
+    const processor = new TextProcessor({ analysis: settings });
+    const processed = processor.processDocument(
+      createDocument('d1', { title: 'The Running', content: 'The Running' })
+    );
+    const byField = (field: string) =>
+      processed.tokens.filter((t) => t.field === field).map((t) => t.stem);
+    expect(byField('title')).toEqual(['the', 'running']);
+    expect(byField('body')).toEqual(['run']);
+    expect(processor.analyze('The Running').map((t) => t.stem)).toEqual(['run']);
+  });
+
+  it('only lets the index change its settings while it is empty', () => {
+    const indexer = new Indexer();
+    indexer.setAnalysisSettings(DEFAULT_ANALYSIS);
+    indexer.indexDocument(new TextProcessor().processDocument(createDocument('d1')));
+
+    expect(() => indexer.setAnalysisSettings(settings)).toThrow(AnalysisMismatchError);
+    // Equal settings are accepted, whatever object they come in
+    const equal = parseAnalysisSettings({});
+    indexer.setAnalysisSettings(equal);
+
+    indexer.clear();
+    expect(indexer.getAnalysisSettings()).toBe(equal);
+    indexer.setAnalysisSettings(settings);
+    expect(indexer.getAnalysisSettings()).toBe(settings);
+  });
+});
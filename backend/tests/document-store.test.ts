@@ -0,0 +1,48 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DocumentStore } from '../src/services/document-store';
+import { createDocument } from './helpers';
+
+describe('DocumentStore persistence', () => {
+  let dir: string;
+  let storePath: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'feedvex-documents-'));
+    storePath = path.join(dir, 'documents.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  function wait(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+
+  it('saves shortly after every change with autoPersist', async () => {
+    const store = new DocumentStore({ storePath, autoPersist: true, persistDelayMs: 20 });
+    await store.store(createDocument('d0'));
+    await store.store(createDocument('d1'));
+    await store.delete('d0');
+    await wait(200);
+
+    // A process that crashes now keeps the documents its index may already hold
+    const restored = new DocumentStore({ storePath });
+    await restored.load();
+    expect(restored.getAll().map((doc) => doc.id)).toEqual(['d1']);
+  });
+
+  it('only saves on request without autoPersist', async () => {
+    const store = new DocumentStore({ storePath, persistDelayMs: 20 });
+    await store.store(createDocument('d0'));
+    await wait(100);
+    await expect(fs.access(storePath)).rejects.toMatchObject({ code: 'ENOENT' });
+
+    await store.persist();
+    const restored = new DocumentStore({ storePath });
+    await restored.load();
+    expect(restored.exists('d0')).toBe(true);
+  });
+});
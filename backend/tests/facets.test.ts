@@ -0,0 +1,91 @@
+import { DocumentStore } from '../src/services/document-store';
+import { FacetAggregator, FacetRequestError, parseFacetRequest } from '../src/services/facets';
+import { createDocument } from './helpers';
+
+describe('parseFacetRequest', () => {
+  it('accepts known facets with their options', () => {
+    expect(
+      parseFacetRequest({
+        subreddit: { size: 5 },
+        createdUtc: { interval: 'week' },
+        redditScore: {},
+      })
+    ).toEqual({
+      subreddit: { size: 5 },
+      createdUtc: { interval: 'week' },
+      redditScore: {},
+    });
+  });
+
+  it.each([
+    [[], 'facets'],
+    [{ score: {} }, 'facets.score'],
+    [{ author: 5 }, 'facets.author'],
+    [{ author: { size: 0 } }, 'facets.author.size'],
+    [{ redditScore: { size: 5 } }, 'facets.redditScore.size'],
+    [{ createdUtc: { interval: 'hour' } }, 'facets.createdUtc.interval'],
+    [{ commentCount: { ranges: [10, 5] } }, 'facets.commentCount.ranges'],
+  ])('rejects %j', (request, field) => {
+    expect(() => parseFacetRequest(request)).toThrow(FacetRequestError);
+    expect(() => parseFacetRequest(request)).toThrow(expect.objectContaining({ field }));
+  });
+});
+
+describe('FacetAggregator', () => {
+  let aggregator: FacetAggregator;
+
+  beforeEach(async () => {
+    const documentStore = new DocumentStore();
+    for (const [id, subreddit, redditScore, createdUtc] of [
+      ['d1', 'rust', 5, '2026-03-02T10:00:00Z'],
+      ['d2', 'rust', 50, '2026-03-08T23:00:00Z'],
+      ['d3', 'golang', 500, '2026-03-09T00:00:00Z'],
+      ['d4', 'python', 5000, '2026-04-01T00:00:00Z'],
+    ] as const) {
+      await documentStore.store(
+        createDocument(id, { subreddit, redditScore, createdUtc: new Date(createdUtc) })
+      );
+    }
+    aggregator = new FacetAggregator({}, documentStore);
+  });
+
+  it('counts the most frequent values and the rest', () => {
+    const { subreddit } = aggregator.aggregate(['d1', 'd2', 'd3', 'd4'], {
+      subreddit: { size: 2 },
+    });
+    expect(subreddit).toEqual({
+      buckets: [
+        { value: 'rust', count: 2 },
+        { value: 'golang', count: 1 },
+      ],
+      otherCount: 1,
+    });
+  });
+
+  it('counts only the given documents', () => {
+    const facets = aggregator.aggregate(['d3', 'd4'], { subreddit: {} });
+    expect(facets.subreddit!.buckets.map((bucket) => bucket.value)).toEqual(['golang', 'python']);
+  });
+
+  it('buckets creation dates by calendar week starting on Monday', () => {
+    const { createdUtc } = aggregator.aggregate(['d1', 'd2', 'd3', 'd4'], {
+      createdUtc: { interval: 'week' },
+    });
+    expect(createdUtc).toEqual([
+      { from: new Date('2026-03-02'), to: new Date('2026-03-09'), count: 2 },
+      { from: new Date('2026-03-09'), to: new Date('2026-03-16'), count: 1 },
+      { from: new Date('2026-03-30'), to: new Date('2026-04-06'), count: 1 },
+    ]);
+  });
+
+  it('counts numeric values in half-open ranges', () => {
+    const { redditScore } = aggregator.aggregate(['d1', 'd2', 'd3', 'd4'], {
+      redditScore: { ranges: [50, 500] },
+    });
+    expect(redditScore).toEqual([
+      { key: '*-50', from: undefined, to: 50, count: 1 },
+      { key: '50-500', from: 50, to: 500, count: 1 },
+      { key: '500-*', from: 500, to: undefined, count: 2 },
+    ]);
+  });
+});
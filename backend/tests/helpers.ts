@@ -0,0 +1,25 @@
+import { Document } from '../src/models/document';
+
+/**
+ * Creates a stored document with defaults for the fields a test does not care about
+ * @param id Document ID
+ * @param fields Fields to set
+ * @returns Document ready to store or process
+ */
+export function createDocument(id: string, fields: Partial<Document> = {}): Document {
+  return {
+    id,
+    type: 'post',
+    title: `Post ${id}`,
+    content: '',
+    url: `https://www.reddit.com/r/programming/comments/${id}`,
+    author: 'author',
+    subreddit: 'programming',
+    redditScore: 10,
+    commentCount: 0,
+    createdUtc: new Date('2026-01-01T00:00:00Z'),
+    collectedAt: new Date('2026-01-02T00:00:00Z'),
+    processed: true,
+    ...fields,
+  };
+}
@@ -0,0 +1,87 @@
+import {
+  HighlightFragment,
+  HighlightOptionsError,
+  Highlighter,
+  parseHighlightOptions,
+} from '../src/services/highlighter';
+import { TextProcessor } from '../src/services/text-processor';
+import { createDocument } from './helpers';
+
+describe('parseHighlightOptions', () => {
+  it('accepts fragment counts and sizes within bounds', () => {
+    expect(parseHighlightOptions({ numberOfFragments: 2, fragmentSize: 80 })).toEqual({
+      numberOfFragments: 2,
+      fragmentSize: 80,
+    });
+  });
+
+  it.each([
+    ['none', 'highlight'],
+    [{ numberOfFragments: 0 }, 'highlight.numberOfFragments'],
+    [{ numberOfFragments: 11 }, 'highlight.numberOfFragments'],
+    [{ fragmentSize: 19 }, 'highlight.fragmentSize'],
+    [{ fragmentSize: 50.5 }, 'highlight.fragmentSize'],
+  ])('rejects %j', (value, field) => {
+    expect(() => parseHighlightOptions(value)).toThrow(HighlightOptionsError);
+    expect(() => parseHighlightOptions(value)).toThrow(expect.objectContaining({ field }));
+  });
+});
+
+describe('Highlighter', () => {
+  const textProcessor = new TextProcessor();
+  const highlighter = new Highlighter({ contextLength: 10 }, textProcessor);
+
+  /**
+   * Gets the highlighted words of a fragment
+   */
+  function marked(fragment: HighlightFragment): string[] {
+    return fragment.ranges.map((range) => fragment.text.slice(range.start, range.end));
+  }
+
+  it('marks every word whose stem is a query term, at exact offsets', () => {
+    const doc = createDocument('d1', {
+      title: 'Running <b>Rust</b> &amp; rusty runners',
+      content: 'short body',
+    });
+    const { title } = highlighter.highlight(doc, ['run', 'rust']);
+
+    expect(title.text).toBe('Running Rust & rusty runners');
+    expect(title.ranges).toEqual([
+      { start: 0, end: 7 },
+      { start: 8, end: 12 },
+    ]);
+    expect(marked(title)).toEqual(['Running', 'Rust']);
+  });
+
+  it('counts offsets in UTF-16 code units', () => {
+    const doc = createDocument('d1', { title: 'café 🦀 rust', content: '' });
+    const { title } = highlighter.highlight(doc, ['rust']);
+    expect(title.ranges).toEqual([{ start: 8, end: 12 }]);
+    expect(marked(title)).toEqual(['rust']);
+  });
+
+  it('returns the best fragments in text order, preferring more distinct terms', () => {
+    const filler = 'lorem ipsum dolor sit amet '.repeat(4);
+    const content = `${filler}rust alone. ${filler}rust and cargo together. ${filler}cargo alone.`;
+    const doc = createDocument('d1', { title: 'Post', content });
+    const { body, bodyLength } = highlighter.highlight(doc, ['rust', 'cargo'], {
+      numberOfFragments: 2,
+      fragmentSize: 40,
+    });
+
+    expect(bodyLength).toBe(content.length);
+    expect(body).toHaveLength(2);
+    expect(body[0].start).toBeLessThan(body[1].start);
+    expect(body.map(marked)).toContainEqual(['rust', 'cargo']);
+    for (const fragment of body) {
+      expect(fragment.text).toBe(content.slice(fragment.start, fragment.end));
+      expect(fragment.text.length).toBeLessThanOrEqual(40);
+    }
+  });
+
+  it('starts with the beginning of the body when nothing matches', () => {
+    const doc = createDocument('d1', { title: 'Post', content: 'one two three four five six' });
+    const { body } = highlighter.highlight(doc, ['rust'], { fragmentSize: 20 });
+    expect(body).toEqual([{ text: 'one two three four', start: 0, end: 18, ranges: [], score: 0 }]);
+  });
+});
@@ -0,0 +1,129 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Indexer } from '../src/services/indexer';
+import {
+  INDEX_FORMAT_VERSION,
+  crc32,
+  IndexFileError,
+  loadIndexFile,
+  readIndexFile,
+} from '../src/services/index-file';
+import { TextProcessor } from '../src/services/text-processor';
+import { createDocument } from './helpers';
+
+describe('binary index file', () => {
+  let dir: string;
+  let indexPath: string;
+  let indexer: Indexer;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'feedvex-index-file-'));
+    indexPath = path.join(dir, 'index.bin');
+    indexer = new Indexer({ indexPath, maxBufferDocuments: 4, backgroundMerge: false });
+
+    const textProcessor = new TextProcessor();
+    for (let i = 0; i < 10; i++) {
+      const doc = createDocument(`d${i}`, {
+        title: i % 2 === 0 ? 'Rust borrow checker' : 'Go garbage collector',
+        content: `post number ${i} about memory safety`,
+        subreddit: i % 2 === 0 ? 'rust' : 'golang',
+        redditScore: i * 10,
+      });
+      indexer.indexDocument(textProcessor.processDocument(doc));
+    }
+    // Leaves deletions in a sealed segment and documents in the buffer
+    indexer.removeDocument('d1');
+    indexer.removeDocument('d8');
+    await indexer.persist();
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  /**
+   * Gets the error reading the index file fails with
+   */
+  async function readError(): Promise<IndexFileError> {
+    try {
+      await readIndexFile(indexPath);
+    } catch (error) {
+      return error as IndexFileError;
+    }
+    throw new Error('The index file was read');
+  }
+
+  it('computes the standard CRC-32', () => {
+    expect(crc32(Buffer.from('123456789'))).toBe(0xcbf43926);
+  });
+
+  it('restores the index it wrote', async () => {
+    const loaded = new Indexer({ indexPath });
+    await loaded.load();
+
+    expect(loaded.getTotalDocuments()).toBe(8);
+    expect(loaded.getAllDocumentIds().sort()).toEqual(indexer.getAllDocumentIds().sort());
+    expect(loaded.getAllTerms().sort()).toEqual(indexer.getAllTerms().sort());
+    for (const term of indexer.getAllTerms()) {
+      expect(loaded.getDocumentFrequency(term)).toBe(indexer.getDocumentFrequency(term));
+      expect(loaded.getSortedPostings(term)).toEqual(indexer.getSortedPostings(term));
+    }
+    expect(loaded.getDocumentsByKeyword('subreddit', 'rust').sort()).toEqual([
+      'd0',
+      'd2',
+      'd4',
+      'd6',
+    ]);
+    expect(loaded.getNumericValue('d9', 'redditScore')).toBe(90);
+    expect(loaded.checkIntegrity()).toEqual({ errors: [], damagedDocuments: [], staleStats: [] });
+  });
+
+  it('detects the binary format', async () => {
+    expect((await loadIndexFile(indexPath)).format).toBe('binary');
+  });
+
+  it('refuses files that are not binary indexes', async () => {
+    await fs.writeFile(indexPath, JSON.stringify({ segments: [] }));
+    expect((await readError()).code).toBe('NOT_AN_INDEX');
+  });
+
+  it('refuses files of a newer format version', async () => {
+    const bytes = await fs.readFile(indexPath);
+    bytes.writeUInt16LE(INDEX_FORMAT_VERSION + 1, 4);
+    await fs.writeFile(indexPath, bytes);
+    expect((await readError()).code).toBe('UNSUPPORTED_VERSION');
+  });
+
+  it('detects truncated files', async () => {
+    const bytes = await fs.readFile(indexPath);
+    await fs.writeFile(indexPath, bytes.subarray(0, bytes.length - 3));
+    expect((await readError()).code).toBe('TRUNCATED');
+  });
+
+  it('refuses a block length larger than the file before reading the block', async () => {
+    const bytes = await fs.readFile(indexPath);
+    // Length of the metadata block, after the file header and the block type
+    bytes.writeUInt32LE(0xfffffff0, 8 + 1);
+    await fs.writeFile(indexPath, bytes);
+    const allocUnsafe = jest.spyOn(Buffer, 'allocUnsafe');
+    try {
+      const error = await readError();
+      expect(error.code).toBe('CORRUPT');
+      expect(error.offset).toBe(8);
+      expect(allocUnsafe).not.toHaveBeenCalledWith(0xfffffff0 + 4);
+    } finally {
+      allocUnsafe.mockRestore();
+    }
+  });
+
+  it('detects damaged blocks by their checksum', async () => {
+    const bytes = await fs.readFile(indexPath);
+    // First byte of the metadata payload, after the file header and the block type and length
+    bytes[8 + 5] ^= 0xff;
+    await fs.writeFile(indexPath, bytes);
+    const error = await readError();
+    expect(error.code).toBe('CHECKSUM_MISMATCH');
+    expect(error.offset).toBe(8);
+  });
+});
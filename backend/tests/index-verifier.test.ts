@@ -0,0 +1,103 @@
+import { DocumentStore } from '../src/services/document-store';
+import { Indexer } from '../src/services/indexer';
+import { IndexVerifier } from '../src/services/index-verifier';
+import { TextProcessor } from '../src/services/text-processor';
+import { createDocument } from './helpers';
+
+describe('IndexVerifier', () => {
+  let indexer: Indexer;
+  let documentStore: DocumentStore;
+  let textProcessor: TextProcessor;
+  let verifier: IndexVerifier;
+
+  beforeEach(async () => {
+    indexer = new Indexer({ backgroundMerge: false });
+    documentStore = new DocumentStore();
+    textProcessor = new TextProcessor();
+    verifier = new IndexVerifier({}, indexer, documentStore, textProcessor);
+
+    for (let i = 0; i < 8; i++) {
+      const doc = createDocument(`d${i}`, { title: 'Rust', content: 'memory safety' });
+      await documentStore.store(doc);
+      indexer.indexDocument(textProcessor.processDocument(doc));
+    }
+    indexer.flush();
+  });
+
+  /**
+   * Drops the lookups of a sealed document, as a damaged index file would, keeping its postings
+   */
+  function damage(docId: string): void {
+    const { index } = indexer as unknown as {
+      index: { documentSegments: Map<string, unknown>; documentLengths: Map<string, number> };
+    };
+    index.documentSegments.delete(docId);
+    index.documentLengths.delete(docId);
+  }
+
+  it('finds nothing wrong with an intact index', () => {
+    const report = verifier.verify(true);
+    expect(report.valid).toBe(true);
+    expect(report.repair).toBeUndefined();
+  });
+
+  it('reports orphans and missing documents and repairs them', async () => {
+    await documentStore.delete('d0');
+    const unindexed = createDocument('d9', { title: 'Rust', content: 'memory safety' });
+    await documentStore.store(unindexed);
+
+    const report = verifier.verify(true);
+    expect(report.orphans.docIds).toEqual(['d0']);
+    expect(report.missing.docIds).toEqual(['d9']);
+    expect(report.repair).toMatchObject({ reindexed: 1, removed: 1, valid: true });
+    expect(indexer.getAllDocumentIds().sort()).toEqual(
+      ['d1', 'd2', 'd3', 'd4', 'd5', 'd6', 'd7', 'd9'].sort()
+    );
+  });
+
+  it('reindexes a damaged document once, without leaving its old version live', () => {
+    damage('d1');
+
+    const report = verifier.verify(true);
+    expect(report.damaged.docIds).toEqual(['d1']);
+    expect(report.missing.docIds).toEqual(['d1']);
+    expect(report.repair).toMatchObject({ reindexed: 1, removed: 0, valid: true });
+
+    indexer.forceMerge();
+    expect(indexer.getTotalDocuments()).toBe(8);
+    for (const term of indexer.getAllTerms()) {
+      expect(indexer.getDocumentFrequency(term)).toBe(8);
+      expect(indexer.getPostings(term)).toHaveLength(8);
+    }
+    expect(verifier.verify().valid).toBe(true);
+  });
+
+  it('removes a damaged document the store does not have', async () => {
+    damage('d2');
+    await documentStore.delete('d2');
+
+    const report = verifier.verify(true);
+    expect(report.damaged.docIds).toEqual(['d2']);
+    expect(report.repair).toMatchObject({ reindexed: 0, removed: 1, valid: true });
+    expect(indexer.getPostings('memori').map((posting) => posting.docId)).not.toContain('d2');
+  });
+
+  it('only counts removals that happened', async () => {
+    await documentStore.delete('d3');
+    indexer.removeDocument('d3');
+    await documentStore.delete('d4');
+
+    // d3 is gone from both; only the orphan d4 is removed
+    expect(verifier.verify(true).repair).toMatchObject({ reindexed: 0, removed: 1 });
+  });
+
+  it('flags documents indexed twice', () => {
+    damage('d5');
+    indexer.indexDocument(textProcessor.processDocument(documentStore.getById('d5')!));
+
+    const integrity = indexer.checkIntegrity();
+    expect(integrity.damagedDocuments).toEqual(['d5']);
+    expect(integrity.errors).toContain('Term "memori" has more than one posting for d5');
+    expect(integrity.errors).toContain('Document d5 is live in 2 segments');
+  });
+});
@@ -0,0 +1,134 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { Indexer, IndexerConfig } from '../src/services/indexer';
+import { TextProcessor } from '../src/services/text-processor';
+import { createDocument } from './helpers';
+
+describe('Indexer segments', () => {
+  const textProcessor = new TextProcessor();
+
+  function index(indexer: Indexer, id: string, content: string): void {
+    indexer.indexDocument(textProcessor.processDocument(createDocument(id, { content })));
+  }
+
+  /**
+   * Indexes the same documents into a segmented and a single-buffer index
+   */
+  function build(config: IndexerConfig, count: number): Indexer[] {
+    const indexers = [new Indexer({ backgroundMerge: false, ...config }), new Indexer()];
+    for (const indexer of indexers) {
+      for (let i = 0; i < count; i++) {
+        index(indexer, `d${i}`, i % 2 === 0 ? 'rust borrow' : 'rust');
+      }
+      // Replace and remove documents of sealed segments
+      index(indexer, 'd0', 'golang');
+      indexer.removeDocument('d1');
+    }
+    return indexers;
+  }
+
+  const docIds = (indexer: Indexer, term: string) =>
+    indexer
+      .getPostings(term)
+      .map((posting) => posting.docId)
+      .sort();
+
+  it('reads the same postings and statistics as an unsegmented index', () => {
+    const [segmented, single] = build({ maxBufferDocuments: 2, mergeFactor: 3 }, 11);
+    expect(segmented.getStats().segments).toBeGreaterThan(1);
+
+    for (const term of ['rust', 'borrow', 'golang']) {
+      expect(docIds(segmented, term)).toEqual(docIds(single, term));
+    }
+    expect(segmented.getAllTerms().sort()).toEqual(single.getAllTerms().sort());
+    expect(segmented.getTotalDocuments()).toBe(10);
+    expect(segmented.getAverageDocumentLength()).toBeCloseTo(single.getAverageDocumentLength());
+    expect(segmented.getPosting('rust', 'd0')).toBeUndefined();
+  });
+
+  it('merges segments of the same level and keeps few segments', () => {
+    const indexer = new Indexer({ maxBufferDocuments: 2, mergeFactor: 2, backgroundMerge: false });
+    for (let i = 0; i < 16; i++) {
+      index(indexer, `d${i}`, 'rust');
+    }
+    // 8 sealed segments of 2 documents merge up into one of 16
+    expect(indexer.getStats()).toMatchObject({ segments: 1, bufferedDocuments: 0 });
+    expect(indexer.getDocumentFrequency('rust')).toBe(16);
+  });
+
+  it('rewrites a segment once enough of its documents are deleted', () => {
+    const indexer = new Indexer({ maxBufferDocuments: 4, mergeFactor: 10, backgroundMerge: false });
+    for (let i = 0; i < 4; i++) {
+      index(indexer, `d${i}`, 'rust');
+    }
+    indexer.removeDocument('d0');
+    expect(indexer.getStats().deletedDocuments).toBe(1);
+
+    indexer.removeDocument('d1');
+    expect(indexer.getStats()).toMatchObject({ segments: 1, deletedDocuments: 0 });
+    expect(docIds(indexer, 'rust')).toEqual(['d2', 'd3']);
+  });
+
+  it('merges in the background without changing the generation', async () => {
+    const indexer = new Indexer({ maxBufferDocuments: 1, mergeFactor: 2 });
+    index(indexer, 'd0', 'rust');
+    index(indexer, 'd1', 'rust');
+    const generation = indexer.getGeneration();
+    expect(indexer.getStats().segments).toBe(2);
+
+    await new Promise((resolve) => setImmediate(resolve));
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(indexer.getStats().segments).toBe(1);
+    expect(indexer.getGeneration()).toBe(generation);
+    expect(docIds(indexer, 'rust')).toEqual(['d0', 'd1']);
+  });
+
+  describe('persistence', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), 'indexer-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('saves segments, the buffer and deletions', async () => {
+      const indexPath = path.join(dir, 'index.json');
+      const [indexer] = build({ maxBufferDocuments: 2, mergeFactor: 10, indexPath }, 5);
+      await indexer.persist();
+
+      const loaded = new Indexer({ indexPath, backgroundMerge: false });
+      await loaded.load();
+      for (const term of ['rust', 'borrow', 'golang']) {
+        expect(docIds(loaded, term)).toEqual(docIds(indexer, term));
+      }
+      expect(loaded.getTotalDocuments()).toBe(4);
+      expect(loaded.getStats().bufferedDocuments).toBe(0);
+    });
+
+    it('loads indexes written before segments', async () => {
+      const indexPath = path.join(dir, 'index.json');
+      await fs.writeFile(
+        indexPath,
+        JSON.stringify({
+          termToPostings: { rust: [{ docId: 'd0', termFrequency: 1, positions: [0] }] },
+          documentLengths: { d0: 1 },
+          totalDocuments: 1,
+          averageDocumentLength: 1,
+        })
+      );
+
+      const loaded = new Indexer({ indexPath, backgroundMerge: false });
+      await loaded.load();
+      expect(docIds(loaded, 'rust')).toEqual(['d0']);
+
+      index(loaded, 'd0', 'golang');
+      expect(docIds(loaded, 'rust')).toEqual([]);
+      expect(loaded.getTotalDocuments()).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,32 @@
+import { detectLanguage, getStemmer, getStopwords } from '../src/services/language';
+
+describe('detectLanguage', () => {
+  it.each([
+    ['The borrow checker is what makes it hard to learn for me', 'en'],
+    ['Ich habe das Buch gelesen und es ist nicht schlecht', 'de'],
+    ['Je ne sais pas si le compilateur est plus rapide que les autres', 'fr'],
+    ['Creo que el compilador es muy lento para todo lo que hay', 'es'],
+    ['Я не знаю, что это за ошибка', 'ru'],
+    ['東京都の天気', 'ja'],
+    ['北京大学', 'zh'],
+    ['서울 날씨', 'ko'],
+  ])('detects %s as %s', (text, language) => {
+    expect(detectLanguage(text)).toBe(language);
+  });
+
+  it('keeps the fallback when the text gives too little evidence', () => {
+    expect(detectLanguage('')).toBe('en');
+    expect(detectLanguage('rust borrow checker')).toBe('en');
+    expect(detectLanguage('kubernetes', 'de')).toBe('de');
+  });
+});
+
+describe('language resources', () => {
+  it('has stopwords and a stemmer per language, none for CJK', () => {
+    expect(getStopwords('de').has('und')).toBe(true);
+    expect(getStopwords('en').has('und')).toBe(false);
+    expect(getStopwords('zh').size).toBe(0);
+    expect(getStemmer('de')!.stem('häuser')).not.toBe('häuser');
+    expect(getStemmer('ja')).toBeUndefined();
+  });
+});
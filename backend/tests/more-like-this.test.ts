@@ -0,0 +1,45 @@
+import { Indexer } from '../src/services/indexer';
+import { MoreLikeThis } from '../src/services/more-like-this';
+import { TextProcessor } from '../src/services/text-processor';
+import { createDocument } from './helpers';
+
+describe('MoreLikeThis', () => {
+  let indexer: Indexer;
+
+  beforeEach(() => {
+    indexer = new Indexer();
+    const textProcessor = new TextProcessor();
+    for (const [id, title, content] of [
+      ['source', 'Post', 'tokio tokio async runtime unique'],
+      ['d1', 'Post', 'tokio runtime'],
+      ['d2', 'Post', 'async await'],
+      ['d3', 'Post', 'garbage collection'],
+    ]) {
+      indexer.indexDocument(textProcessor.processDocument(createDocument(id, { title, content })));
+    }
+  });
+
+  it('weights the terms of a document by TF-IDF, best first', () => {
+    const idf = Math.log(4 / 2);
+    expect(new MoreLikeThis({}, indexer).buildTermVector('source')).toEqual([
+      { term: 'tokio', weight: 2 * idf },
+      { term: 'async', weight: idf },
+      { term: 'runtim', weight: idf },
+    ]);
+  });
+
+  it('skips terms that are too rare or too common, and keeps the best ones', () => {
+    // "post" is in every title; "unique" only in the source document
+    const vector = new MoreLikeThis({ maxQueryTerms: 1 }, indexer).buildTermVector('source');
+    expect(vector.map((term) => term.term)).toEqual(['tokio']);
+
+    const permissive = new MoreLikeThis({ minDocFrequency: 1, maxDocFrequencyRatio: 1 }, indexer);
+    expect(permissive.buildTermVector('source').map((term) => term.term)).toEqual(
+      expect.arrayContaining(['post', 'uniqu'])
+    );
+  });
+
+  it('returns no terms for a document that is not indexed', () => {
+    expect(new MoreLikeThis({}, indexer).buildTermVector('missing')).toEqual([]);
+  });
+});
@@ -0,0 +1,94 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AuthServiceMemory } from '../src/services/auth-memory';
+import { AutocompleteService } from '../src/services/autocomplete';
+import { DocumentStore } from '../src/services/document-store';
+import { Indexer } from '../src/services/indexer';
+import { PersistentComponents, persistState, restoreState } from '../src/services/persistence';
+import { SearchHistoryService } from '../src/services/search-history';
+import { TextProcessor } from '../src/services/text-processor';
+import { parseAnalysisSettings } from '../src/services/analysis';
+import { createDocument } from './helpers';
+
+describe('persisted state', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'feedvex-state-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  /**
+   * Creates the components the server keeps on disk, saving into the test directory
+   */
+  function createComponents(triePath = path.join(dir, 'autocomplete-trie.json')) {
+    const components: PersistentComponents = {
+      indexer: new Indexer({ indexPath: path.join(dir, 'index.bin'), autoPersist: true }),
+      documentStore: new DocumentStore({ storePath: path.join(dir, 'documents.json') }),
+      autocompleteService: new AutocompleteService({ triePath }),
+      searchHistoryService: new SearchHistoryService({
+        historyPath: path.join(dir, 'search-history.json'),
+      }),
+      authService: new AuthServiceMemory('secret', '7d', path.join(dir, 'users.json')),
+    };
+    return components;
+  }
+
+  it('restores the index and repairs it against the stored documents', async () => {
+    const textProcessor = new TextProcessor();
+    const saved = createComponents();
+    await saved.indexer.load();
+    for (const doc of [
+      createDocument('indexed'),
+      createDocument('lost'),
+      createDocument('pending', { processed: false }),
+    ]) {
+      await saved.documentStore.store(doc);
+    }
+    saved.indexer.indexDocument(textProcessor.processDocument(createDocument('indexed')));
+    saved.indexer.indexDocument(textProcessor.processDocument(createDocument('orphan')));
+    expect(await persistState(saved)).toEqual([]);
+
+    const restored = createComponents();
+    expect(await restoreState(restored, textProcessor)).toEqual({
+      documents: 3,
+      indexedDocuments: 2,
+      removedFromIndex: 1,
+      reindexed: 1,
+    });
+    expect(restored.indexer.getAllDocumentIds().sort()).toEqual(['indexed', 'lost']);
+    await restored.indexer.close();
+  });
+
+  it('analyzes queries with the settings the index was built with', async () => {
+    const built = parseAnalysisSettings({
+      analyzers: { plain: { tokenizer: { type: 'standard' }, filters: [{ type: 'lowercase' }] } },
+      search: 'plain',
+      fields: { title: 'plain', body: 'plain' },
+    });
+    const saved = createComponents();
+    await saved.indexer.load();
+    saved.indexer.setAnalysisSettings(built);
+    saved.indexer.indexDocument(
+      new TextProcessor({ analysis: built }).processDocument(createDocument('d0'))
+    );
+    await persistState(saved);
+
+    const textProcessor = new TextProcessor();
+    const restored = createComponents();
+    await restoreState(restored, textProcessor);
+    expect(textProcessor.getAnalysisSettings()).toEqual(built);
+    await restored.indexer.close();
+  });
+
+  it('saves the other components when one fails', async () => {
+    const components = createComponents('');
+    await components.indexer.load();
+    expect(await persistState(components)).toEqual(['autocomplete']);
+    await expect(fs.access(path.join(dir, 'index.bin'))).resolves.toBeUndefined();
+  });
+});
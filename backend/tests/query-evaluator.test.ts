@@ -0,0 +1,120 @@
+import { Indexer } from '../src/services/indexer';
+import { QueryEvaluator } from '../src/services/query-evaluator';
+import { QueryParser } from '../src/services/query-parser';
+import { QueryExpansionError } from '../src/models/query';
+import { TextProcessor } from '../src/services/text-processor';
+import { createDocument } from './helpers';
+
+describe('QueryEvaluator', () => {
+  const parser = new QueryParser();
+  let indexer: Indexer;
+  let textProcessor: TextProcessor;
+  let evaluator: QueryEvaluator;
+
+  beforeEach(() => {
+    indexer = new Indexer();
+    textProcessor = new TextProcessor();
+    evaluator = new QueryEvaluator(indexer, textProcessor);
+
+    for (const [id, title, content] of [
+      ['d1', 'Rust web servers', 'async networking in rust'],
+      ['d2', 'Go web servers', 'goroutines and channels'],
+      ['d3', 'Rust game engines', 'bevy is a rust game engine'],
+      ['d4', 'Python notebooks', 'data science tooling'],
+    ]) {
+      indexer.indexDocument(textProcessor.processDocument(createDocument(id, { title, content })));
+    }
+  });
+
+  /**
+   * Evaluates a query string
+   * @returns Matching docIds, sorted
+   */
+  function search(query: string): string[] {
+    return Array.from(evaluator.evaluate(parser.parse(query))).sort();
+  }
+
+  it('matches any term under OR and every term under AND', () => {
+    expect(search('rust OR python')).toEqual(['d1', 'd3', 'd4']);
+    expect(search('rust AND web')).toEqual(['d1']);
+  });
+
+  it('matches stemmed forms of the query words', () => {
+    expect(search('server')).toEqual(['d1', 'd2']);
+  });
+
+  it('excludes negated clauses', () => {
+    expect(search('rust -game')).toEqual(['d1']);
+    expect(search('(rust OR go) AND web NOT async')).toEqual(['d2']);
+  });
+
+  it('matches every document but the excluded ones for a lone NOT', () => {
+    expect(search('NOT web')).toEqual(['d3', 'd4']);
+  });
+
+  it('matches phrases in order, within their slop', () => {
+    expect(search('"web servers"')).toEqual(['d1', 'd2']);
+    expect(search('"servers web"')).toEqual([]);
+    expect(search('"rust engine"')).toEqual([]);
+    expect(search('"rust engine"~1')).toEqual(['d3']);
+    expect(search('rust -"game engine"')).toEqual(['d1']);
+  });
+
+  it('matches fuzzy terms within their edit distance', () => {
+    expect(search('rsut')).toEqual([]);
+    expect(search('rsut~1')).toEqual(['d1', 'd3']);
+    expect(search('pyton~1 OR gme~1')).toEqual(['d3', 'd4']);
+    expect(search('rust -gme~1')).toEqual(['d1']);
+  });
+
+  it('expands wildcard patterns against indexed terms', () => {
+    expect(search('noteb*')).toEqual(['d4']);
+    expect(search('ga?e')).toEqual(['d3']);
+    expect(search('title:serv* -go*')).toEqual(['d1']);
+  });
+
+  it('rejects wildcard terms matching too many index terms', () => {
+    evaluator = new QueryEvaluator(indexer, textProcessor, { maxWildcardExpansions: 2 });
+    expect(search('go*')).toEqual(['d2']);
+
+    const error = (() => {
+      try {
+        search('rust OR *n*');
+      } catch (error) {
+        return error;
+      }
+    })();
+    expect(error).toBeInstanceOf(QueryExpansionError);
+    expect(error).toMatchObject({ position: 8, limit: 2 });
+  });
+
+  it('ignores words that analyze to nothing', () => {
+    expect(search('the AND rust')).toEqual(['d1', 'd3']);
+  });
+
+  describe('fields', () => {
+    beforeEach(() => {
+      const doc = createDocument('d5', {
+        title: 'Bevy tips',
+        content: 'written in rust',
+        author: 'Ferris',
+        subreddit: 'gamedev',
+        type: 'comment',
+      });
+      indexer.indexDocument(textProcessor.processDocument(doc));
+    });
+
+    it('restricts words and phrases to a text field', () => {
+      expect(search('title:rust')).toEqual(['d1', 'd3']);
+      expect(search('body:rust')).toEqual(['d1', 'd3', 'd5']);
+      expect(search('title:"web servers" -title:go')).toEqual(['d1']);
+    });
+
+    it('matches keyword fields exactly, ignoring case and Reddit prefixes', () => {
+      expect(search('subreddit:r/GameDev')).toEqual(['d5']);
+      expect(search('author:u/ferris')).toEqual(['d5']);
+      expect(search('author:ferr')).toEqual([]);
+      expect(search('type:comment OR subreddit:(nothing OR gamedev)')).toEqual(['d5']);
+    });
+  });
+});
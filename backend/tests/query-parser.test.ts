@@ -0,0 +1,175 @@
+import { QueryParser } from '../src/services/query-parser';
+import { QueryParseError } from '../src/models/query';
+
+describe('QueryParser', () => {
+  const parser = new QueryParser();
+
+  it('joins adjacent terms with the default operator', () => {
+    expect(parser.parse('rust async')).toEqual({
+      type: 'or',
+      children: [
+        { type: 'term', text: 'rust', position: 0 },
+        { type: 'term', text: 'async', position: 5 },
+      ],
+    });
+    expect(new QueryParser({ defaultOperator: 'AND' }).parse('rust async').type).toBe('and');
+  });
+
+  it('binds AND tighter than OR', () => {
+    expect(parser.parse('rust OR go AND web')).toEqual({
+      type: 'or',
+      children: [
+        { type: 'term', text: 'rust', position: 0 },
+        {
+          type: 'and',
+          children: [
+            { type: 'term', text: 'go', position: 8 },
+            { type: 'term', text: 'web', position: 15 },
+          ],
+        },
+      ],
+    });
+  });
+
+  it('groups clauses in parentheses', () => {
+    expect(parser.parse('(rust OR go) AND web')).toEqual({
+      type: 'and',
+      children: [
+        {
+          type: 'or',
+          children: [
+            { type: 'term', text: 'rust', position: 1 },
+            { type: 'term', text: 'go', position: 9 },
+          ],
+        },
+        { type: 'term', text: 'web', position: 17 },
+      ],
+    });
+  });
+
+  it('applies negated clauses as exclusions under the OR default', () => {
+    expect(parser.parse('rust -game')).toEqual({
+      type: 'and',
+      children: [
+        { type: 'term', text: 'rust', position: 0 },
+        { type: 'not', child: { type: 'term', text: 'game', position: 6 } },
+      ],
+    });
+    expect(parser.parse('NOT game')).toEqual({
+      type: 'not',
+      child: { type: 'term', text: 'game', position: 4 },
+    });
+  });
+
+  it('treats lower case operators as words', () => {
+    expect(parser.parse('rock and roll')).toEqual({
+      type: 'or',
+      children: [
+        { type: 'term', text: 'rock', position: 0 },
+        { type: 'term', text: 'and', position: 5 },
+        { type: 'term', text: 'roll', position: 9 },
+      ],
+    });
+  });
+
+  it('parses phrases with slop', () => {
+    expect(parser.parse('"memory safety"~2 rust')).toEqual({
+      type: 'or',
+      children: [
+        { type: 'phrase', text: 'memory safety', slop: 2, position: 0 },
+        { type: 'term', text: 'rust', position: 18 },
+      ],
+    });
+    expect(parser.parse('-"memory leak"')).toEqual({
+      type: 'not',
+      child: { type: 'phrase', text: 'memory leak', slop: 0, position: 1 },
+    });
+  });
+
+  it('parses fuzzy terms with an optional edit distance', () => {
+    expect(parser.parse('kubernetes~1 dockr~')).toEqual({
+      type: 'or',
+      children: [
+        { type: 'term', text: 'kubernetes', position: 0, fuzziness: 1 },
+        { type: 'term', text: 'dockr', position: 13, fuzziness: 2 },
+      ],
+    });
+    expect(parser.parse('rust~0')).toEqual({ type: 'term', text: 'rust', position: 0 });
+  });
+
+  it('parses wildcard patterns as terms without a fuzzy suffix', () => {
+    expect(parser.parse('react* type?cript~')).toEqual({
+      type: 'or',
+      children: [
+        { type: 'term', text: 'react*', position: 0, wildcard: true },
+        { type: 'term', text: 'type?cript~', position: 7, wildcard: true },
+      ],
+    });
+  });
+
+  it('parses exact words and phrases', () => {
+    expect(parser.parse('=testing +"unit tests" a=b')).toEqual({
+      type: 'or',
+      children: [
+        { type: 'term', text: 'testing', position: 1, exact: true },
+        { type: 'phrase', text: 'unit tests', slop: 0, position: 10, exact: true },
+        { type: 'term', text: 'a=b', position: 23 },
+      ],
+    });
+  });
+
+  it('scopes a field prefix to the group that follows it', () => {
+    expect(parser.parse('subreddit:(rust OR golang) async')).toEqual({
+      type: 'or',
+      children: [
+        {
+          type: 'or',
+          children: [
+            { type: 'term', text: 'rust', position: 11, field: 'subreddit' },
+            { type: 'term', text: 'golang', position: 19, field: 'subreddit' },
+          ],
+        },
+        { type: 'term', text: 'async', position: 27 },
+      ],
+    });
+    expect(parser.parse('Title:"rust book"')).toEqual({
+      type: 'phrase',
+      text: 'rust book',
+      slop: 0,
+      position: 6,
+      field: 'title',
+    });
+  });
+
+  /**
+   * Gets the error a query fails to parse with
+   */
+  function parseError(query: string): QueryParseError {
+    try {
+      parser.parse(query);
+    } catch (error) {
+      return error as QueryParseError;
+    }
+    throw new Error(`"${query}" was parsed`);
+  }
+
+  it.each([
+    ['', 'Query must contain at least one term', 0],
+    ['rust AND', 'Expected a term after "AND"', 5],
+    ['(rust', 'Missing closing parenthesis', 0],
+    ['()', 'Empty parentheses', 0],
+    ['rust)', 'Unexpected ")"', 4],
+    ['rust OR OR go', 'Unexpected operator "OR"', 8],
+    ['"memory leak', 'Unterminated phrase', 0],
+    ['"memory leak"~', 'Expected a number after "~"', 13],
+    ['rust~3', 'Edit distance must be at most 2', 4],
+    ['=rust*', 'Exact terms cannot be fuzzy or wildcard patterns', 0],
+    ['title:', 'Expected a value after "title:"', 6],
+    ['title:-rust', 'Expected a value after "title:"', 6],
+  ])('rejects %p', (query, message, position) => {
+    const error = parseError(query);
+    expect(error).toBeInstanceOf(QueryParseError);
+    expect(error.message).toBe(message);
+    expect(error.position).toBe(position);
+  });
+});
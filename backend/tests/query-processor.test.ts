@@ -0,0 +1,459 @@
+import { DocumentStore } from '../src/services/document-store';
+import { Indexer } from '../src/services/indexer';
+import { QueryProcessor } from '../src/services/query-processor';
+import { Ranker } from '../src/services/ranker';
+import { SpellingCorrector } from '../src/services/spelling-corrector';
+import { SynonymService } from '../src/services/synonyms';
+import { SearchFilters } from '../src/services/search-filters';
+import { TextProcessor } from '../src/services/text-processor';
+import { Document } from '../src/models/document';
+import { createDocument } from './helpers';
+
+describe('QueryProcessor', () => {
+  let indexer: Indexer;
+  let documentStore: DocumentStore;
+  let textProcessor: TextProcessor;
+  let queryProcessor: QueryProcessor;
+
+  beforeEach(() => {
+    indexer = new Indexer();
+    documentStore = new DocumentStore();
+    textProcessor = new TextProcessor();
+    const ranker = new Ranker({ algorithm: 'bm25' }, indexer, documentStore);
+    queryProcessor = new QueryProcessor(
+      { enableCache: false },
+      textProcessor,
+      indexer,
+      ranker,
+      documentStore
+    );
+  });
+
+  async function add(docs: Document[]): Promise<void> {
+    for (const doc of docs) {
+      await documentStore.store(doc);
+      indexer.indexDocument(textProcessor.processDocument(doc));
+    }
+  }
+
+  /**
+   * Searches and gets the docIds of the first page, best first
+   */
+  function search(query: string): string[] {
+    return queryProcessor.processQuery(query).results.map((result) => result.docId);
+  }
+
+  describe('phrases', () => {
+    it('ranks tight phrase matches above scattered ones', async () => {
+      await add([
+        createDocument('scattered', { title: 'Post', content: 'memory use grew until a leak' }),
+        createDocument('tight', { title: 'Post', content: 'memory leak until use grew' }),
+        createDocument('other', { title: 'Post', content: 'unrelated' }),
+      ]);
+
+      expect(search('"memory leak"~5')).toEqual(['tight', 'scattered']);
+      expect(search('"memory leak"')).toEqual(['tight']);
+    });
+  });
+
+  describe('programming terms', () => {
+    beforeEach(async () => {
+      await add([
+        createDocument('dotted', { title: 'Post', content: 'Notes on `node.js` streams' }),
+        createDocument('joined', { title: 'Nodejs tutorial' }),
+        createDocument('spaced', { title: 'Post', content: 'a node js tutorial' }),
+        createDocument('node', { title: 'Post', content: 'a graph node' }),
+        createDocument('cpp', { title: 'Modern C++', content: 'templates' }),
+        createDocument('c', { title: 'Modern C', content: 'pointers' }),
+      ]);
+    });
+
+    it('matches a compound written whole, joined or as separate words', () => {
+      expect(search('node.js').sort()).toEqual(['dotted', 'joined', 'spaced']);
+      expect(search('c++')).toEqual(['cpp']);
+    });
+
+    it('matches phrases containing compounds', () => {
+      expect(search('"node.js tutorial"')).toEqual(['spaced']);
+      expect(search('"node.js streams"')).toEqual(['dotted']);
+    });
+  });
+
+  describe('fuzzy terms', () => {
+    beforeEach(async () => {
+      await add([
+        createDocument('exact', { title: 'Post', content: 'kubernetes cluster' }),
+        createDocument('typo', { title: 'Post', content: 'kubernetis cluster' }),
+        createDocument('other', { title: 'Post', content: 'unrelated' }),
+      ]);
+    });
+
+    it('ranks exact matches above fuzzy expansions', () => {
+      expect(search('kubernetes')).toEqual(['exact']);
+      expect(search('kubernetes~1')).toEqual(['exact', 'typo']);
+    });
+
+    it('makes every word fuzzy with the fuzzy flag', () => {
+      const results = queryProcessor.processQuery('kubernetis', 1, 10, undefined, { fuzzy: true });
+      expect(results.results.map((result) => result.docId)).toEqual(['typo', 'exact']);
+    });
+  });
+
+  describe('exact forms', () => {
+    beforeEach(async () => {
+      await add([
+        createDocument('tests', { title: 'Post', content: 'unit tests for the parser' }),
+        createDocument('testing', { title: 'Post', content: 'unit testing for the parser' }),
+        createDocument('other1', { title: 'Post', content: 'garbage collection' }),
+        createDocument('other2', { title: 'Post', content: 'memory layout' }),
+        createDocument('other3', { title: 'Post', content: 'build scripts' }),
+      ]);
+    });
+
+    it('ranks documents containing the words as typed first', () => {
+      expect(search('testing')).toEqual(['testing', 'tests']);
+      expect(search('tests')).toEqual(['tests', 'testing']);
+    });
+
+    it('matches words and phrases as written', () => {
+      expect(search('=testing')).toEqual(['testing']);
+      expect(search('+"unit tests"')).toEqual(['tests']);
+      expect(search('"unit tests"').sort()).toEqual(['testing', 'tests']);
+    });
+  });
+
+  describe('languages', () => {
+    beforeEach(async () => {
+      await add([
+        createDocument('de', {
+          title: 'Häuser',
+          content: 'Ich habe die Häuser und die Gärten gesehen',
+        }),
+        createDocument('en', {
+          title: 'Houses',
+          content: 'I have seen the houses and the gardens',
+        }),
+        createDocument('cafe', { title: 'Post', content: 'The best café in town' }),
+        createDocument('ja', { title: '東京都の天気', content: '今日は晴れ' }),
+      ]);
+    });
+
+    it('analyzes documents in their language and returns it', () => {
+      const [result] = queryProcessor.processQuery('gärten', 1, 10, { language: 'de' }).results;
+      expect(result.docId).toBe('de');
+      expect(result.metadata.language).toBe('de');
+      expect(queryProcessor.processQuery('Haus', 1, 10, { language: 'de' }).results).toHaveLength(
+        1
+      );
+      expect(search('language:de')).toEqual(['de']);
+    });
+
+    it('folds accents and finds CJK words inside longer text', () => {
+      expect(search('cafe')).toEqual(['cafe']);
+      expect(search('CAFÉ')).toEqual(['cafe']);
+      expect(search('東京')).toEqual(['ja']);
+      expect(search('京都')).toEqual(['ja']);
+    });
+  });
+
+  describe('filters', () => {
+    beforeEach(async () => {
+      await add([
+        createDocument('d1', {
+          content: 'rust',
+          subreddit: 'rust',
+          author: 'ferris',
+          redditScore: 5,
+        }),
+        createDocument('d2', {
+          content: 'rust',
+          subreddit: 'rust',
+          author: 'bot',
+          redditScore: 50,
+        }),
+        createDocument('d3', {
+          content: 'rust',
+          subreddit: 'programming',
+          type: 'comment',
+          redditScore: 500,
+          createdUtc: new Date('2026-02-01T00:00:00Z'),
+        }),
+        createDocument('d4', { content: 'rust', subreddit: 'golang', commentCount: 20 }),
+      ]);
+    });
+
+    /**
+     * Searches for "rust" with filters and gets the matching docIds, sorted
+     */
+    function filter(filters: SearchFilters): string[] {
+      return queryProcessor
+        .processQuery('rust', 1, 10, filters)
+        .results.map((result) => result.docId)
+        .sort();
+    }
+
+    it('matches any of several values and none of the excluded ones', () => {
+      expect(filter({ subreddits: ['r/Rust', 'golang'] })).toEqual(['d1', 'd2', 'd4']);
+      expect(filter({ subreddits: ['rust'], excludeAuthors: ['bot'] })).toEqual(['d1']);
+      expect(filter({ excludeSubreddits: ['rust', 'golang'] })).toEqual(['d3']);
+      expect(filter({ type: 'comment' })).toEqual(['d3']);
+    });
+
+    it('applies inclusive numeric and date ranges', () => {
+      expect(filter({ minRedditScore: 50 })).toEqual(['d2', 'd3']);
+      expect(filter({ minRedditScore: 5, maxRedditScore: 10 })).toEqual(['d1', 'd4']);
+      expect(filter({ minCommentCount: 1 })).toEqual(['d4']);
+      expect(filter({ dateFrom: new Date('2026-02-01T00:00:00Z') })).toEqual(['d3']);
+      expect(filter({ dateTo: new Date('2026-01-31T00:00:00Z') })).toEqual(['d1', 'd2', 'd4']);
+    });
+
+    it("counts a terms facet without the facet's own filter", () => {
+      const results = queryProcessor.processQuery(
+        'rust',
+        1,
+        10,
+        { subreddits: ['rust'], excludeAuthors: ['bot'], maxRedditScore: 100 },
+        { facets: { subreddit: {}, author: {} } }
+      );
+      expect(results.totalCount).toBe(1);
+      expect(results.facets!.subreddit!.buckets).toEqual([
+        { value: 'golang', count: 1 },
+        { value: 'rust', count: 1 },
+      ]);
+      expect(results.facets!.author!.buckets).toEqual([{ value: 'ferris', count: 1 }]);
+    });
+  });
+
+  describe('facets', () => {
+    it('counts facets over every match, not only the page', async () => {
+      await add([
+        createDocument('d1', { content: 'rust', subreddit: 'rust' }),
+        createDocument('d2', { content: 'rust', subreddit: 'rust' }),
+        createDocument('d3', { content: 'rust', subreddit: 'programming' }),
+        createDocument('d4', { content: 'python', subreddit: 'python' }),
+      ]);
+
+      const results = queryProcessor.processQuery('rust', 1, 1, undefined, {
+        facets: { subreddit: {} },
+      });
+      expect(results.results).toHaveLength(1);
+      expect(results.facets).toEqual({
+        subreddit: {
+          buckets: [
+            { value: 'rust', count: 2 },
+            { value: 'programming', count: 1 },
+          ],
+          otherCount: 0,
+        },
+      });
+      expect(queryProcessor.processQuery('rust').facets).toBeUndefined();
+    });
+  });
+
+  describe('explain', () => {
+    beforeEach(async () => {
+      await add([
+        createDocument('d1', { title: 'Rust memory safety', content: 'the borrow checker' }),
+        createDocument('d2', {
+          title: 'Memory leaks',
+          content: 'in rust programs',
+          redditScore: 500,
+        }),
+        createDocument('d3', { title: 'Go', content: 'garbage collection', commentCount: 40 }),
+      ]);
+    });
+
+    it.each(['bm25f', 'bm25', 'tfidf'] as const)(
+      'explains the exact %s score of every result',
+      (algorithm) => {
+        queryProcessor = new QueryProcessor(
+          { enableCache: false },
+          textProcessor,
+          indexer,
+          new Ranker({ algorithm }, indexer, documentStore),
+          documentStore
+        );
+
+        const { results } = queryProcessor.processQuery(
+          '"memory safety" rust~1 OR garbage',
+          1,
+          10,
+          undefined,
+          {
+            explain: true,
+          }
+        );
+        expect(results).toHaveLength(3);
+        for (const result of results) {
+          expect(result.explanation!.value).toBeCloseTo(result.score, 10);
+        }
+      }
+    );
+
+    it('explains documents that do not match', () => {
+      const explained = queryProcessor.explain('rust', 'd3');
+      expect(explained).toMatchObject({ query: 'rust', docId: 'd3', matched: false });
+      expect(queryProcessor.explain('rust', 'd1')!.matched).toBe(true);
+      expect(queryProcessor.explain('rust', 'missing')).toBeUndefined();
+    });
+  });
+
+  describe('estimated counts', () => {
+    beforeEach(async () => {
+      await add([
+        createDocument('d1', { title: 'Post', content: 'the router supports wi-fi' }),
+        createDocument('d2', { title: 'Post', content: 'hi-fi speakers' }),
+        createDocument('d3', { title: 'Post', content: 'rust compiler' }),
+      ]);
+    });
+
+    /**
+     * Searches with or without exact total counts
+     */
+    function count(query: string, exactTotalCount: boolean) {
+      const { results, totalCount, totalCountEstimated } = queryProcessor.processQuery(
+        query,
+        1,
+        10,
+        undefined,
+        { exactTotalCount }
+      );
+      return { docIds: results.map((result) => result.docId), totalCount, totalCountEstimated };
+    }
+
+    it('estimates the count of a disjunction of terms', () => {
+      const estimated = count('speakers OR compiler', false);
+      expect(estimated.totalCountEstimated).toBe(true);
+      expect(estimated.docIds.sort()).toEqual(count('speakers OR compiler', true).docIds.sort());
+    });
+
+    it('counts exactly when a word analyzes to several stems, which are all required', () => {
+      const estimated = count('wi-fi', false);
+      expect(estimated.totalCountEstimated).toBeFalsy();
+      expect(estimated.docIds).toEqual(['d1']);
+      expect(estimated).toEqual(count('wi-fi', true));
+    });
+  });
+
+  describe('highlighting', () => {
+    it('returns highlights with the requested fragments and a plain text snippet', async () => {
+      const filler = 'lorem ipsum dolor sit amet '.repeat(4);
+      await add([
+        createDocument('d1', { title: 'Rust tips', content: `${filler}use rust daily. ${filler}` }),
+      ]);
+
+      const [result] = queryProcessor.processQuery('rust', 1, 10, undefined, {
+        highlight: { numberOfFragments: 1, fragmentSize: 30 },
+      }).results;
+      expect(result.highlight.title.ranges).toEqual([{ start: 0, end: 4 }]);
+      expect(result.highlight.body).toHaveLength(1);
+      expect(result.snippet).toContain('rust');
+      expect(result.snippet.startsWith('...')).toBe(true);
+    });
+  });
+
+  describe('similar documents', () => {
+    beforeEach(async () => {
+      await add([
+        createDocument('source', { content: 'tokio runtime internals' }),
+        createDocument('both', { content: 'tokio runtime', subreddit: 'rust' }),
+        createDocument('one', { content: 'python runtime', subreddit: 'python' }),
+        createDocument('other', { content: 'internals' }),
+        createDocument('none', { content: 'garbage collection' }),
+        createDocument('filler', { content: 'memory layout' }),
+      ]);
+    });
+
+    it('ranks documents sharing more of the heavily weighted terms first, without the source', () => {
+      const similar = queryProcessor.findSimilar('source')!;
+      expect(similar.terms.length).toBeGreaterThan(0);
+      const docIds = similar.results.map((result) => result.docId);
+      expect(docIds[0]).toBe('both');
+      expect(docIds).not.toContain('source');
+      expect(docIds).not.toContain('none');
+    });
+
+    it('limits and restricts the results', () => {
+      expect(queryProcessor.findSimilar('source', { limit: 1 })!.results).toHaveLength(1);
+      expect(
+        queryProcessor.findSimilar('source', { subreddit: 'r/Python' })!.results.map((r) => r.docId)
+      ).toEqual(['one']);
+      expect(queryProcessor.findSimilar('missing')).toBeUndefined();
+    });
+  });
+
+  describe('spelling suggestions', () => {
+    beforeEach(async () => {
+      await add([
+        createDocument('d1', { title: 'Python tips', content: 'virtual environments' }),
+        createDocument('d2', { title: 'Rust tips', content: 'borrow checker' }),
+      ]);
+      queryProcessor = new QueryProcessor(
+        { enableCache: false },
+        textProcessor,
+        indexer,
+        new Ranker({}, indexer, documentStore),
+        documentStore,
+        undefined,
+        new SpellingCorrector({}, indexer, textProcessor)
+      );
+    });
+
+    it('suggests a correction alongside the results of the query', () => {
+      const results = queryProcessor.processQuery('pyhton tips');
+      expect(results.suggestion).toBe('python tips');
+      expect(results.autoCorrected).toBeUndefined();
+      expect(results.totalCount).toBe(2);
+    });
+
+    it('runs the correction instead when the query finds nothing and auto-correction is on', () => {
+      const results = queryProcessor.processQuery('pyhton', 1, 10, undefined, {
+        autoCorrect: true,
+      });
+      expect(results).toMatchObject({ suggestion: 'python', autoCorrected: true, totalCount: 1 });
+      expect(results.results[0].docId).toBe('d1');
+
+      const uncorrected = queryProcessor.processQuery('pyhton');
+      expect(uncorrected).toMatchObject({ suggestion: 'python', totalCount: 0 });
+    });
+  });
+
+  describe('synonyms', () => {
+    beforeEach(async () => {
+      await add([
+        createDocument('js', { title: 'Post', content: 'js bundlers' }),
+        createDocument('javascript', { title: 'Post', content: 'javascript bundlers' }),
+        createDocument('ml', { title: 'Post', content: 'ml models' }),
+        createDocument('spelledOut', { title: 'Post', content: 'machine learning models' }),
+        createDocument('other', { title: 'Post', content: 'unrelated' }),
+      ]);
+      const synonyms = new SynonymService({}, textProcessor);
+      synonyms.loadRules('js, javascript\nml, machine learning\nk8s => kubernetes');
+      queryProcessor = new QueryProcessor(
+        { enableCache: false },
+        textProcessor,
+        indexer,
+        new Ranker({ algorithm: 'bm25' }, indexer, documentStore),
+        documentStore,
+        undefined,
+        undefined,
+        synonyms
+      );
+    });
+
+    it('finds synonyms of the typed words, ranking the typed form first', () => {
+      expect(search('js')).toEqual(['js', 'javascript']);
+      expect(search('javascript')).toEqual(['javascript', 'js']);
+    });
+
+    it('searches multi-word synonyms as phrases', () => {
+      expect(search('ml').sort()).toEqual(['ml', 'spelledOut']);
+      expect(search('"machine learning"').sort()).toEqual(['ml', 'spelledOut']);
+      expect(search('learning machine')).toEqual(['spelledOut']);
+    });
+
+    it('excludes the synonyms of negated words', () => {
+      expect(search('bundlers -js')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,119 @@
+import { DocumentStore } from '../src/services/document-store';
+import { Indexer } from '../src/services/indexer';
+import { Ranker, RankingConfig } from '../src/services/ranker';
+import { TextProcessor } from '../src/services/text-processor';
+import { createDocument } from './helpers';
+
+describe('Ranker', () => {
+  let indexer: Indexer;
+  let documentStore: DocumentStore;
+
+  beforeEach(async () => {
+    indexer = new Indexer();
+    documentStore = new DocumentStore();
+    const textProcessor = new TextProcessor();
+
+    // Every title is one word and every body two, so the average field lengths are 1 and 2
+    for (const [id, title, content] of [
+      ['inTitle', 'rust', 'cargo crates'],
+      ['inBody', 'cargo', 'rust crates'],
+      ['neither', 'python', 'pip wheels'],
+    ]) {
+      const doc = createDocument(id, { title, content });
+      await documentStore.store(doc);
+      indexer.indexDocument(textProcessor.processDocument(doc));
+    }
+  });
+
+  function createRanker(config: RankingConfig = {}): Ranker {
+    return new Ranker(config, indexer, documentStore);
+  }
+
+  describe('BM25F', () => {
+    it('normalizes and boosts each field before saturating the term frequency', () => {
+      const ranker = createRanker();
+      const idf = Math.log(3 / 2);
+
+      // title: boost 2.5, length 1 of average 1; saturation with k1 = 1.5
+      expect(ranker.calculateBM25F(['rust'], 'inTitle')).toBeCloseTo((idf * 2.5 * 2.5) / 4);
+      // body: boost 1, length 2 of average 2
+      expect(ranker.calculateBM25F(['rust'], 'inBody')).toBeCloseTo(idf);
+      expect(ranker.calculateBM25F(['rust'], 'neither')).toBe(0);
+    });
+
+    it('ranks title matches first with the default boosts', () => {
+      const ranked = createRanker().rankDocuments(['rust'], ['inBody', 'inTitle']);
+      expect(ranked.map((doc) => doc.docId)).toEqual(['inTitle', 'inBody']);
+    });
+
+    it('follows configured field boosts', () => {
+      const ranked = createRanker({ fieldBoosts: { title: 0.2 } }).rankDocuments(
+        ['rust'],
+        ['inBody', 'inTitle']
+      );
+      expect(ranked.map((doc) => doc.docId)).toEqual(['inBody', 'inTitle']);
+    });
+  });
+
+  describe('BM25', () => {
+    it('scores shorter documents higher for the same term frequency', async () => {
+      const doc = createDocument('long', {
+        title: 'rust',
+        content: 'cargo crates and many more words',
+      });
+      await documentStore.store(doc);
+      indexer.indexDocument(new TextProcessor().processDocument(doc));
+
+      const ranker = createRanker({ algorithm: 'bm25' });
+      expect(ranker.calculateBM25(['rust'], 'inTitle')).toBeGreaterThan(
+        ranker.calculateBM25(['rust'], 'long')
+      );
+    });
+  });
+
+  describe('term weights', () => {
+    it('weights fuzzy expansions by fuzzyTermWeight per edit', () => {
+      const weights = createRanker({ fuzzyTermWeight: 0.4 }).calculateTermWeights(
+        new Map([
+          ['rust', { kind: 'fuzzy', distance: 0 }],
+          ['bust', { kind: 'fuzzy', distance: 1 }],
+          ['best', { kind: 'fuzzy', distance: 2 }],
+          ['rusty', { kind: 'wildcard' }],
+        ])
+      );
+      expect(weights.get('rusty')).toBe(0.8);
+      expect(weights.get('rust')).toBe(1);
+      expect(weights.get('bust')).toBeCloseTo(0.4);
+      expect(weights.get('best')).toBeCloseTo(0.16);
+    });
+  });
+
+  describe('top k', () => {
+    it('returns the same documents as ranking every match', async () => {
+      const textProcessor = new TextProcessor();
+      const words = ['rust', 'cargo', 'crates', 'async', 'tokio'];
+      for (let i = 0; i < 40; i++) {
+        const doc = createDocument(`d${i}`, {
+          title: words[i % 5],
+          content: words.filter((_, w) => (i + w) % (w + 2) === 0).join(' '),
+          redditScore: (i * 37) % 100,
+          commentCount: i % 7,
+        });
+        await documentStore.store(doc);
+        indexer.indexDocument(textProcessor.processDocument(doc));
+      }
+
+      const ranker = createRanker();
+      const queryTerms = ['rust', 'tokio', 'crate'];
+      const all = ranker.rankDocuments(queryTerms, indexer.getAllDocumentIds());
+      const matching = all.filter((doc) =>
+        queryTerms.some((term) => indexer.getPosting(term, doc.docId))
+      );
+      const { documents } = ranker.rankTopK(queryTerms, 5);
+
+      expect(documents.map((doc) => doc.docId)).toEqual(
+        matching.slice(0, 5).map((doc) => doc.docId)
+      );
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import { AnalysisSettings } from '../src/models/analysis';
+import { DocumentStore } from '../src/services/document-store';
+import { Indexer } from '../src/services/indexer';
+import { ReindexError, ReindexService } from '../src/services/reindex';
+import { TextProcessor } from '../src/services/text-processor';
+import { createDocument } from './helpers';
+
+/**
+ * Analysis without stemming, so the terms show which index is live
+ */
+const UNSTEMMED: AnalysisSettings = {
+  analyzers: {
+    plain: { tokenizer: { type: 'standard' }, filters: [{ type: 'lowercase' }] },
+  },
+  fields: { title: 'plain', body: 'plain' },
+  search: 'plain',
+};
+
+describe('ReindexService', () => {
+  let indexer: Indexer;
+  let documentStore: DocumentStore;
+  let textProcessor: TextProcessor;
+  let reindex: ReindexService;
+
+  beforeEach(async () => {
+    indexer = new Indexer({ backgroundMerge: false });
+    documentStore = new DocumentStore();
+    textProcessor = new TextProcessor();
+    reindex = new ReindexService({ batchSize: 2 }, indexer, documentStore, textProcessor);
+
+    for (let i = 0; i < 5; i++) {
+      const doc = createDocument(`d${i}`, { content: 'borrow checkers' });
+      await documentStore.store(doc);
+      indexer.indexDocument(textProcessor.processDocument(doc));
+    }
+  });
+
+  it('swaps in an index built with the new analysis settings', async () => {
+    await reindex.start(UNSTEMMED);
+    await reindex.waitForCompletion();
+
+    expect(reindex.getStatus()).toMatchObject({
+      state: 'completed',
+      processed: 5,
+      total: 5,
+      documents: 5,
+      previousDocuments: 5,
+      analysisChanged: true,
+      canRollback: true,
+    });
+    expect(indexer.getDocumentFrequency('checkers')).toBe(5);
+    expect(indexer.getDocumentFrequency('checker')).toBe(0);
+    expect(textProcessor.getAnalysisSettings()).toEqual(UNSTEMMED);
+  });
+
+  it('catches up with documents stored and removed while it builds', async () => {
+    await reindex.start(UNSTEMMED);
+    const added = createDocument('d9', { content: 'late arrival' });
+    await documentStore.store(added);
+    indexer.indexDocument(textProcessor.processDocument(added));
+    await documentStore.delete('d0');
+    indexer.removeDocument('d0');
+    await reindex.waitForCompletion();
+
+    expect(reindex.getStatus().state).toBe('completed');
+    expect(indexer.getAllDocumentIds().sort()).toEqual(['d1', 'd2', 'd3', 'd4', 'd9']);
+    expect(() => indexer.validate()).not.toThrow();
+  });
+
+  it('indexes documents re-indexed while it builds again', async () => {
+    const indexId = indexer.getIndexId();
+    await reindex.start(UNSTEMMED);
+    await documentStore.update('d1', { content: 'garbage collectors' });
+    indexer.indexDocument(textProcessor.processDocument(documentStore.getById('d1')!));
+    await reindex.waitForCompletion();
+
+    expect(reindex.getStatus().state).toBe('completed');
+    expect(indexer.getDocumentFrequency('checkers')).toBe(4);
+    expect(indexer.getDocumentFrequency('collectors')).toBe(1);
+    expect(indexer.getIndexId()).not.toBe(indexId);
+  });
+
+  it('refuses to start while a reindex is running', async () => {
+    await reindex.start(UNSTEMMED);
+    await expect(reindex.start(UNSTEMMED)).rejects.toMatchObject({
+      code: 'REINDEX_IN_PROGRESS',
+    });
+    await reindex.waitForCompletion();
+  });
+
+  it('rolls back to the replaced index, including changes made since', async () => {
+    const previous = textProcessor.getAnalysisSettings();
+    await reindex.start(UNSTEMMED);
+    await reindex.waitForCompletion();
+    const added = createDocument('d9', { content: 'more checkers' });
+    await documentStore.store(added);
+    indexer.indexDocument(textProcessor.processDocument(added));
+
+    expect(reindex.rollback().state).toBe('rolled-back');
+    expect(indexer.getDocumentFrequency('checker')).toBe(6);
+    expect(textProcessor.getAnalysisSettings()).toEqual(previous);
+    expect(() => reindex.rollback()).toThrow(ReindexError);
+    expect(reindex.getStatus().canRollback).toBe(false);
+  });
+
+  it('rolls back documents re-indexed since the reindex', async () => {
+    await reindex.start(UNSTEMMED);
+    await reindex.waitForCompletion();
+    await documentStore.update('d1', { content: 'garbage collectors' });
+    indexer.indexDocument(textProcessor.processDocument(documentStore.getById('d1')!));
+
+    reindex.rollback();
+    expect(indexer.getDocumentFrequency('checker')).toBe(4);
+    expect(indexer.getDocumentFrequency('collector')).toBe(1);
+  });
+});
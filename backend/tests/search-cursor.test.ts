@@ -0,0 +1,220 @@
+import { DocumentStore } from '../src/services/document-store';
+import { Indexer } from '../src/services/indexer';
+import { QueryProcessor, SearchOptions } from '../src/services/query-processor';
+import { Ranker } from '../src/services/ranker';
+import {
+  SearchCursor,
+  SearchCursorError,
+  decodeCursor,
+  encodeCursor,
+  isAfterCursor,
+} from '../src/services/search-cursor';
+import { TextProcessor } from '../src/services/text-processor';
+import { createDocument } from './helpers';
+
+describe('search cursors', () => {
+  const cursor: SearchCursor = {
+    sortBy: 'relevance',
+    sortValue: 2.5,
+    docId: 'd5',
+    indexId: 'index',
+    generation: 3,
+    asOf: 1767225600000,
+    fingerprint: 'abc',
+    statistics: {
+      totalDocuments: 10,
+      averageDocumentLength: 4.5,
+      averageFieldLengths: { title: 2, body: 2.5 },
+      documentFrequencies: { rust: 4 },
+    },
+  };
+
+  it('round-trips through the opaque string', () => {
+    expect(decodeCursor(encodeCursor(cursor))).toEqual(cursor);
+    const { statistics, ...dateCursor } = { ...cursor, sortBy: 'date' as const };
+    expect(statistics).toBeDefined();
+    expect(decodeCursor(encodeCursor(dateCursor))).toEqual(dateCursor);
+  });
+
+  it.each([
+    'not a cursor',
+    Buffer.from('[2,"relevance"]').toString('base64url'),
+    Buffer.from('[2,"relevance",1,"d1","index",1,0,"abc",{"totalDocuments":"10"}]').toString(
+      'base64url'
+    ),
+  ])('rejects the malformed cursor %p', (value) => {
+    expect(() => decodeCursor(value)).toThrow(SearchCursorError);
+  });
+
+  it('orders results by sort key descending, then docId', () => {
+    expect(isAfterCursor(cursor, 2, 'd1')).toBe(true);
+    expect(isAfterCursor(cursor, 3, 'd9')).toBe(false);
+    expect(isAfterCursor(cursor, 2.5, 'd6')).toBe(true);
+    expect(isAfterCursor(cursor, 2.5, 'd5')).toBe(false);
+    expect(isAfterCursor(cursor, 2.5, 'd4')).toBe(false);
+  });
+
+  describe('paging with QueryProcessor', () => {
+    let indexer: Indexer;
+    let documentStore: DocumentStore;
+    let textProcessor: TextProcessor;
+    let queryProcessor: QueryProcessor;
+
+    beforeEach(async () => {
+      // Small segments, so documents are sealed and merged while pages are fetched
+      indexer = new Indexer({ maxBufferDocuments: 4, mergeFactor: 2, backgroundMerge: false });
+      documentStore = new DocumentStore();
+      textProcessor = new TextProcessor();
+      const ranker = new Ranker({}, indexer, documentStore);
+      queryProcessor = new QueryProcessor(
+        { enableCache: false },
+        textProcessor,
+        indexer,
+        ranker,
+        documentStore
+      );
+
+      // Every third document has the same text, so many results tie on score and date
+      for (let i = 0; i < 25; i++) {
+        await add(
+          createDocument(`d${String(i).padStart(2, '0')}`, {
+            content: `rust ${'borrow '.repeat(i % 3)}checker`,
+            createdUtc: new Date(Date.UTC(2026, 0, 1 + (i % 4))),
+          })
+        );
+      }
+    });
+
+    async function add(doc: ReturnType<typeof createDocument>): Promise<void> {
+      await documentStore.store(doc);
+      indexer.indexDocument(textProcessor.processDocument(doc));
+    }
+
+    /**
+     * Pages through the results with cursors, starting from a cursor if given
+     * @returns docIds in the order they were returned
+     */
+    function pageThrough(
+      sortBy: 'relevance' | 'date',
+      next?: string,
+      options: SearchOptions = {}
+    ): string[] {
+      const docIds: string[] = [];
+      do {
+        const page = queryProcessor.processQuery(
+          'rust',
+          1,
+          10,
+          { sortBy },
+          { ...options, cursor: next }
+        );
+        docIds.push(...page.results.map((result) => result.docId));
+        next = page.nextCursor;
+      } while (next);
+      return docIds;
+    }
+
+    it.each(['relevance', 'date'] as const)(
+      'returns every %s result exactly once, in order',
+      (sortBy) => {
+        const all = queryProcessor
+          .processQuery('rust', 1, 100, { sortBy })
+          .results.map((result) => result.docId);
+        expect(all).toHaveLength(25);
+        expect(pageThrough(sortBy)).toEqual(all);
+      }
+    );
+
+    it.each([true, false])(
+      'keeps the scores and order of the first page while documents are indexed (exact count: %p)',
+      async (exactTotalCount) => {
+        const search = (cursor?: string) =>
+          queryProcessor.processQuery(
+            'rust borrow',
+            1,
+            10,
+            { sortBy: 'relevance' },
+            { exactTotalCount, cursor }
+          );
+        const all = queryProcessor.processQuery(
+          'rust borrow',
+          1,
+          100,
+          { sortBy: 'relevance' },
+          { exactTotalCount }
+        ).results;
+        const first = search();
+
+        // New documents change the statistics of both terms and would rank first
+        for (let i = 0; i < 10; i++) {
+          await add(createDocument(`new${i}`, { title: 'borrow', content: 'borrow rust' }));
+        }
+        // A document indexed again after the first page counts as new
+        const reindexed = all[all.length - 1].docId;
+        await add(createDocument(reindexed, { title: 'rust borrow', content: 'borrow' }));
+
+        const returned = [...first.results];
+        for (let next = first.nextCursor; next; ) {
+          const page = search(next);
+          returned.push(...page.results);
+          next = page.nextCursor;
+        }
+
+        const expected = all.filter((result) => result.docId !== reindexed);
+        expect(returned.map((result) => result.docId)).toEqual(
+          expected.map((result) => result.docId)
+        );
+        returned.forEach((result, i) => expect(result.score).toBeCloseTo(expected[i].score, 10));
+      }
+    );
+
+    it.each(['relevance', 'date'] as const)('keeps %s cursors valid across merges', (sortBy) => {
+      const all = queryProcessor
+        .processQuery('rust', 1, 100, { sortBy })
+        .results.map((result) => result.docId);
+      const first = queryProcessor.processQuery('rust', 1, 10, { sortBy });
+
+      indexer.forceMerge();
+      expect(indexer.getStats().segments).toBe(1);
+
+      expect([
+        ...first.results.map((result) => result.docId),
+        ...pageThrough(sortBy, first.nextCursor),
+      ]).toEqual(all);
+    });
+
+    it('expires relevance cursors, but not date cursors, when the index is replaced', () => {
+      const relevance = queryProcessor.processQuery('rust', 1, 10, { sortBy: 'relevance' });
+      const date = queryProcessor.processQuery('rust', 1, 10, { sortBy: 'date' });
+
+      indexer.clear();
+
+      expect(() =>
+        queryProcessor.processQuery(
+          'rust',
+          1,
+          10,
+          { sortBy: 'relevance' },
+          { cursor: relevance.nextCursor }
+        )
+      ).toThrow(expect.objectContaining({ code: 'CURSOR_EXPIRED' }));
+      expect(
+        queryProcessor.processQuery('rust', 1, 10, { sortBy: 'date' }, { cursor: date.nextCursor })
+          .results
+      ).toHaveLength(0);
+    });
+
+    it('rejects a cursor of another query', () => {
+      const { nextCursor } = queryProcessor.processQuery('rust', 1, 10, { sortBy: 'relevance' });
+      expect(() =>
+        queryProcessor.processQuery(
+          'checker',
+          1,
+          10,
+          { sortBy: 'relevance' },
+          { cursor: nextCursor }
+        )
+      ).toThrow(expect.objectContaining({ code: 'INVALID_CURSOR' }));
+    });
+  });
+});
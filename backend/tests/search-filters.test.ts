@@ -0,0 +1,44 @@
+import { SearchFilterError, parseSearchFilters } from '../src/services/search-filters';
+
+describe('parseSearchFilters', () => {
+  it('accepts lists, ranges and dates', () => {
+    expect(
+      parseSearchFilters({
+        subreddits: [' rust ', 'golang'],
+        excludeAuthors: ['bot'],
+        type: 'comment',
+        language: 'de',
+        minRedditScore: 10,
+        maxCommentCount: 0,
+        dateFrom: '2026-01-01',
+        dateTo: Date.UTC(2026, 1, 1),
+      })
+    ).toEqual({
+      subreddits: ['rust', 'golang'],
+      excludeAuthors: ['bot'],
+      type: 'comment',
+      language: 'de',
+      minRedditScore: 10,
+      maxCommentCount: 0,
+      dateFrom: new Date('2026-01-01'),
+      dateTo: new Date(Date.UTC(2026, 1, 1)),
+      sortBy: 'relevance',
+    });
+  });
+
+  it.each([
+    ['not an object', 'filters', 'INVALID_FILTERS'],
+    [{ authors: 'ferris' }, 'filters.authors', 'INVALID_FILTERS'],
+    [{ subreddits: ['rust', ''] }, 'filters.subreddits[1]', 'INVALID_FILTERS'],
+    [{ type: 'link' }, 'filters.type', 'INVALID_FILTERS'],
+    [{ language: 'klingon' }, 'filters.language', 'INVALID_FILTERS'],
+    [{ minRedditScore: '10' }, 'filters.minRedditScore', 'INVALID_FILTERS'],
+    [{ minCommentCount: 5, maxCommentCount: 1 }, 'filters.minCommentCount', 'INVALID_FILTERS'],
+    [{ dateFrom: 'yesterday' }, 'filters.dateFrom', 'INVALID_FILTERS'],
+    [{ dateFrom: '2026-02-01', dateTo: '2026-01-01' }, 'filters.dateFrom', 'INVALID_FILTERS'],
+    [{ sortBy: 'comments' }, 'filters.sortBy', 'INVALID_SORT'],
+  ])('rejects %j', (filters, field, code) => {
+    expect(() => parseSearchFilters(filters)).toThrow(SearchFilterError);
+    expect(() => parseSearchFilters(filters)).toThrow(expect.objectContaining({ field, code }));
+  });
+});
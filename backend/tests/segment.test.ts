@@ -0,0 +1,90 @@
+import { PostingsList } from '../src/models/index';
+import {
+  Segment,
+  createSegment,
+  deserializeSegment,
+  getLiveDocumentCount,
+  getLivePostings,
+  isDeleted,
+  markDeleted,
+  mergeSegments,
+  serializeSegment,
+  unmarkDeleted,
+} from '../src/models/segment';
+
+function posting(docId: string): PostingsList {
+  return { docId, termFrequency: 1, positions: [0] };
+}
+
+function segmentOf(id: number, docIds: string[]): Segment {
+  const segment = createSegment(id);
+  docIds.forEach((docId, ordinal) => {
+    segment.docIds.push(docId);
+    segment.docOrdinals.set(docId, ordinal);
+  });
+  segment.termToPostings.set('rust', docIds.map(posting));
+  segment.exactTermToPostings.set('rust', docIds.map(posting));
+  return segment;
+}
+
+describe('segments', () => {
+  it('marks and clears deletions across bitmap words', () => {
+    const segment = segmentOf(
+      1,
+      Array.from({ length: 40 }, (_, i) => `d${i}`)
+    );
+
+    expect(markDeleted(segment, 33)).toBe(true);
+    expect(markDeleted(segment, 33)).toBe(false);
+    markDeleted(segment, 0);
+    expect(segment.deletions).toEqual([1, 2]);
+    expect(isDeleted(segment, 33)).toBe(true);
+    expect(isDeleted(segment, 32)).toBe(false);
+    expect(getLiveDocumentCount(segment)).toBe(38);
+
+    unmarkDeleted(segment, 33);
+    unmarkDeleted(segment, 33);
+    expect(segment.deletedCount).toBe(1);
+  });
+
+  it('hides the postings of deleted documents', () => {
+    const segment = segmentOf(1, ['a', 'b', 'c']);
+    expect(getLivePostings(segment, segment.termToPostings, 'rust')).toBe(
+      segment.termToPostings.get('rust')
+    );
+
+    markDeleted(segment, 1);
+    expect(getLivePostings(segment, segment.termToPostings, 'rust').map((p) => p.docId)).toEqual([
+      'a',
+      'c',
+    ]);
+    expect(getLivePostings(segment, segment.termToPostings, 'go')).toEqual([]);
+  });
+
+  it('merges live documents in order and drops deleted postings', () => {
+    const older = segmentOf(1, ['a', 'b']);
+    const newer = segmentOf(2, ['c', 'd']);
+    markDeleted(older, 0);
+    markDeleted(newer, 1);
+
+    const merged = mergeSegments(3, [older, newer]);
+    expect(merged.docIds).toEqual(['b', 'c']);
+    expect(merged.docOrdinals).toEqual(
+      new Map([
+        ['b', 0],
+        ['c', 1],
+      ])
+    );
+    expect(merged.termToPostings.get('rust')!.map((p) => p.docId)).toEqual(['b', 'c']);
+    expect(merged.exactTermToPostings.get('rust')!.map((p) => p.docId)).toEqual(['b', 'c']);
+    expect(merged.deletedCount).toBe(0);
+  });
+
+  it('round-trips through JSON with its deletions', () => {
+    const segment = segmentOf(4, ['a', 'b', 'c']);
+    markDeleted(segment, 2);
+
+    const restored = deserializeSegment(JSON.parse(JSON.stringify(serializeSegment(segment))));
+    expect(restored).toEqual(segment);
+  });
+});
@@ -0,0 +1,68 @@
+import { Indexer } from '../src/services/indexer';
+import { QueryParser } from '../src/services/query-parser';
+import { SpellingCorrector } from '../src/services/spelling-corrector';
+import { TextProcessor } from '../src/services/text-processor';
+import { editDistance } from '../src/utils/edit-distance';
+import { createDocument } from './helpers';
+
+describe('editDistance', () => {
+  it('counts insertions, deletions, substitutions and transpositions', () => {
+    expect(editDistance('kitten', 'sitting')).toBe(3);
+    expect(editDistance('teh', 'the')).toBe(1);
+    expect(editDistance('rust', 'rust')).toBe(0);
+    expect(editDistance('', 'go')).toBe(2);
+  });
+
+  it('stops once the distance exceeds the limit', () => {
+    expect(editDistance('kitten', 'sitting', 1)).toBe(2);
+    expect(editDistance('a', 'abcdef', 2)).toBe(3);
+  });
+});
+
+describe('SpellingCorrector', () => {
+  const parser = new QueryParser();
+  let corrector: SpellingCorrector;
+
+  beforeEach(() => {
+    const indexer = new Indexer();
+    const textProcessor = new TextProcessor();
+    corrector = new SpellingCorrector({}, indexer, textProcessor);
+
+    for (const [id, title, content] of [
+      ['d1', 'Python tips', 'docker images for python'],
+      ['d2', 'Python tricks', 'python packaging'],
+      ['d3', 'Rust tips', 'docker and rust'],
+    ]) {
+      indexer.indexDocument(textProcessor.processDocument(createDocument(id, { title, content })));
+    }
+  });
+
+  function suggest(query: string): string | undefined {
+    return corrector.suggest(query, parser.parse(query));
+  }
+
+  it('corrects words missing from the index to the closest indexed word', () => {
+    expect(suggest('pyhton docker')).toBe('python docker');
+    expect(suggest('dockr AND rsut')).toBe('docker AND rust');
+  });
+
+  it('leaves queries whose words are all indexed alone', () => {
+    expect(suggest('python OR rust')).toBeUndefined();
+  });
+
+  it('corrects words in place inside phrases and field prefixes', () => {
+    expect(suggest('"pyhton tips"')).toBe('"python tips"');
+    expect(suggest('title:pyhton')).toBe('title:python');
+  });
+
+  it('does not correct negated words, keyword fields or short words', () => {
+    expect(suggest('rust -pyhton')).toBeUndefined();
+    expect(suggest('subreddit:pyhton')).toBeUndefined();
+    expect(suggest('ru')).toBeUndefined();
+  });
+
+  it('allows a single edit for short words', () => {
+    expect(suggest('rsut')).toBe('rust');
+    expect(suggest('rtsu')).toBeUndefined();
+  });
+});
@@ -0,0 +1,52 @@
+import { SynonymParseError, SynonymService } from '../src/services/synonyms';
+import { TextProcessor } from '../src/services/text-processor';
+
+describe('SynonymService', () => {
+  const textProcessor = new TextProcessor();
+  let synonyms: SynonymService;
+
+  beforeEach(() => {
+    synonyms = new SynonymService({}, textProcessor);
+  });
+
+  it('expands equivalent entries to each other', () => {
+    expect(synonyms.loadRules('# languages\n\njs, javascript, ecmascript\n')).toBe(1);
+    expect(synonyms.getSynonyms('JS')).toEqual(['javascript', 'ecmascript']);
+    expect(synonyms.getSynonyms('javascript')).toEqual(['js', 'ecmascript']);
+  });
+
+  it('expands one-way rules only from their inputs', () => {
+    synonyms.loadRules('k8s => kubernetes');
+    expect(synonyms.getSynonyms('k8s')).toEqual(['kubernetes']);
+    expect(synonyms.getSynonyms('kubernetes')).toEqual([]);
+  });
+
+  it('looks up multi-word entries by their analyzed form', () => {
+    synonyms.loadRules('ml, machine learning');
+    expect(synonyms.getSynonyms('Machine  Learning')).toEqual(['ml']);
+    expect(synonyms.getSynonyms('ml')).toEqual(['machine learning']);
+    expect(synonyms.getMaxEntryLength()).toBe(2);
+  });
+
+  it.each([
+    ['js', 1],
+    ['a => b => c', 1],
+    ['js, javascript\n=> kubernetes', 2],
+  ])('rejects %p', (rules, line) => {
+    synonyms.loadRules('db, database');
+    expect(() => synonyms.loadRules(rules)).toThrow(SynonymParseError);
+    expect(() => synonyms.loadRules(rules)).toThrow(expect.objectContaining({ line }));
+    expect(synonyms.getSynonyms('db')).toEqual(['database']);
+  });
+
+  it('adds synonym tokens at the positions of the entries they expand', () => {
+    synonyms.loadRules('ml, machine learning');
+    const tokens = synonyms.expandTokens(textProcessor.analyze('ml models'));
+    expect(tokens.map((token) => [token.stem, token.position])).toEqual([
+      ['ml', 0],
+      ['machin', 0],
+      ['learn', 1],
+      ['model', 1],
+    ]);
+  });
+});
@@ -0,0 +1,64 @@
+import { TermDictionary } from '../src/services/term-dictionary';
+import { editDistance } from '../src/utils/edit-distance';
+
+describe('TermDictionary', () => {
+  const terms = [
+    'rust',
+    'rusty',
+    'trust',
+    'bust',
+    'rest',
+    'ruts',
+    'python',
+    'pythons',
+    'go',
+    'golang',
+  ];
+  const dictionary = new TermDictionary(terms);
+
+  it('looks up exact terms', () => {
+    expect(dictionary.size).toBe(terms.length);
+    expect(dictionary.has('rust')).toBe(true);
+    expect(dictionary.has('rus')).toBe(false);
+    expect(dictionary.has('zzz')).toBe(false);
+  });
+
+  it('finds terms by prefix, up to a limit', () => {
+    expect(dictionary.prefixMatches('rus')).toEqual(['rust', 'rusty']);
+    expect(dictionary.prefixMatches('python', 1)).toEqual(['python']);
+    expect(dictionary.prefixMatches('zig')).toEqual([]);
+  });
+
+  it('matches wildcard patterns', () => {
+    expect(dictionary.wildcardMatches('r?st')).toEqual(['rest', 'rust']);
+    expect(dictionary.wildcardMatches('*ust')).toEqual(['bust', 'rust', 'trust']);
+    expect(dictionary.wildcardMatches('go*g')).toEqual(['golang']);
+    expect(dictionary.wildcardMatches('go')).toEqual(['go']);
+    expect(dictionary.wildcardMatches('*', 3)).toHaveLength(3);
+  });
+
+  it('finds terms within the edit distance, in dictionary order', () => {
+    expect(dictionary.fuzzyMatches('rust', 1)).toEqual([
+      { term: 'bust', distance: 1 },
+      { term: 'rest', distance: 1 },
+      { term: 'rust', distance: 0 },
+      { term: 'rusty', distance: 1 },
+      { term: 'ruts', distance: 1 },
+      { term: 'trust', distance: 1 },
+    ]);
+    expect(dictionary.fuzzyMatches('pyton', 0)).toEqual([]);
+  });
+
+  it.each([
+    ['rust', 2],
+    ['pyhton', 2],
+    ['g', 1],
+    ['golnag', 2],
+  ])('agrees with editDistance for %p within %p edits', (term, maxEdits) => {
+    const expected = terms
+      .map((candidate) => ({ term: candidate, distance: editDistance(term, candidate) }))
+      .filter((match) => match.distance <= maxEdits)
+      .sort((a, b) => (a.term < b.term ? -1 : 1));
+    expect(dictionary.fuzzyMatches(term, maxEdits)).toEqual(expected);
+  });
+});
@@ -0,0 +1,144 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ProcessedDocument } from '../src/models/document';
+import { Indexer } from '../src/services/indexer';
+import { TextProcessor } from '../src/services/text-processor';
+import { WalRecord, WriteAheadLog } from '../src/services/write-ahead-log';
+import { createDocument } from './helpers';
+
+describe('write-ahead log replay', () => {
+  const textProcessor = new TextProcessor();
+  let dir: string;
+  let indexPath: string;
+  let walPath: string;
+  let indexers: Indexer[];
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'feedvex-wal-'));
+    indexPath = path.join(dir, 'index.bin');
+    walPath = `${indexPath}.wal`;
+    indexers = [];
+  });
+
+  afterEach(async () => {
+    for (const indexer of indexers) {
+      await indexer.close();
+    }
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  /**
+   * Opens the index the way the server does; indexers left open simulate a crash
+   */
+  async function openIndexer(checkpointInterval = 10000): Promise<Indexer> {
+    const indexer = new Indexer({
+      indexPath,
+      autoPersist: true,
+      backgroundMerge: false,
+      checkpointInterval,
+    });
+    indexers.push(indexer);
+    await indexer.load();
+    return indexer;
+  }
+
+  function processed(id: string, content = `content of ${id}`): ProcessedDocument {
+    return textProcessor.processDocument(createDocument(id, { content }));
+  }
+
+  it('replays the changes logged after the last checkpoint', async () => {
+    const crashed = await openIndexer();
+    crashed.indexDocument(processed('d0'));
+    crashed.indexDocument(processed('d1'));
+    await crashed.persist();
+    crashed.indexDocument(processed('d2'));
+    crashed.removeDocument('d0');
+    crashed.purgeDocument('d1');
+    crashed.indexDocument(processed('d1', 'rewritten'));
+
+    const recovered = await openIndexer();
+    expect(recovered.getAllDocumentIds().sort()).toEqual(['d1', 'd2']);
+    expect(recovered.getPostings('rewritten').map((posting) => posting.docId)).toEqual(['d1']);
+    expect(recovered.getTotalDocuments()).toBe(2);
+    expect(recovered.getStats().loggedChanges).toBe(4);
+    expect(recovered.checkIntegrity()).toEqual({
+      errors: [],
+      damagedDocuments: [],
+      staleStats: [],
+    });
+  });
+
+  it('cuts off a record that was not completely written', async () => {
+    const crashed = await openIndexer();
+    crashed.indexDocument(processed('d0'));
+    const intact = (await fs.stat(walPath)).size;
+    await fs.appendFile(walPath, Buffer.from([200, 0, 0, 0, 1, 2]));
+
+    const recovered = await openIndexer();
+    expect(recovered.getAllDocumentIds()).toEqual(['d0']);
+    expect((await fs.stat(walPath)).size).toBe(intact);
+  });
+
+  it('checkpoints every checkpointInterval changes and empties the log', async () => {
+    const indexer = await openIndexer(2);
+    indexer.indexDocument(processed('d0'));
+    await expect(fs.stat(indexPath)).rejects.toMatchObject({ code: 'ENOENT' });
+
+    indexer.indexDocument(processed('d1'));
+    await indexer.persist();
+    expect((await fs.stat(walPath)).size).toBe(0);
+
+    const recovered = await openIndexer();
+    expect(recovered.getAllDocumentIds().sort()).toEqual(['d0', 'd1']);
+  });
+
+  it('logs tokens with their fields and synonym flags', async () => {
+    const document = processed('d0');
+    document.tokens[0].synonym = true;
+    const wal = new WriteAheadLog(walPath);
+    wal.append({ sequence: 1, type: 'index', document });
+    wal.append({ sequence: 2, type: 'remove', docId: 'd0' });
+    wal.close();
+
+    const records: WalRecord[] = [];
+    expect(await new WriteAheadLog(walPath).replay((record) => records.push(record))).toEqual({
+      records: 2,
+      discarded: 0,
+    });
+    const replayed = records[0].type === 'index' ? records[0].document : undefined;
+    expect(replayed?.tokens).toEqual(
+      document.tokens.map(({ text, position, stem, field, synonym }) => ({
+        text,
+        position,
+        stem,
+        field,
+        ...(synonym && { synonym }),
+      }))
+    );
+    expect(records[1]).toEqual({ sequence: 2, type: 'remove', docId: 'd0' });
+  });
+
+  it('skips changes logged after a swap that was not checkpointed', async () => {
+    const first = await openIndexer();
+    first.indexDocument(processed('d0'));
+    await first.close();
+    indexers = [];
+
+    // The index swapped in is not logged, so changes to it cannot be replayed
+    const wal = new WriteAheadLog(walPath);
+    wal.append({ sequence: 2, type: 'index', document: processed('d1') });
+    wal.append({ sequence: 3, type: 'swap' });
+    wal.append({ sequence: 4, type: 'index', document: processed('d2') });
+    wal.close();
+
+    const recovered = await openIndexer();
+    expect(recovered.getAllDocumentIds().sort()).toEqual(['d0', 'd1']);
+
+    // The previous index was checkpointed, so its log no longer holds the swap
+    const reopened = await openIndexer();
+    reopened.indexDocument(processed('d3'));
+    const again = await openIndexer();
+    expect(again.getAllDocumentIds().sort()).toEqual(['d0', 'd1', 'd3']);
+  });
+});
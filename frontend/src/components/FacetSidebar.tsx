@@ -0,0 +1,215 @@
+import type { RangeBucket, SearchFacets, TermsFacet } from '../store/searchStore';
+import './FacetSidebar.css';
+
+export interface RangeSelection {
+  key: string;
+  from?: number;
+  to?: number;
+}
+
+// Facet values currently used as filters
+export interface FacetSelection {
+  subreddits: string[];
+  authors: string[];
+  type: string;
+  redditScore: RangeSelection | null;
+  commentCount: RangeSelection | null;
+}
+
+export const emptyFacetSelection: FacetSelection = {
+  subreddits: [],
+  authors: [],
+  type: '',
+  redditScore: null,
+  commentCount: null,
+};
+
+interface FacetSidebarProps {
+  facets: SearchFacets;
+  selection: FacetSelection;
+  onSelectionChange: (selection: FacetSelection) => void;
+}
+
+const monthFormat = new Intl.DateTimeFormat(undefined, {
+  month: 'short',
+  year: 'numeric',
+  timeZone: 'UTC',
+});
+
+function rangeLabel(bucket: RangeBucket): string {
+  if (bucket.from === undefined) return `Under ${bucket.to!.toLocaleString()}`;
+  if (bucket.to === undefined) return `${bucket.from.toLocaleString()}+`;
+  return `${bucket.from.toLocaleString()} – ${(bucket.to - 1).toLocaleString()}`;
+}
+
+function toggle(values: string[], value: string): string[] {
+  const lower = value.toLowerCase();
+  return values.some((v) => v.toLowerCase() === lower)
+    ? values.filter((v) => v.toLowerCase() !== lower)
+    : [...values, value];
+}
+
+interface FacetOptionProps {
+  label: string;
+  count: number;
+  selected: boolean;
+  onClick: () => void;
+}
+
+function FacetOption({ label, count, selected, onClick }: FacetOptionProps) {
+  return (
+    <li>
+      <button
+        type="button"
+        className={`facet-item facet-option ${selected ? 'selected' : ''}`}
+        aria-pressed={selected}
+        onClick={onClick}
+      >
+        <span className="facet-label">{label}</span>
+        <span className="facet-count">{count.toLocaleString()}</span>
+      </button>
+    </li>
+  );
+}
+
+function TermsOptions({
+  facet,
+  selected,
+  prefix = '',
+  onToggle,
+}: {
+  facet: TermsFacet;
+  selected: string[];
+  prefix?: string;
+  onToggle: (value: string) => void;
+}) {
+  return (
+    <ul className="facet-list">
+      {facet.buckets.map((bucket) => (
+        <FacetOption
+          key={bucket.value}
+          label={`${prefix}${bucket.value}`}
+          count={bucket.count}
+          selected={selected.some((v) => v.toLowerCase() === bucket.value.toLowerCase())}
+          onClick={() => onToggle(bucket.value)}
+        />
+      ))}
+    </ul>
+  );
+}
+
+function RangeOptions({
+  buckets,
+  selected,
+  onSelect,
+}: {
+  buckets: RangeBucket[];
+  selected: RangeSelection | null;
+  onSelect: (range: RangeSelection | null) => void;
+}) {
+  return (
+    <ul className="facet-list">
+      {buckets
+        .filter((bucket) => bucket.count > 0 || bucket.key === selected?.key)
+        .map((bucket) => (
+          <FacetOption
+            key={bucket.key}
+            label={rangeLabel(bucket)}
+            count={bucket.count}
+            selected={bucket.key === selected?.key}
+            onClick={() =>
+              onSelect(
+                bucket.key === selected?.key
+                  ? null
+                  : { key: bucket.key, from: bucket.from, to: bucket.to }
+              )
+            }
+          />
+        ))}
+    </ul>
+  );
+}
+
+export default function FacetSidebar({ facets, selection, onSelectionChange }: FacetSidebarProps) {
+  const maxHistogramCount = Math.max(1, ...(facets.createdUtc ?? []).map((b) => b.count));
+  const update = (changes: Partial<FacetSelection>) =>
+    onSelectionChange({ ...selection, ...changes });
+
+  return (
+    <aside className="facet-sidebar" aria-label="Refine results">
+      {facets.subreddit && facets.subreddit.buckets.length > 0 && (
+        <section className="facet-section">
+          <h4>Subreddit</h4>
+          <TermsOptions
+            facet={facets.subreddit}
+            selected={selection.subreddits}
+            prefix="r/"
+            onToggle={(value) => update({ subreddits: toggle(selection.subreddits, value) })}
+          />
+        </section>
+      )}
+
+      {facets.type && facets.type.buckets.length > 0 && (
+        <section className="facet-section">
+          <h4>Type</h4>
+          <TermsOptions
+            facet={facets.type}
+            selected={selection.type ? [selection.type] : []}
+            onToggle={(value) => update({ type: selection.type === value ? '' : value })}
+          />
+        </section>
+      )}
+
+      {facets.author && facets.author.buckets.length > 0 && (
+        <section className="facet-section">
+          <h4>Author</h4>
+          <TermsOptions
+            facet={facets.author}
+            selected={selection.authors}
+            prefix="u/"
+            onToggle={(value) => update({ authors: toggle(selection.authors, value) })}
+          />
+        </section>
+      )}
+
+      {facets.createdUtc && facets.createdUtc.length > 0 && (
+        <section className="facet-section">
+          <h4>Posted</h4>
+          <ul className="facet-histogram">
+            {facets.createdUtc.map((bucket) => (
+              <li key={bucket.from} title={`${bucket.count.toLocaleString()} results`}>
+                <span className="facet-label">{monthFormat.format(new Date(bucket.from))}</span>
+                <span className="facet-bar">
+                  <span style={{ width: `${(bucket.count / maxHistogramCount) * 100}%` }} />
+                </span>
+                <span className="facet-count">{bucket.count.toLocaleString()}</span>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {facets.redditScore && (
+        <section className="facet-section">
+          <h4>Score</h4>
+          <RangeOptions
+            buckets={facets.redditScore}
+            selected={selection.redditScore}
+            onSelect={(redditScore) => update({ redditScore })}
+          />
+        </section>
+      )}
+
+      {facets.commentCount && (
+        <section className="facet-section">
+          <h4>Comments</h4>
+          <RangeOptions
+            buckets={facets.commentCount}
+            selected={selection.commentCount}
+            onSelect={(commentCount) => update({ commentCount })}
+          />
+        </section>
+      )}
+    </aside>
+  );
+}
@@ -0,0 +1,31 @@
+import { Fragment, type ReactNode } from 'react';
+import type { HighlightRange } from '../store/searchStore';
+
+interface HighlightedTextProps {
+  text: string;
+  ranges: HighlightRange[];
+}
+
+/**
+ * Renders text with the given character ranges wrapped in <mark>
+ * Ranges come from the search API, so no markup is parsed or injected.
+ */
+export default function HighlightedText({ text, ranges }: HighlightedTextProps) {
+  const parts: ReactNode[] = [];
+  let position = 0;
+
+  ranges.forEach((range, index) => {
+    if (range.start < position || range.end > text.length) return;
+    if (range.start > position) {
+      parts.push(<Fragment key={`text-${index}`}>{text.slice(position, range.start)}</Fragment>);
+    }
+    parts.push(<mark key={`mark-${index}`}>{text.slice(range.start, range.end)}</mark>);
+    position = range.end;
+  });
+
+  if (position < text.length) {
+    parts.push(<Fragment key="text-end">{text.slice(position)}</Fragment>);
+  }
+
+  return <>{parts}</>;
+}
@@ -1,14 +1,53 @@
 import { ChevronLeft, ChevronRight } from 'lucide-react';
 import { useState } from 'react';
+import LoadingButton from './LoadingButton';
 import './Pagination.css';
 
-interface PaginationProps {
+// Numbered pages, each replacing the results shown
+interface PageNumbersProps {
+  mode?: 'pages';
   currentPage: number;
   totalPages: number;
   onPageChange: (page: number) => void;
 }
 
-export default function Pagination({ currentPage, totalPages, onPageChange }: PaginationProps) {
+// A single button appending the next results, following the search cursor
+interface LoadMoreProps {
+  mode: 'loadMore';
+  loadedCount: number;
+  totalCount: number;
+  hasMore: boolean;
+  isLoading: boolean;
+  onLoadMore: () => void;
+}
+
+type PaginationProps = PageNumbersProps | LoadMoreProps;
+
+export default function Pagination(props: PaginationProps) {
+  return props.mode === 'loadMore' ? <LoadMore {...props} /> : <PageNumbers {...props} />;
+}
+
+function LoadMore({ loadedCount, totalCount, hasMore, isLoading, onLoadMore }: LoadMoreProps) {
+  return (
+    <div className="pagination pagination-load-more">
+      <span className="pagination-progress" aria-live="polite">
+        Showing {loadedCount.toLocaleString()} of {totalCount.toLocaleString()} results
+      </span>
+      {hasMore && (
+        <LoadingButton
+          className="pagination-button"
+          loading={isLoading}
+          loadingText="Loading..."
+          onClick={onLoadMore}
+        >
+          Load more
+        </LoadingButton>
+      )}
+    </div>
+  );
+}
+
+function PageNumbers({ currentPage, totalPages, onPageChange }: PageNumbersProps) {
   const [pageInput, setPageInput] = useState('');
 
   const handlePageChange = (page: number) => {
@@ -1,6 +1,9 @@
-import { MessageCircle, TrendingUp, Calendar, User } from 'lucide-react';
+import { MessageCircle, TrendingUp, Calendar, User, Layers } from 'lucide-react';
 import { useState } from 'react';
 import { api } from '../services/api';
+import type { ResultHighlight } from '../store/searchStore';
+import HighlightedText from './HighlightedText';
+import SimilarPosts from './SimilarPosts';
 import './ResultCard.css';
 
 interface SearchResult {
@@ -15,6 +18,7 @@ interface SearchResult {
   createdAt: string;
   type: 'post' | 'comment';
   snippet?: string;
+  highlight?: ResultHighlight;
   relevanceScore: number;
 }
 
@@ -25,6 +29,7 @@ interface ResultCardProps {
 
 export default function ResultCard({ result, query }: ResultCardProps) {
   const [isExpanded, setIsExpanded] = useState(false);
+  const [showSimilar, setShowSimilar] = useState(false);
   const SNIPPET_LIMIT = 200;
   
   const handleClick = async (e: React.MouseEvent<HTMLAnchorElement>) => {
@@ -70,27 +75,15 @@ export default function ResultCard({ result, query }: ResultCardProps) {
     return `${Math.floor(diffDays / 365)} years ago`;
   };
 
-  const highlightText = (text: string, query: string) => {
-    if (!query || !text) return text;
-    
-    // Split query into terms and filter out empty strings
-    const terms = query.toLowerCase().split(/\s+/).filter(term => term.length > 0);
-    if (terms.length === 0) return text;
-    
-    // Create a regex pattern that matches any of the query terms
-    const pattern = terms.map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|');
-    const regex = new RegExp(`(${pattern})`, 'gi');
-    
-    // Split text by matches and wrap matches in mark tags
-    const parts = text.split(regex);
-    
-    return parts.map((part, index) => {
-      const isMatch = terms.some(term => part.toLowerCase() === term);
-      return isMatch ? `<mark>${part}</mark>` : part;
-    }).join('');
-  };
+  // Collapsed cards show the first body fragment; expanded cards show all of them
+  const fragments = result.highlight?.body ?? [];
+  const bodyLength = result.highlight?.bodyLength ?? 0;
+  const visibleFragments = isExpanded ? fragments : fragments.slice(0, 1);
 
-  const shouldShowExpand = result.snippet && result.snippet.length > SNIPPET_LIMIT;
+  const shouldShowExpand =
+    fragments.length > 0
+      ? fragments.length > 1
+      : !!result.snippet && result.snippet.length > SNIPPET_LIMIT;
   const displaySnippet = shouldShowExpand && !isExpanded 
     ? result.snippet!.substring(0, SNIPPET_LIMIT) + '...'
     : result.snippet;
@@ -112,15 +105,30 @@ export default function ResultCard({ result, query }: ResultCardProps) {
         rel="noopener noreferrer"
         className="result-title"
         onClick={handleClick}
-        dangerouslySetInnerHTML={{ __html: highlightText(result.title, query) }}
-      />
+      >
+        {result.highlight ? (
+          <HighlightedText
+            text={result.highlight.title.text}
+            ranges={result.highlight.title.ranges}
+          />
+        ) : (
+          result.title
+        )}
+      </a>
 
-      {result.snippet && (
+      {(fragments.length > 0 || result.snippet) && (
         <div className="result-snippet-container">
-          <p 
-            className={`result-snippet ${isExpanded ? 'expanded' : ''}`}
-            dangerouslySetInnerHTML={{ __html: highlightText(displaySnippet || '', query) }} 
-          />
+          <p className={`result-snippet ${isExpanded ? 'expanded' : ''}`}>
+            {fragments.length > 0
+              ? visibleFragments.map((fragment, index) => (
+                  <span key={fragment.start}>
+                    {(index > 0 || fragment.start > 0) && '...'}
+                    <HighlightedText text={fragment.text} ranges={fragment.ranges} />
+                    {index === visibleFragments.length - 1 && fragment.end < bodyLength && '...'}
+                  </span>
+                ))
+              : displaySnippet}
+          </p>
           {shouldShowExpand && (
             <button
               className="expand-button"
@@ -146,10 +154,20 @@ export default function ResultCard({ result, query }: ResultCardProps) {
           <MessageCircle size={14} />
           {result.commentCount}
         </span>
+        <button
+          className="similar-button"
+          onClick={() => setShowSimilar(!showSimilar)}
+          aria-expanded={showSimilar}
+        >
+          <Layers size={14} />
+          Similar posts
+        </button>
         <span className="result-relevance">
           Relevance: {(result.relevanceScore * 100).toFixed(1)}%
         </span>
       </div>
+
+      {showSimilar && <SimilarPosts docId={result.id} subreddit={result.subreddit} />}
     </div>
   );
 }
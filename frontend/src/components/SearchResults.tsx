@@ -1,5 +1,6 @@
 import ResultCard from './ResultCard';
 import SkeletonLoader from './SkeletonLoader';
+import type { ResultHighlight } from '../store/searchStore';
 import './SearchResults.css';
 
 interface SearchResult {
@@ -14,6 +15,7 @@ interface SearchResult {
   createdAt: string;
   type: 'post' | 'comment';
   snippet?: string;
+  highlight?: ResultHighlight;
   relevanceScore: number;
 }
 
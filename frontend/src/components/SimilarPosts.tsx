@@ -0,0 +1,83 @@
+import { useEffect, useState } from 'react';
+import { api } from '../services/api';
+import type { SearchResult } from '../store/searchStore';
+import HighlightedText from './HighlightedText';
+import LoadingSpinner from './LoadingSpinner';
+import './SimilarPosts.css';
+
+interface SimilarPostsProps {
+  docId: string;
+  subreddit: string;
+}
+
+/**
+ * Posts similar to a search result, loaded when the panel opens
+ * Titles are highlighted with the terms the similarity was computed from.
+ */
+export default function SimilarPosts({ docId, subreddit }: SimilarPostsProps) {
+  const [sameSubreddit, setSameSubreddit] = useState(false);
+  const [posts, setPosts] = useState<SearchResult[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+
+    api
+      .getSimilar(docId, 5, sameSubreddit ? subreddit : undefined)
+      .then((data) => {
+        if (!cancelled) setPosts(data.results);
+      })
+      .catch(() => {
+        if (!cancelled) setError('Could not load similar posts');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [docId, subreddit, sameSubreddit]);
+
+  return (
+    <div className="similar-posts">
+      <label className="similar-posts-filter">
+        <input
+          type="checkbox"
+          checked={sameSubreddit}
+          onChange={(e) => setSameSubreddit(e.target.checked)}
+        />
+        Only r/{subreddit}
+      </label>
+
+      {isLoading ? (
+        <LoadingSpinner size="small" />
+      ) : error ? (
+        <p className="similar-posts-message">{error}</p>
+      ) : posts.length === 0 ? (
+        <p className="similar-posts-message">No similar posts found</p>
+      ) : (
+        <ul className="similar-posts-list">
+          {posts.map((post) => (
+            <li key={post.docId}>
+              <a href={post.url} target="_blank" rel="noopener noreferrer">
+                {post.highlight ? (
+                  <HighlightedText
+                    text={post.highlight.title.text}
+                    ranges={post.highlight.title.ranges}
+                  />
+                ) : (
+                  post.title
+                )}
+              </a>
+              <span className="similar-posts-subreddit">r/{post.metadata.subreddit}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,24 +1,37 @@
 import { useState, useEffect } from 'react';
 import { useSearchParams } from 'react-router-dom';
-import { useSearchStore } from '../store/searchStore';
+import { useSearchStore, type FacetRequest } from '../store/searchStore';
 import { useScreenReaderAnnouncement } from '../components/ScreenReaderAnnouncement';
 import SearchBar from '../components/SearchBar';
 import SearchResults from '../components/SearchResults';
 import Pagination from '../components/Pagination';
+import FacetSidebar, { type FacetSelection, emptyFacetSelection } from '../components/FacetSidebar';
 import { Filter, X, Calendar, TrendingUp } from 'lucide-react';
 import './SearchPage.css';
 
+// Facets shown in the sidebar, counted over all results of the query
+const facetRequest: FacetRequest = {
+  subreddit: { size: 10 },
+  type: {},
+  author: { size: 5 },
+  createdUtc: { interval: 'month' },
+  redditScore: {},
+  commentCount: {},
+};
+
 export default function SearchPage() {
   const [searchParams, setSearchParams] = useSearchParams();
-  const { results, isLoading, error, search } = useSearchStore();
+  const { results, isLoading, isLoadingMore, error, search, loadMore } = useSearchStore();
   const [currentPage, setCurrentPage] = useState(1);
+  // Numbered pages, or one growing list that follows the search cursor
+  const [pagingMode, setPagingMode] = useState<'pages' | 'loadMore'>('pages');
   const [showFilters, setShowFilters] = useState(false);
   const { announce } = useScreenReaderAnnouncement();
   const [filters, setFilters] = useState({
-    subreddit: '',
     sortBy: 'relevance',
     dateRange: 'all',
   });
+  const [facetSelection, setFacetSelection] = useState<FacetSelection>(emptyFacetSelection);
   const pageSize = 10;
 
   const query = searchParams.get('q') || '';
@@ -39,10 +52,7 @@ export default function SearchPage() {
       // Build filters object for API
       const apiFilters: any = {};
       
-      if (filters.subreddit) {
-        apiFilters.subreddit = filters.subreddit;
-      }
-      
+
       if (filters.sortBy && filters.sortBy !== 'relevance') {
         apiFilters.sortBy = filters.sortBy;
       }
@@ -71,9 +81,34 @@ export default function SearchPage() {
         }
       }
       
-      search(query, currentPage, pageSize, Object.keys(apiFilters).length > 0 ? apiFilters : undefined);
+      if (facetSelection.subreddits.length > 0) {
+        apiFilters.subreddits = facetSelection.subreddits;
+      }
+
+      if (facetSelection.authors.length > 0) {
+        apiFilters.authors = facetSelection.authors;
+      }
+
+      if (facetSelection.type) {
+        apiFilters.type = facetSelection.type;
+      }
+
+      // Facet ranges exclude their upper bound; filter ranges include it
+      const { redditScore, commentCount } = facetSelection;
+      if (redditScore?.from !== undefined) apiFilters.minRedditScore = redditScore.from;
+      if (redditScore?.to !== undefined) apiFilters.maxRedditScore = redditScore.to - 1;
+      if (commentCount?.from !== undefined) apiFilters.minCommentCount = commentCount.from;
+      if (commentCount?.to !== undefined) apiFilters.maxCommentCount = commentCount.to - 1;
+
+      search(
+        query,
+        currentPage,
+        pageSize,
+        Object.keys(apiFilters).length > 0 ? apiFilters : undefined,
+        facetRequest
+      );
     }
-  }, [query, currentPage, filters, search]);
+  }, [query, currentPage, filters, facetSelection, search]);
 
   const handleSearch = (newQuery: string) => {
     setSearchParams({ q: newQuery });
@@ -87,19 +122,68 @@ export default function SearchPage() {
 
   const handleFilterChange = (key: string, value: string) => {
     setFilters((prev) => ({ ...prev, [key]: value }));
+    setCurrentPage(1);
+  };
+
+  const handlePagingModeChange = (mode: 'pages' | 'loadMore') => {
+    setPagingMode(mode);
+    setCurrentPage(1);
+  };
+
+  const handleFacetSelectionChange = (selection: FacetSelection) => {
+    setFacetSelection(selection);
+    setCurrentPage(1);
   };
 
   const clearFilters = () => {
     setFilters({
-      subreddit: '',
       sortBy: 'relevance',
       dateRange: 'all',
     });
+    setFacetSelection(emptyFacetSelection);
+    setCurrentPage(1);
   };
 
-  const activeFiltersCount = Object.values(filters).filter(
-    (v) => v && v !== 'relevance' && v !== 'all'
-  ).length;
+  const facetChips = [
+    ...facetSelection.subreddits.map((subreddit) => ({
+      label: `r/${subreddit}`,
+      clear: () =>
+        handleFacetSelectionChange({
+          ...facetSelection,
+          subreddits: facetSelection.subreddits.filter((s) => s !== subreddit),
+        }),
+    })),
+    ...facetSelection.authors.map((author) => ({
+      label: `u/${author}`,
+      clear: () =>
+        handleFacetSelectionChange({
+          ...facetSelection,
+          authors: facetSelection.authors.filter((a) => a !== author),
+        }),
+    })),
+    ...(facetSelection.type
+      ? [{
+          label: facetSelection.type === 'post' ? 'Posts' : 'Comments',
+          clear: () => handleFacetSelectionChange({ ...facetSelection, type: '' }),
+        }]
+      : []),
+    ...(facetSelection.redditScore
+      ? [{
+          label: `Score: ${facetSelection.redditScore.key}`,
+          clear: () => handleFacetSelectionChange({ ...facetSelection, redditScore: null }),
+        }]
+      : []),
+    ...(facetSelection.commentCount
+      ? [{
+          label: `Comments: ${facetSelection.commentCount.key}`,
+          clear: () => handleFacetSelectionChange({ ...facetSelection, commentCount: null }),
+        }]
+      : []),
+  ];
+
+  const activeFiltersCount =
+    Object.values(filters).filter((v) => v && v !== 'relevance' && v !== 'all').length +
+    facetChips.length;
 
   return (
     <div className="search-page">
@@ -146,17 +230,6 @@ export default function SearchPage() {
             </div>
 
             <div className="filters-grid">
-              <div className="filter-group">
-                <label>Subreddit</label>
-                <input
-                  type="text"
-                  placeholder="e.g., python, programming"
-                  value={filters.subreddit}
-                  onChange={(e) => handleFilterChange('subreddit', e.target.value)}
-                  className="filter-input"
-                />
-              </div>
-
               <div className="filter-group">
                 <label>Sort By</label>
                 <select
@@ -187,18 +260,30 @@ export default function SearchPage() {
                   <option value="year">Past Year</option>
                 </select>
               </div>
+
+              <div className="filter-group">
+                <label>Results</label>
+                <select
+                  value={pagingMode}
+                  onChange={(e) => handlePagingModeChange(e.target.value as 'pages' | 'loadMore')}
+                  className="filter-select"
+                >
+                  <option value="pages">Numbered Pages</option>
+                  <option value="loadMore">Load More</option>
+                </select>
+              </div>
             </div>
 
             {activeFiltersCount > 0 && (
               <div className="active-filters">
-                {filters.subreddit && (
-                  <span className="filter-chip">
-                    r/{filters.subreddit}
-                    <button onClick={() => handleFilterChange('subreddit', '')}>
+                {facetChips.map((chip) => (
+                  <span key={chip.label} className="filter-chip">
+                    {chip.label}
+                    <button onClick={chip.clear}>
                       <X size={14} />
                     </button>
                   </span>
-                )}
+                ))}
                 {filters.sortBy !== 'relevance' && (
                   <span className="filter-chip">
                     Sort: {filters.sortBy}
@@ -220,6 +305,16 @@ export default function SearchPage() {
           </div>
         )}
 
+        {results?.suggestion && !isLoading && (
+          <div className="spelling-suggestion">
+            Did you mean{' '}
+            <button type="button" onClick={() => handleSearch(results.suggestion!)}>
+              {results.suggestion}
+            </button>
+            ?
+          </div>
+        )}
+
         {error && (
           <div className="error-message">
             <p>{error}</p>
@@ -232,16 +327,35 @@ export default function SearchPage() {
             <p>Searching...</p>
           </div>
         ) : results ? (
-          <>
-            <SearchResults results={results.results} query={query} />
-            {results.total > pageSize && (
-              <Pagination
-                currentPage={currentPage}
-                totalPages={Math.ceil(results.total / pageSize)}
-                onPageChange={handlePageChange}
+          <div className={`search-body ${results.facets ? 'with-facets' : ''}`}>
+            {results.facets && (
+              <FacetSidebar
+                facets={results.facets}
+                selection={facetSelection}
+                onSelectionChange={handleFacetSelectionChange}
               />
             )}
-          </>
+            <div className="search-main">
+              <SearchResults results={results.results} query={query} />
+              {results.total > pageSize &&
+                (pagingMode === 'loadMore' ? (
+                  <Pagination
+                    mode="loadMore"
+                    loadedCount={results.results.length}
+                    totalCount={results.total}
+                    hasMore={!!results.nextCursor}
+                    isLoading={isLoadingMore}
+                    onLoadMore={loadMore}
+                  />
+                ) : (
+                  <Pagination
+                    currentPage={currentPage}
+                    totalPages={Math.ceil(results.total / pageSize)}
+                    onPageChange={handlePageChange}
+                  />
+                ))}
+            </div>
+          </div>
         ) : query ? (
           <div className="empty-state">
             <div className="empty-icon">🔍</div>
@@ -63,8 +63,29 @@ export const authAPI = {
 
 // Search API
 export const api = {
-  search: async (query: string, page: number = 1, pageSize: number = 10, filters?: any) => {
-    const response = await apiClient.post('/search', { query, page, pageSize, filters });
+  search: async (
+    query: string,
+    page: number = 1,
+    pageSize: number = 10,
+    filters?: any,
+    facets?: any,
+    cursor?: string
+  ) => {
+    const response = await apiClient.post('/search', {
+      query,
+      page,
+      pageSize,
+      filters,
+      facets,
+      cursor,
+    });
+    return response.data;
+  },
+
+  getSimilar: async (docId: string, limit: number = 5, subreddit?: string) => {
+    const response = await apiClient.get(`/documents/${encodeURIComponent(docId)}/similar`, {
+      params: { limit, subreddit },
+    });
     return response.data;
   },
 
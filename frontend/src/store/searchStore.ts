@@ -1,11 +1,32 @@
 import { create } from 'zustand';
+import axios from 'axios';
 import { api } from '../services/api';
 
+export interface HighlightRange {
+  start: number;
+  end: number;
+}
+
+export interface HighlightFragment {
+  text: string;
+  start: number;
+  end: number;
+  ranges: HighlightRange[];
+  score: number;
+}
+
+export interface ResultHighlight {
+  title: HighlightFragment;
+  body: HighlightFragment[];
+  bodyLength: number;
+}
+
 export interface SearchResult {
   docId: string;
   title: string;
   url: string;
   snippet: string;
+  highlight?: ResultHighlight;
   score: number;
   metadata: {
     author: string;
@@ -16,21 +37,73 @@ export interface SearchResult {
   };
 }
 
+export interface TermsFacet {
+  buckets: { value: string; count: number }[];
+  otherCount: number;
+}
+
+export interface HistogramBucket {
+  from: string;
+  to: string;
+  count: number;
+}
+
+export interface RangeBucket {
+  key: string;
+  from?: number;
+  to?: number;
+  count: number;
+}
+
+export interface SearchFacets {
+  subreddit?: TermsFacet;
+  author?: TermsFacet;
+  type?: TermsFacet;
+  createdUtc?: HistogramBucket[];
+  redditScore?: RangeBucket[];
+  commentCount?: RangeBucket[];
+}
+
+// Facets to request, keyed by facet name (e.g. { subreddit: { size: 10 } })
+export type FacetRequest = Partial<
+  Record<keyof SearchFacets, { size?: number; interval?: string; ranges?: number[] }>
+>;
+
 export interface SearchResults {
   results: SearchResult[];
   total: number;
   page: number;
   pageSize: number;
   processingTime: number;
+  suggestion?: string;
+  facets?: SearchFacets;
+  nextCursor?: string; // continues after the last loaded result
+}
+
+// Arguments of the last search, reused to load more results
+interface SearchRequest {
+  query: string;
+  pageSize: number;
+  filters?: any;
+  facets?: FacetRequest;
 }
 
 interface SearchState {
   query: string;
   results: SearchResults | null;
   isLoading: boolean;
+  isLoadingMore: boolean;
   error: string | null;
   currentPage: number;
-  search: (query: string, page?: number, pageSize?: number, filters?: any) => Promise<void>;
+  lastRequest: SearchRequest | null;
+  search: (
+    query: string,
+    page?: number,
+    pageSize?: number,
+    filters?: any,
+    facets?: FacetRequest
+  ) => Promise<void>;
+  loadMore: () => Promise<void>;
   setQuery: (query: string) => void;
   setResults: (results: SearchResults | null) => void;
   setLoading: (loading: boolean) => void;
@@ -43,13 +116,15 @@ export const useSearchStore = create<SearchState>((set, get) => ({
   query: '',
   results: null,
   isLoading: false,
+  isLoadingMore: false,
   error: null,
   currentPage: 1,
+  lastRequest: null,
 
-  search: async (query: string, page = 1, pageSize = 10, filters?: any) => {
-    set({ isLoading: true, error: null, query });
+  search: async (query: string, page = 1, pageSize = 10, filters?: any, facets?: FacetRequest) => {
+    set({ isLoading: true, error: null, query, lastRequest: { query, pageSize, filters, facets } });
     try {
-      const response = await api.search(query, page, pageSize, filters);
+      const response = await api.search(query, page, pageSize, filters, facets);
       set({
         results: {
           results: response.results || [],
@@ -57,6 +132,9 @@ export const useSearchStore = create<SearchState>((set, get) => ({
           page: response.page || page,
           pageSize: response.pageSize || pageSize,
           processingTime: response.queryTimeMs || 0,
+          suggestion: response.suggestion,
+          facets: response.facets,
+          nextCursor: response.nextCursor,
         },
         isLoading: false,
       });
@@ -69,6 +147,49 @@ export const useSearchStore = create<SearchState>((set, get) => ({
     }
   },
 
+  // Appends the results following the loaded ones
+  loadMore: async () => {
+    const { results, lastRequest, isLoadingMore } = get();
+    if (!results?.nextCursor || !lastRequest || isLoadingMore) return;
+
+    const cursor = results.nextCursor;
+    const { query, pageSize, filters, facets } = lastRequest;
+    // A new search or another page may have replaced the results while this one was loading
+    const isStale = () => {
+      const current = get();
+      return current.lastRequest !== lastRequest || current.results?.nextCursor !== cursor;
+    };
+
+    set({ isLoadingMore: true, error: null });
+    try {
+      const response = await api.search(query, 1, pageSize, filters, undefined, cursor);
+      const current = get().results;
+      if (isStale() || !current) {
+        set({ isLoadingMore: false });
+        return;
+      }
+      set({
+        results: {
+          ...current,
+          results: [...current.results, ...(response.results || [])],
+          total: response.totalCount || current.total,
+          processingTime: response.queryTimeMs || 0,
+          nextCursor: response.nextCursor,
+        },
+        isLoadingMore: false,
+      });
+    } catch (error) {
+      set({ isLoadingMore: false });
+      if (isStale()) return;
+      // The index was replaced since the first page; start over from fresh results
+      if (axios.isAxiosError(error) && error.response?.data?.error?.code === 'CURSOR_EXPIRED') {
+        await get().search(query, 1, pageSize, filters, facets);
+        return;
+      }
+      set({ error: error instanceof Error ? error.message : 'Failed to load more results' });
+    }
+  },
+
   setQuery: (query) => set({ query }),
   setResults: (results) => set({ results }),
   setLoading: (isLoading) => set({ isLoading }),
@@ -79,7 +200,9 @@ export const useSearchStore = create<SearchState>((set, get) => ({
     query: '',
     results: null,
     isLoading: false,
+    isLoadingMore: false,
     error: null,
     currentPage: 1,
+    lastRequest: null,
   }),
 }));
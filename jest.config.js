@@ -1,11 +1,10 @@
 module.exports = {
   preset: 'ts-jest',
   testEnvironment: 'node',
-  roots: ['<rootDir>/backend/src', '<rootDir>/backend/utils'],
+  roots: ['<rootDir>/backend/src', '<rootDir>/backend/tests'],
   testMatch: ['**/__tests__/**/*.ts', '**/?(*.)+(spec|test).ts'],
   collectCoverageFrom: [
     'backend/src/**/*.ts',
-    'backend/utils/**/*.ts',
     '!backend/src/**/*.test.ts',
     '!backend/src/**/*.spec.ts',
     '!backend/src/index.ts',